@@ -24,7 +24,11 @@ const App = () => (
         <Sonner />
         <BrowserRouter>
           <Routes>
-            <Route path="/" element={<Index />} />
+            <Route path="/" element={<Index />}>
+              {/* Invite links open the app straight into a room; Index stays mounted when it clears the path */}
+              <Route path="play/:gameType/:roomCode" />
+              <Route path="play/:roomCode" />
+            </Route>
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
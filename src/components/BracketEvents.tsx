@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Crown, Play, Plus, Swords, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import BracketView from '@/components/BracketView';
+import { useBracket, useBracketEvents } from '@/hooks/useBrackets';
+import { useUserProfile } from '@/contexts/UserProfileContext';
+import {
+  BRACKET_GAMES,
+  awardBracketMatch,
+  createBracketEvent,
+  openBracketMatch,
+  registerForBracket,
+  startBracket,
+  withdrawFromBracket,
+  type BracketEvent,
+  type BracketFormat,
+  type BracketMatch,
+} from '@/utils/brackets';
+import { haptics } from '@/utils/haptics';
+import { toast } from '@/hooks/use-toast';
+
+interface BracketEventsProps {
+  enabled: boolean;
+  /** Open a match room; the dialog closes and the game joins it */
+  onPlay: (gameType: string, roomCode: string) => void;
+}
+
+const MAX_PLAYER_OPTIONS = [4, 8, 16, 32];
+
+const STATUS_LABELS: Record<BracketEvent['status'], string> = {
+  registration: 'Open',
+  running: 'In Progress',
+  finished: 'Finished',
+};
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg text-xs font-orbitron whitespace-nowrap transition-all ${
+    active
+      ? 'bg-neon-cyan/20 text-neon-cyan border border-neon-cyan'
+      : 'bg-muted/50 text-muted-foreground border border-transparent hover:bg-muted'
+  }`;
+
+const gameLabel = (gameType: string) => BRACKET_GAMES.find(g => g.id === gameType)?.label ?? gameType;
+
+const showError = (title: string, err: unknown) => {
+  console.error(`${title}:`, err);
+  haptics.error();
+  toast({ variant: 'destructive', title, description: err instanceof Error ? err.message : 'Please try again.' });
+};
+
+const BracketEvents: React.FC<BracketEventsProps> = ({ enabled, onPlay }) => {
+  const { profile } = useUserProfile();
+  const playerName = profile.displayName || profile.username;
+  const { events, isLoading, error: listError } = useBracketEvents(enabled);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { event, players, matches, myUserId, error: eventError, reload } = useBracket(enabled ? selectedId : null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [form, setForm] = useState({ name: '', gameType: BRACKET_GAMES[0].id, format: 'single' as BracketFormat, maxPlayers: 8 });
+
+  const run = async (title: string, action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      showError(title, err);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    try {
+      const created = await createBracketEvent({ ...form, playerName });
+      haptics.success();
+      toast({ title: 'Event Created!', description: 'Share it with your players, then start it once everyone has joined.' });
+      setIsCreating(false);
+      setSelectedId(created.id);
+    } catch (err) {
+      showError('Could Not Create Event', err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePlay = async (match: BracketMatch) => {
+    setIsBusy(true);
+    try {
+      const roomCode = await openBracketMatch(match.id);
+      onPlay(event.gameType, roomCode);
+    } catch (err) {
+      showError('Could Not Open Match', err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAward = async (match: BracketMatch, winnerId: string) => {
+    const ok = await run('Could Not Decide Match', () => awardBracketMatch(match.id, winnerId));
+    if (ok) haptics.success();
+  };
+
+  if (listError) {
+    return <p className="text-center py-8 text-muted-foreground font-rajdhani">{listError}</p>;
+  }
+
+  // ---------- One event ----------
+  if (selectedId) {
+    const playerNames = Object.fromEntries(players.map(p => [p.userId, p.playerName]));
+    const isRegistered = !!myUserId && players.some(p => p.userId === myUserId);
+    const isOrganiser = !!event && event.organiserId === myUserId;
+    const myMatch = matches.find(m =>
+      !m.completed && m.player1Id && m.player2Id && (m.player1Id === myUserId || m.player2Id === myUserId)
+    );
+    const opponentId = myMatch && (myMatch.player1Id === myUserId ? myMatch.player2Id : myMatch.player1Id);
+
+    return (
+      <div className="space-y-4">
+        <button
+          onClick={() => setSelectedId(null)}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground font-rajdhani"
+        >
+          <ArrowLeft className="w-3.5 h-3.5" />
+          All events
+        </button>
+
+        {eventError ? (
+          <p className="text-center py-8 text-muted-foreground font-rajdhani">{eventError}</p>
+        ) : !event ? (
+          <p className="text-center py-8 text-muted-foreground font-rajdhani">Loading event...</p>
+        ) : (
+          <>
+            <div className="p-4 rounded-xl border-2 border-neon-purple/50 bg-neon-purple/10">
+              <div className="flex items-center gap-2 mb-1">
+                <h3 className="font-orbitron text-lg text-foreground truncate">{event.name}</h3>
+                <Badge variant="outline" className="border-neon-purple text-neon-purple">{STATUS_LABELS[event.status]}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground font-rajdhani">
+                {gameLabel(event.gameType)} • {event.format === 'double' ? 'Double' : 'Single'} elimination • organised by {event.organiserName}
+              </p>
+              {event.status === 'finished' && event.championId && (
+                <p className="mt-2 flex items-center gap-2 font-orbitron text-neon-orange">
+                  <Crown className="w-4 h-4" />
+                  {playerNames[event.championId] ?? 'Unknown'} wins!
+                </p>
+              )}
+            </div>
+
+            {event.status === 'registration' && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {isRegistered ? (
+                    <Button
+                      variant="outline"
+                      disabled={isBusy}
+                      onClick={() => run('Could Not Leave Event', () => withdrawFromBracket(event.id))}
+                    >
+                      Leave Event
+                    </Button>
+                  ) : (
+                    <Button
+                      disabled={isBusy || players.length >= event.maxPlayers}
+                      onClick={async () => {
+                        // Registering may sign this device in, so load again to recognise our entry
+                        if (await run('Could Not Join Event', () => registerForBracket(event.id, playerName))) {
+                          haptics.success();
+                          reload();
+                        }
+                      }}
+                      className="bg-neon-green/20 border border-neon-green text-neon-green hover:bg-neon-green/30"
+                    >
+                      Join Event
+                    </Button>
+                  )}
+                  {isOrganiser && (
+                    <Button
+                      disabled={isBusy || players.length < 2}
+                      onClick={() => run('Could Not Start Event', () => startBracket(event.id))}
+                      className="bg-neon-orange/20 border border-neon-orange text-neon-orange hover:bg-neon-orange/30"
+                    >
+                      Start Bracket
+                    </Button>
+                  )}
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground font-rajdhani mb-2 flex items-center gap-1">
+                    <Users className="w-3.5 h-3.5" />
+                    {players.length}/{event.maxPlayers} players registered
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {players.map(p => (
+                      <Badge key={p.userId} variant="outline" className={p.userId === myUserId ? 'border-neon-cyan text-neon-cyan' : ''}>
+                        {p.playerName}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {myMatch && (
+              <div className="flex items-center justify-between gap-3 p-3 rounded-xl border border-neon-cyan bg-neon-cyan/10">
+                <div className="min-w-0">
+                  <p className="font-orbitron text-sm text-foreground">Your match is ready</p>
+                  <p className="text-xs text-muted-foreground font-rajdhani truncate">
+                    vs {playerNames[opponentId] ?? 'Unknown'}
+                  </p>
+                </div>
+                <Button disabled={isBusy} onClick={() => handlePlay(myMatch)} className="flex-shrink-0">
+                  <Play className="w-4 h-4 mr-1" />
+                  Play
+                </Button>
+              </div>
+            )}
+
+            {matches.length > 0 && (
+              <BracketView
+                matches={matches}
+                playerNames={playerNames}
+                myUserId={myUserId}
+                onAward={isOrganiser && event.status === 'running' && !isBusy ? handleAward : undefined}
+              />
+            )}
+          </>
+        )}
+      </div>
+    );
+  }
+
+  // ---------- New event ----------
+  if (isCreating) {
+    return (
+      <div className="space-y-4">
+        <Input
+          value={form.name}
+          onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Event name, e.g. Friday Game Night"
+          maxLength={50}
+        />
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground font-rajdhani">Game</p>
+          <div className="flex flex-wrap gap-2">
+            {BRACKET_GAMES.map(game => (
+              <button
+                key={game.id}
+                onClick={() => setForm(prev => ({ ...prev, gameType: game.id }))}
+                className={chipClass(form.gameType === game.id)}
+              >
+                {game.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground font-rajdhani">Format</p>
+          <div className="flex gap-2">
+            <button onClick={() => setForm(prev => ({ ...prev, format: 'single' }))} className={chipClass(form.format === 'single')}>
+              Single Elimination
+            </button>
+            <button onClick={() => setForm(prev => ({ ...prev, format: 'double' }))} className={chipClass(form.format === 'double')}>
+              Double Elimination
+            </button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground font-rajdhani">Maximum players</p>
+          <div className="flex gap-2">
+            {MAX_PLAYER_OPTIONS.map(size => (
+              <button
+                key={size}
+                onClick={() => setForm(prev => ({ ...prev, maxPlayers: size }))}
+                className={chipClass(form.maxPlayers === size)}
+              >
+                {size}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsCreating(false)}>Cancel</Button>
+          <Button disabled={isBusy} onClick={handleCreate} className="flex-1">Create Event</Button>
+        </div>
+      </div>
+    );
+  }
+
+  // ---------- Event list ----------
+  return (
+    <div className="space-y-3">
+      <Button onClick={() => setIsCreating(true)} className="w-full">
+        <Plus className="w-4 h-4 mr-1" />
+        New Event
+      </Button>
+      {events.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Swords className="w-12 h-12 mx-auto mb-2 opacity-30" />
+          <p className="font-rajdhani">{isLoading ? 'Loading events...' : 'No events yet. Organise one for your next game night!'}</p>
+        </div>
+      ) : (
+        events.map(e => (
+          <button
+            key={e.id}
+            onClick={() => setSelectedId(e.id)}
+            className="w-full text-left p-3 rounded-xl border border-border bg-card/50 hover:border-neon-purple transition-all"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-rajdhani font-semibold text-foreground truncate">{e.name}</p>
+              <Badge variant="outline">{STATUS_LABELS[e.status]}</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground font-rajdhani">
+              {gameLabel(e.gameType)} • {e.format === 'double' ? 'Double' : 'Single'} elimination • {e.organiserName}
+            </p>
+          </button>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default BracketEvents;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import type { BracketMatch } from '@/utils/brackets';
+
+interface BracketViewProps {
+  matches: BracketMatch[];
+  playerNames: Record<string, string>;
+  myUserId: string | null;
+  /** Organiser only: move a player on without playing the match */
+  onAward?: (match: BracketMatch, winnerId: string) => void;
+}
+
+const BRACKET_ORDER: BracketMatch['bracket'][] = ['winners', 'losers', 'final'];
+
+const roundTitle = (bracket: BracketMatch['bracket'], round: number, lastRound: number, hasLosers: boolean) => {
+  if (bracket === 'final') return round === 1 ? 'Grand Final' : 'Grand Final Reset';
+  if (bracket === 'losers') return round === lastRound ? 'Losers Final' : `Losers Round ${round}`;
+  if (round === lastRound) return hasLosers ? 'Winners Final' : 'Final';
+  if (round === lastRound - 1) return 'Semifinals';
+  return `Round ${round}`;
+};
+
+const BracketView: React.FC<BracketViewProps> = ({ matches, playerNames, myUserId, onAward }) => {
+  const hasLosers = matches.some(m => m.bracket === 'losers');
+
+  // A settled match with nobody in it only existed to carry a bye through
+  const visible = matches.filter(m => !m.isSettled || m.player1Id || m.player2Id);
+
+  const renderSlot = (match: BracketMatch, playerId: string | null) => {
+    const decided = match.isSettled || match.completed;
+    const isWinner = match.completed && playerId !== null && match.winnerId === playerId;
+    const isLoser = match.completed && playerId !== null && match.winnerId !== playerId;
+    return (
+      <div
+        className={`flex items-center justify-between gap-2 px-2 py-1 rounded text-xs font-rajdhani ${
+          isWinner ? 'bg-neon-green/15 text-neon-green font-semibold' : isLoser ? 'text-muted-foreground line-through' : 'text-foreground'
+        }`}
+      >
+        <span className="truncate">
+          {playerId ? playerNames[playerId] ?? 'Unknown' : decided ? 'Bye' : 'TBD'}
+          {playerId && playerId === myUserId && <span className="ml-1 text-neon-cyan">(You)</span>}
+        </span>
+        {isWinner && <Trophy className="w-3 h-3 flex-shrink-0" />}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {BRACKET_ORDER.map(bracket => {
+        const inBracket = visible.filter(m => m.bracket === bracket);
+        if (inBracket.length === 0) return null;
+        const rounds = Array.from(new Set(inBracket.map(m => m.round))).sort((a, b) => a - b);
+        const lastRound = Math.max(...matches.filter(m => m.bracket === bracket).map(m => m.round));
+
+        return (
+          <div key={bracket}>
+            {hasLosers && (
+              <h4 className="font-orbitron text-xs uppercase tracking-wider text-muted-foreground mb-2">
+                {bracket === 'winners' ? 'Winners Bracket' : bracket === 'losers' ? 'Losers Bracket' : 'Grand Final'}
+              </h4>
+            )}
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {rounds.map(round => (
+                <div key={round} className="flex flex-col justify-around gap-2 min-w-[160px]">
+                  <p className="font-orbitron text-[10px] uppercase tracking-wider text-neon-cyan text-center">
+                    {roundTitle(bracket, round, lastRound, hasLosers)}
+                  </p>
+                  {inBracket
+                    .filter(m => m.round === round)
+                    .sort((a, b) => a.position - b.position)
+                    .map(match => {
+                      const isMine = !!myUserId && (match.player1Id === myUserId || match.player2Id === myUserId);
+                      const canAward = onAward && !match.completed && match.player1Id && match.player2Id;
+                      return (
+                        <div
+                          key={match.id}
+                          className={`rounded-lg border p-1 space-y-0.5 ${
+                            isMine && !match.completed ? 'border-neon-cyan bg-neon-cyan/10' : 'border-border bg-card/50'
+                          }`}
+                        >
+                          {renderSlot(match, match.player1Id)}
+                          {renderSlot(match, match.player2Id)}
+                          {match.walkover && match.completed && match.player1Id && match.player2Id && (
+                            <p className="text-[10px] text-muted-foreground text-center font-rajdhani">Decided by the organiser</p>
+                          )}
+                          {canAward && (
+                            <div className="flex gap-1 pt-1">
+                              {[match.player1Id, match.player2Id].map(playerId => (
+                                <button
+                                  key={playerId}
+                                  onClick={() => onAward(match, playerId)}
+                                  className="flex-1 truncate px-1 py-0.5 rounded text-[10px] font-rajdhani bg-muted/50 text-muted-foreground hover:bg-muted"
+                                  title={`Move ${playerNames[playerId] ?? 'this player'} on without playing`}
+                                >
+                                  Advance {playerNames[playerId] ?? '?'}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BracketView;
@@ -319,7 +319,6 @@ const FloatingActionPanel: React.FC<FloatingActionPanelProps> = ({
                   <span>Chat</span>
                 </div>
                 <FloatingChat
-                  channelRef={channelRef}
                   playerName={playerName}
                   roomId={roomId}
                   compact={true}
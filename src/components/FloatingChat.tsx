@@ -1,43 +1,34 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { MessageCircle, X, Send, Minimize2, Maximize2 } from 'lucide-react';
+import { MessageCircle, X, Send, Minimize2, Maximize2, VolumeX, Volume2, Flag, Trash2 } from 'lucide-react';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
-
-interface ChatMessage {
-  id: string;
-  playerName: string;
-  playerId?: string;
-  message: string;
-  timestamp: number;
-  isOwn: boolean;
-}
+import { useRoomChat } from '@/hooks/useRoomChat';
+import type { RoomChatMessage } from '@/utils/roomChat';
+import { toast } from '@/hooks/use-toast';
 
 interface FloatingChatProps {
-  channelRef?: React.MutableRefObject<any>;
   playerName?: string;
   roomId?: string;
   compact?: boolean;
 }
 
-const FloatingChat: React.FC<FloatingChatProps> = ({ channelRef, playerName = 'You', roomId, compact = false }) => {
-  // Get user ID from profile
-  const getUserId = () => {
-    try {
-      const profile = JSON.parse(localStorage.getItem('mindgames-user-profile') || '{}');
-      return profile.id || `user_${Date.now()}`;
-    } catch {
-      return `user_${Date.now()}`;
-    }
-  };
+const FloatingChat: React.FC<FloatingChatProps> = ({ playerName = 'You', roomId, compact = false }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const chat = useRoomChat(roomId ?? null, (message) => {
+    if (message.senderId === chat.myUserId || (message.senderId && chat.mutedPlayers.includes(message.senderId))) return;
+    soundManager.playLocalSound('notification');
+    haptics.light();
+  });
+  const { messages, myUserId, isHost, mutedPlayers } = chat;
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -54,82 +45,81 @@ const FloatingChat: React.FC<FloatingChatProps> = ({ channelRef, playerName = 'Y
     }
   }, [isOpen, isMinimized]);
 
-  // Listen for chat messages from other players
-  useEffect(() => {
-    if (!channelRef?.current) return;
-
-    const handleChatMessage = (payload: any) => {
-      if (payload?.type === 'chat' && payload?.message && payload?.playerName) {
-        const currentUserId = getUserId();
-        const senderId = payload.playerId || payload.userId;
-        
-        // Only show messages from other users (not self)
-        if (senderId && senderId !== currentUserId) {
-          const newMessage: ChatMessage = {
-            id: `${Date.now()}-${Math.random()}`,
-            playerName: payload.playerName,
-            playerId: senderId,
-            message: payload.message,
-            timestamp: Date.now(),
-            isOwn: false,
-          };
-          setMessages(prev => [...prev, newMessage]);
-          soundManager.playLocalSound('notification');
-          haptics.light();
-        }
-      }
-    };
-
-    // The channel listener setup depends on how each game implements it
-    // This is a generic handler that games can use
-    return () => {
-      // Cleanup if needed
-    };
-  }, [channelRef]);
-
-  const sendMessage = () => {
-    if (!inputMessage.trim()) return;
-
-    const currentUserId = getUserId();
-    const newMessage: ChatMessage = {
-      id: `${Date.now()}-${Math.random()}`,
-      playerName: playerName,
-      playerId: currentUserId,
-      message: inputMessage.trim(),
-      timestamp: Date.now(),
-      isOwn: true,
-    };
+  const sendMessage = async () => {
+    const text = inputMessage.trim();
+    if (!text || isSending) return;
+    if (!roomId) {
+      toast({ title: 'Not in a Game', description: 'Join a game to chat with the other players.' });
+      return;
+    }
 
-    setMessages(prev => [...prev, newMessage]);
-    setInputMessage('');
+    setIsSending(true);
+    try {
+      await chat.send(text, playerName);
+      setInputMessage('');
+      soundManager.playLocalSound('click');
+      haptics.light();
+    } catch (err) {
+      haptics.error();
+      toast({ variant: 'destructive', title: 'Message Not Sent', description: err instanceof Error ? err.message : 'Please try again.' });
+    } finally {
+      setIsSending(false);
+    }
+  };
 
-    // Broadcast to other players with user ID
-    if (channelRef?.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'chat',
-        payload: {
-          type: 'chat',
-          playerName,
-          playerId: currentUserId,
-          userId: currentUserId,
-          message: newMessage.message,
-        },
-      });
+  const removeMessage = async (msg: RoomChatMessage) => {
+    try {
+      await chat.remove(msg.id);
+      haptics.light();
+    } catch (err) {
+      toast({ variant: 'destructive', title: 'Could Not Remove Message', description: err instanceof Error ? err.message : 'Please try again.' });
     }
+  };
 
-    // Also dispatch window event for games that listen to it
-    window.dispatchEvent(new CustomEvent('game-chat', { 
-      detail: { 
-        playerName, 
-        message: newMessage.message 
-      } 
-    }));
+  const reportMessage = async (msg: RoomChatMessage) => {
+    try {
+      await chat.report(msg.id);
+      haptics.success();
+      toast({ title: 'Message Reported', description: 'Thanks, we will take a look.' });
+    } catch (err) {
+      toast({ variant: 'destructive', title: 'Could Not Report Message', description: err instanceof Error ? err.message : 'Please try again.' });
+    }
+  };
 
-    soundManager.playLocalSound('click');
+  const toggleMute = (msg: RoomChatMessage) => {
+    const wasMuted = mutedPlayers.includes(msg.senderId);
+    chat.toggleMute(msg.senderId);
     haptics.light();
+    toast({ title: wasMuted ? 'Player Unmuted' : 'Player Muted', description: wasMuted ? `You will see messages from ${msg.playerName} again` : `Messages from ${msg.playerName} are hidden` });
   };
 
+  const isOwn = (msg: RoomChatMessage) => !!myUserId && msg.senderId === myUserId;
+  const isMuted = (msg: RoomChatMessage) => !!msg.senderId && mutedPlayers.includes(msg.senderId);
+  const receivedCount = messages.filter(msg => !isOwn(msg) && !isMuted(msg)).length;
+
+  // Mute, report and (for the host) remove, shown next to a message's sender
+  const renderActions = (msg: RoomChatMessage) => (
+    <span className="inline-flex items-center gap-1 ml-1 align-middle">
+      {!isOwn(msg) && msg.senderId && (
+        <>
+          <button onClick={() => toggleMute(msg)} title={isMuted(msg) ? 'Unmute player' : 'Mute player'} className="text-muted-foreground hover:text-foreground">
+            {isMuted(msg) ? <Volume2 className="w-3 h-3" /> : <VolumeX className="w-3 h-3" />}
+          </button>
+          {!isMuted(msg) && (
+            <button onClick={() => reportMessage(msg)} title="Report message" className="text-muted-foreground hover:text-neon-orange">
+              <Flag className="w-3 h-3" />
+            </button>
+          )}
+        </>
+      )}
+      {isHost && (
+        <button onClick={() => removeMessage(msg)} title="Remove message" className="text-muted-foreground hover:text-destructive">
+          <Trash2 className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  );
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -153,9 +143,9 @@ const FloatingChat: React.FC<FloatingChatProps> = ({ channelRef, playerName = 'Y
           >
             <MessageCircle className="w-4 h-4 mr-2" />
             <span className="font-orbitron text-xs">Chat</span>
-            {messages.length > 0 && (
+            {receivedCount > 0 && (
               <span className="ml-2 h-5 w-5 rounded-full bg-neon-pink text-white text-xs flex items-center justify-center font-bold">
-                {messages.length > 9 ? '9+' : messages.length}
+                {receivedCount > 9 ? '9+' : receivedCount}
               </span>
             )}
           </Button>
@@ -180,15 +170,18 @@ const FloatingChat: React.FC<FloatingChatProps> = ({ channelRef, playerName = 'Y
                 <div
                   key={msg.id}
                   className={`text-xs p-1.5 rounded ${
-                    msg.isOwn
+                    isOwn(msg)
                       ? 'bg-neon-cyan/20 text-right'
                       : 'bg-muted/50 text-left'
                   }`}
                 >
                   <div className="font-rajdhani font-semibold text-[10px] text-muted-foreground">
                     {msg.playerName}
+                    {renderActions(msg)}
+                  </div>
+                  <div className={`font-rajdhani ${isMuted(msg) ? 'italic text-muted-foreground' : ''}`}>
+                    {isMuted(msg) ? 'Muted' : msg.message}
                   </div>
-                  <div className="font-rajdhani">{msg.message}</div>
                 </div>
               ))}
               <div ref={messagesEndRef} />
@@ -205,7 +198,7 @@ const FloatingChat: React.FC<FloatingChatProps> = ({ channelRef, playerName = 'Y
               />
               <Button
                 onClick={sendMessage}
-                disabled={!inputMessage.trim()}
+                disabled={!inputMessage.trim() || isSending}
                 className="bg-neon-cyan/20 border border-neon-cyan text-neon-cyan hover:bg-neon-cyan/30 h-8 px-2"
                 size="sm"
               >
@@ -234,9 +227,9 @@ const FloatingChat: React.FC<FloatingChatProps> = ({ channelRef, playerName = 'Y
             className="h-12 w-12 rounded-full bg-neon-cyan/20 border-2 border-neon-cyan text-neon-cyan hover:bg-neon-cyan/30 shadow-lg animate-float"
           >
             <MessageCircle className="w-5 h-5 lg:w-6 lg:h-6" />
-            {messages.length > 0 && (
+            {receivedCount > 0 && (
               <span className="absolute -top-1 -right-1 h-5 w-5 rounded-full bg-neon-pink text-white text-xs flex items-center justify-center font-bold">
-                {messages.length > 9 ? '9+' : messages.length}
+                {receivedCount > 9 ? '9+' : receivedCount}
               </span>
             )}
           </Button>
@@ -300,29 +293,34 @@ const FloatingChat: React.FC<FloatingChatProps> = ({ channelRef, playerName = 'Y
                 <div className="flex-1 overflow-y-auto p-3 space-y-2 scrollbar-thin">
                   {messages.length === 0 ? (
                     <div className="text-center text-muted-foreground text-sm py-8 font-rajdhani">
-                      No messages yet. Start chatting!
+                      {roomId ? 'No messages yet. Start chatting!' : 'Join a game to chat with the other players.'}
                     </div>
                   ) : (
                     messages.map(msg => (
                       <div
                         key={msg.id}
                         className={`flex flex-col ${
-                          msg.isOwn ? 'items-end' : 'items-start'
+                          isOwn(msg) ? 'items-end' : 'items-start'
                         }`}
                       >
                         <div
                           className={`max-w-[75%] rounded-lg px-3 py-2 ${
-                            msg.isOwn
+                            isOwn(msg)
                               ? 'bg-neon-cyan/20 border border-neon-cyan text-foreground'
                               : 'bg-muted border border-border text-foreground'
                           }`}
                         >
-                          {!msg.isOwn && (
+                          {(!isOwn(msg) || isHost) && (
                             <div className="text-xs font-semibold text-neon-purple mb-1 font-rajdhani">
-                              {msg.playerName}
+                              {!isOwn(msg) && msg.playerName}
+                              {renderActions(msg)}
                             </div>
                           )}
-                          <div className="text-sm font-rajdhani break-words">{msg.message}</div>
+                          {isMuted(msg) ? (
+                            <div className="text-sm font-rajdhani italic text-muted-foreground">Message from a muted player</div>
+                          ) : (
+                            <div className="text-sm font-rajdhani break-words">{msg.message}</div>
+                          )}
                         </div>
                         <span className="text-[10px] text-muted-foreground mt-1 px-1">
                           {new Date(msg.timestamp).toLocaleTimeString([], {
@@ -350,7 +348,7 @@ const FloatingChat: React.FC<FloatingChatProps> = ({ channelRef, playerName = 'Y
                     />
                     <Button
                       onClick={sendMessage}
-                      disabled={!inputMessage.trim()}
+                      disabled={!inputMessage.trim() || isSending}
                       size="icon"
                       className="bg-neon-cyan/20 border border-neon-cyan text-neon-cyan hover:bg-neon-cyan/30 disabled:opacity-50"
                     >
@@ -8,6 +8,8 @@ import { Wifi, WifiOff, Users, Clock, Loader2, X, RefreshCw } from 'lucide-react
 import { toast } from '@/hooks/use-toast';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
+import { ROOM_HOST_TIMEOUT } from '@/utils/gameRooms';
+import { queuePendingJoin } from '@/hooks/usePendingJoin';
 
 interface GameRoom {
   id: string;
@@ -68,6 +70,8 @@ const GameRoomsBrowser: React.FC<GameRoomsBrowserProps> = ({ isOpen, onClose, on
         .from('game_rooms')
         .select('*')
         .eq('status', 'waiting')
+        // Hide rooms whose host closed the tab without leaving
+        .gt('host_seen_at', new Date(Date.now() - ROOM_HOST_TIMEOUT).toISOString())
         .order('created_at', { ascending: false })
         .limit(50);
 
@@ -116,9 +120,7 @@ const GameRoomsBrowser: React.FC<GameRoomsBrowserProps> = ({ isOpen, onClose, on
     }
 
     // Store join info
-    sessionStorage.setItem('pendingJoinCode', room.room_code);
-    sessionStorage.setItem('pendingJoinGameType', gameType);
-    sessionStorage.setItem('pendingJoinRoomId', room.id);
+    queuePendingJoin({ code: room.room_code, gameType, roomId: room.id });
 
     soundManager.playLocalSound('correct');
     haptics.success();
@@ -7,6 +7,7 @@ import { Gamepad2, Loader2, X } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
+import { queuePendingJoin } from '@/hooks/usePendingJoin';
 
 interface GlobalGameCodeInputProps {
   onJoinGame: (gameType: string, roomCode: string) => void;
@@ -73,8 +74,12 @@ const GlobalGameCodeInput: React.FC<GlobalGameCodeInputProps> = ({ onJoinGame, c
         return;
       }
 
+      // Full rooms that are already playing can still be watched
+      const isFull = data.player_count >= (data.max_players || 2);
+      const spectating = isFull && data.status === 'playing';
+
       // Check if room is full
-      if (data.player_count >= (data.max_players || 2)) {
+      if (isFull && !spectating) {
         toast({ 
           variant: 'destructive', 
           title: 'Room Full', 
@@ -112,10 +117,8 @@ const GlobalGameCodeInput: React.FC<GlobalGameCodeInputProps> = ({ onJoinGame, c
         return;
       }
 
-      // Store join info in sessionStorage for the game to pick up
-      sessionStorage.setItem('pendingJoinCode', code.toUpperCase().trim());
-      sessionStorage.setItem('pendingJoinGameType', gameType);
-      sessionStorage.setItem('pendingJoinRoomId', data.id);
+      // Queue the join for the game to pick up
+      queuePendingJoin({ code: code.toUpperCase().trim(), gameType, roomId: data.id });
       
       // Store creator/host info for auto-friend feature from game_state
       const gameState = data.game_state as Record<string, any> | null;
@@ -126,6 +129,7 @@ const GlobalGameCodeInput: React.FC<GlobalGameCodeInputProps> = ({ onJoinGame, c
       if (creatorId) {
         sessionStorage.setItem('pendingJoinCreatorId', creatorId);
         sessionStorage.setItem('pendingJoinCreatorName', creatorName);
+        if (data.host_id) sessionStorage.setItem('pendingJoinCreatorUserId', data.host_id);
       }
 
       // Success - join the game
@@ -133,7 +137,9 @@ const GlobalGameCodeInput: React.FC<GlobalGameCodeInputProps> = ({ onJoinGame, c
       haptics.success();
       toast({ 
         title: 'Room Found!', 
-        description: `Joining ${data.game_type} game...` 
+        description: spectating 
+          ? `Room is full - watching ${data.game_type} game...` 
+          : `Joining ${data.game_type} game...` 
       });
 
       // Clear input and trigger game join
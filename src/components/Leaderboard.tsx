@@ -1,9 +1,33 @@
 import React, { useState } from 'react';
-import { Trophy, Medal, Star, Trash2, X, Calendar, Gamepad2, Share2 } from 'lucide-react';
+import { Trophy, Medal, Star, Trash2, X, Calendar, Gamepad2, Share2, Globe, Smartphone, Users, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useLeaderboard, GAME_NAMES, GAME_TYPES } from '@/hooks/useLeaderboard';
+import { useGlobalLeaderboard } from '@/hooks/useGlobalLeaderboard';
+import { useFriends } from '@/hooks/useFriends';
+import type { Difficulty } from '@/contexts/DifficultyContext';
 import { haptics } from '@/utils/haptics';
 import { shareScoreCard } from '@/utils/socialShare';
+import {
+  DIFFICULTY_BOARD_GAMES,
+  GLOBAL_LEADERBOARD_GAMES,
+  LEADERBOARD_PERIODS,
+  type LeaderboardPeriod,
+} from '@/utils/globalLeaderboard';
+
+const DIFFICULTIES: { id: Difficulty; label: string }[] = [
+  { id: 'easy', label: 'Easy' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'hard', label: 'Hard' },
+];
+
+const chipClass = (active: boolean, tone: 'cyan' | 'purple') =>
+  `px-3 py-1.5 rounded-lg text-xs font-orbitron whitespace-nowrap transition-all ${
+    active
+      ? tone === 'cyan'
+        ? 'bg-neon-cyan/20 text-neon-cyan border border-neon-cyan'
+        : 'bg-neon-purple/20 text-neon-purple border border-neon-purple'
+      : 'bg-muted/50 text-muted-foreground border border-transparent hover:bg-muted'
+  }`;
 
 interface LeaderboardProps {
   isOpen: boolean;
@@ -14,6 +38,21 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ isOpen, onClose }) => {
   const { entries, stats, getTopScores, getAllTimeTop, clearAll } = useLeaderboard();
   const [selectedGame, setSelectedGame] = useState<string | null>(null);
   const [showConfirmClear, setShowConfirmClear] = useState(false);
+  const [scope, setScope] = useState<'local' | 'global'>('local');
+  const [period, setPeriod] = useState<LeaderboardPeriod>('weekly');
+  const [globalGame, setGlobalGame] = useState(GLOBAL_LEADERBOARD_GAMES[0]);
+  const [difficulty, setDifficulty] = useState<Difficulty>('medium');
+  const [friendsOnly, setFriendsOnly] = useState(false);
+  const { friends } = useFriends();
+
+  const hasDifficultyBoards = DIFFICULTY_BOARD_GAMES.includes(globalGame);
+  // Display names aren't unique, so friends are matched by auth user id; friends
+  // added before their id was known don't show until they're added from a room again
+  const friendIds = friendsOnly ? friends.map(f => f.userId).filter(Boolean) : undefined;
+  const globalBoard = useGlobalLeaderboard(
+    { period, gameType: globalGame, difficulty: hasDifficultyBoards ? difficulty : null },
+    { enabled: isOpen && scope === 'global', friendIds }
+  );
 
   if (!isOpen) return null;
 
@@ -73,48 +112,174 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ isOpen, onClose }) => {
           </div>
         </div>
 
+        {/* Scope */}
+        <div className="px-3 pt-3 sm:px-4 sm:pt-4 flex gap-2">
+          <button
+            onClick={() => {
+              setScope('local');
+              haptics.light();
+            }}
+            className={`flex-1 flex items-center justify-center gap-2 ${chipClass(scope === 'local', 'cyan')}`}
+          >
+            <Smartphone className="w-3.5 h-3.5" />
+            My Scores
+          </button>
+          <button
+            onClick={() => {
+              setScope('global');
+              haptics.light();
+            }}
+            className={`flex-1 flex items-center justify-center gap-2 ${chipClass(scope === 'global', 'cyan')}`}
+          >
+            <Globe className="w-3.5 h-3.5" />
+            Global
+          </button>
+        </div>
+
         {/* Game Filter */}
         <div className="p-3 sm:p-4 border-b border-border overflow-x-auto scrollbar-hide">
-          <div className="flex gap-2 min-w-max">
-            <button
-              onClick={() => {
-                setSelectedGame(null);
-                haptics.light();
-              }}
-              className={`px-3 py-1.5 rounded-lg text-xs font-orbitron whitespace-nowrap transition-all
-                ${!selectedGame 
-                  ? 'bg-neon-cyan/20 text-neon-cyan border border-neon-cyan' 
-                  : 'bg-muted/50 text-muted-foreground border border-transparent hover:bg-muted'
-                }`}
-            >
-              All Games
-            </button>
-            {gameTypes.map((type) => {
-              const hasEntries = entries.some(e => e.gameType === type);
-              if (!hasEntries) return null;
-              return (
+          {scope === 'local' ? (
+            <div className="flex gap-2 min-w-max">
+              <button
+                onClick={() => {
+                  setSelectedGame(null);
+                  haptics.light();
+                }}
+                className={chipClass(!selectedGame, 'cyan')}
+              >
+                All Games
+              </button>
+              {gameTypes.map((type) => {
+                const hasEntries = entries.some(e => e.gameType === type);
+                if (!hasEntries) return null;
+                return (
+                  <button
+                    key={type}
+                    onClick={() => {
+                      setSelectedGame(type);
+                      haptics.light();
+                    }}
+                    className={chipClass(selectedGame === type, 'purple')}
+                  >
+                    {GAME_NAMES[type]}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="space-y-2 min-w-max">
+              <div className="flex gap-2">
+                {GLOBAL_LEADERBOARD_GAMES.map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => {
+                      setGlobalGame(type);
+                      haptics.light();
+                    }}
+                    className={chipClass(globalGame === type, 'purple')}
+                  >
+                    {GAME_NAMES[type]}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                {LEADERBOARD_PERIODS.map(({ id, label }) => (
+                  <button
+                    key={id}
+                    onClick={() => {
+                      setPeriod(id);
+                      haptics.light();
+                    }}
+                    className={chipClass(period === id, 'cyan')}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {hasDifficultyBoards && DIFFICULTIES.map(({ id, label }) => (
+                  <button
+                    key={id}
+                    onClick={() => {
+                      setDifficulty(id);
+                      haptics.light();
+                    }}
+                    className={chipClass(difficulty === id, 'purple')}
+                  >
+                    {label}
+                  </button>
+                ))}
                 <button
-                  key={type}
                   onClick={() => {
-                    setSelectedGame(type);
+                    setFriendsOnly(prev => !prev);
                     haptics.light();
                   }}
-                  className={`px-3 py-1.5 rounded-lg text-xs font-orbitron whitespace-nowrap transition-all
-                    ${selectedGame === type 
-                      ? 'bg-neon-purple/20 text-neon-purple border border-neon-purple' 
-                      : 'bg-muted/50 text-muted-foreground border border-transparent hover:bg-muted'
-                    }`}
+                  className={`flex items-center gap-1 ${chipClass(friendsOnly, 'cyan')}`}
                 >
-                  {GAME_NAMES[type]}
+                  <Users className="w-3 h-3" />
+                  Friends
                 </button>
-              );
-            })}
-          </div>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Leaderboard List */}
         <div className="flex-1 overflow-y-auto p-3 sm:p-4">
-          {displayEntries.length === 0 ? (
+          {scope === 'global' ? (
+            <div className="space-y-2">
+              {/* Your best on this board */}
+              <div className="flex items-center justify-between p-3 rounded-xl border border-neon-cyan/30 bg-neon-cyan/5">
+                <span className="font-rajdhani text-sm text-muted-foreground">
+                  {globalBoard.myBest ? 'Your best' : `Play ${GAME_NAMES[globalGame]} to get on this board`}
+                </span>
+                {globalBoard.myBest && (
+                  <div className="flex items-center gap-3">
+                    <span className="font-orbitron text-neon-cyan">{globalBoard.myBest.score.toLocaleString()}</span>
+                    <span className="font-orbitron text-sm text-neon-orange">#{globalBoard.myBest.rank}</span>
+                  </div>
+                )}
+              </div>
+
+              {globalBoard.isLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="w-8 h-8 text-muted-foreground animate-spin" />
+                </div>
+              ) : globalBoard.error ? (
+                <p className="text-center py-12 text-muted-foreground font-rajdhani">{globalBoard.error}</p>
+              ) : globalBoard.entries.length === 0 ? (
+                <div className="text-center py-12">
+                  <Globe className="w-12 h-12 text-muted-foreground/30 mx-auto mb-3" />
+                  <p className="text-muted-foreground font-rajdhani">
+                    {friendsOnly ? 'None of your friends are on this board yet.' : 'No scores on this board yet!'}
+                  </p>
+                </div>
+              ) : (
+                globalBoard.entries.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className={`flex items-center gap-3 p-3 rounded-xl border transition-all
+                      ${entry.userId === globalBoard.myBest?.userId ? 'bg-neon-cyan/10 border-neon-cyan/40' : 'bg-card/50 border-border'}`}
+                  >
+                    <div className="flex-shrink-0">
+                      {getRankIcon(entry.rank - 1)}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <span className="font-orbitron text-sm text-foreground truncate block">{entry.playerName}</span>
+                      {entry.details && (
+                        <p className="text-xs text-muted-foreground truncate">{entry.details}</p>
+                      )}
+                    </div>
+                    <div className="flex-shrink-0 text-right">
+                      <div className="font-orbitron text-lg text-neon-cyan">{entry.score.toLocaleString()}</div>
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Calendar className="w-3 h-3" />
+                        {formatDate(entry.date)}
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          ) : displayEntries.length === 0 ? (
             <div className="text-center py-12">
               <Trophy className="w-12 h-12 text-muted-foreground/30 mx-auto mb-3" />
               <p className="text-muted-foreground font-rajdhani">No scores yet!</p>
@@ -183,7 +348,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ isOpen, onClose }) => {
         </div>
 
         {/* Footer */}
-        {entries.length > 0 && (
+        {scope === 'local' && entries.length > 0 && (
           <div className="p-3 sm:p-4 border-t border-border">
             {showConfirmClear ? (
               <div className="flex items-center justify-between gap-2">
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { haptics } from '@/utils/haptics';
+import { LOBBY_MAX_SIZE, LOBBY_MIN_SIZE } from '@/utils/gameRooms';
+
+interface LobbySizePickerProps {
+  value: number;
+  onChange: (size: number) => void;
+}
+
+const SIZES = Array.from({ length: LOBBY_MAX_SIZE - LOBBY_MIN_SIZE + 1 }, (_, i) => LOBBY_MIN_SIZE + i);
+
+const LobbySizePicker: React.FC<LobbySizePickerProps> = ({ value, onChange }) => {
+  const handleSelect = (size: number) => {
+    haptics.light();
+    onChange(size);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <span className="flex items-center gap-1 text-xs font-orbitron text-muted-foreground uppercase tracking-wider">
+        <Users className="w-3 h-3" />
+        Room size
+      </span>
+      <div className="flex gap-1 p-1 bg-card/50 rounded-lg border border-border">
+        {SIZES.map(size => (
+          <button
+            key={size}
+            type="button"
+            onClick={() => handleSelect(size)}
+            aria-pressed={value === size}
+            className={`w-8 h-8 rounded-md font-orbitron text-sm transition-all duration-200 ${
+              value === size
+                ? 'bg-primary/20 text-primary border border-primary'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {size}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LobbySizePicker;
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, LineChart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { MOVE_RATING_LABELS, type AnalysedMove, type MoveRating } from '@/utils/moveAnalysis';
+import { haptics } from '@/utils/haptics';
+
+interface MoveAnalysisProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Null while the solver is still working */
+  moves: AnalysedMove[] | null;
+  playerLabel: (player: string) => string;
+  moveLabel: (move: number) => string;
+  /** The board after `step` moves; `move` is the move that got there, if any */
+  renderBoard: (step: number, move: AnalysedMove | null) => React.ReactNode;
+}
+
+const RATING_COLORS: Record<MoveRating, string> = {
+  best: 'text-neon-green border-neon-green/50 bg-neon-green/10',
+  good: 'text-neon-cyan border-neon-cyan/50 bg-neon-cyan/10',
+  mistake: 'text-neon-orange border-neon-orange/50 bg-neon-orange/10',
+  blunder: 'text-destructive border-destructive/50 bg-destructive/10',
+};
+
+const RATINGS: MoveRating[] = ['best', 'good', 'mistake', 'blunder'];
+
+const MoveAnalysis: React.FC<MoveAnalysisProps> = ({ isOpen, onClose, moves, playerLabel, moveLabel, renderBoard }) => {
+  const [step, setStep] = useState(0);
+
+  // Open on the final position
+  useEffect(() => {
+    if (isOpen && moves) setStep(moves.length);
+  }, [isOpen, moves]);
+
+  const goTo = (next: number) => {
+    if (!moves) return;
+    haptics.light();
+    setStep(Math.max(0, Math.min(moves.length, next)));
+  };
+
+  const current = moves && step > 0 ? moves[step - 1] : null;
+  const players = moves ? Array.from(new Set(moves.map(m => m.player))) : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LineChart className="w-5 h-5 text-neon-cyan" />
+            Game Analysis
+          </DialogTitle>
+          <DialogDescription>Step through the game to see how each move compares with the best one.</DialogDescription>
+        </DialogHeader>
+
+        {!moves ? (
+          <p className="text-center py-8 text-muted-foreground font-rajdhani animate-pulse">Analysing moves...</p>
+        ) : (
+          <div className="space-y-4">
+            {/* Summary per player */}
+            <div className="grid grid-cols-2 gap-2">
+              {players.map(player => (
+                <div key={player} className="p-2 rounded-lg border border-border bg-card/50">
+                  <p className="font-orbitron text-xs mb-1">{playerLabel(player)}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {RATINGS.map(rating => {
+                      const count = moves.filter(m => m.player === player && m.rating === rating).length;
+                      return count > 0 && (
+                        <span key={rating} className={`px-1.5 py-0.5 rounded border text-[10px] font-rajdhani ${RATING_COLORS[rating]}`}>
+                          {count} {MOVE_RATING_LABELS[rating]}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-center">{renderBoard(step, current)}</div>
+
+            {/* Current move */}
+            <div className="min-h-[3rem] text-center font-rajdhani">
+              {current ? (
+                <>
+                  <p className="text-sm">
+                    Move {step}: {playerLabel(current.player)} played {moveLabel(current.move)}
+                    <span className={`ml-2 px-1.5 py-0.5 rounded border text-xs ${RATING_COLORS[current.rating]}`}>
+                      {MOVE_RATING_LABELS[current.rating]}
+                    </span>
+                  </p>
+                  {current.rating !== 'best' && (
+                    <p className="text-xs text-muted-foreground mt-1">Best was {moveLabel(current.best)}</p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Start of the game</p>
+              )}
+            </div>
+
+            {/* Controls */}
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => goTo(0)} disabled={step === 0}>
+                <ChevronsLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => goTo(step - 1)} disabled={step === 0}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => goTo(step + 1)} disabled={step === moves.length}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => goTo(moves.length)} disabled={step === moves.length}>
+                <ChevronsRight className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {/* Move list */}
+            <div className="flex flex-wrap gap-1 justify-center">
+              {moves.map((move, i) => (
+                <button
+                  key={i}
+                  onClick={() => goTo(i + 1)}
+                  className={`px-2 py-0.5 rounded border text-xs font-rajdhani transition-all ${RATING_COLORS[move.rating]} ${
+                    step === i + 1 ? 'ring-2 ring-foreground/50' : ''
+                  }`}
+                >
+                  {i + 1}. {moveLabel(move.move)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MoveAnalysis;
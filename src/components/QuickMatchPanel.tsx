@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RotateCcw, SearchX, X, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import type { QuickMatch } from '@/hooks/useQuickMatch';
+import { QUICK_MATCH_TIMEOUT } from '@/utils/matchmaking';
+
+export interface QuickMatchFallback {
+  label: string;
+  icon?: React.ReactNode;
+  onSelect: () => void;
+}
+
+interface QuickMatchPanelProps {
+  quickMatch: QuickMatch;
+  /** Offered when nobody is found, e.g. a local or bot game */
+  fallbacks?: QuickMatchFallback[];
+}
+
+const QuickMatchPanel: React.FC<QuickMatchPanelProps> = ({ quickMatch, fallbacks = [] }) => {
+  const { phase, searchStartedAt, matchSkill, setMatchSkill, playNow, cancel, reset } = quickMatch;
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (phase !== 'searching') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  if (phase === 'searching') {
+    const elapsed = searchStartedAt ? Math.floor((now - searchStartedAt) / 1000) : 0;
+    const remaining = Math.max(Math.ceil(QUICK_MATCH_TIMEOUT / 1000) - elapsed, 0);
+
+    return (
+      <div
+        role="status"
+        className="flex flex-col items-center gap-4 w-full max-w-xs p-6 bg-card/50 border border-primary/50 rounded-xl animate-fade-in"
+      >
+        <Loader2 className="w-10 h-10 text-primary animate-spin" />
+        <div className="text-center">
+          <p className="font-orbitron text-lg text-foreground">Finding an opponent...</p>
+          <p className="font-rajdhani text-sm text-muted-foreground">
+            {elapsed}s elapsed · giving up in {remaining}s
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={cancel}>
+          <X className="w-4 h-4" />
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  if (phase === 'timed_out') {
+    return (
+      <div className="flex flex-col items-center gap-3 w-full max-w-xs p-6 bg-card/50 border border-border rounded-xl animate-fade-in">
+        <SearchX className="w-10 h-10 text-muted-foreground" />
+        <div className="text-center">
+          <p className="font-orbitron text-lg text-foreground">No opponent found</p>
+          <p className="font-rajdhani text-sm text-muted-foreground">Nobody else is looking right now</p>
+        </div>
+        {fallbacks.map(fallback => (
+          <Button
+            key={fallback.label}
+            variant="outline"
+            className="w-full"
+            onClick={() => {
+              reset();
+              fallback.onSelect();
+            }}
+          >
+            {fallback.icon}
+            {fallback.label}
+          </Button>
+        ))}
+        <Button variant="game" className="w-full" onClick={playNow}>
+          <RotateCcw className="w-4 h-4" />
+          Search Again
+        </Button>
+        <Button variant="ghost" size="sm" onClick={reset}>
+          Back
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2 w-full max-w-xs">
+      <Button variant="game" size="lg" className="w-full" onClick={playNow}>
+        <Zap className="w-5 h-5" />
+        Play Now
+      </Button>
+      <label className="flex items-center gap-2 font-rajdhani text-sm text-muted-foreground cursor-pointer">
+        <Switch checked={matchSkill} onCheckedChange={setMatchSkill} />
+        Match my level
+      </label>
+    </div>
+  );
+};
+
+export default QuickMatchPanel;
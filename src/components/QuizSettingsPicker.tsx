@@ -0,0 +1,135 @@
+import React, { useRef } from 'react';
+import { FileUp, Gauge, Layers, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { haptics } from '@/utils/haptics';
+import {
+  QUIZ_CATEGORIES,
+  QUIZ_DIFFICULTIES,
+  parseQuestionPack,
+  type QuizPack,
+  type QuizSettings,
+} from '@/utils/quizPacks';
+
+interface QuizSettingsPickerProps {
+  value: QuizSettings;
+  onChange: (settings: QuizSettings) => void;
+  /** A custom pack replaces the bank, so the category and difficulty pickers hide while one is loaded */
+  pack: QuizPack | null;
+  onPackChange: (pack: QuizPack | null) => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `px-3 h-8 rounded-md font-rajdhani text-sm transition-all duration-200 ${
+    selected ? 'bg-primary/20 text-primary border border-primary' : 'text-muted-foreground hover:text-foreground'
+  }`;
+
+const QuizSettingsPicker: React.FC<QuizSettingsPickerProps> = ({ value, onChange, pack, onPackChange }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleCategory = (category: string) => {
+    haptics.light();
+    const categories = value.categories.includes(category)
+      ? value.categories.filter(c => c !== category)
+      : [...value.categories, category];
+    // Every category picked is the same as none
+    onChange({ ...value, categories: categories.length === QUIZ_CATEGORIES.length ? [] : categories });
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const loaded = parseQuestionPack(await file.text(), file.name);
+      haptics.success();
+      onPackChange(loaded);
+      toast({ title: 'Pack loaded', description: `${loaded.questions.length} questions from "${loaded.name}"` });
+    } catch (error) {
+      haptics.error();
+      toast({ variant: 'destructive', title: "Couldn't load the pack", description: error.message });
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full max-w-sm">
+      {pack ? (
+        <div className="flex items-center gap-2 px-3 py-2 bg-card/50 rounded-lg border border-primary">
+          <FileUp className="w-4 h-4 text-primary shrink-0" />
+          <span className="font-rajdhani text-sm truncate">
+            {pack.name} · {pack.questions.length} questions
+          </span>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onPackChange(null)} aria-label="Remove pack">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-col items-center gap-2">
+            <span className="flex items-center gap-1 text-xs font-orbitron text-muted-foreground uppercase tracking-wider">
+              <Layers className="w-3 h-3" />
+              Categories
+            </span>
+            <div className="flex flex-wrap justify-center gap-1 p-1 bg-card/50 rounded-lg border border-border">
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, categories: [] })}
+                aria-pressed={value.categories.length === 0}
+                className={optionClass(value.categories.length === 0)}
+              >
+                All
+              </button>
+              {QUIZ_CATEGORIES.map(category => (
+                <button
+                  key={category}
+                  type="button"
+                  onClick={() => toggleCategory(category)}
+                  aria-pressed={value.categories.includes(category)}
+                  className={optionClass(value.categories.includes(category))}
+                >
+                  {category}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-col items-center gap-2">
+            <span className="flex items-center gap-1 text-xs font-orbitron text-muted-foreground uppercase tracking-wider">
+              <Gauge className="w-3 h-3" />
+              Difficulty
+            </span>
+            <div className="flex gap-1 p-1 bg-card/50 rounded-lg border border-border">
+              {[{ id: null, label: 'Mixed' }, ...QUIZ_DIFFICULTIES].map(({ id, label }) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => {
+                    haptics.light();
+                    onChange({ ...value, difficulty: id });
+                  }}
+                  aria-pressed={value.difficulty === id}
+                  className={optionClass(value.difficulty === id)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="w-4 h-4" />
+            Import Question Pack
+          </Button>
+        </>
+      )}
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept=".json,.csv,application/json,text/csv"
+        onChange={handleFile}
+      />
+    </div>
+  );
+};
+
+export default QuizSettingsPicker;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Loader2, WifiOff } from 'lucide-react';
+
+interface ReconnectingBannerProps {
+  isReconnecting: boolean;
+}
+
+const ReconnectingBanner: React.FC<ReconnectingBannerProps> = ({ isReconnecting }) => {
+  if (!isReconnecting) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="flex items-center justify-center gap-2 w-full px-3 py-2 rounded-lg border border-neon-orange/50 bg-neon-orange/10 text-neon-orange animate-fade-in"
+    >
+      <WifiOff className="w-4 h-4 shrink-0" />
+      <span className="font-rajdhani text-sm">Connection lost. Reconnecting…</span>
+      <Loader2 className="w-4 h-4 shrink-0 animate-spin" />
+    </div>
+  );
+};
+
+export default ReconnectingBanner;
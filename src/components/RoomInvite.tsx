@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Check, Link2, QrCode } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { haptics } from '@/utils/haptics';
+import { getInviteLink } from '@/utils/gameRooms';
+
+interface RoomInviteProps {
+  roomCode: string;
+  gameType: string;
+  /** Icon-only buttons for in-game headers */
+  compact?: boolean;
+}
+
+/** "Copy invite link" and a QR code that open the app straight into the room */
+const RoomInvite: React.FC<RoomInviteProps> = ({ roomCode, gameType, compact = false }) => {
+  const [copied, setCopied] = useState(false);
+  const link = getInviteLink(roomCode, gameType);
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(link);
+    setCopied(true);
+    haptics.light();
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const linkIcon = copied ? <Check className="w-4 h-4 text-neon-green" /> : <Link2 className="w-4 h-4" />;
+
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <Button variant="ghost" size={compact ? 'icon' : 'sm'} onClick={copyLink} title="Copy invite link" className={compact ? 'h-7 w-7' : ''}>
+        {linkIcon}
+        {!compact && <span className="font-rajdhani">{copied ? 'Link copied!' : 'Copy invite link'}</span>}
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size={compact ? 'icon' : 'sm'} title="Show QR code" className={compact ? 'h-7 w-7' : ''}>
+            <QrCode className="w-4 h-4" />
+            {!compact && <span className="font-rajdhani">QR code</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto flex flex-col items-center gap-2">
+          {/* Dark modules on white so phone cameras can read it in either theme */}
+          <div className="p-3 bg-white rounded-lg">
+            <QRCodeSVG value={link} size={176} bgColor="#ffffff" fgColor="#000000" />
+          </div>
+          <p className="font-orbitron text-sm tracking-widest text-primary">{roomCode}</p>
+          <p className="text-xs text-muted-foreground font-rajdhani">Scan to join</p>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default RoomInvite;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Bot, Check, Copy, Crown, Loader2, Play, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import RoomInvite from '@/components/RoomInvite';
+import { haptics } from '@/utils/haptics';
+import { LOBBY_MIN_TO_START } from '@/utils/gameRooms';
+import type { RoomPlayer } from '@/hooks/useRealtimeRoom';
+
+interface RoomLobbyProps {
+  roomCode: string;
+  /** game_type of the room, used in the invite link */
+  gameType: string;
+  /** Players currently present in the room, in seat order */
+  players: RoomPlayer[];
+  capacity: number;
+  /** Seat of the player running the room; moves if the creator leaves */
+  hostSeat?: number;
+  isHost: boolean;
+  myId: string;
+  onStart: () => void | Promise<void>;
+  onLeave: () => void;
+  /** Host only: fill an open seat with a bot. Games without bots leave this out */
+  onAddBot?: () => void | Promise<unknown>;
+  /** Game-specific details shown under the player list */
+  children?: React.ReactNode;
+}
+
+const RoomLobby: React.FC<RoomLobbyProps> = ({
+  roomCode,
+  gameType,
+  players,
+  capacity,
+  hostSeat = 0,
+  isHost,
+  myId,
+  onStart,
+  onLeave,
+  onAddBot,
+  children,
+}) => {
+  const [copied, setCopied] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [addingBot, setAddingBot] = useState(false);
+  const canStart = players.length >= LOBBY_MIN_TO_START;
+  const canAddBot = isHost && !!onAddBot && players.length < capacity;
+
+  const copyRoomCode = () => {
+    navigator.clipboard.writeText(roomCode);
+    setCopied(true);
+    haptics.light();
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      await onStart();
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleAddBot = async () => {
+    setAddingBot(true);
+    haptics.light();
+    try {
+      await onAddBot?.();
+    } finally {
+      setAddingBot(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-6 w-full max-w-sm mx-auto animate-slide-in">
+      <div className="text-center space-y-2">
+        <Users className="w-16 h-16 text-primary mx-auto animate-pulse" />
+        <h2 className="font-orbitron text-2xl text-foreground">Lobby</h2>
+        <p className="text-muted-foreground font-rajdhani">Share this code with your friends</p>
+      </div>
+
+      <div className="flex items-center gap-2 p-4 bg-muted rounded-xl">
+        <span className="font-orbitron text-3xl text-primary tracking-widest">{roomCode}</span>
+        <Button variant="ghost" size="icon" onClick={copyRoomCode}>
+          {copied ? <Check className="w-5 h-5 text-neon-green" /> : <Copy className="w-5 h-5" />}
+        </Button>
+      </div>
+
+      <RoomInvite roomCode={roomCode} gameType={gameType} />
+
+      <div className="w-full bg-card/50 border border-border rounded-xl p-4 space-y-2">
+        <div className="flex justify-between items-center">
+          <span className="text-xs font-orbitron text-muted-foreground uppercase tracking-wider">Players</span>
+          <span className="font-orbitron text-sm text-foreground">{players.length}/{capacity}</span>
+        </div>
+        <ul className="space-y-1">
+          {players.map(player => (
+            <li key={player.id} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-muted/50 font-rajdhani animate-fade-in">
+              {player.seat === hostSeat && <Crown className="w-4 h-4 text-neon-orange shrink-0" />}
+              {player.isBot && <Bot className="w-4 h-4 text-neon-cyan shrink-0" />}
+              <span className="truncate">{player.name}</span>
+              {player.id === myId && <span className="text-xs text-muted-foreground">(You)</span>}
+            </li>
+          ))}
+          {Array.from({ length: Math.max(capacity - players.length, 0) }, (_, i) => (
+            <li key={`open-${i}`} className="px-3 py-2 rounded-lg border border-dashed border-border text-muted-foreground font-rajdhani text-sm">
+              Open seat
+            </li>
+          ))}
+        </ul>
+        {canAddBot && (
+          <Button variant="outline" size="sm" onClick={handleAddBot} disabled={addingBot} className="w-full">
+            {addingBot ? <Loader2 className="w-4 h-4 animate-spin" /> : <Bot className="w-4 h-4" />}
+            Add Bot
+          </Button>
+        )}
+      </div>
+
+      {children}
+
+      {isHost ? (
+        <Button variant="game" size="lg" onClick={handleStart} disabled={!canStart || starting} className="w-full">
+          {starting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />}
+          {canStart ? 'Start Game' : `Waiting for ${LOBBY_MIN_TO_START - players.length} more...`}
+        </Button>
+      ) : (
+        <p className="text-muted-foreground font-rajdhani animate-pulse">Waiting for the host to start...</p>
+      )}
+
+      <Button variant="ghost" onClick={onLeave}>
+        <ArrowLeft className="w-4 h-4" />
+        Leave
+      </Button>
+    </div>
+  );
+};
+
+export default RoomLobby;
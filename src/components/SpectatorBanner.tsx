@@ -0,0 +1,28 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+
+interface SpectatorBannerProps {
+  isSpectator: boolean;
+  spectatorCount: number;
+}
+
+const SpectatorBanner: React.FC<SpectatorBannerProps> = ({ isSpectator, spectatorCount }) => {
+  if (!isSpectator && spectatorCount === 0) return null;
+
+  return (
+    <div
+      role="status"
+      className={`flex items-center justify-center gap-2 w-full px-3 py-1.5 rounded-lg border animate-fade-in ${
+        isSpectator ? 'border-neon-purple/50 bg-neon-purple/10 text-neon-purple' : 'border-border bg-card/50 text-muted-foreground'
+      }`}
+    >
+      <Eye className="w-4 h-4 shrink-0" />
+      <span className="font-rajdhani text-sm">
+        {isSpectator ? 'Spectating - you are watching live' : `${spectatorCount} watching`}
+        {isSpectator && spectatorCount > 1 && ` with ${spectatorCount - 1} other${spectatorCount > 2 ? 's' : ''}`}
+      </span>
+    </div>
+  );
+};
+
+export default SpectatorBanner;
@@ -1,9 +1,12 @@
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Trophy, Medal, Star, X, Calendar, Users, Award, TrendingUp } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import BracketEvents from '@/components/BracketEvents';
 import { useTournament } from '@/hooks/useTournament';
 import { useUserProfile } from '@/contexts/UserProfileContext';
 import { haptics } from '@/utils/haptics';
@@ -30,34 +33,58 @@ const TIER_BG_COLORS = {
 };
 
 const Tournament: React.FC<TournamentProps> = ({ isOpen, onClose }) => {
+  const [tab, setTab] = useState<'weekly' | 'brackets'>('weekly');
   const {
     currentTournament,
     myEntry,
-    leaderboard,
+    isLoading,
+    error,
     joinTournament,
     getMyRank,
     getTopPlayers,
-  } = useTournament();
+  } = useTournament(isOpen && tab === 'weekly');
   const { profile } = useUserProfile();
   const [isJoining, setIsJoining] = useState(false);
+  const navigate = useNavigate();
 
-  if (!isOpen || !currentTournament) return null;
+  if (!isOpen) return null;
 
   const myRank = getMyRank();
   const topPlayers = getTopPlayers(10);
-  const daysRemaining = Math.ceil((currentTournament.endDate - Date.now()) / (1000 * 60 * 60 * 24));
-  const progress = ((Date.now() - currentTournament.startDate) / (currentTournament.endDate - currentTournament.startDate)) * 100;
+  const daysRemaining = currentTournament
+    ? Math.ceil((currentTournament.endDate - Date.now()) / (1000 * 60 * 60 * 24))
+    : 0;
+  const progress = currentTournament
+    ? ((Date.now() - currentTournament.startDate) / (currentTournament.endDate - currentTournament.startDate)) * 100
+    : 0;
 
-  const handleJoin = () => {
+  const handleJoin = async () => {
     setIsJoining(true);
-    joinTournament(profile.displayName || profile.username);
-    haptics.success();
-    soundManager.playLocalSound('correct');
-    toast({
-      title: 'Joined Tournament!',
-      description: 'Start playing to climb the leaderboard!',
-    });
-    setTimeout(() => setIsJoining(false), 500);
+    try {
+      await joinTournament(profile.displayName || profile.username);
+      haptics.success();
+      soundManager.playLocalSound('correct');
+      toast({
+        title: 'Joined Tournament!',
+        description: 'Play online matches to climb the leaderboard!',
+      });
+    } catch (err) {
+      console.error('Failed to join tournament:', err);
+      haptics.error();
+      toast({
+        variant: 'destructive',
+        title: 'Could Not Join',
+        description: err instanceof Error ? err.message : 'Please try again.',
+      });
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  // The invite link route joins the room like any shared link
+  const handlePlayBracketMatch = (gameType: string, roomCode: string) => {
+    onClose();
+    navigate(`/play/${gameType}/${roomCode}`);
   };
 
   const getRankIcon = (rank: number) => {
@@ -75,142 +102,164 @@ const Tournament: React.FC<TournamentProps> = ({ isOpen, onClose }) => {
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Trophy className="w-5 h-5 text-neon-orange" />
-            Weekly Tournament
+            Tournaments
           </DialogTitle>
           <DialogDescription>
-            Compete for the top spot and win rewards!
+            {tab === 'weekly'
+              ? "Play online matches of this week's game to climb the standings. The top 3 win the prize badge!"
+              : 'Run a knockout bracket for your game night. Matches open as soon as both players are known.'}
           </DialogDescription>
         </DialogHeader>
 
-        <div className="flex-1 overflow-y-auto space-y-6 py-4">
-          {/* Tournament Info */}
-          <div className={`p-4 rounded-xl border-2 ${TIER_BG_COLORS[currentTournament.tier]}`}>
-            <div className="flex items-center justify-between mb-3">
-              <div>
-                <div className="flex items-center gap-2 mb-1">
-                  <h3 className="font-orbitron text-lg text-foreground">
-                    {currentTournament.name}
-                  </h3>
-                  <Badge
-                    variant="outline"
-                    className={`${TIER_COLORS[currentTournament.tier]} border-current`}
-                  >
-                    {currentTournament.tier.toUpperCase()}
-                  </Badge>
-                </div>
-                <p className="text-sm text-muted-foreground font-rajdhani">
-                  {currentTournament.prize} • {currentTournament.participants} participants
-                </p>
-              </div>
-              {!myEntry && currentTournament.status === 'active' && (
-                <Button
-                  onClick={handleJoin}
-                  disabled={isJoining}
-                  className="bg-neon-green/20 border border-neon-green text-neon-green hover:bg-neon-green/30"
-                >
-                  {isJoining ? 'Joining...' : 'Join Tournament'}
-                </Button>
-              )}
-            </div>
-
-            {/* Progress */}
-            <div className="space-y-2">
-              <div className="flex items-center justify-between text-xs">
-                <span className="text-muted-foreground font-rajdhani">
-                  {daysRemaining > 0 ? `${daysRemaining} days remaining` : 'Tournament ended'}
-                </span>
-                <span className="font-orbitron text-neon-cyan">
-                  {Math.round(progress)}%
-                </span>
-              </div>
-              <Progress value={Math.min(progress, 100)} className="h-2" />
-            </div>
-          </div>
-
-          {/* My Entry */}
-          {myEntry && (
-            <div className="bg-card/50 border border-neon-cyan rounded-xl p-4">
-              <div className="flex items-center justify-between mb-3">
-                <h3 className="font-orbitron text-sm text-foreground">Your Progress</h3>
-                {myRank && (
-                  <Badge variant="outline" className="bg-neon-cyan/20 border-neon-cyan text-neon-cyan">
-                    Rank #{myRank}
-                  </Badge>
-                )}
-              </div>
-              <div className="grid grid-cols-3 gap-3 text-center">
-                <div>
-                  <p className="text-2xl font-bold text-neon-cyan font-orbitron">{myEntry.score}</p>
-                  <p className="text-xs text-muted-foreground font-rajdhani">Score</p>
-                </div>
-                <div>
-                  <p className="text-2xl font-bold text-neon-green font-orbitron">{myEntry.wins}</p>
-                  <p className="text-xs text-muted-foreground font-rajdhani">Wins</p>
-                </div>
-                <div>
-                  <p className="text-2xl font-bold text-neon-purple font-orbitron">{myEntry.gamesPlayed}</p>
-                  <p className="text-xs text-muted-foreground font-rajdhani">Games</p>
-                </div>
-              </div>
-            </div>
-          )}
-
-          {/* Leaderboard */}
-          <div>
-            <h3 className="font-orbitron text-sm text-foreground uppercase tracking-wider mb-3 flex items-center gap-2">
-              <TrendingUp className="w-4 h-4 text-neon-orange" />
-              Leaderboard
-            </h3>
-            {topPlayers.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
+        <Tabs value={tab} onValueChange={value => setTab(value as typeof tab)} className="flex-1 flex flex-col overflow-hidden">
+          <TabsList className="grid grid-cols-2 bg-muted/50">
+            <TabsTrigger value="weekly">Weekly</TabsTrigger>
+            <TabsTrigger value="brackets">Brackets</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="weekly" className="mt-0 flex-1 flex flex-col overflow-hidden">
+            {!currentTournament ? (
+              <div className="text-center py-12 text-muted-foreground">
                 <Trophy className="w-12 h-12 mx-auto mb-2 opacity-30" />
-                <p className="font-rajdhani">No participants yet</p>
+                <p className="font-rajdhani">{error ?? (isLoading ? 'Loading tournament...' : 'No tournament right now')}</p>
               </div>
             ) : (
-              <div className="space-y-2">
-                {topPlayers.map((entry, index) => (
-                  <div
-                    key={entry.id}
-                    className={`p-3 rounded-xl border transition-all ${
-                      entry.id === myEntry?.id
-                        ? 'bg-neon-cyan/20 border-neon-cyan'
-                        : index === 0
-                        ? 'bg-yellow-500/10 border-yellow-500/30'
-                        : index === 1
-                        ? 'bg-gray-400/10 border-gray-400/30'
-                        : index === 2
-                        ? 'bg-amber-600/10 border-amber-600/30'
-                        : 'bg-card/50 border-border'
-                    }`}
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="flex-shrink-0">
-                        {getRankIcon(entry.rank)}
+              <div className="flex-1 overflow-y-auto space-y-6 py-4">
+                {/* Tournament Info */}
+                <div className={`p-4 rounded-xl border-2 ${TIER_BG_COLORS[currentTournament.tier]}`}>
+                  <div className="flex items-center justify-between mb-3">
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="font-orbitron text-lg text-foreground">
+                          {currentTournament.name}
+                        </h3>
+                        <Badge
+                          variant="outline"
+                          className={`${TIER_COLORS[currentTournament.tier]} border-current`}
+                        >
+                          {currentTournament.tier.toUpperCase()}
+                        </Badge>
                       </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="font-rajdhani text-sm font-semibold text-foreground truncate">
-                          {entry.playerName}
-                          {entry.id === myEntry?.id && (
-                            <span className="ml-2 text-xs text-neon-cyan">(You)</span>
-                          )}
-                        </p>
-                        <div className="flex items-center gap-3 text-xs text-muted-foreground font-rajdhani">
-                          <span>{entry.wins} wins</span>
-                          <span>•</span>
-                          <span>{entry.gamesPlayed} games</span>
-                        </div>
+                      <p className="text-sm text-muted-foreground font-rajdhani">
+                        {currentTournament.prize} • {currentTournament.participants}/{currentTournament.maxParticipants} participants
+                      </p>
+                    </div>
+                    {!myEntry && currentTournament.status === 'active' && currentTournament.participants < currentTournament.maxParticipants && (
+                      <Button
+                        onClick={handleJoin}
+                        disabled={isJoining}
+                        className="bg-neon-green/20 border border-neon-green text-neon-green hover:bg-neon-green/30"
+                      >
+                        {isJoining ? 'Joining...' : 'Join Tournament'}
+                      </Button>
+                    )}
+                  </div>
+
+                  {/* Progress */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-muted-foreground font-rajdhani">
+                        {daysRemaining > 0 ? `${daysRemaining} days remaining` : 'Tournament ended'}
+                      </span>
+                      <span className="font-orbitron text-neon-cyan">
+                        {Math.round(progress)}%
+                      </span>
+                    </div>
+                    <Progress value={Math.min(progress, 100)} className="h-2" />
+                  </div>
+                </div>
+
+                {/* My Entry */}
+                {myEntry && (
+                  <div className="bg-card/50 border border-neon-cyan rounded-xl p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="font-orbitron text-sm text-foreground">Your Progress</h3>
+                      {myRank && (
+                        <Badge variant="outline" className="bg-neon-cyan/20 border-neon-cyan text-neon-cyan">
+                          Rank #{myRank}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-3 gap-3 text-center">
+                      <div>
+                        <p className="text-2xl font-bold text-neon-cyan font-orbitron">{myEntry.score}</p>
+                        <p className="text-xs text-muted-foreground font-rajdhani">Score</p>
+                      </div>
+                      <div>
+                        <p className="text-2xl font-bold text-neon-green font-orbitron">{myEntry.wins}</p>
+                        <p className="text-xs text-muted-foreground font-rajdhani">Wins</p>
                       </div>
-                      <div className="text-right">
-                        <p className="font-orbitron text-lg text-neon-cyan">{entry.score.toLocaleString()}</p>
-                        <p className="text-xs text-muted-foreground font-rajdhani">points</p>
+                      <div>
+                        <p className="text-2xl font-bold text-neon-purple font-orbitron">{myEntry.gamesPlayed}</p>
+                        <p className="text-xs text-muted-foreground font-rajdhani">Games</p>
                       </div>
                     </div>
                   </div>
-                ))}
+                )}
+
+                {/* Leaderboard */}
+                <div>
+                  <h3 className="font-orbitron text-sm text-foreground uppercase tracking-wider mb-3 flex items-center gap-2">
+                    <TrendingUp className="w-4 h-4 text-neon-orange" />
+                    Leaderboard
+                  </h3>
+                  {topPlayers.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <Trophy className="w-12 h-12 mx-auto mb-2 opacity-30" />
+                      <p className="font-rajdhani">No participants yet</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      {topPlayers.map((entry, index) => (
+                        <div
+                          key={entry.id}
+                          className={`p-3 rounded-xl border transition-all ${
+                            entry.id === myEntry?.id
+                              ? 'bg-neon-cyan/20 border-neon-cyan'
+                              : index === 0
+                              ? 'bg-yellow-500/10 border-yellow-500/30'
+                              : index === 1
+                              ? 'bg-gray-400/10 border-gray-400/30'
+                              : index === 2
+                              ? 'bg-amber-600/10 border-amber-600/30'
+                              : 'bg-card/50 border-border'
+                          }`}
+                        >
+                          <div className="flex items-center gap-3">
+                            <div className="flex-shrink-0">
+                              {getRankIcon(entry.rank)}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <p className="font-rajdhani text-sm font-semibold text-foreground truncate">
+                                {entry.playerName}
+                                {entry.id === myEntry?.id && (
+                                  <span className="ml-2 text-xs text-neon-cyan">(You)</span>
+                                )}
+                              </p>
+                              <div className="flex items-center gap-3 text-xs text-muted-foreground font-rajdhani">
+                                <span>{entry.wins} wins</span>
+                                <span>•</span>
+                                <span>{entry.gamesPlayed} games</span>
+                              </div>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-orbitron text-lg text-neon-cyan">{entry.score.toLocaleString()}</p>
+                              <p className="text-xs text-muted-foreground font-rajdhani">points</p>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
             )}
-          </div>
-        </div>
+          </TabsContent>
+
+          <TabsContent value="brackets" className="mt-0 flex-1 overflow-y-auto py-4">
+            <BracketEvents enabled={tab === 'brackets'} onPlay={handlePlayBracketMatch} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -8,6 +8,7 @@ import { Gamepad2, Loader2, X } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
+import { queuePendingJoin } from '@/hooks/usePendingJoin';
 
 interface UniversalGameCodeInputProps {
   isOpen: boolean;
@@ -66,8 +67,12 @@ const UniversalGameCodeInput: React.FC<UniversalGameCodeInputProps> = ({ isOpen,
         return;
       }
 
+      // Full rooms that are already playing can still be watched
+      const isFull = data.player_count >= (data.max_players || 2);
+      const spectating = isFull && data.status === 'playing';
+
       // Check if room is full
-      if (data.player_count >= (data.max_players || 2)) {
+      if (isFull && !spectating) {
         toast({ 
           variant: 'destructive', 
           title: 'Room Full', 
@@ -105,17 +110,17 @@ const UniversalGameCodeInput: React.FC<UniversalGameCodeInputProps> = ({ isOpen,
         return;
       }
 
-      // Store join info in sessionStorage for the game to pick up
-      sessionStorage.setItem('pendingJoinCode', code.toUpperCase().trim());
-      sessionStorage.setItem('pendingJoinGameType', gameType);
-      sessionStorage.setItem('pendingJoinRoomId', data.id);
+      // Queue the join for the game to pick up
+      queuePendingJoin({ code: code.toUpperCase().trim(), gameType, roomId: data.id });
 
       // Success - join the game
       soundManager.playLocalSound('correct');
       haptics.success();
       toast({ 
         title: 'Room Found!', 
-        description: `Switching to ${data.game_type} game...` 
+        description: spectating 
+          ? `Room is full - watching ${data.game_type} game...` 
+          : `Switching to ${data.game_type} game...` 
       });
 
       // Close dialog and trigger game join
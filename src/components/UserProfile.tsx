@@ -1,13 +1,17 @@
 import React, { useState } from 'react';
+import type { Provider } from '@supabase/supabase-js';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Progress } from '@/components/ui/progress';
-import { X, User, Edit2, Trophy, Star, Award, TrendingUp, Gamepad2 } from 'lucide-react';
+import { X, User, Edit2, Trophy, Star, Award, TrendingUp, Gamepad2, Cloud, Loader2, LogOut, Mail } from 'lucide-react';
 import { useUserProfile } from '@/contexts/UserProfileContext';
 import { useGameStats } from '@/hooks/useGameStats';
+import { toast } from '@/hooks/use-toast';
 import { haptics } from '@/utils/haptics';
 import { soundManager } from '@/utils/soundManager';
+import { checkSupabaseConfig } from '@/utils/supabaseHelpers';
+import { SIGN_IN_PROVIDERS, signInWithMagicLink, signInWithProvider } from '@/utils/profiles';
 
 interface UserProfileProps {
   isOpen: boolean;
@@ -21,12 +25,15 @@ const AVATARS = [
 ];
 
 const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) => {
-  const { profile, updateProfile, getXPProgress, getXPForNextLevel } = useUserProfile();
+  const { profile, account, isSyncing, signOut, updateProfile, getXPProgress, getXPForNextLevel } = useUserProfile();
   const { getOverallStats } = useGameStats();
   const overallStats = getOverallStats();
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(profile.displayName || profile.username);
   const [selectedAvatar, setSelectedAvatar] = useState(profile.avatar);
+  const [email, setEmail] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
   
   // Sync profile with game stats
   React.useEffect(() => {
@@ -50,6 +57,44 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) => {
     soundManager.playLocalSound('correct');
   };
 
+  const sendMagicLink = async () => {
+    if (!email.trim() || !checkSupabaseConfig()) return;
+    setIsSigningIn(true);
+    try {
+      await signInWithMagicLink(email.trim());
+      setLinkSent(true);
+      haptics.success();
+    } catch (error) {
+      console.error('Failed to send sign-in link:', error);
+      toast({ variant: 'destructive', title: 'Sign-in Failed', description: error.message });
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const signInWith = async (provider: Provider) => {
+    if (!checkSupabaseConfig()) return;
+    haptics.light();
+    try {
+      // Leaves the page for the provider and comes back signed in
+      await signInWithProvider(provider);
+    } catch (error) {
+      console.error('OAuth sign-in failed:', error);
+      toast({ variant: 'destructive', title: 'Sign-in Failed', description: error.message });
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      haptics.light();
+      toast({ title: 'Signed Out', description: 'Your profile is saved to your account.' });
+    } catch (error) {
+      console.error('Sign-out failed:', error);
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
   const xpProgress = getXPProgress();
   const xpForNextLevel = getXPForNextLevel();
   const currentLevelXP = (profile.level - 1) * 100;
@@ -167,6 +212,57 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) => {
             </div>
           )}
 
+          {/* Account */}
+          <div className="p-4 bg-card/50 rounded-xl border border-border space-y-3">
+            <h3 className="font-orbitron text-sm text-foreground flex items-center gap-2">
+              <Cloud className="w-4 h-4 text-neon-cyan" />
+              Account
+              {isSyncing && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+            </h3>
+            {account ? (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground font-rajdhani truncate">
+                  Signed in{account.email ? ` as ${account.email}` : ''} - your profile is saved to the cloud
+                </p>
+                <Button variant="outline" size="sm" onClick={handleSignOut}>
+                  <LogOut className="w-4 h-4" />
+                  Sign Out
+                </Button>
+              </div>
+            ) : linkSent ? (
+              <p className="text-sm text-neon-green font-rajdhani">
+                Check {email} for a sign-in link. Your profile on this device will be saved to your account.
+              </p>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground font-rajdhani">
+                  Sign in to keep your profile if this browser's storage is cleared and take it to other devices.
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && sendMagicLink()}
+                    placeholder="you@example.com"
+                    className="font-rajdhani"
+                  />
+                  <Button onClick={sendMagicLink} disabled={!email.trim() || isSigningIn}>
+                    {isSigningIn ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+                    Email Link
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  {SIGN_IN_PROVIDERS.map(provider => (
+                    <Button key={provider.id} variant="outline" size="sm" className="flex-1" onClick={() => signInWith(provider.id)}>
+                      Continue with {provider.label}
+                    </Button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+
           {/* Stats Grid */}
           <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
             <div className="bg-card/50 border border-border rounded-xl p-3 text-center">
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Link2, Tag } from 'lucide-react';
+import { haptics } from '@/utils/haptics';
+import { WORD_CHAIN_THEMES, type WordChainRules } from '@/utils/wordChain';
+
+interface WordChainRulesPickerProps {
+  value: WordChainRules;
+  onChange: (rules: WordChainRules) => void;
+}
+
+const LINKS: { link: WordChainRules['link']; label: string }[] = [
+  { link: 1, label: 'Last letter' },
+  { link: 2, label: 'Last two' },
+];
+
+const THEMES: { theme: WordChainRules['theme']; label: string }[] = [
+  { theme: null, label: 'Any word' },
+  ...WORD_CHAIN_THEMES.map(({ id, label }) => ({ theme: id, label })),
+];
+
+const optionClass = (selected: boolean) =>
+  `px-3 h-8 rounded-md font-rajdhani text-sm transition-all duration-200 ${
+    selected ? 'bg-primary/20 text-primary border border-primary' : 'text-muted-foreground hover:text-foreground'
+  }`;
+
+const WordChainRulesPicker: React.FC<WordChainRulesPickerProps> = ({ value, onChange }) => {
+  const handleChange = (rules: Partial<WordChainRules>) => {
+    haptics.light();
+    onChange({ ...value, ...rules });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex flex-col items-center gap-2">
+        <span className="flex items-center gap-1 text-xs font-orbitron text-muted-foreground uppercase tracking-wider">
+          <Link2 className="w-3 h-3" />
+          Chain on
+        </span>
+        <div className="flex gap-1 p-1 bg-card/50 rounded-lg border border-border">
+          {LINKS.map(({ link, label }) => (
+            <button
+              key={link}
+              type="button"
+              onClick={() => handleChange({ link })}
+              aria-pressed={value.link === link}
+              className={optionClass(value.link === link)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-col items-center gap-2">
+        <span className="flex items-center gap-1 text-xs font-orbitron text-muted-foreground uppercase tracking-wider">
+          <Tag className="w-3 h-3" />
+          Theme
+        </span>
+        <div className="flex flex-wrap justify-center gap-1 p-1 bg-card/50 rounded-lg border border-border">
+          {THEMES.map(({ theme, label }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => handleChange({ theme })}
+              aria-pressed={value.theme === theme}
+              className={optionClass(value.theme === theme)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WordChainRulesPicker;
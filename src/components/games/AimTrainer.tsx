@@ -89,9 +89,9 @@ const AimTrainer: React.FC = () => {
         setBestScore(score);
       }
       
-      addScore(GAME_TYPES.AIM_TRAINER || 'aim_trainer', playerName, score, `${hits} hits, ${accuracy}% acc`);
+      addScore(GAME_TYPES.AIM_TRAINER || 'aim_trainer', playerName, score, `${hits} hits, ${accuracy}% acc`, difficulty);
     }
-  }, [isPlaying, timeLeft, hits, misses, bestScore, playerName, addScore]);
+  }, [isPlaying, timeLeft, hits, misses, bestScore, playerName, addScore, difficulty]);
 
   const handleTargetClick = (id: number) => {
     setTargets(prev => prev.filter(t => t.id !== id));
@@ -110,7 +110,7 @@ const ColorMatch: React.FC = () => {
           
           // Save to leaderboard
           if (score > 0) {
-            addScore(GAME_TYPES.COLOR_MATCH, playerName, score, `Streak: ${streak}`);
+            addScore(GAME_TYPES.COLOR_MATCH, playerName, score, `Streak: ${streak}`, difficulty);
           }
           
           if (isHighScore && score > 0) {
@@ -128,7 +128,7 @@ const ColorMatch: React.FC = () => {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [gameState, score, highScore, streak, playerName, addScore, isNewHighScore]);
+  }, [gameState, score, highScore, streak, playerName, addScore, isNewHighScore, difficulty]);
 
   return (
     <div className="flex flex-col items-center gap-6 w-full max-w-md mx-auto">
@@ -1,16 +1,27 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Circle, Copy, Check, RotateCcw, Wifi, WifiOff, Trophy } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Circle, Copy, Check, RotateCcw, Wifi, WifiOff, Trophy, Bot, LineChart } from 'lucide-react';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
-import { celebrateWin, celebrateEpicVictory, celebrateStars } from '@/utils/confetti';
-import { useToast } from '@/hooks/use-toast';
-
-type Player = 'red' | 'yellow' | null;
-type Board = Player[][];
-type GameMode = 'menu' | 'create' | 'join' | 'waiting' | 'playing' | 'ended';
+import { celebrateEpicVictory } from '@/utils/confetti';
+import { reportBracketMatch } from '@/utils/brackets';
+import { reportTournamentMatch } from '@/utils/tournaments';
+import { COLS, ROWS, checkWinner, createEmptyBoard, findDropRow, type Board, type Player } from '@/utils/connectFour';
+import { useRealtimeRoom } from '@/hooks/useRealtimeRoom';
+import { useQuickMatch } from '@/hooks/useQuickMatch';
+import { useConnectFourAI } from '@/hooks/useConnectFourAI';
+import { useDifficulty, difficultyConfigs } from '@/contexts/DifficultyContext';
+import { usePowerUpsContext } from '@/contexts/PowerUpsContext';
+import { toast } from '@/hooks/use-toast';
+import type { AnalysedMove } from '@/utils/moveAnalysis';
+import ReconnectingBanner from '@/components/ReconnectingBanner';
+import SpectatorBanner from '@/components/SpectatorBanner';
+import QuickMatchPanel from '@/components/QuickMatchPanel';
+import RoomInvite from '@/components/RoomInvite';
+import MoveAnalysis from '@/components/MoveAnalysis';
+
+type GameMode = 'menu' | 'computer' | 'create' | 'join' | 'waiting' | 'playing' | 'ended';
 
 interface FloatingEmoji {
   id: string;
@@ -21,63 +32,82 @@ interface FloatingEmoji {
   scale: number;
 }
 
-const ROWS = 6;
-const COLS = 7;
-const REACTION_EMOJIS = ['😍', '🔥', '😂', '😤', '🥵', '👏', '💯', '✨', '🎉', '💀'];
+interface GameState {
+  board: Board;
+  currentPlayer: 'red' | 'yellow';
+  winner: Player;
+  isDraw: boolean;
+  scores: { red: number; yellow: number };
+}
 
-const createEmptyBoard = (): Board => 
-  Array(ROWS).fill(null).map(() => Array(COLS).fill(null));
-
-const checkWinner = (board: Board, row: number, col: number, player: Player): boolean => {
-  if (!player) return false;
-
-  const directions = [
-    [0, 1],   // horizontal
-    [1, 0],   // vertical
-    [1, 1],   // diagonal down-right
-    [1, -1],  // diagonal down-left
-  ];
-
-  for (const [dr, dc] of directions) {
-    let count = 1;
-    
-    // Check positive direction
-    for (let i = 1; i < 4; i++) {
-      const r = row + dr * i;
-      const c = col + dc * i;
-      if (r >= 0 && r < ROWS && c >= 0 && c < COLS && board[r][c] === player) {
-        count++;
-      } else break;
-    }
-    
-    // Check negative direction
-    for (let i = 1; i < 4; i++) {
-      const r = row - dr * i;
-      const c = col - dc * i;
-      if (r >= 0 && r < ROWS && c >= 0 && c < COLS && board[r][c] === player) {
-        count++;
-      } else break;
-    }
+type GameAction =
+  | { type: 'drop'; col: number }
+  | { type: 'restart' };
+
+interface PlayedMove {
+  player: 'red' | 'yellow';
+  col: number;
+}
 
-    if (count >= 4) return true;
+const REACTION_EMOJIS = ['😍', '🔥', '😂', '😤', '🥵', '👏', '💯', '✨', '🎉', '💀'];
+// The computer plays yellow; a quick search still waits this long so its move can be followed
+const COMPUTER_COLOR = 'yellow';
+const COMPUTER_MIN_DELAY = 500;
+
+const createGameState = (scores = { red: 0, yellow: 0 }): GameState => ({
+  board: createEmptyBoard(),
+  currentPlayer: 'red',
+  winner: null,
+  isDraw: false,
+  scores,
+});
+
+const countPieces = (board: Board) => board.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+
+const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'drop': {
+      if (state.winner || state.isDraw) return state;
+      const row = findDropRow(state.board, action.col);
+      if (row === -1) return state;
+
+      const board = state.board.map(r => [...r]);
+      board[row][action.col] = state.currentPlayer;
+
+      if (checkWinner(board, row, action.col, state.currentPlayer)) {
+        return {
+          ...state,
+          board,
+          winner: state.currentPlayer,
+          scores: { ...state.scores, [state.currentPlayer]: state.scores[state.currentPlayer] + 1 },
+        };
+      }
+      if (board.every(r => r.every(cell => cell !== null))) {
+        return { ...state, board, isDraw: true };
+      }
+      return { ...state, board, currentPlayer: state.currentPlayer === 'red' ? 'yellow' : 'red' };
+    }
+    case 'restart':
+      return createGameState(state.scores);
+    default:
+      return state;
   }
-  return false;
 };
 
 const ConnectFour: React.FC = () => {
-  const { toast } = useToast();
   const [mode, setMode] = useState<GameMode>('menu');
-  const [board, setBoard] = useState<Board>(createEmptyBoard());
-  const [currentPlayer, setCurrentPlayer] = useState<'red' | 'yellow'>('red');
-  const [winner, setWinner] = useState<Player>(null);
-  const [myColor, setMyColor] = useState<'red' | 'yellow'>('red');
-  const [roomCode, setRoomCode] = useState('');
   const [joinCode, setJoinCode] = useState('');
   const [copied, setCopied] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const [scores, setScores] = useState({ red: 0, yellow: 0 });
   const [floatingEmojis, setFloatingEmojis] = useState<FloatingEmoji[]>([]);
-  const channelRef = useRef<any>(null);
+  const { difficulty } = useDifficulty();
+  const { requestMove, requestHint, requestAnalysis } = useConnectFourAI();
+  const { usePowerUp: spendPowerUp, getOwnedQuantity } = usePowerUpsContext();
+  const [moveHistory, setMoveHistory] = useState<PlayedMove[]>([]);
+  // A hint only stands for the board it was worked out on
+  const [hint, setHint] = useState<{ board: Board; col: number } | null>(null);
+  const [isHintLoading, setIsHintLoading] = useState(false);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [analysis, setAnalysis] = useState<AnalysedMove[] | null>(null);
 
   // Spawn floating emojis
   const spawnFloatingEmojis = useCallback((emoji: string) => {
@@ -98,70 +128,127 @@ const ConnectFour: React.FC = () => {
     }, 2500);
   }, []);
 
+  const {
+    state,
+    dispatch,
+    replaceState,
+    room,
+    status,
+    spectators,
+    isReconnecting,
+    createRoom: createOnlineRoom,
+    joinRoom: joinOnlineRoom,
+    leaveRoom,
+    broadcast,
+  } = useRealtimeRoom<GameState, GameAction>({
+    gameType: 'connect4',
+    reducer: gameReducer,
+    serverValidated: true,
+    initialState: createGameState(),
+    onAction: (action, next, remote) => {
+      if (action.type === 'restart') {
+        setMoveHistory([]);
+        return;
+      }
+      // Rejected drops leave the board as it was
+      const player = next.board.find(row => row[action.col])?.[action.col];
+      setMoveHistory(prev => (player && countPieces(next.board) === prev.length + 1 ? [...prev, { player, col: action.col }] : prev));
+      if (next.isDraw && room && !room.isSpectator) reportTournamentMatch(room.id, 'connect4');
+      if (!next.winner) return;
+      if (room?.isSpectator) {
+        spawnFloatingEmojis('🏆');
+        return;
+      }
+      if (room) {
+        reportTournamentMatch(room.id, 'connect4');
+        reportBracketMatch(room.id);
+      }
+      if (next.winner === myColor) {
+        soundManager.playLocalSound('win');
+        haptics.success();
+        celebrateEpicVictory();
+        spawnFloatingEmojis('🏆');
+        setTimeout(() => spawnFloatingEmojis('🎉'), 300);
+      } else if (remote || mode === 'computer') {
+        soundManager.playLocalSound('lose');
+        haptics.screenShake();
+      }
+    },
+    onOpponentLeft: () => {
+      setMode('menu');
+      setJoinCode('');
+    },
+    events: {
+      reaction: (payload) => {
+        if (typeof payload?.emoji === 'string') {
+          soundManager.playEmojiSound(payload.emoji);
+          spawnFloatingEmojis(payload.emoji);
+        }
+      },
+    },
+  });
+
+  const quickMatch = useQuickMatch({
+    gameType: 'connect4',
+    status,
+    createRoom: () => createOnlineRoom(createGameState()),
+    joinRoom: joinOnlineRoom,
+    leaveRoom: () => leaveGame(),
+  });
+
+  const { board, currentPlayer, winner, isDraw, scores } = state;
+  const roomCode = room?.code || '';
+  const myColor: 'red' | 'yellow' = room && !room.isHost ? 'yellow' : 'red';
+  const isSpectator = !!room?.isSpectator;
+  const isConnected = status === 'playing' && !isReconnecting;
+
+  // Follow the room lifecycle
+  useEffect(() => {
+    if (status === 'waiting') setMode('waiting');
+    else if (status === 'playing') setMode('playing');
+  }, [status]);
+
+  // The computer answers each of the player's moves
+  useEffect(() => {
+    if (mode !== 'computer' || currentPlayer !== COMPUTER_COLOR || winner || isDraw) return;
+
+    let cancelled = false;
+    Promise.all([
+      requestMove(board, COMPUTER_COLOR, difficulty),
+      new Promise(resolve => setTimeout(resolve, COMPUTER_MIN_DELAY)),
+    ]).then(([col]) => {
+      if (cancelled || col === -1) return;
+      soundManager.playLocalSound('click');
+      dispatch({ type: 'drop', col });
+    }).catch(error => {
+      console.error('Computer move failed:', error);
+      if (!cancelled) toast({ variant: 'destructive', title: 'The computer got stuck', description: 'Start a new game to keep playing.' });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, currentPlayer, winner, isDraw, board, difficulty, requestMove, dispatch]);
+
   const handleReaction = (emoji: string) => {
     haptics.light();
     soundManager.playEmojiSound(emoji);
     spawnFloatingEmojis(emoji);
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'reaction',
-        payload: { emoji },
-      });
-    }
+    broadcast('reaction', { emoji });
   };
 
-  const generateRoomCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
-
   const createRoom = async () => {
-    const code = generateRoomCode();
-    setRoomCode(code);
-    setMyColor('red');
-
-    try {
-      await supabase.from('game_rooms').insert({
-        room_code: code,
-        game_type: 'connect4',
-        game_state: { board: createEmptyBoard(), currentPlayer: 'red', scores: { red: 0, yellow: 0 } },
-        status: 'waiting',
-      });
-      setMode('waiting');
-      toast({ title: 'Room Created!', description: 'Share the code with a friend' });
-    } catch (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to create room' });
-    }
+    await createOnlineRoom(createGameState());
   };
 
   const joinRoom = async () => {
-    if (!joinCode.trim()) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('game_rooms')
-        .select('*')
-        .eq('room_code', joinCode.toUpperCase())
-        .single();
-
-      if (error || !data) {
-        toast({ variant: 'destructive', title: 'Error', description: 'Room not found' });
-        return;
-      }
-
-      const code = joinCode.toUpperCase();
-      setRoomCode(code);
-      setMyColor('yellow');
-      setMode('playing');
-      setIsConnected(true);
-
-      await supabase.from('game_rooms')
-        .update({ player_count: 2, status: 'playing' })
-        .eq('room_code', code);
+    await joinOnlineRoom(joinCode);
+  };
 
-      haptics.success();
-      toast({ title: 'Joined!', description: 'Game starting!' });
-    } catch (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to join room' });
-    }
+  const playComputer = () => {
+    replaceState(createGameState());
+    setMoveHistory([]);
+    setMode('computer');
   };
 
   const copyRoomCode = () => {
@@ -170,164 +257,108 @@ const ConnectFour: React.FC = () => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  // Subscribe to room
-  useEffect(() => {
-    if (!roomCode || (mode !== 'waiting' && mode !== 'playing' && mode !== 'ended')) return;
-
-    const channel = supabase
-      .channel(`c4-${roomCode}`, { config: { broadcast: { self: false } } })
-      .on('broadcast', { event: 'game_left' }, () => {
-        toast({ title: 'Opponent Left', description: 'The game has ended' });
-        resetGame();
-      })
-      .on('broadcast', { event: 'player_joined' }, () => {
-        if (mode === 'waiting') {
-          setMode('playing');
-          setIsConnected(true);
-          haptics.success();
-          toast({ title: 'Player Joined!', description: 'Game starting!' });
-        }
-      })
-      .on('broadcast', { event: 'game_update' }, ({ payload }) => {
-        if (payload) {
-          if (payload.board) setBoard(payload.board);
-          if (payload.currentPlayer) setCurrentPlayer(payload.currentPlayer);
-          if (payload.winner !== undefined) {
-            setWinner(payload.winner);
-            if (payload.winner && payload.winner !== myColor) {
-              soundManager.playLocalSound('lose');
-              haptics.screenShake();
-            }
-          }
-          if (payload.scores) setScores(payload.scores);
-        }
-      })
-      .on('broadcast', { event: 'restart_game' }, () => {
-        setBoard(createEmptyBoard());
-        setCurrentPlayer('red');
-        setWinner(null);
-      })
-      .on('broadcast', { event: 'reaction' }, ({ payload }) => {
-        if (payload?.emoji) {
-          soundManager.playEmojiSound(payload.emoji);
-          spawnFloatingEmojis(payload.emoji);
-        }
-      })
-      .subscribe(async (status) => {
-        if (status === 'SUBSCRIBED' && myColor === 'yellow') {
-          await channel.send({
-            type: 'broadcast',
-            event: 'player_joined',
-            payload: {},
-          });
-        }
-      });
-
-    channelRef.current = channel;
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [roomCode, mode, myColor]);
-
   const dropPiece = useCallback((col: number) => {
-    if (winner || currentPlayer !== myColor || mode !== 'playing') return;
-
-    // Find lowest empty row
-    let row = -1;
-    for (let r = ROWS - 1; r >= 0; r--) {
-      if (!board[r][col]) {
-        row = r;
-        break;
-      }
-    }
-    if (row === -1) return; // Column full
+    if (winner || isDraw || currentPlayer !== myColor || (mode !== 'playing' && mode !== 'computer') || isReconnecting || isSpectator) return;
+    if (findDropRow(board, col) === -1) return; // Column full
 
     haptics.medium();
     soundManager.playLocalSound('click');
+    dispatch({ type: 'drop', col });
+  }, [board, currentPlayer, myColor, mode, winner, isDraw, isReconnecting, isSpectator, dispatch]);
 
-    const newBoard = board.map(r => [...r]);
-    newBoard[row][col] = currentPlayer;
-    setBoard(newBoard);
-
-    // Check for winner
-    if (checkWinner(newBoard, row, col, currentPlayer)) {
-      setWinner(currentPlayer);
-      const newScores = { ...scores, [currentPlayer]: scores[currentPlayer] + 1 };
-      setScores(newScores);
-      soundManager.playLocalSound('win');
-      haptics.success();
-      celebrateEpicVictory();
-      spawnFloatingEmojis('🏆');
-      setTimeout(() => spawnFloatingEmojis('🎉'), 300);
-
-      if (channelRef.current) {
-        channelRef.current.send({
-          type: 'broadcast',
-          event: 'game_update',
-          payload: { board: newBoard, winner: currentPlayer, scores: newScores },
-        });
-      }
-    } else {
-      // Check for draw
-      const isDraw = newBoard.every(row => row.every(cell => cell !== null));
-      if (isDraw) {
-        setWinner(null);
-        // Handle draw if needed
-      } else {
-        const nextPlayer = currentPlayer === 'red' ? 'yellow' : 'red';
-        setCurrentPlayer(nextPlayer);
-
-        if (channelRef.current) {
-          channelRef.current.send({
-            type: 'broadcast',
-            event: 'game_update',
-            payload: { board: newBoard, currentPlayer: nextPlayer },
-          });
-        }
-      }
-    }
-  }, [board, currentPlayer, myColor, mode, winner, scores]);
-
-  const resetGame = () => {
+  const leaveGame = async () => {
+    await leaveRoom();
+    replaceState(createGameState());
+    setMoveHistory([]);
     setMode('menu');
-    setBoard(createEmptyBoard());
-    setCurrentPlayer('red');
-    setWinner(null);
-    setRoomCode('');
     setJoinCode('');
-    setIsConnected(false);
-    setScores({ red: 0, yellow: 0 });
   };
 
-  const leaveGame = async () => {
-    if (channelRef.current) {
-      await channelRef.current.send({
-        type: 'broadcast',
-        event: 'game_left',
-        payload: {},
-      });
+  const restartGame = () => {
+    dispatch({ type: 'restart' });
+  };
+
+  const showHint = async () => {
+    if (!spendPowerUp('hint')) {
+      toast({ title: 'No hints left', description: 'Buy more from the Power-Ups shop.' });
+      return;
     }
-    if (roomCode) {
-      await supabase.from('game_rooms').delete().eq('room_code', roomCode);
+    haptics.light();
+    setIsHintLoading(true);
+    try {
+      const col = await requestHint(board, myColor);
+      if (col !== -1) setHint({ board, col });
+    } catch (error) {
+      console.error('Hint search failed:', error);
+      toast({ variant: 'destructive', title: 'No hint this time', description: 'The search failed. Try again.' });
+    } finally {
+      setIsHintLoading(false);
     }
-    resetGame();
   };
 
-  const restartGame = () => {
-    setBoard(createEmptyBoard());
-    setCurrentPlayer('red');
-    setWinner(null);
-
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'restart_game',
-        payload: {},
-      });
+  const openAnalysis = async () => {
+    setAnalysis(null);
+    setShowAnalysis(true);
+    try {
+      setAnalysis(await requestAnalysis(moveHistory));
+    } catch (error) {
+      console.error('Game analysis failed:', error);
+      setShowAnalysis(false);
+      toast({ variant: 'destructive', title: 'Analysis failed', description: 'The game could not be analysed.' });
     }
   };
 
+  const playerLabel = (player: string) => {
+    if (mode === 'computer') return player === COMPUTER_COLOR ? 'Computer' : 'You';
+    if (!isSpectator) return player === myColor ? 'You' : 'Opponent';
+    return player === 'red' ? 'Red' : 'Yellow';
+  };
+
+  const renderAnalysisBoard = (step: number, move: AnalysedMove | null) => {
+    const replay = createEmptyBoard();
+    moveHistory.slice(0, step).forEach(m => {
+      replay[findDropRow(replay, m.col)][m.col] = m.player;
+    });
+    return (
+      <div className="bg-blue-600 p-1.5 rounded-lg">
+        <div className="grid grid-cols-7 gap-1">
+          {Array(COLS).fill(null).map((_, col) => (
+            <div
+              key={col}
+              className={`flex flex-col gap-1 rounded p-0.5 ${
+                move?.move === col ? 'bg-blue-400/60' : move && move.best !== move.move && move.best === col ? 'ring-2 ring-neon-green' : ''
+              }`}
+            >
+              {Array(ROWS).fill(null).map((_, row) => (
+                <div
+                  key={row}
+                  className={`w-6 h-6 rounded-full border border-blue-800 ${
+                    replay[row][col] === 'red' ? 'bg-red-500' : replay[row][col] === 'yellow' ? 'bg-yellow-500' : 'bg-blue-900'
+                  }`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Quick match search / nobody found
+  if (quickMatch.phase !== 'idle' && (mode === 'menu' || mode === 'waiting')) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-6 p-4">
+        <QuickMatchPanel
+          quickMatch={quickMatch}
+          fallbacks={[
+            { label: 'Play vs Computer', onSelect: playComputer },
+            { label: 'Create Private Room', onSelect: createRoom },
+          ]}
+        />
+      </div>
+    );
+  }
+
   // Menu
   if (mode === 'menu') {
     return (
@@ -341,7 +372,16 @@ const ConnectFour: React.FC = () => {
           <p className="text-muted-foreground">Get 4 in a row to win!</p>
         </div>
 
+        <QuickMatchPanel quickMatch={quickMatch} />
+
         <div className="flex flex-col gap-3 w-full max-w-xs">
+          <Button onClick={playComputer} variant="outline" className="w-full justify-between">
+            <span className="flex items-center gap-2">
+              <Bot className="w-4 h-4" />
+              Play vs Computer
+            </span>
+            <span className={`text-xs ${difficultyConfigs[difficulty].color}`}>{difficultyConfigs[difficulty].label}</span>
+          </Button>
           <Button onClick={createRoom} className="w-full bg-red-500/20 border-red-500 text-red-500 hover:bg-red-500/30">
             Create Room
           </Button>
@@ -373,22 +413,51 @@ const ConnectFour: React.FC = () => {
               {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
             </Button>
           </div>
+          <RoomInvite roomCode={roomCode} gameType="connect4" />
         </div>
         <Button variant="outline" onClick={leaveGame}>Cancel</Button>
       </div>
     );
   }
 
+  const hintCol = hint?.board === board ? hint.col : null;
+  const canHint = mode === 'computer' && currentPlayer === myColor && !winner && !isDraw && hintCol === null && !isHintLoading;
+  // Analysis needs every move, which a spectator who joined part-way doesn't have
+  const canAnalyse = moveHistory.length > 0 && moveHistory.length === countPieces(board);
+
+  const gameOverActions = !isSpectator && (
+    <div className="flex flex-wrap justify-center gap-2 mt-4">
+      <Button onClick={restartGame} className="hover:scale-105 transition-transform">
+        <RotateCcw className="w-4 h-4 mr-2" /> Play Again
+      </Button>
+      {canAnalyse && (
+        <Button variant="outline" onClick={openAnalysis}>
+          <LineChart className="w-4 h-4 mr-2" /> Analyse Game
+        </Button>
+      )}
+    </div>
+  );
+
   // Playing / Ended
   return (
     <div className="flex flex-col items-center justify-center gap-4 p-2 w-full max-w-sm">
+      <ReconnectingBanner isReconnecting={isReconnecting} />
+      <SpectatorBanner isSpectator={isSpectator} spectatorCount={spectators.length} />
+
       <div className="flex items-center justify-between w-full">
         <div className="flex items-center gap-2">
-          {isConnected ? <Wifi className="w-4 h-4 text-green-500" /> : <WifiOff className="w-4 h-4 text-red-500" />}
-          <div className="flex items-center gap-1">
-            <Circle className={`w-4 h-4 ${myColor === 'red' ? 'text-red-500 fill-red-500' : 'text-yellow-500 fill-yellow-500'}`} />
-            <span className="text-sm text-muted-foreground">You</span>
-          </div>
+          {mode === 'computer' ? (
+            <span className={`flex items-center gap-1 text-xs ${difficultyConfigs[difficulty].color}`}>
+              <Bot className="w-4 h-4" />
+              {difficultyConfigs[difficulty].label}
+            </span>
+          ) : isConnected ? <Wifi className="w-4 h-4 text-green-500" /> : <WifiOff className="w-4 h-4 text-red-500" />}
+          {!isSpectator && (
+            <div className="flex items-center gap-1">
+              <Circle className={`w-4 h-4 ${myColor === 'red' ? 'text-red-500 fill-red-500' : 'text-yellow-500 fill-yellow-500'}`} />
+              <span className="text-sm text-muted-foreground">You</span>
+            </div>
+          )}
         </div>
         <Button variant="ghost" size="sm" onClick={leaveGame}>Leave</Button>
       </div>
@@ -407,9 +476,11 @@ const ConnectFour: React.FC = () => {
       </div>
 
       {/* Turn Indicator */}
-      {!winner && (
-        <p className={`text-sm ${currentPlayer === myColor ? 'text-neon-green' : 'text-muted-foreground'}`}>
-          {currentPlayer === myColor ? "Your turn!" : "Opponent's turn..."}
+      {!winner && !isDraw && (
+        <p className={`text-sm ${currentPlayer === myColor && !isSpectator ? 'text-neon-green' : 'text-muted-foreground'}`}>
+          {isSpectator
+            ? `${currentPlayer === 'red' ? 'Red' : 'Yellow'}'s turn`
+            : currentPlayer === myColor ? "Your turn!" : mode === 'computer' ? 'Computer is thinking...' : "Opponent's turn..."}
         </p>
       )}
 
@@ -420,8 +491,10 @@ const ConnectFour: React.FC = () => {
             <button
               key={col}
               onClick={() => dropPiece(col)}
-              disabled={winner !== null || currentPlayer !== myColor}
-              className="flex flex-col gap-1 hover:bg-blue-500/50 rounded p-0.5 transition-all duration-200 disabled:cursor-not-allowed group"
+              disabled={winner !== null || isDraw || currentPlayer !== myColor || isReconnecting || isSpectator}
+              className={`flex flex-col gap-1 hover:bg-blue-500/50 rounded p-0.5 transition-all duration-200 disabled:cursor-not-allowed group ${
+                hintCol === col ? 'ring-2 ring-neon-green animate-pulse' : ''
+              }`}
             >
               {Array(ROWS).fill(null).map((_, row) => (
                 <div
@@ -445,26 +518,52 @@ const ConnectFour: React.FC = () => {
         <div className="text-center animate-scale-in">
           <Trophy className={`w-12 h-12 mx-auto mb-2 animate-[bounce_0.5s_ease-in-out_infinite] ${winner === myColor ? 'text-neon-green drop-shadow-[0_0_10px_rgba(0,255,0,0.5)]' : 'text-red-500 drop-shadow-[0_0_10px_rgba(255,0,0,0.5)]'}`} />
           <p className="font-orbitron text-2xl font-bold animate-pulse">
-            {winner === myColor ? '🎉 You Win! 🎉' : '😢 You Lose!'}
+            {isSpectator
+              ? `🏆 ${winner === 'red' ? 'Red' : 'Yellow'} Wins!`
+              : winner === myColor ? '🎉 You Win! 🎉' : '😢 You Lose!'}
           </p>
-          <Button onClick={restartGame} className="mt-4 hover:scale-105 transition-transform">
-            <RotateCcw className="w-4 h-4 mr-2" /> Play Again
-          </Button>
+          {gameOverActions}
+        </div>
+      )}
+
+      {/* Draw Display */}
+      {isDraw && (
+        <div className="text-center animate-scale-in">
+          <p className="font-orbitron text-2xl font-bold">🤝 It's a Draw!</p>
+          {gameOverActions}
         </div>
       )}
 
+      {/* Hints are for games against the computer only, so online play stays fair */}
+      {mode === 'computer' && !winner && !isDraw && (
+        <Button variant="outline" size="sm" onClick={showHint} disabled={!canHint}>
+          💡 {isHintLoading ? 'Thinking...' : `Hint (${getOwnedQuantity('hint')})`}
+        </Button>
+      )}
+
       {/* Reaction Bar */}
-      <div className="flex flex-wrap gap-2 justify-center max-w-xs">
-        {REACTION_EMOJIS.map((emoji) => (
-          <button
-            key={emoji}
-            onClick={() => handleReaction(emoji)}
-            className="text-xl p-1.5 rounded-full bg-muted/50 hover:bg-muted hover:scale-125 active:scale-95 transition-all duration-200"
-          >
-            {emoji}
-          </button>
-        ))}
-      </div>
+      {mode !== 'computer' && (
+        <div className="flex flex-wrap gap-2 justify-center max-w-xs">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => handleReaction(emoji)}
+              className="text-xl p-1.5 rounded-full bg-muted/50 hover:bg-muted hover:scale-125 active:scale-95 transition-all duration-200"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <MoveAnalysis
+        isOpen={showAnalysis}
+        onClose={() => setShowAnalysis(false)}
+        moves={analysis}
+        playerLabel={playerLabel}
+        moveLabel={col => `Column ${col + 1}`}
+        renderBoard={renderAnalysisBoard}
+      />
 
       {/* Floating Emojis */}
       {floatingEmojis.map((e) => (
@@ -1,16 +1,20 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { supabase } from '@/integrations/supabase/client';
-import { Pencil, Eraser, Trash2, Copy, Users, ArrowLeft, Check, Trophy, Undo2, Minus, Plus } from 'lucide-react';
+import { Pencil, Eraser, Trash2, Users, ArrowLeft, Check, Trophy, Undo2, Minus, Plus } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { toast } from 'sonner';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
 import { celebrateFireworks } from '@/utils/confetti';
-import { RealtimeChannel } from '@supabase/supabase-js';
-import { usePendingJoin } from '@/hooks/usePendingJoin';
-import { useGameChannel } from '@/contexts/GameChannelContext';
+import { useRealtimeRoom } from '@/hooks/useRealtimeRoom';
+import { useQuickMatch } from '@/hooks/useQuickMatch';
+import SpectatorBanner from '@/components/SpectatorBanner';
+import QuickMatchPanel from '@/components/QuickMatchPanel';
+import RoomInvite from '@/components/RoomInvite';
+import RoomLobby from '@/components/RoomLobby';
+import LobbySizePicker from '@/components/LobbySizePicker';
+import { ROOM_CODE_LENGTH, sendSecretRequest } from '@/utils/gameRooms';
 
 type GameMode = 'menu' | 'create' | 'join' | 'waiting' | 'playing' | 'ended';
 
@@ -25,45 +29,123 @@ interface DrawingPoint {
 interface GameState {
   lines: DrawingPoint[][];
   currentDrawer: string;
-  word: string;
+  /** 0 until the host has dealt this turn's word; only the drawer can fetch the word itself */
+  wordLength: number;
   scores: Record<string, number>;
   guesses: { player: string; playerName: string; text: string; correct: boolean }[];
   round: number;
   maxRounds: number;
-  players: { id: string; name: string }[];
+  /** `seat` is the room seat each player joined in, which the server uses to read results */
+  players: { id: string; name: string; seat?: number }[];
   winner: string | null;
 }
 
-const WORDS = [
-  'cat', 'dog', 'house', 'tree', 'car', 'sun', 'moon', 'star', 'fish', 'bird',
-  'apple', 'banana', 'pizza', 'cake', 'flower', 'rainbow', 'heart', 'cloud',
-  'book', 'phone', 'guitar', 'ball', 'hat', 'shoe', 'glasses', 'chair',
-  'mountain', 'ocean', 'butterfly', 'rocket', 'robot', 'dragon', 'unicorn'
-];
+type GameAction =
+  | { type: 'player_joined'; player: { id: string; name: string; seat: number } }
+  | { type: 'start' }
+  | { type: 'draw'; lines: DrawingPoint[][] }
+  | { type: 'clear' }
+  | { type: 'word_dealt'; round: number; drawer: string; wordLength: number }
+  | { type: 'guess'; player: string; playerName: string; text: string; round: number; correct: boolean }
+  | { type: 'player_left'; id: string };
+
+const ROUNDS_PER_PLAYER = 2;
 
 const COLORS = ['#000000', '#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF', '#FF6B00'];
 
+// The host always creates the room from seat 0
+const createGameState = (host?: { id: string; name: string }): GameState => ({
+  lines: [],
+  currentDrawer: host?.id || '',
+  wordLength: 0,
+  scores: host ? { [host.id]: 0 } : {},
+  guesses: [],
+  round: 1,
+  maxRounds: 5,
+  players: host ? [{ ...host, seat: 0 }] : [],
+  winner: null
+});
+
+const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'player_joined':
+      if (state.players.some(p => p.id === action.player.id)) return state;
+      return {
+        ...state,
+        players: [...state.players, action.player],
+        scores: { ...state.scores, [action.player.id]: 0 },
+      };
+    case 'start':
+      // Everyone gets the same number of turns at drawing
+      return { ...state, round: 1, maxRounds: state.players.length * ROUNDS_PER_PLAYER };
+    case 'draw':
+      return { ...state, lines: action.lines };
+    case 'clear':
+      return { ...state, lines: [] };
+    case 'word_dealt':
+      if (action.round !== state.round || action.drawer !== state.currentDrawer) return state;
+      return { ...state, wordLength: action.wordLength };
+    case 'guess': {
+      // Guesses checked against an earlier word are ignored
+      if (state.winner || action.round !== state.round) return state;
+      const { correct } = action;
+      const guesses = [...state.guesses, { player: action.player, playerName: action.playerName, text: action.text, correct }];
+      if (!correct) return { ...state, guesses };
+
+      // Guesser gets 10, the drawer 5
+      const scores = {
+        ...state.scores,
+        [action.player]: (state.scores[action.player] || 0) + 10,
+      };
+      scores[state.currentDrawer] = (scores[state.currentDrawer] || 0) + 5;
+
+      // Check if game should end
+      if (state.round >= state.maxRounds) {
+        const sortedScores = Object.entries(scores)
+          .filter(([id]) => state.players.some(p => p.id === id))
+          .sort((a, b) => b[1] - a[1]);
+        const winnerPlayer = state.players.find(p => p.id === sortedScores[0][0]);
+        return { ...state, guesses, scores, winner: winnerPlayer?.name || 'Unknown' };
+      }
+
+      // Start new round
+      const nextDrawerIndex = (state.players.findIndex(p => p.id === state.currentDrawer) + 1) % state.players.length;
+      return {
+        ...state,
+        scores,
+        currentDrawer: state.players[nextDrawerIndex].id,
+        wordLength: 0,
+        lines: [],
+        guesses: [],
+        round: state.round + 1,
+      };
+    }
+    case 'player_left': {
+      const index = state.players.findIndex(p => p.id === action.id);
+      if (index === -1 || state.winner) return state;
+      const players = state.players.filter(p => p.id !== action.id);
+      if (state.currentDrawer !== action.id || players.length === 0) return { ...state, players };
+
+      // The drawer left: the next player in the circle draws a fresh word
+      return {
+        ...state,
+        players,
+        currentDrawer: players[index % players.length].id,
+        wordLength: 0,
+        lines: [],
+        guesses: [],
+      };
+    }
+    default:
+      return state;
+  }
+};
+
 const DrawingGame: React.FC = () => {
-  const pendingJoin = usePendingJoin();
-  const { setChannelRef, setPlayerName: setGlobalPlayerName, setRoomId: setGlobalRoomId } = useGameChannel();
   const [mode, setMode] = useState<GameMode>('menu');
-  const [roomCode, setRoomCode] = useState('');
   const [inputCode, setInputCode] = useState('');
-  const [roomId, setRoomId] = useState<string | null>(null);
-  const [playerId] = useState(() => Math.random().toString(36).substring(2, 10));
   const [playerName, setPlayerName] = useState('');
-  const [copied, setCopied] = useState(false);
-  const [gameState, setGameState] = useState<GameState>({
-    lines: [],
-    currentDrawer: '',
-    word: '',
-    scores: {},
-    guesses: [],
-    round: 1,
-    maxRounds: 5,
-    players: [],
-    winner: null
-  });
+  const [roomSize, setRoomSize] = useState(4);
   const [guess, setGuess] = useState('');
   const [currentColor, setCurrentColor] = useState('#000000');
   const [brushSize, setBrushSize] = useState(4);
@@ -71,37 +153,112 @@ const DrawingGame: React.FC = () => {
   const [isEraser, setIsEraser] = useState(false);
   const [canvasSize, setCanvasSize] = useState({ width: 400, height: 300 });
 
+  const [drawerWord, setDrawerWord] = useState<{ round: number; drawer: string; word: string } | null>(null);
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dealtRef = useRef('');
   const currentLineRef = useRef<DrawingPoint[]>([]);
-  const channelRef = useRef<RealtimeChannel | null>(null);
 
+  const {
+    state: gameState,
+    dispatch,
+    room,
+    status,
+    players: lobbyPlayers,
+    me,
+    spectators,
+    capacity,
+    hostSeat,
+    createRoom: createOnlineRoom,
+    joinRoom: joinOnlineRoom,
+    leaveRoom,
+    startGame,
+  } = useRealtimeRoom<GameState, GameAction>({
+    gameType: 'drawing',
+    reducer: gameReducer,
+    lobby: true,
+    initialState: createGameState(),
+    playerName,
+    onPlayerJoined: (player) => {
+      dispatch({ type: 'player_joined', player: { id: player.id, name: player.name, seat: player.seat } });
+    },
+    onPlayerLeft: (player) => {
+      dispatch({ type: 'player_left', id: player.id });
+    },
+    onAction: (action, next, remote) => {
+      if (action.type !== 'guess') return;
+      // A correct guess starts a new round with an empty guess list
+      const newRound = next.guesses.length === 0;
+      if (next.winner) {
+        setMode('ended');
+        if (isSpectator) return;
+        const isWinner = next.winner === me.name;
+        soundManager.playLocalSound(isWinner ? 'win' : 'lose');
+        if (isWinner) {
+          haptics.success();
+          celebrateFireworks();
+        }
+      } else if (newRound) {
+        if (remote) {
+          soundManager.playLocalSound('correct');
+          haptics.success();
+        }
+        toast.info(`Round ${next.round}!`);
+      }
+    },
+    onOpponentLeft: () => {
+      setMode('menu');
+    },
+  });
+
+  const quickMatch = useQuickMatch({
+    gameType: 'drawing',
+    status,
+    players: lobbyPlayers,
+    createRoom: () => createOnlineRoom(createGameState({ id: me.id, name: playerName.trim() || me.name }), roomSize),
+    joinRoom: joinOnlineRoom,
+    leaveRoom: () => leaveGame(),
+    onOpponentFound: () => startMatch(),
+  });
+
+  const playerId = me.id;
+  const roomCode = room?.code || '';
   const isDrawer = gameState.currentDrawer === playerId;
+  const isSpectator = !!room?.isSpectator;
+  const word = drawerWord?.round === gameState.round && drawerWord.drawer === gameState.currentDrawer ? drawerWord.word : '';
+  const isHost = !!room?.isHost;
 
-  const generateRoomCode = () => Math.random().toString(36).substring(2, 6).toUpperCase();
-  const getRandomWord = () => WORDS[Math.floor(Math.random() * WORDS.length)];
+  // Follow the room lifecycle
+  useEffect(() => {
+    if (status === 'waiting') setMode('waiting');
+    else if (status === 'playing') setMode('playing');
+  }, [status]);
 
-  // Auto-join if pending join code exists
+  // The host has the server deal each turn's word to the drawer
+  const { round, currentDrawer: drawer, wordLength } = gameState;
+  const drawerSeat = lobbyPlayers.find(p => p.id === drawer)?.seat;
   useEffect(() => {
-    if (pendingJoin && pendingJoin.gameType === 'drawing' && mode === 'menu') {
-      // If no player name, set a default or prompt
-      if (!playerName.trim()) {
-        const defaultName = `Player${Math.floor(Math.random() * 1000)}`;
-        setPlayerName(defaultName);
-      }
-      setInputCode(pendingJoin.code);
-      // Trigger join after a short delay to ensure state is set
-      const timer = setTimeout(() => {
-        if (playerName.trim() || document.querySelector('input[placeholder*="name"]')) {
-          // If name input exists, wait for user to enter name
-          // Otherwise use the default name we set
-          const finalName = playerName.trim() || `Player${Math.floor(Math.random() * 1000)}`;
-          setPlayerName(finalName);
-          setTimeout(() => joinRoom(), 200);
-        }
-      }, 500);
-      return () => clearTimeout(timer);
-    }
-  }, [pendingJoin, mode, playerName]);
+    if (!isHost || !room || status !== 'playing' || gameState.winner || wordLength > 0 || drawerSeat === undefined) return;
+    const turn = `${round}:${drawer}`;
+    if (dealtRef.current === turn) return;
+    dealtRef.current = turn;
+
+    sendSecretRequest<{ wordLength: number }>(room.id, { type: 'deal', round, drawerSeat })
+      .then(({ wordLength }) => dispatch({ type: 'word_dealt', round, drawer, wordLength }))
+      .catch(error => {
+        console.error('Failed to deal a word:', error);
+        dealtRef.current = '';
+        toast.error('Could not pick a word to draw');
+      });
+  }, [isHost, room, status, gameState.winner, round, drawer, wordLength, drawerSeat, dispatch]);
+
+  // Only the drawer ever receives the word
+  useEffect(() => {
+    if (!isDrawer || !room || wordLength === 0 || word) return;
+    sendSecretRequest<{ word: string }>(room.id, { type: 'word', round })
+      .then(reply => setDrawerWord({ round, drawer, word: reply.word }))
+      .catch(error => console.error('Failed to fetch the word to draw:', error));
+  }, [isDrawer, room, round, drawer, wordLength, word]);
 
   // Initialize canvas and make it responsive
   useEffect(() => {
@@ -144,43 +301,11 @@ const DrawingGame: React.FC = () => {
       return;
     }
     
-    const code = generateRoomCode();
-    const word = getRandomWord();
-    const initialState: GameState = {
-      lines: [],
-      currentDrawer: playerId,
-      word: word,
-      scores: { [playerId]: 0 },
-      guesses: [],
-      round: 1,
-      maxRounds: 5,
-      players: [{ id: playerId, name: playerName }],
-      winner: null
-    };
-
-    const { data, error } = await supabase
-      .from('game_rooms')
-      .insert({
-        room_code: code,
-        game_type: 'drawing',
-        game_state: JSON.parse(JSON.stringify(initialState)),
-        player_count: 1,
-        status: 'waiting'
-      })
-      .select()
-      .single();
-
-    if (error) {
-      toast.error('Failed to create room');
-      return;
-    }
+    await createOnlineRoom(createGameState({ id: playerId, name: playerName }), roomSize);
+  };
 
-    setRoomCode(code);
-    setRoomId(data.id);
-    setGameState(initialState);
-    setMode('waiting');
-    haptics.success();
-    toast.success(`Room created! Code: ${code}`);
+  const startMatch = async () => {
+    if (await startGame()) dispatch({ type: 'start' });
   };
 
   const joinRoom = async () => {
@@ -189,162 +314,9 @@ const DrawingGame: React.FC = () => {
       return;
     }
 
-    const { data, error } = await supabase
-      .from('game_rooms')
-      .select('*')
-      .eq('room_code', inputCode.toUpperCase())
-      .eq('game_type', 'drawing')
-      .single();
-
-    if (error || !data) {
-      toast.error('Room not found');
-      return;
-    }
-
-    const currentState = JSON.parse(JSON.stringify(data.game_state)) as GameState;
-    currentState.players.push({ id: playerId, name: playerName });
-    currentState.scores[playerId] = 0;
-
-    await supabase
-      .from('game_rooms')
-      .update({
-        game_state: JSON.parse(JSON.stringify(currentState)),
-        player_count: data.player_count + 1,
-        status: 'playing'
-      })
-      .eq('id', data.id);
-
-    setRoomCode(inputCode.toUpperCase());
-    setRoomId(data.id);
-    setGameState(currentState);
-    setMode('playing');
-    
-    // Broadcast join
-    const channel = supabase.channel(`drawing-${data.id}`);
-    await channel.subscribe();
-    await channel.send({
-      type: 'broadcast',
-      event: 'game_update',
-      payload: { type: 'player_joined', gameState: currentState }
-    });
-    
-    haptics.success();
-    soundManager.playLocalSound('correct');
-    toast.success('Joined room!');
+    await joinOnlineRoom(inputCode);
   };
 
-  // Subscribe to realtime updates using broadcast
-  useEffect(() => {
-    if (!roomId) return;
-
-    const channel = supabase
-      .channel(`drawing-${roomId}`, {
-        config: { broadcast: { self: true } }
-      })
-      .on('broadcast', { event: 'game_left' }, () => {
-        // Other player left - reset game
-        toast.info('A player left the game');
-        setMode('menu');
-        setRoomId(null);
-        setRoomCode('');
-        setGameState({
-          lines: [],
-          currentDrawer: '',
-          word: '',
-          scores: {},
-          guesses: [],
-          round: 1,
-          maxRounds: 5,
-          players: [],
-          winner: null
-        });
-      })
-      .on('broadcast', { event: 'game_update' }, ({ payload }) => {
-        if (!payload) return;
-
-        if (payload.type === 'player_joined' && mode === 'waiting') {
-          setGameState(payload.gameState);
-          setMode('playing');
-          haptics.success();
-          soundManager.playLocalSound('correct');
-          toast.success('Player joined! Game started!');
-        }
-
-        if (payload.type === 'draw_update') {
-          setGameState(prev => ({ ...prev, lines: payload.lines }));
-          redrawCanvas(payload.lines);
-        }
-
-        if (payload.type === 'clear_canvas') {
-          setGameState(prev => ({ ...prev, lines: [] }));
-          const canvas = canvasRef.current;
-          const ctx = canvas?.getContext('2d');
-          if (ctx && canvas) {
-            ctx.fillStyle = '#FFFFFF';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-          }
-        }
-
-        if (payload.type === 'guess_submitted') {
-          setGameState(payload.gameState);
-          if (payload.correct) {
-            soundManager.playLocalSound('correct');
-            haptics.success();
-          }
-        }
-
-        if (payload.type === 'new_round') {
-          setGameState(payload.gameState);
-          // Clear canvas for new round
-          const canvas = canvasRef.current;
-          const ctx = canvas?.getContext('2d');
-          if (ctx && canvas) {
-            ctx.fillStyle = '#FFFFFF';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-          }
-          toast.info(`Round ${payload.gameState.round}!`);
-        }
-
-        if (payload.type === 'game_ended') {
-          setGameState(payload.gameState);
-          setMode('ended');
-          const isWinner = payload.gameState.winner === playerName;
-          soundManager.playLocalSound(isWinner ? 'win' : 'lose');
-          if (isWinner) {
-            haptics.success();
-            celebrateFireworks();
-          }
-        }
-      })
-      .subscribe();
-
-    channelRef.current = channel;
-    
-    // Update global channel ref for FloatingReactions and FloatingChat
-    setChannelRef(channelRef);
-    setGlobalPlayerName(playerName);
-    setGlobalRoomId(roomId);
-    
-    // Listen for reactions and chat from global components
-    channel.on('broadcast', { event: 'reaction' }, ({ payload }) => {
-      if (payload?.emoji) {
-        window.dispatchEvent(new CustomEvent('game-reaction', { detail: { emoji: payload.emoji } }));
-      }
-    });
-    
-    channel.on('broadcast', { event: 'chat' }, ({ payload }) => {
-      if (payload?.type === 'chat' && payload?.message && payload?.playerName) {
-        window.dispatchEvent(new CustomEvent('game-chat', { detail: payload }));
-      }
-    });
-
-    return () => {
-      supabase.removeChannel(channel);
-      setChannelRef(null);
-      setGlobalRoomId(null);
-    };
-  }, [roomId, mode, playerName, setChannelRef, setGlobalPlayerName, setGlobalRoomId]);
-
   const redrawCanvas = useCallback((lines: DrawingPoint[][]) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -439,75 +411,30 @@ const DrawingGame: React.FC = () => {
     }
   };
 
-  const stopDrawing = async () => {
-    if (!isDrawing || !isDrawer || !roomId) return;
+  const stopDrawing = () => {
+    if (!isDrawing || !isDrawer || !room) return;
     setIsDrawing(false);
 
     if (currentLineRef.current.length > 0) {
-      const newLines = [...gameState.lines, currentLineRef.current];
-      const newState = { ...gameState, lines: newLines };
-
-      // Broadcast drawing update
-      channelRef.current?.send({
-        type: 'broadcast',
-        event: 'game_update',
-        payload: { type: 'draw_update', lines: newLines }
-      });
-
-      // Update DB in background
-      supabase
-        .from('game_rooms')
-        .update({ game_state: JSON.parse(JSON.stringify(newState)) })
-        .eq('id', roomId)
-        .then();
-
-      setGameState(newState);
+      dispatch({ type: 'draw', lines: [...gameState.lines, currentLineRef.current] });
     }
     currentLineRef.current = [];
   };
 
-  const undoLastLine = async () => {
-    if (!isDrawer || !roomId || gameState.lines.length === 0) return;
+  const undoLastLine = () => {
+    if (!isDrawer || !room || gameState.lines.length === 0) return;
     
     const newLines = gameState.lines.slice(0, -1);
-    const newState = { ...gameState, lines: newLines };
-    
-    channelRef.current?.send({
-      type: 'broadcast',
-      event: 'game_update',
-      payload: { type: 'draw_update', lines: newLines }
-    });
-    
-    supabase
-      .from('game_rooms')
-      .update({ game_state: JSON.parse(JSON.stringify(newState)) })
-      .eq('id', roomId)
-      .then();
-
-    setGameState(newState);
+    dispatch({ type: 'draw', lines: newLines });
     redrawCanvas(newLines);
     haptics.light();
     soundManager.playLocalSound('click');
   };
 
-  const clearCanvas = async () => {
-    if (!isDrawer || !roomId) return;
+  const clearCanvas = () => {
+    if (!isDrawer || !room) return;
     
-    const newState = { ...gameState, lines: [] };
-    
-    channelRef.current?.send({
-      type: 'broadcast',
-      event: 'game_update',
-      payload: { type: 'clear_canvas' }
-    });
-    
-    supabase
-      .from('game_rooms')
-      .update({ game_state: JSON.parse(JSON.stringify(newState)) })
-      .eq('id', roomId)
-      .then();
-
-    setGameState(newState);
+    dispatch({ type: 'clear' });
     
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
@@ -520,101 +447,24 @@ const DrawingGame: React.FC = () => {
   };
 
   const submitGuess = async () => {
-    if (!guess.trim() || isDrawer || !roomId) return;
+    if (!guess.trim() || isDrawer || !room || room.isSpectator || gameState.wordLength === 0) return;
 
-    const isCorrect = guess.toLowerCase().trim() === gameState.word.toLowerCase();
-    const newGuess = { player: playerId, playerName, text: guess, correct: isCorrect };
-    
-    let newState = { ...gameState };
-    newState.guesses = [...newState.guesses, newGuess];
-    
-    if (isCorrect) {
-      newState.scores[playerId] = (newState.scores[playerId] || 0) + 10;
-      // Also give drawer points
-      newState.scores[newState.currentDrawer] = (newState.scores[newState.currentDrawer] || 0) + 5;
-      
-      toast.success('Correct! +10 points');
-      
-      // Check if game should end
-      if (newState.round >= newState.maxRounds) {
-        // Find winner
-        const sortedScores = Object.entries(newState.scores).sort((a, b) => b[1] - a[1]);
-        const winnerId = sortedScores[0][0];
-        const winnerPlayer = newState.players.find(p => p.id === winnerId);
-        newState.winner = winnerPlayer?.name || 'Unknown';
-        
-        channelRef.current?.send({
-          type: 'broadcast',
-          event: 'game_update',
-          payload: { type: 'game_ended', gameState: newState }
-        });
-      } else {
-        // Start new round
-        const nextDrawerIndex = (newState.players.findIndex(p => p.id === newState.currentDrawer) + 1) % newState.players.length;
-        newState.currentDrawer = newState.players[nextDrawerIndex].id;
-        newState.word = getRandomWord();
-        newState.lines = [];
-        newState.guesses = [];
-        newState.round += 1;
-        
-        channelRef.current?.send({
-          type: 'broadcast',
-          event: 'game_update',
-          payload: { type: 'new_round', gameState: newState }
-        });
-      }
-    } else {
-      channelRef.current?.send({
-        type: 'broadcast',
-        event: 'game_update',
-        payload: { type: 'guess_submitted', gameState: newState, correct: false }
-      });
-    }
-
-    supabase
-      .from('game_rooms')
-      .update({ game_state: JSON.parse(JSON.stringify(newState)) })
-      .eq('id', roomId)
-      .then();
-
-    setGameState(newState);
+    const text = guess;
     setGuess('');
+    // The server checks the guess; the word itself never reaches us
+    try {
+      const { correct } = await sendSecretRequest<{ correct: boolean }>(room.id, { type: 'guess', round, text });
+      if (correct) toast.success('Correct! +10 points');
+      dispatch({ type: 'guess', player: playerId, playerName, text, round, correct });
+    } catch (error) {
+      console.error('Failed to check guess:', error);
+      toast.error(error instanceof Error ? error.message : 'Please try again.');
+    }
   };
 
   const leaveGame = async () => {
-    // Broadcast to other players that we're leaving
-    if (channelRef.current) {
-      await channelRef.current.send({
-        type: 'broadcast',
-        event: 'game_left',
-        payload: {}
-      });
-    }
-    
-    if (roomId) {
-      await supabase.from('game_rooms').delete().eq('id', roomId);
-    }
+    await leaveRoom();
     setMode('menu');
-    setRoomId(null);
-    setRoomCode('');
-    setGameState({
-      lines: [],
-      currentDrawer: '',
-      word: '',
-      scores: {},
-      guesses: [],
-      round: 1,
-      maxRounds: 5,
-      players: [],
-      winner: null
-    });
-  };
-
-  const copyRoomCode = () => {
-    navigator.clipboard.writeText(roomCode);
-    setCopied(true);
-    haptics.light();
-    setTimeout(() => setCopied(false), 2000);
   };
 
   const getPlayerName = (id: string) => {
@@ -622,6 +472,15 @@ const DrawingGame: React.FC = () => {
     return player?.name || 'Unknown';
   };
 
+  // Quick match search / nobody found
+  if (quickMatch.phase !== 'idle' && (mode === 'menu' || mode === 'waiting')) {
+    return (
+      <div className="flex justify-center animate-slide-in max-w-md mx-auto">
+        <QuickMatchPanel quickMatch={quickMatch} fallbacks={[{ label: 'Create Private Room', onSelect: () => setMode('create') }]} />
+      </div>
+    );
+  }
+
   // Menu
   if (mode === 'menu') {
     return (
@@ -679,6 +538,10 @@ const DrawingGame: React.FC = () => {
               Join Room
             </Button>
           </div>
+
+          <div className="flex justify-center pt-2">
+            <QuickMatchPanel quickMatch={quickMatch} />
+          </div>
         </div>
       </div>
     );
@@ -693,6 +556,7 @@ const DrawingGame: React.FC = () => {
         </Button>
         <h3 className="font-orbitron text-xl text-foreground">Create Drawing Room</h3>
         <p className="text-muted-foreground text-sm">Playing as: {playerName || 'Anonymous'}</p>
+        <LobbySizePicker value={roomSize} onChange={setRoomSize} />
         <Button
           onClick={createRoom}
           className="bg-neon-pink/20 border border-neon-pink text-neon-pink hover:bg-neon-pink/30"
@@ -716,12 +580,12 @@ const DrawingGame: React.FC = () => {
           value={inputCode}
           onChange={(e) => setInputCode(e.target.value.toUpperCase())}
           placeholder="Enter room code..."
-          maxLength={4}
+          maxLength={ROOM_CODE_LENGTH}
           className="max-w-xs mx-auto text-center text-2xl tracking-widest font-orbitron"
         />
         <Button
           onClick={joinRoom}
-          disabled={inputCode.length !== 4}
+          disabled={inputCode.length !== ROOM_CODE_LENGTH}
           className="bg-neon-green/20 border border-neon-green text-neon-green hover:bg-neon-green/30"
         >
           Join Game
@@ -730,51 +594,24 @@ const DrawingGame: React.FC = () => {
     );
   }
 
-  // Waiting
+  // Lobby
   if (mode === 'waiting') {
     return (
-      <div className="text-center space-y-6 animate-slide-in max-w-md mx-auto">
-        <div className="relative">
-          <Pencil className="w-16 h-16 text-neon-pink animate-pulse mx-auto" />
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="w-16 h-16 border-4 border-neon-pink/30 rounded-full animate-ping" />
-          </div>
-        </div>
-        <h3 className="font-orbitron text-2xl text-foreground">Waiting for players...</h3>
-        <p className="text-muted-foreground font-rajdhani">You: <span className="text-neon-cyan font-semibold">{playerName}</span></p>
-        
-        <div className="bg-card/50 backdrop-blur-sm border border-border rounded-xl p-6 space-y-4">
-          <div>
-            <p className="text-xs font-orbitron text-muted-foreground uppercase tracking-wider mb-2">Room Code</p>
-            <div className="flex items-center justify-center gap-3">
-              <span className="text-4xl font-orbitron tracking-widest text-neon-pink font-bold">{roomCode}</span>
-              <Button 
-                variant="ghost" 
-                size="icon" 
-                onClick={copyRoomCode}
-                className="hover:bg-neon-green/20 hover:text-neon-green"
-              >
-                {copied ? (
-                  <Check className="w-5 h-5 text-neon-green" />
-                ) : (
-                  <Copy className="w-5 h-5" />
-                )}
-              </Button>
-            </div>
-          </div>
-          <p className="text-xs text-muted-foreground font-rajdhani">
-            {copied ? '✓ Copied to clipboard!' : 'Share this code with friends'}
-          </p>
-        </div>
-        
-        <Button 
-          variant="outline" 
-          onClick={leaveGame}
-          className="hover:bg-destructive/20 hover:border-destructive hover:text-destructive"
-        >
-          <ArrowLeft className="w-4 h-4 mr-2" /> Leave Room
-        </Button>
-      </div>
+      <RoomLobby
+        roomCode={roomCode}
+        gameType="drawing"
+        players={lobbyPlayers}
+        capacity={capacity}
+        hostSeat={hostSeat}
+        isHost={isHost}
+        myId={playerId}
+        onStart={startMatch}
+        onLeave={leaveGame}
+      >
+        <p className="text-sm text-muted-foreground font-rajdhani">
+          Everyone draws {ROUNDS_PER_PLAYER} times - guess fast for 10 points!
+        </p>
+      </RoomLobby>
     );
   }
 
@@ -814,6 +651,8 @@ const DrawingGame: React.FC = () => {
   // Playing
   return (
     <div className="space-y-4 animate-slide-in max-w-4xl mx-auto">
+      <SpectatorBanner isSpectator={isSpectator} spectatorCount={spectators.length} />
+
       {/* Header */}
       <div className="flex items-center justify-between flex-wrap gap-2 bg-card/50 backdrop-blur-sm border border-border rounded-xl p-3">
         <Button variant="ghost" size="sm" onClick={leaveGame} className="hover:bg-destructive/20 hover:text-destructive">
@@ -824,21 +663,41 @@ const DrawingGame: React.FC = () => {
             <span className="font-orbitron text-xs text-muted-foreground">Round {gameState.round}/{gameState.maxRounds}</span>
             <span className="text-muted-foreground">•</span>
             <span className="font-orbitron text-xs text-neon-cyan">{roomCode}</span>
+            <RoomInvite roomCode={roomCode} gameType="drawing" compact />
           </div>
           {isDrawer && (
             <p className="text-neon-pink font-bold font-orbitron text-sm sm:text-base animate-pulse">
-              Draw: <span className="text-foreground">{gameState.word}</span>
+              Draw: <span className="text-foreground">{word || '...'}</span>
             </p>
           )}
           {!isDrawer && (
             <p className="text-muted-foreground font-rajdhani text-sm">
               <span className="text-neon-pink font-semibold">{getPlayerName(gameState.currentDrawer)}</span> is drawing...
+              {gameState.wordLength > 0 && (
+                <span className="ml-2 font-mono tracking-widest text-foreground">{'_ '.repeat(gameState.wordLength).trim()}</span>
+              )}
             </p>
           )}
         </div>
         <div className="w-20" /> {/* Spacer for alignment */}
       </div>
 
+      {/* Scores */}
+      <div className="flex flex-wrap justify-center gap-2">
+        {gameState.players.map(player => (
+          <div
+            key={player.id}
+            className={`flex items-center gap-1.5 px-3 py-1 rounded-full border font-rajdhani text-sm ${
+              player.id === gameState.currentDrawer ? 'border-neon-pink text-neon-pink bg-neon-pink/10' : 'border-border text-muted-foreground'
+            }`}
+          >
+            {player.id === gameState.currentDrawer && <Pencil className="w-3 h-3" />}
+            <span>{player.name}{player.id === playerId ? ' (You)' : ''}</span>
+            <span className="font-orbitron text-neon-cyan">{gameState.scores[player.id] || 0}</span>
+          </div>
+        ))}
+      </div>
+
       {/* Canvas */}
       <div className="relative w-full flex justify-center">
         <div className="relative bg-white rounded-xl border-2 border-border shadow-lg overflow-hidden" style={{ maxWidth: '600px', width: '100%' }}>
@@ -858,7 +717,9 @@ const DrawingGame: React.FC = () => {
             <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm rounded-xl">
               <div className="text-center p-4">
                 <Pencil className="w-8 h-8 text-neon-pink mx-auto mb-2 animate-pulse" />
-                <p className="font-orbitron text-sm text-muted-foreground">You can't draw right now</p>
+                <p className="font-orbitron text-sm text-muted-foreground">
+                  {isSpectator ? 'Watching the drawing' : "You can't draw right now"}
+                </p>
               </div>
             </div>
           )}
@@ -959,7 +820,7 @@ const DrawingGame: React.FC = () => {
       )}
 
       {/* Guess input */}
-      {!isDrawer && (
+      {!isDrawer && !isSpectator && (
         <div className="bg-card/50 backdrop-blur-sm border border-border rounded-xl p-4">
           <div className="flex gap-2 max-w-md mx-auto">
             <Input
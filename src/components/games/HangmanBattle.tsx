@@ -1,14 +1,22 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Type, Copy, Check, Wifi, WifiOff, Trophy, RotateCcw } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Type, Copy, Check, Wifi, WifiOff, Trophy, RotateCcw, Bot } from 'lucide-react';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
-import { celebrateWin, celebrateEpicVictory, celebrateStars } from '@/utils/confetti';
+import { celebrateEpicVictory } from '@/utils/confetti';
 import { useToast } from '@/hooks/use-toast';
+import { useRealtimeRoom } from '@/hooks/useRealtimeRoom';
+import { useQuickMatch } from '@/hooks/useQuickMatch';
+import { useDifficulty } from '@/contexts/DifficultyContext';
+import SpectatorBanner from '@/components/SpectatorBanner';
+import QuickMatchPanel from '@/components/QuickMatchPanel';
+import RoomInvite from '@/components/RoomInvite';
+import { sendSecretRequest } from '@/utils/gameRooms';
+import { HANGMAN_BOT_LEVELS, hangmanBotDelay, pickBotName, pickHangmanBotGuess } from '@/utils/bots';
 
 type GameMode = 'menu' | 'create' | 'join' | 'waiting' | 'set-word' | 'playing' | 'ended';
+type RoundPhase = 'setting' | 'guessing' | 'round_over' | 'ended';
 
 interface FloatingEmoji {
   id: string;
@@ -19,7 +27,28 @@ interface FloatingEmoji {
   scale: number;
 }
 
+// The secret word is kept by the server, which checks each guess; only the
+// revealed pattern is shared
+interface GameState {
+  round: number;
+  maxRounds: number;
+  setterSeat: number;
+  phase: RoundPhase;
+  displayWord: string;
+  guessedLetters: string[];
+  wrongGuesses: number;
+  scores: { host: number; guest: number };
+}
+
+type GameAction =
+  | { type: 'word_set'; wordLength: number }
+  | { type: 'guess_result'; letter: string; displayWord: string; wrongGuesses: number }
+  | { type: 'next_round' }
+  | { type: 'restart' };
+
 const MAX_WRONG_GUESSES = 6;
+const BOT_SET_WORD_ATTEMPTS = 3;
+const BOT_SET_WORD_RETRY_DELAY = 1000;
 const REACTION_EMOJIS = ['😍', '🔥', '😂', '😤', '🥵', '👏', '💯', '✨', '🎉', '💀'];
 
 const WORD_CATEGORIES = [
@@ -29,26 +58,74 @@ const WORD_CATEGORIES = [
   { category: 'Sports', words: ['basketball', 'football', 'tennis', 'swimming', 'volleyball'] },
 ];
 
+const createGameState = (): GameState => ({
+  round: 1,
+  maxRounds: 4,
+  setterSeat: 1, // Guest sets word first
+  phase: 'setting',
+  displayWord: '',
+  guessedLetters: [],
+  wrongGuesses: 0,
+  scores: { host: 0, guest: 0 },
+});
+
+const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'word_set':
+      if (state.phase !== 'setting') return state;
+      return {
+        ...state,
+        phase: 'guessing',
+        displayWord: '_'.repeat(action.wordLength),
+        guessedLetters: [],
+        wrongGuesses: 0,
+      };
+    case 'guess_result': {
+      if (state.phase !== 'guessing' || state.guessedLetters.includes(action.letter)) return state;
+      const won = !action.displayWord.includes('_');
+      const lost = action.wrongGuesses >= MAX_WRONG_GUESSES;
+      const next = {
+        ...state,
+        guessedLetters: [...state.guessedLetters, action.letter],
+        displayWord: action.displayWord,
+        wrongGuesses: action.wrongGuesses,
+      };
+      if (!won && !lost) return next;
+
+      // Guesser scores on a solved word, the setter scores otherwise
+      const winnerSeat = won ? 1 - state.setterSeat : state.setterSeat;
+      const key = winnerSeat === 0 ? 'host' : 'guest';
+      return {
+        ...next,
+        phase: state.round >= state.maxRounds ? 'ended' : 'round_over',
+        scores: { ...state.scores, [key]: state.scores[key] + 1 },
+      };
+    }
+    case 'next_round':
+      if (state.phase !== 'round_over') return state;
+      return {
+        ...state,
+        round: state.round + 1,
+        setterSeat: 1 - state.setterSeat,
+        phase: 'setting',
+        displayWord: '',
+        guessedLetters: [],
+        wrongGuesses: 0,
+      };
+    case 'restart':
+      return createGameState();
+    default:
+      return state;
+  }
+};
+
 const HangmanBattle: React.FC = () => {
   const { toast } = useToast();
-  const [mode, setMode] = useState<GameMode>('menu');
-  const [roomCode, setRoomCode] = useState('');
   const [joinCode, setJoinCode] = useState('');
   const [copied, setCopied] = useState(false);
-  const [isHost, setIsHost] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  
-  const [word, setWord] = useState('');
   const [wordInput, setWordInput] = useState('');
-  const [guessedLetters, setGuessedLetters] = useState<string[]>([]);
-  const [wrongGuesses, setWrongGuesses] = useState(0);
-  const [scores, setScores] = useState({ host: 0, guest: 0 });
-  const [isMyTurnToGuess, setIsMyTurnToGuess] = useState(false);
-  const [round, setRound] = useState(1);
-  const [maxRounds] = useState(4);
   const [floatingEmojis, setFloatingEmojis] = useState<FloatingEmoji[]>([]);
-  
-  const channelRef = useRef<any>(null);
+  const { difficulty } = useDifficulty();
 
   // Spawn floating emojis
   const spawnFloatingEmojis = useCallback((emoji: string) => {
@@ -69,69 +146,159 @@ const HangmanBattle: React.FC = () => {
     }, 2500);
   }, []);
 
+  const {
+    state,
+    dispatch,
+    room,
+    status,
+    spectators,
+    bots,
+    createRoom: createOnlineRoom,
+    joinRoom: joinOnlineRoom,
+    leaveRoom,
+    addBot,
+    broadcast,
+  } = useRealtimeRoom<GameState, GameAction>({
+    gameType: 'hangman',
+    reducer: gameReducer,
+    initialState: createGameState(),
+    onAction: (action, next, remote) => {
+      if (action.type === 'word_set' && remote) {
+        toast({ title: 'Word Set!', description: `Guess the ${action.wordLength}-letter word!` });
+      } else if (action.type === 'guess_result' && remote && isSetter && next.phase === 'guessing') {
+        soundManager.playLocalSound(action.displayWord.includes(action.letter) ? 'correct' : 'lose');
+      } else if (action.type === 'guess_result' && (next.phase === 'round_over' || next.phase === 'ended') && !room?.isSpectator) {
+        const guesserWon = !next.displayWord.includes('_');
+        if (guesserWon === isSetter) {
+          soundManager.playLocalSound('lose');
+          haptics.screenShake();
+        } else {
+          soundManager.playLocalSound('win');
+          haptics.success();
+          celebrateEpicVictory();
+          spawnFloatingEmojis('🏆');
+        }
+      }
+    },
+    onOpponentLeft: () => {
+      setJoinCode('');
+    },
+    events: {
+      reaction: (payload) => {
+        if (typeof payload?.emoji === 'string') {
+          soundManager.playEmojiSound(payload.emoji);
+          spawnFloatingEmojis(payload.emoji);
+        }
+      },
+    },
+  });
+
+  const quickMatch = useQuickMatch({
+    gameType: 'hangman',
+    status,
+    createRoom: () => createOnlineRoom(createGameState()),
+    joinRoom: joinOnlineRoom,
+    leaveRoom: () => leaveGame(),
+  });
+
+  const { round, maxRounds, scores, guessedLetters, wrongGuesses } = state;
+  const roomCode = room?.code || '';
+  const isHost = !!room?.isHost;
+  const isSpectator = !!room?.isSpectator;
+  const isSetter = !isSpectator && (room?.seat ?? 0) === state.setterSeat;
+  const isConnected = status === 'playing';
+  const isMyTurnToGuess = !isSetter && !isSpectator && state.phase === 'guessing';
+  const labels = isSpectator
+    ? { host: 'Host', guest: 'Guest' }
+    : { host: isHost ? 'You' : 'Opponent', guest: isHost ? 'Opponent' : 'You' };
+  const word = state.displayWord;
+  // Against a bot the host plays both sides of the round: its own, and the bot's
+  const botSeat = isHost ? bots[0]?.seat : undefined;
+  const isBotSetter = botSeat !== undefined && botSeat === state.setterSeat;
+
+  const mode: GameMode = status === 'idle'
+    ? 'menu'
+    : status === 'waiting'
+      ? 'waiting'
+      : state.phase === 'ended'
+        ? 'ended'
+        : state.phase === 'setting' && isSetter
+          ? 'set-word'
+          : 'playing';
+
+  // The setter moves on to the next round (and swaps roles) after a short pause
+  useEffect(() => {
+    if (state.phase !== 'round_over' || !(isSetter || isBotSetter)) return;
+    const timer = setTimeout(() => dispatch({ type: 'next_round' }), 2000);
+    return () => clearTimeout(timer);
+  }, [state.phase, isSetter, isBotSetter, dispatch]);
+
+  // A bot's word is picked by the server, so the host guessing it doesn't know it.
+  // The server only takes a word for the round it has saved, and the new round
+  // may still be on its way there, so the bot tries again for a little while
+  useEffect(() => {
+    if (!room || !isBotSetter || state.phase !== 'setting') return;
+    let cancelled = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const setWord = (attempt: number) => {
+      sendSecretRequest<{ wordLength: number }>(room.id, { type: 'set_word', round }, botSeat)
+        .then(({ wordLength }) => {
+          if (cancelled) return;
+          dispatch({ type: 'word_set', wordLength });
+          toast({ title: 'Word Set!', description: `Guess the ${wordLength}-letter word!` });
+        })
+        .catch(error => {
+          if (cancelled) return;
+          if (attempt < BOT_SET_WORD_ATTEMPTS) {
+            retryTimer = setTimeout(() => setWord(attempt + 1), BOT_SET_WORD_RETRY_DELAY);
+          } else {
+            console.error('Bot failed to set a word:', error);
+          }
+        });
+    };
+    setWord(1);
+    return () => {
+      cancelled = true;
+      clearTimeout(retryTimer);
+    };
+  }, [room, isBotSetter, botSeat, state.phase, round, dispatch, toast]);
+
+  // The bot guesses the host's word a letter at a time, most common letters first
+  const isBotGuessing = botSeat !== undefined && !isBotSetter && state.phase === 'guessing';
+  useEffect(() => {
+    if (!room || !isBotGuessing) return;
+    const level = HANGMAN_BOT_LEVELS[difficulty];
+    const timer = setTimeout(async () => {
+      const letter = pickHangmanBotGuess(guessedLetters, level);
+      if (!letter) return;
+      try {
+        const result = await sendSecretRequest<{ displayWord: string; wrongGuesses: number }>(
+          room.id,
+          { type: 'guess', round, letter },
+          botSeat
+        );
+        soundManager.playLocalSound(result.displayWord.includes(letter) ? 'correct' : 'lose');
+        dispatch({ type: 'guess_result', letter, ...result });
+      } catch (error) {
+        console.error('Bot failed to guess:', error);
+      }
+    }, hangmanBotDelay(level));
+    return () => clearTimeout(timer);
+  }, [room, isBotGuessing, botSeat, guessedLetters, round, difficulty, dispatch]);
+
   const handleReaction = (emoji: string) => {
     haptics.light();
     soundManager.playEmojiSound(emoji);
     spawnFloatingEmojis(emoji);
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'reaction',
-        payload: { emoji },
-      });
-    }
+    broadcast('reaction', { emoji });
   };
 
-  const generateRoomCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
-
   const createRoom = async () => {
-    const code = generateRoomCode();
-    setRoomCode(code);
-    setIsHost(true);
-
-    try {
-      await supabase.from('game_rooms').insert({
-        room_code: code,
-        game_type: 'hangman',
-        game_state: { round: 1, scores: { host: 0, guest: 0 } },
-        status: 'waiting',
-      });
-      setMode('waiting');
-      toast({ title: 'Room Created!', description: 'Share the code with a friend' });
-    } catch (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to create room' });
-    }
+    await createOnlineRoom(createGameState());
   };
 
   const joinRoom = async () => {
-    if (!joinCode.trim()) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('game_rooms')
-        .select('*')
-        .eq('room_code', joinCode.toUpperCase())
-        .single();
-
-      if (error || !data) {
-        toast({ variant: 'destructive', title: 'Error', description: 'Room not found' });
-        return;
-      }
-
-      setRoomCode(joinCode.toUpperCase());
-      setIsHost(false);
-      setIsConnected(true);
-      setMode('set-word'); // Guest sets word first
-
-      await supabase.from('game_rooms')
-        .update({ player_count: 2, status: 'playing' })
-        .eq('room_code', joinCode.toUpperCase());
-
-      haptics.success();
-      toast({ title: 'Joined!', description: 'Set a word for your opponent!' });
-    } catch (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to join room' });
-    }
+    await joinOnlineRoom(joinCode);
   };
 
   const copyRoomCode = () => {
@@ -140,248 +307,61 @@ const HangmanBattle: React.FC = () => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  // Subscribe to room
-  useEffect(() => {
-    if (!roomCode || mode === 'menu') return;
-
-    const channel = supabase
-      .channel(`hangman-${roomCode}`, { config: { broadcast: { self: false } } })
-      .on('broadcast', { event: 'game_left' }, () => {
-        toast({ title: 'Opponent Left', description: 'The game has ended' });
-        resetGame();
-      })
-      .on('broadcast', { event: 'player_joined' }, () => {
-        if (mode === 'waiting') {
-          setIsConnected(true);
-          setMode('playing'); // Host waits for word
-          setIsMyTurnToGuess(true);
-          toast({ title: 'Player Joined!', description: 'Waiting for word...' });
-        }
-      })
-      .on('broadcast', { event: 'word_set' }, ({ payload }) => {
-        if (payload && payload.wordLength) {
-          setWord('_'.repeat(payload.wordLength));
-          setGuessedLetters([]);
-          setWrongGuesses(0);
-          setIsMyTurnToGuess(true);
-          setMode('playing');
-          toast({ title: 'Word Set!', description: `Guess the ${payload.wordLength}-letter word!` });
-        }
-      })
-      .on('broadcast', { event: 'guess_result' }, ({ payload }) => {
-        if (payload) {
-          setWord(payload.displayWord);
-          setGuessedLetters(payload.guessedLetters);
-          setWrongGuesses(payload.wrongGuesses);
-          
-          if (payload.gameOver) {
-            if (payload.won) {
-              soundManager.playLocalSound('lose');
-              haptics.screenShake();
-            } else {
-              soundManager.playLocalSound('win');
-              haptics.success();
-              celebrateEpicVictory();
-              spawnFloatingEmojis('🏆');
-            }
-            setScores(payload.scores);
-            
-            if (payload.round >= maxRounds) {
-              setMode('ended');
-            } else {
-              // Switch roles
-              setTimeout(() => {
-                setRound(payload.round + 1);
-                setMode('set-word');
-                setWord('');
-                setGuessedLetters([]);
-                setWrongGuesses(0);
-              }, 2000);
-            }
-          }
-        }
-      })
-      .on('broadcast', { event: 'letter_guess' }, ({ payload }) => {
-        if (payload && !isMyTurnToGuess) {
-          handleOpponentGuess(payload.letter);
-        }
-      })
-      .on('broadcast', { event: 'reaction' }, ({ payload }) => {
-        if (payload?.emoji) {
-          soundManager.playEmojiSound(payload.emoji);
-          spawnFloatingEmojis(payload.emoji);
-        }
-      })
-      .subscribe(async (status) => {
-        if (status === 'SUBSCRIBED' && !isHost) {
-          await channel.send({
-            type: 'broadcast',
-            event: 'player_joined',
-            payload: {},
-          });
-        }
-      });
-
-    channelRef.current = channel;
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [roomCode, mode, isHost, isMyTurnToGuess]);
-
-  const [actualWord, setActualWord] = useState('');
-
-  const submitWord = () => {
+  const submitWord = async () => {
     const cleanWord = wordInput.trim().toLowerCase().replace(/[^a-z]/g, '');
     if (cleanWord.length < 3 || cleanWord.length > 12) {
       toast({ variant: 'destructive', title: 'Invalid word', description: 'Word must be 3-12 letters' });
       return;
     }
+    if (!room) return;
 
-    setActualWord(cleanWord);
-    setWord('_'.repeat(cleanWord.length));
-    setIsMyTurnToGuess(false);
-    setMode('playing');
-    setWordInput('');
-
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'word_set',
-        payload: { wordLength: cleanWord.length },
-      });
-    }
-  };
-
-  const handleOpponentGuess = (letter: string) => {
-    const newGuessedLetters = [...guessedLetters, letter];
-    setGuessedLetters(newGuessedLetters);
-
-    let newWrongGuesses = wrongGuesses;
-    let displayWord = '';
-
-    for (const char of actualWord) {
-      displayWord += newGuessedLetters.includes(char) ? char : '_';
-    }
-    setWord(displayWord);
-
-    if (!actualWord.includes(letter)) {
-      newWrongGuesses = wrongGuesses + 1;
-      setWrongGuesses(newWrongGuesses);
-      soundManager.playLocalSound('lose');
-    } else {
-      soundManager.playLocalSound('correct');
-    }
-
-    const won = !displayWord.includes('_');
-    const lost = newWrongGuesses >= MAX_WRONG_GUESSES;
-    const gameOver = won || lost;
-
-    let newScores = scores;
-    if (gameOver) {
-      if (won) {
-        // Guesser wins
-        newScores = isHost 
-          ? { ...scores, guest: scores.guest + 1 }
-          : { ...scores, host: scores.host + 1 };
-      } else {
-        // Word setter wins
-        newScores = isHost 
-          ? { ...scores, host: scores.host + 1 }
-          : { ...scores, guest: scores.guest + 1 };
-      }
-      setScores(newScores);
-    }
-
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'guess_result',
-        payload: {
-          displayWord,
-          guessedLetters: newGuessedLetters,
-          wrongGuesses: newWrongGuesses,
-          gameOver,
-          won,
-          scores: newScores,
-          round,
-        },
-      });
-    }
-
-    if (gameOver) {
-      if (won) {
-        soundManager.playLocalSound('lose');
-        haptics.screenShake();
-      } else {
-        soundManager.playLocalSound('win');
-        haptics.success();
-        celebrateEpicVictory();
-        spawnFloatingEmojis('🏆');
-      }
-
-      if (round >= maxRounds) {
-        setMode('ended');
-      } else {
-        setTimeout(() => {
-          setRound(prev => prev + 1);
-          setMode('set-word');
-          setWord('');
-          setActualWord('');
-          setGuessedLetters([]);
-          setWrongGuesses(0);
-        }, 2000);
-      }
+    // Only the length is shared; the server keeps the word and judges the guesses
+    try {
+      const { wordLength } = await sendSecretRequest<{ wordLength: number }>(room.id, { type: 'set_word', round, word: cleanWord });
+      setWordInput('');
+      dispatch({ type: 'word_set', wordLength });
+    } catch (error) {
+      console.error('Failed to set word:', error);
+      toast({ variant: 'destructive', title: 'Error', description: error instanceof Error ? error.message : 'Please try again.' });
     }
   };
 
-  const guessLetter = (letter: string) => {
-    if (!isMyTurnToGuess || guessedLetters.includes(letter)) return;
+  const guessLetter = async (letter: string) => {
+    if (!isMyTurnToGuess || guessedLetters.includes(letter) || !room) return;
 
     haptics.medium();
-    
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'letter_guess',
-        payload: { letter },
-      });
+    try {
+      const result = await sendSecretRequest<{ displayWord: string; wrongGuesses: number }>(room.id, { type: 'guess', round, letter });
+      soundManager.playLocalSound(result.displayWord.includes(letter) ? 'correct' : 'wrong');
+      dispatch({ type: 'guess_result', letter, ...result });
+    } catch (error) {
+      console.error('Failed to check guess:', error);
+      toast({ variant: 'destructive', title: 'Error', description: error instanceof Error ? error.message : 'Please try again.' });
     }
-
-    setGuessedLetters(prev => [...prev, letter]);
   };
 
   const resetGame = () => {
-    setMode('menu');
-    setRoomCode('');
-    setJoinCode('');
-    setIsHost(false);
-    setIsConnected(false);
-    setWord('');
-    setActualWord('');
     setWordInput('');
-    setGuessedLetters([]);
-    setWrongGuesses(0);
-    setScores({ host: 0, guest: 0 });
-    setRound(1);
+    dispatch({ type: 'restart' });
   };
 
   const leaveGame = async () => {
-    if (channelRef.current) {
-      await channelRef.current.send({
-        type: 'broadcast',
-        event: 'game_left',
-        payload: {},
-      });
-    }
-    if (roomCode) {
-      await supabase.from('game_rooms').delete().eq('room_code', roomCode);
-    }
-    resetGame();
+    await leaveRoom();
+    setJoinCode('');
+    setWordInput('');
   };
 
   const alphabet = 'abcdefghijklmnopqrstuvwxyz'.split('');
 
+  // Quick match search / nobody found
+  if (quickMatch.phase !== 'idle' && (mode === 'menu' || mode === 'waiting')) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-6 p-4">
+        <QuickMatchPanel quickMatch={quickMatch} fallbacks={[{ label: 'Create Private Room', onSelect: createRoom }]} />
+      </div>
+    );
+  }
+
   // Menu
   if (mode === 'menu') {
     return (
@@ -394,6 +374,8 @@ const HangmanBattle: React.FC = () => {
           <p className="text-muted-foreground">Take turns setting words!</p>
         </div>
 
+        <QuickMatchPanel quickMatch={quickMatch} />
+
         <div className="flex flex-col gap-3 w-full max-w-xs">
           <Button onClick={createRoom} className="w-full bg-neon-purple/20 border-neon-purple text-neon-purple hover:bg-neon-purple/30">
             Create Room
@@ -426,8 +408,15 @@ const HangmanBattle: React.FC = () => {
               {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
             </Button>
           </div>
+          <RoomInvite roomCode={roomCode} gameType="hangman" />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => addBot(pickBotName())}>
+            <Bot className="w-4 h-4" />
+            Play a Bot
+          </Button>
+          <Button variant="outline" onClick={leaveGame}>Cancel</Button>
         </div>
-        <Button variant="outline" onClick={leaveGame}>Cancel</Button>
       </div>
     );
   }
@@ -478,6 +467,8 @@ const HangmanBattle: React.FC = () => {
   if (mode === 'playing') {
     return (
       <div className="flex flex-col items-center justify-center gap-4 p-4 w-full max-w-md">
+        <SpectatorBanner isSpectator={isSpectator} spectatorCount={spectators.length} />
+
         <div className="flex items-center justify-between w-full">
           <div className="flex items-center gap-2">
             {isConnected ? <Wifi className="w-4 h-4 text-green-500" /> : <WifiOff className="w-4 h-4 text-red-500" />}
@@ -489,12 +480,12 @@ const HangmanBattle: React.FC = () => {
         {/* Scoreboard */}
         <div className="flex items-center justify-center gap-8 w-full">
           <div className="text-center">
-            <p className="text-sm text-muted-foreground">{isHost ? 'You' : 'Opponent'}</p>
+            <p className="text-sm text-muted-foreground">{labels.host}</p>
             <p className="font-orbitron text-2xl font-bold text-neon-cyan">{scores.host}</p>
           </div>
           <span className="text-xl text-muted-foreground">vs</span>
           <div className="text-center">
-            <p className="text-sm text-muted-foreground">{isHost ? 'Opponent' : 'You'}</p>
+            <p className="text-sm text-muted-foreground">{labels.guest}</p>
             <p className="font-orbitron text-2xl font-bold text-neon-purple">{scores.guest}</p>
           </div>
         </div>
@@ -534,7 +525,11 @@ const HangmanBattle: React.FC = () => {
 
         {/* Status */}
         <p className={`text-sm ${isMyTurnToGuess ? 'text-neon-green' : 'text-muted-foreground'}`}>
-          {isMyTurnToGuess ? 'Your turn to guess!' : 'Waiting for opponent...'}
+          {isMyTurnToGuess
+            ? 'Your turn to guess!'
+            : isSpectator
+              ? state.phase === 'setting' ? 'A word is being chosen...' : `${state.setterSeat === 0 ? labels.guest : labels.host} is guessing`
+              : 'Waiting for opponent...'}
         </p>
 
         {/* Keyboard */}
@@ -593,23 +588,30 @@ const HangmanBattle: React.FC = () => {
 
   // Ended
   if (mode === 'ended') {
-    const myScore = isHost ? scores.host : scores.guest;
-    const opponentScore = isHost ? scores.guest : scores.host;
+    // Spectators see the result from the host's side
+    const myScore = isHost || isSpectator ? scores.host : scores.guest;
+    const opponentScore = isHost || isSpectator ? scores.guest : scores.host;
     const won = myScore > opponentScore;
 
     return (
       <div className="flex flex-col items-center justify-center gap-6 p-4">
         <Trophy className={`w-16 h-16 ${won ? 'text-neon-green' : 'text-red-500'}`} />
         <h2 className="font-orbitron text-2xl font-bold">
-          {won ? 'You Win!' : myScore === opponentScore ? "It's a Tie!" : 'You Lose!'}
+          {myScore === opponentScore
+            ? "It's a Tie!"
+            : isSpectator
+              ? `${won ? labels.host : labels.guest} Wins!`
+              : won ? 'You Win!' : 'You Lose!'}
         </h2>
         <p className="text-xl">
           {myScore} - {opponentScore}
         </p>
         <div className="flex gap-3">
-          <Button onClick={resetGame} className="bg-neon-green/20 text-neon-green">
-            <RotateCcw className="w-4 h-4 mr-2" /> Play Again
-          </Button>
+          {!isSpectator && (
+            <Button onClick={resetGame} className="bg-neon-green/20 text-neon-green">
+              <RotateCcw className="w-4 h-4 mr-2" /> Play Again
+            </Button>
+          )}
           <Button variant="outline" onClick={leaveGame}>Leave</Button>
         </div>
       </div>
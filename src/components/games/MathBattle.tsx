@@ -1,17 +1,22 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Swords, Users, Copy, Check, Play, Trophy, Clock, Zap, ArrowLeft } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Swords, Users, Copy, Check, Play, Trophy, Clock, Zap, ArrowLeft, Bot } from 'lucide-react';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
 import { celebrateFireworks } from '@/utils/confetti';
-import { useGameChannel } from '@/contexts/GameChannelContext';
 import { useToast } from '@/hooks/use-toast';
-import { RealtimeChannel } from '@supabase/supabase-js';
+import { useRealtimeRoom } from '@/hooks/useRealtimeRoom';
+import { useQuickMatch } from '@/hooks/useQuickMatch';
+import { useDifficulty } from '@/contexts/DifficultyContext';
+import { MATH_BOT_LEVELS, mathBotAnswersCorrectly, pickBotName, sampleMathSolveTime } from '@/utils/bots';
+import SpectatorBanner from '@/components/SpectatorBanner';
+import QuickMatchPanel from '@/components/QuickMatchPanel';
+import RoomInvite from '@/components/RoomInvite';
 
 type GameMode = 'menu' | 'create' | 'join' | 'waiting' | 'playing' | 'ended';
 type Operator = '+' | '-' | '×';
+type PlayerKey = 'player1' | 'player2';
 
 interface Problem {
   num1: number;
@@ -32,6 +37,11 @@ interface GameState {
   playerNames: { player1: string; player2: string };
 }
 
+type GameAction =
+  | { type: 'player_joined'; name: string }
+  | { type: 'answer'; player: PlayerKey; correct: boolean }
+  | { type: 'new_round'; problem: Problem; options: number[] };
+
 const generateProblem = (): Problem => {
   const operators: Operator[] = ['+', '-', '×'];
   const operator = operators[Math.floor(Math.random() * operators.length)];
@@ -73,28 +83,141 @@ const generateOptions = (answer: number): number[] => {
   return Array.from(options).sort(() => Math.random() - 0.5);
 };
 
+const createGameState = (hostName = ''): GameState => {
+  const problem = generateProblem();
+  return {
+    problem,
+    options: generateOptions(problem.answer),
+    scores: { player1: 0, player2: 0 },
+    round: 1,
+    maxRounds: 10,
+    status: 'waiting',
+    answered: { player1: false, player2: false },
+    winner: null,
+    playerNames: { player1: hostName, player2: '' },
+  };
+};
+
+const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'player_joined':
+      return {
+        ...state,
+        status: 'playing',
+        playerNames: { ...state.playerNames, player2: action.name },
+      };
+    case 'answer': {
+      if (state.status !== 'playing' || state.answered[action.player]) return state;
+
+      const scores = { ...state.scores };
+      if (action.correct) scores[action.player] += 10;
+      const answered = { ...state.answered, [action.player]: true };
+
+      if (answered.player1 && answered.player2 && state.round >= state.maxRounds) {
+        const winner = scores.player1 > scores.player2
+          ? state.playerNames.player1 || 'Player 1'
+          : scores.player2 > scores.player1
+          ? state.playerNames.player2 || 'Player 2'
+          : 'Tie';
+        return { ...state, scores, answered, status: 'ended', winner };
+      }
+      return { ...state, scores, answered };
+    }
+    case 'new_round':
+      if (!state.answered.player1 || !state.answered.player2 || state.status !== 'playing') return state;
+      return {
+        ...state,
+        round: state.round + 1,
+        problem: action.problem,
+        options: action.options,
+        answered: { player1: false, player2: false },
+      };
+    default:
+      return state;
+  }
+};
+
 const MathBattle: React.FC = () => {
   const { toast } = useToast();
-  const { setChannelRef, setPlayerName: setGlobalPlayerName, setRoomId: setGlobalRoomId } = useGameChannel();
   const [mode, setMode] = useState<GameMode>('menu');
-  const [roomCode, setRoomCode] = useState('');
-  const [roomId, setRoomId] = useState<string | null>(null);
   const [joinCode, setJoinCode] = useState('');
   const [playerName, setPlayerName] = useState('');
   const [copied, setCopied] = useState(false);
-  const [playerNumber, setPlayerNumber] = useState<1 | 2>(1);
-  const [problem, setProblem] = useState<Problem | null>(null);
-  const [options, setOptions] = useState<number[]>([]);
-  const [scores, setScores] = useState({ player1: 0, player2: 0 });
-  const [round, setRound] = useState(1);
-  const [maxRounds] = useState(10);
-  const [hasAnswered, setHasAnswered] = useState(false);
-  const [winner, setWinner] = useState<string | null>(null);
   const [feedback, setFeedback] = useState<'correct' | 'wrong' | null>(null);
-  const [playerNames, setPlayerNames] = useState({ player1: '', player2: '' });
-  const channelRef = useRef<RealtimeChannel | null>(null);
+  const { difficulty } = useDifficulty();
 
-  const generateRoomCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
+  const {
+    state,
+    dispatch,
+    room,
+    status,
+    spectators,
+    bots,
+    createRoom: createOnlineRoom,
+    joinRoom: joinOnlineRoom,
+    leaveRoom,
+    addBot,
+  } = useRealtimeRoom<GameState, GameAction>({
+    gameType: 'mathbattle',
+    reducer: gameReducer,
+    initialState: createGameState(),
+    playerName,
+    onPlayerJoined: (player) => {
+      dispatch({ type: 'player_joined', name: player.name });
+    },
+    onAction: (action, next) => {
+      if (action.type === 'new_round') {
+        setFeedback(null);
+        soundManager.playLocalSound('click');
+        return;
+      }
+      if (action.type !== 'answer') return;
+
+      if (next.status === 'ended') {
+        setMode('ended');
+        if (room?.isSpectator) return;
+        const isWinner = next.winner === next.playerNames[myKey] || next.winner === `Player ${playerNumber}`;
+        soundManager.playLocalSound(isWinner ? 'win' : 'lose');
+        if (isWinner) {
+          haptics.success();
+          celebrateFireworks();
+        } else {
+          haptics.error();
+        }
+      } else if (isHost && next.answered.player1 && next.answered.player2) {
+        // The host deals the next problem so both players see the same one
+        const problem = generateProblem();
+        dispatch({ type: 'new_round', problem, options: generateOptions(problem.answer) });
+      }
+    },
+    onOpponentLeft: () => {
+      setMode('menu');
+      setFeedback(null);
+    },
+  });
+
+  const quickMatch = useQuickMatch({
+    gameType: 'mathbattle',
+    status,
+    createRoom: () => createOnlineRoom(createGameState(playerName)),
+    joinRoom: joinOnlineRoom,
+    leaveRoom: () => leaveGame(),
+  });
+
+  const { problem, options, scores, round, maxRounds, winner, playerNames } = state;
+  const roomCode = room?.code || '';
+  const isHost = !!room?.isHost;
+  const playerNumber: 1 | 2 = room && !room.isHost ? 2 : 1;
+  const isSpectator = !!room?.isSpectator;
+  const myKey: PlayerKey = playerNumber === 1 ? 'player1' : 'player2';
+  const hasAnswered = state.answered[myKey];
+  const canAnswer = !hasAnswered && !isSpectator;
+
+  // Follow the room lifecycle
+  useEffect(() => {
+    if (status === 'waiting') setMode('waiting');
+    else if (status === 'playing') setMode('playing');
+  }, [status]);
 
   const createRoom = async () => {
     if (!playerName.trim()) {
@@ -102,45 +225,7 @@ const MathBattle: React.FC = () => {
       return;
     }
     
-    const code = generateRoomCode();
-    setRoomCode(code);
-    setPlayerNumber(1);
-    
-    const initialProblem = generateProblem();
-    const initialOptions = generateOptions(initialProblem.answer);
-    
-    const initialState: GameState = {
-      problem: initialProblem,
-      options: initialOptions,
-      scores: { player1: 0, player2: 0 },
-      round: 1,
-      maxRounds: 10,
-      status: 'waiting',
-      answered: { player1: false, player2: false },
-      winner: null,
-      playerNames: { player1: playerName, player2: '' }
-    };
-    
-    try {
-      const { data, error } = await supabase.from('game_rooms').insert([{
-        room_code: code,
-        game_type: 'mathbattle',
-        game_state: JSON.parse(JSON.stringify(initialState)),
-        status: 'waiting'
-      }]).select().single();
-      
-      if (error) throw error;
-      
-      setRoomId(data.id);
-      setProblem(initialProblem);
-      setOptions(initialOptions);
-      setPlayerNames({ player1: playerName, player2: '' });
-      setMode('waiting');
-      haptics.success();
-      toast({ title: 'Room Created!', description: 'Share the code with a friend' });
-    } catch (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to create room' });
-    }
+    await createOnlineRoom(createGameState(playerName));
   };
 
   const joinRoom = async () => {
@@ -150,73 +235,7 @@ const MathBattle: React.FC = () => {
       return;
     }
     
-    try {
-      const { data, error } = await supabase
-        .from('game_rooms')
-        .select('*')
-        .eq('room_code', joinCode.toUpperCase())
-        .eq('game_type', 'mathbattle')
-        .single();
-      
-      if (error || !data) {
-        toast({ variant: 'destructive', title: 'Error', description: 'Room not found' });
-        return;
-      }
-      
-      const code = joinCode.toUpperCase();
-      const currentState = data.game_state as unknown as GameState;
-      
-      // Update state with player 2 info
-      const updatedState: GameState = {
-        ...currentState,
-        status: 'playing',
-        playerNames: { ...currentState.playerNames, player2: playerName }
-      };
-      
-      await supabase.from('game_rooms')
-        .update({ 
-          player_count: 2, 
-          status: 'playing', 
-          game_state: JSON.parse(JSON.stringify(updatedState)) 
-        })
-        .eq('id', data.id);
-      
-      setRoomCode(code);
-      setRoomId(data.id);
-      setPlayerNumber(2);
-      setProblem(currentState.problem);
-      setOptions(currentState.options || []);
-      setScores(currentState.scores);
-      setRound(currentState.round);
-      setPlayerNames({ ...currentState.playerNames, player2: playerName });
-      setMode('playing');
-      
-      // Broadcast join to host
-      const channel = supabase.channel(`mathbattle-${data.id}`);
-      await channel.subscribe();
-      
-      // Update global channel ref
-      channelRef.current = channel;
-      setChannelRef(channelRef);
-      setGlobalPlayerName(playerName);
-      setGlobalRoomId(data.id);
-      
-      await channel.send({
-        type: 'broadcast',
-        event: 'game_update',
-        payload: { 
-          type: 'player_joined',
-          playerNames: updatedState.playerNames,
-          status: 'playing'
-        }
-      });
-      
-      haptics.success();
-      soundManager.playLocalSound('correct');
-      toast({ title: 'Joined!', description: 'Game starting!' });
-    } catch (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to join room' });
-    }
+    await joinOnlineRoom(joinCode);
   };
 
   const copyRoomCode = () => {
@@ -226,213 +245,42 @@ const MathBattle: React.FC = () => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  // Subscribe to room changes using broadcast
+  // A bot opponent is player 2, answered for by the host after its solve time
+  const isBotAnswering = isHost && bots.length > 0 && state.status === 'playing' && !state.answered.player2;
   useEffect(() => {
-    if (!roomId || (mode !== 'waiting' && mode !== 'playing')) return;
-
-    const channel = supabase
-      .channel(`mathbattle-${roomId}`, {
-        config: { broadcast: { self: true } }
-      })
-      .on('broadcast', { event: 'game_left' }, () => {
-        // Other player left - reset game
-        toast({ title: 'Opponent Left', description: 'The game has ended' });
-        setMode('menu');
-        setRoomCode('');
-        setRoomId(null);
-        setProblem(null);
-        setOptions([]);
-        setScores({ player1: 0, player2: 0 });
-        setRound(1);
-        setHasAnswered(false);
-        setWinner(null);
-        setFeedback(null);
-      })
-      .on('broadcast', { event: 'game_update' }, ({ payload }) => {
-        if (!payload) return;
-        
-        // Player joined
-        if (payload.type === 'player_joined' && mode === 'waiting') {
-          setMode('playing');
-          if (payload.playerNames) setPlayerNames(payload.playerNames);
-          haptics.success();
-          soundManager.playLocalSound('correct');
-          toast({ title: 'Player Joined!', description: 'Game starting!' });
-        }
-        
-        // Answer submitted
-        if (payload.type === 'answer_submitted') {
-          if (payload.scores) setScores(payload.scores);
-        }
-        
-        // New round
-        if (payload.type === 'new_round') {
-          setProblem(payload.problem);
-          setOptions(payload.options);
-          setScores(payload.scores);
-          setRound(payload.round);
-          setHasAnswered(false);
-          setFeedback(null);
-          soundManager.playLocalSound('click');
-        }
-        
-        // Game ended
-        if (payload.type === 'game_ended') {
-          setMode('ended');
-          setScores(payload.scores);
-          setWinner(payload.winner);
-          const isWinner = payload.winner === `Player ${playerNumber}` || 
-                          payload.winner === playerNames[playerNumber === 1 ? 'player1' : 'player2'];
-          soundManager.playLocalSound(isWinner ? 'win' : 'lose');
-          if (isWinner) {
-            haptics.success();
-            celebrateFireworks();
-          } else {
-            haptics.error();
-          }
-        }
-      })
-      .subscribe();
-
-    channelRef.current = channel;
-    
-    // Update global channel ref for FloatingReactions and FloatingChat
-    setChannelRef(channelRef);
-    setGlobalPlayerName(playerName || `Player ${playerNumber}`);
-    setGlobalRoomId(roomId);
-    
-    // Listen for reactions and chat from global components
-    channel.on('broadcast', { event: 'reaction' }, ({ payload }) => {
-      if (payload?.emoji) {
-        window.dispatchEvent(new CustomEvent('game-reaction', { detail: { emoji: payload.emoji } }));
-      }
-    });
-    
-    channel.on('broadcast', { event: 'chat' }, ({ payload }) => {
-      if (payload?.type === 'chat' && payload?.message && payload?.playerName) {
-        window.dispatchEvent(new CustomEvent('game-chat', { detail: payload }));
-      }
-    });
-
-    return () => {
-      supabase.removeChannel(channel);
-      setChannelRef(null);
-      setGlobalRoomId(null);
-    };
-  }, [roomId, mode, playerNumber, playerNames, playerName, setChannelRef, setGlobalPlayerName, setGlobalRoomId]);
+    if (!isBotAnswering) return;
+    const level = MATH_BOT_LEVELS[difficulty];
+    const timer = setTimeout(() => {
+      dispatch({ type: 'answer', player: 'player2', correct: mathBotAnswersCorrectly(level) });
+    }, sampleMathSolveTime(level));
+    return () => clearTimeout(timer);
+  }, [isBotAnswering, round, difficulty, dispatch]);
 
-  const handleAnswer = async (answer: number) => {
-    if (!problem || hasAnswered || !roomId) return;
+  const handleAnswer = (answer: number) => {
+    if (!problem || !canAnswer || !room) return;
     
-    setHasAnswered(true);
     const isCorrect = answer === problem.answer;
     setFeedback(isCorrect ? 'correct' : 'wrong');
     soundManager.playLocalSound(isCorrect ? 'correct' : 'wrong');
     haptics.light();
-    
-    const { data } = await supabase
-      .from('game_rooms')
-      .select('game_state')
-      .eq('id', roomId)
-      .single();
-    
-    if (!data) return;
-    
-    const currentState = data.game_state as unknown as GameState;
-    const playerKey = playerNumber === 1 ? 'player1' : 'player2';
-    
-    const newScores = { ...currentState.scores };
-    if (isCorrect) {
-      newScores[playerKey] += 10;
-    }
-    
-    const newAnswered = { ...currentState.answered, [playerKey]: true };
-    const bothAnswered = newAnswered.player1 && newAnswered.player2;
-    
-    let newState: GameState = { ...currentState, scores: newScores, answered: newAnswered };
-    
-    // Broadcast score update
-    channelRef.current?.send({
-      type: 'broadcast',
-      event: 'game_update',
-      payload: { type: 'answer_submitted', scores: newScores }
-    });
-    
-    if (bothAnswered) {
-      if (currentState.round >= currentState.maxRounds) {
-        // Game ended
-        const winnerName = newScores.player1 > newScores.player2 
-          ? currentState.playerNames.player1 || 'Player 1'
-          : newScores.player2 > newScores.player1 
-          ? currentState.playerNames.player2 || 'Player 2' 
-          : 'Tie';
-        
-        newState = { ...newState, status: 'ended', winner: winnerName };
-        
-        channelRef.current?.send({
-          type: 'broadcast',
-          event: 'game_update',
-          payload: { type: 'game_ended', scores: newScores, winner: winnerName }
-        });
-      } else {
-        // New round
-        const newProblem = generateProblem();
-        const newOptions = generateOptions(newProblem.answer);
-        
-        newState = {
-          ...newState,
-          round: currentState.round + 1,
-          problem: newProblem,
-          options: newOptions,
-          answered: { player1: false, player2: false }
-        };
-        
-        channelRef.current?.send({
-          type: 'broadcast',
-          event: 'game_update',
-          payload: { 
-            type: 'new_round',
-            problem: newProblem,
-            options: newOptions,
-            scores: newScores,
-            round: newState.round
-          }
-        });
-      }
-    }
-    
-    // Update DB in background
-    supabase.from('game_rooms')
-      .update({ game_state: JSON.parse(JSON.stringify(newState)) })
-      .eq('id', roomId)
-      .then();
+    dispatch({ type: 'answer', player: myKey, correct: isCorrect });
   };
 
   const leaveGame = async () => {
-    // Broadcast to other player that we're leaving
-    if (channelRef.current) {
-      await channelRef.current.send({
-        type: 'broadcast',
-        event: 'game_left',
-        payload: {}
-      });
-    }
-    
-    if (roomId) {
-      await supabase.from('game_rooms').delete().eq('id', roomId);
-    }
+    await leaveRoom();
     setMode('menu');
-    setRoomCode('');
-    setRoomId(null);
-    setProblem(null);
-    setOptions([]);
-    setScores({ player1: 0, player2: 0 });
-    setRound(1);
-    setHasAnswered(false);
-    setWinner(null);
     setFeedback(null);
   };
 
+  // Quick match search / nobody found
+  if (quickMatch.phase !== 'idle' && (mode === 'menu' || mode === 'waiting')) {
+    return (
+      <div className="flex flex-col items-center gap-6 animate-slide-in">
+        <QuickMatchPanel quickMatch={quickMatch} fallbacks={[{ label: 'Create Private Room', onSelect: createRoom }]} />
+      </div>
+    );
+  }
+
   // Menu
   if (mode === 'menu') {
     return (
@@ -451,6 +299,8 @@ const MathBattle: React.FC = () => {
           maxLength={15}
         />
         
+        <QuickMatchPanel quickMatch={quickMatch} />
+
         <div className="flex flex-col gap-4 w-full max-w-xs">
           <Button variant="game" size="lg" onClick={() => setMode('create')}>
             <Users className="w-5 h-5" />
@@ -514,8 +364,13 @@ const MathBattle: React.FC = () => {
             {copied ? <Check className="w-4 h-4 text-neon-green" /> : <Copy className="w-4 h-4" />}
           </Button>
         </div>
+        <RoomInvite roomCode={roomCode} gameType="mathbattle" />
         <p className="text-xs text-muted-foreground">Share this code with a friend</p>
-        
+
+        <Button variant="outline" onClick={() => addBot(pickBotName())}>
+          <Bot className="w-4 h-4" />
+          Play a Bot
+        </Button>
         <Button variant="ghost" onClick={leaveGame}>Cancel</Button>
       </div>
     );
@@ -524,11 +379,13 @@ const MathBattle: React.FC = () => {
   if (mode === 'playing' && problem) {
     return (
       <div className="flex flex-col items-center gap-6 w-full animate-slide-in">
+        <SpectatorBanner isSpectator={isSpectator} spectatorCount={spectators.length} />
+
         {/* Scores */}
         <div className="flex justify-between w-full px-2">
           <div className={`text-center p-3 rounded-xl border-2 ${playerNumber === 1 ? 'border-neon-cyan bg-neon-cyan/10' : 'border-border'}`}>
             <span className="text-xs text-muted-foreground font-rajdhani">
-              {playerNames.player1 || 'P1'} {playerNumber === 1 && '(You)'}
+              {playerNames.player1 || 'P1'} {playerNumber === 1 && !isSpectator && '(You)'}
             </span>
             <p className="font-orbitron text-2xl text-neon-cyan">{scores.player1}</p>
           </div>
@@ -540,7 +397,7 @@ const MathBattle: React.FC = () => {
           
           <div className={`text-center p-3 rounded-xl border-2 ${playerNumber === 2 ? 'border-neon-pink bg-neon-pink/10' : 'border-border'}`}>
             <span className="text-xs text-muted-foreground font-rajdhani">
-              {playerNames.player2 || 'P2'} {playerNumber === 2 && '(You)'}
+              {playerNames.player2 || 'P2'} {playerNumber === 2 && !isSpectator && '(You)'}
             </span>
             <p className="font-orbitron text-2xl text-neon-pink">{scores.player2}</p>
           </div>
@@ -558,7 +415,7 @@ const MathBattle: React.FC = () => {
         </div>
 
         {/* Status */}
-        {hasAnswered && (
+        {hasAnswered && !isSpectator && (
           <span className="font-rajdhani text-muted-foreground animate-pulse">
             Waiting for opponent...
           </span>
@@ -570,9 +427,9 @@ const MathBattle: React.FC = () => {
             <button
               key={index}
               onClick={() => handleAnswer(option)}
-              disabled={hasAnswered}
+              disabled={!canAnswer}
               className={`p-4 rounded-xl border-2 font-orbitron text-2xl transition-all
-                ${hasAnswered 
+                ${!canAnswer 
                   ? option === problem.answer 
                     ? 'border-neon-green bg-neon-green/20' 
                     : 'border-border bg-card opacity-50'
@@ -17,7 +17,7 @@ const COLORS = [
 ];
 
 const PatternMemory: React.FC = () => {
-  const { config } = useDifficulty();
+  const { config, difficulty } = useDifficulty();
   const { addScore } = useLeaderboard();
   const [gameState, setGameState] = useState<GameState>('idle');
   const [pattern, setPattern] = useState<number[]>([]);
@@ -100,7 +100,7 @@ const PatternMemory: React.FC = () => {
       
       // Save score to leaderboard
       if (score > 0) {
-        addScore(GAME_TYPES.PATTERN_MEMORY, playerName, score, `Round ${round}`);
+        addScore(GAME_TYPES.PATTERN_MEMORY, playerName, score, `Round ${round}`, difficulty);
       }
       
       if (score > highScore) {
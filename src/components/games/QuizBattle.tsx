@@ -1,80 +1,413 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { HelpCircle, Users, Copy, Check, Play, Trophy, Clock, ArrowLeft, Sparkles } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { HelpCircle, Users, Play, Trophy, Clock, ArrowLeft, Sparkles } from 'lucide-react';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
 import { celebrateFireworks } from '@/utils/confetti';
 import { useToast } from '@/hooks/use-toast';
-import { RealtimeChannel } from '@supabase/supabase-js';
+import { useRealtimeRoom } from '@/hooks/useRealtimeRoom';
+import { useQuickMatch } from '@/hooks/useQuickMatch';
+import { useDeadline } from '@/hooks/useDeadline';
+import { useDifficulty } from '@/contexts/DifficultyContext';
+import SpectatorBanner from '@/components/SpectatorBanner';
+import QuickMatchPanel from '@/components/QuickMatchPanel';
+import RoomLobby from '@/components/RoomLobby';
+import LobbySizePicker from '@/components/LobbySizePicker';
+import QuizSettingsPicker from '@/components/QuizSettingsPicker';
+import { sealChoice, type SealedChoice } from '@/utils/commitReveal';
+import { sendSecretRequest } from '@/utils/gameRooms';
+import { DEADLINE_GRACE } from '@/utils/serverClock';
+import { QUIZ_BOT_LEVELS, pickBotName, quizBotDelay } from '@/utils/bots';
+import {
+  DEFAULT_QUIZ_SETTINGS,
+  QUIZ_DIFFICULTIES,
+  type QuizDifficulty,
+  type QuizPack,
+  type QuizSettings,
+} from '@/utils/quizPacks';
 
 type GameMode = 'menu' | 'create' | 'join' | 'waiting' | 'playing' | 'ended';
 
+// Questions come from the server without their answers (see game-action/secrets.ts)
 interface Question {
   question: string;
   options: string[];
-  correct: number;
   category: string;
+  /** Bank questions only; custom packs have none */
+  difficulty?: QuizDifficulty;
 }
 
 interface GameState {
+  questions: Question[];
   currentQuestion: Question | null;
   questionIndex: number;
-  scores: { player1: number; player2: number };
-  answered: { player1: number | null; player2: number | null };
-  status: 'waiting' | 'playing' | 'revealing' | 'ended';
+  /** Player names by seat */
+  players: string[];
+  scores: number[];
+  /** Sealed answers for the current question, opened once everyone has committed */
+  commitments: (string | null)[];
+  /** Seats that have opened their answer to the server */
+  revealed: boolean[];
+  /** Answers as the server scored them; -1 for no answer or a reveal that didn't match its commitment */
+  answered: (number | null)[];
+  /** The current question's correct option, sent by the server with its scores */
+  answerKey: number | null;
+  /** When answers close for the current question, on the server's clock */
+  deadline: number | null;
+  /** Seats whose players left mid-game; they are never waited on */
+  left: boolean[];
+  status: 'waiting' | 'playing' | 'revealing' | 'results' | 'ended';
   winner: string | null;
-  playerNames: { player1: string; player2: string };
   totalQuestions: number;
+  settings: QuizSettings;
 }
 
-const QUESTIONS: Question[] = [
-  { question: "What is the capital of France?", options: ["London", "Paris", "Berlin", "Madrid"], correct: 1, category: "Geography" },
-  { question: "Which planet is known as the Red Planet?", options: ["Venus", "Jupiter", "Mars", "Saturn"], correct: 2, category: "Science" },
-  { question: "What is 15 × 8?", options: ["110", "120", "125", "130"], correct: 1, category: "Math" },
-  { question: "Who painted the Mona Lisa?", options: ["Van Gogh", "Picasso", "Da Vinci", "Monet"], correct: 2, category: "Art" },
-  { question: "What is the largest ocean?", options: ["Atlantic", "Indian", "Arctic", "Pacific"], correct: 3, category: "Geography" },
-  { question: "How many sides does a hexagon have?", options: ["5", "6", "7", "8"], correct: 1, category: "Math" },
-  { question: "What is the chemical symbol for Gold?", options: ["Go", "Gd", "Au", "Ag"], correct: 2, category: "Science" },
-  { question: "Which country has the most population?", options: ["USA", "India", "China", "Brazil"], correct: 2, category: "Geography" },
-  { question: "What year did World War II end?", options: ["1943", "1944", "1945", "1946"], correct: 2, category: "History" },
-  { question: "What is the square root of 144?", options: ["10", "11", "12", "13"], correct: 2, category: "Math" },
-  { question: "Which element has the symbol 'O'?", options: ["Gold", "Osmium", "Oxygen", "Oganesson"], correct: 2, category: "Science" },
-  { question: "What is the longest river in the world?", options: ["Amazon", "Nile", "Yangtze", "Mississippi"], correct: 1, category: "Geography" },
-  { question: "Who wrote 'Romeo and Juliet'?", options: ["Dickens", "Shakespeare", "Austen", "Hemingway"], correct: 1, category: "Literature" },
-  { question: "What is 256 ÷ 16?", options: ["14", "15", "16", "17"], correct: 2, category: "Math" },
-  { question: "Which animal is known as the King of the Jungle?", options: ["Tiger", "Elephant", "Lion", "Gorilla"], correct: 2, category: "Nature" },
-];
+type GameAction =
+  | { type: 'player_joined'; seat: number; name: string }
+  | { type: 'start'; questions: Question[]; deadline: number }
+  | { type: 'commit'; seat: number; hash: string }
+  | { type: 'reveal'; seat: number }
+  | { type: 'close_answers' }
+  | { type: 'scored'; questionIndex: number; correct: number; answers: number[]; points: number[] }
+  | { type: 'next_question'; deadline?: number }
+  | { type: 'player_left'; seat: number };
+
+const QUESTION_TIME = 10; // seconds, matching the server's deadline
+const REVEAL_DELAY = 2000;
+// Players who haven't opened their answer by then score nothing for the question;
+// the server holds the question open until its own reveal time is up
+const REVEAL_TIMEOUT = 5000;
+const SCORE_RETRY_DELAY = 1000;
+
+const createGameState = (hostName = '', settings = DEFAULT_QUIZ_SETTINGS): GameState => ({
+  questions: [],
+  currentQuestion: null,
+  questionIndex: 0,
+  players: hostName ? [hostName] : [],
+  scores: [0],
+  commitments: [null],
+  revealed: [false],
+  answered: [null],
+  answerKey: null,
+  deadline: null,
+  left: [],
+  status: 'waiting',
+  winner: null,
+  totalQuestions: settings.pack?.size ?? 10,
+  settings,
+});
+
+const describeSettings = ({ categories, difficulty, pack }: QuizSettings) => {
+  if (pack) return `${pack.size} questions from "${pack.name}"`;
+  const level = QUIZ_DIFFICULTIES.find(({ id }) => id === difficulty)?.label ?? 'Mixed';
+  return `10 questions · ${categories.length ? categories.join(', ') : 'All categories'} · ${level}`;
+};
+
+/**
+ * Open the answers once everyone still in the game has committed to one. The
+ * question is scored by the server, once they have been opened to it
+ */
+const advanceRound = (state: GameState): GameState => {
+  const waiting = state.commitments.some((hash, seat) => hash === null && !state.left[seat]);
+  return state.status === 'playing' && !waiting ? { ...state, status: 'revealing' } : state;
+};
+
+const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'player_joined': {
+      if (state.status !== 'waiting') return state;
+      const players = [...state.players];
+      players[action.seat] = action.name;
+      return { ...state, players };
+    }
+    case 'start': {
+      if (state.status !== 'waiting' || action.questions.length === 0) return state;
+      // A seat whose join broadcast was missed still gets a name
+      const players = Array.from({ length: state.players.length }, (_, i) => state.players[i] || `Player ${i + 1}`);
+      return {
+        ...state,
+        questions: action.questions,
+        currentQuestion: action.questions[0],
+        questionIndex: 0,
+        totalQuestions: action.questions.length,
+        answerKey: null,
+        deadline: action.deadline,
+        players,
+        scores: players.map(() => 0),
+        commitments: players.map(() => null),
+        revealed: players.map(() => false),
+        answered: players.map(() => null),
+        status: 'playing',
+      };
+    }
+    case 'commit': {
+      if (state.status !== 'playing' || state.commitments[action.seat] !== null) return state;
+      const commitments = [...state.commitments];
+      commitments[action.seat] = action.hash;
+      return advanceRound({ ...state, commitments });
+    }
+    case 'reveal': {
+      if (state.status !== 'revealing' || state.revealed[action.seat]) return state;
+      const revealed = [...state.revealed];
+      revealed[action.seat] = true;
+      return { ...state, revealed };
+    }
+    case 'close_answers': {
+      // Time is up: anyone who hasn't committed scores nothing and has nothing to reveal
+      if (state.status !== 'playing') return state;
+      const commitments = state.commitments.map((hash, seat) => (hash === null && !state.left[seat] ? '' : hash));
+      return advanceRound({ ...state, commitments });
+    }
+    case 'scored': {
+      // Only the server's points count, whatever anyone claimed to have answered
+      if (state.status !== 'revealing' || action.questionIndex !== state.questionIndex) return state;
+      const scores = state.scores.map((score, seat) => score + (action.points[seat] ?? 0));
+      return { ...state, scores, answered: action.answers, answerKey: action.correct, status: 'results' };
+    }
+    case 'player_left': {
+      const left = [...state.left];
+      left[action.seat] = true;
+      const next = { ...state, left };
+      return advanceRound(next);
+    }
+    case 'next_question': {
+      if (state.status !== 'results') return state;
+      if (state.questionIndex >= state.totalQuestions - 1) {
+        const best = Math.max(...state.scores.filter((_, seat) => !state.left[seat]));
+        const leaders = state.players.filter((_, seat) => state.scores[seat] === best && !state.left[seat]);
+        return { ...state, status: 'ended', winner: leaders.length === 1 ? leaders[0] : 'Tie' };
+      }
+      const questionIndex = state.questionIndex + 1;
+      return {
+        ...state,
+        questionIndex,
+        currentQuestion: state.questions[questionIndex],
+        commitments: state.players.map(() => null),
+        revealed: state.players.map(() => false),
+        answered: state.players.map(() => null),
+        answerKey: null,
+        deadline: action.deadline ?? null,
+        status: 'playing',
+      };
+    }
+    default:
+      return state;
+  }
+};
 
 const QuizBattle: React.FC = () => {
   const { toast } = useToast();
   const [mode, setMode] = useState<GameMode>('menu');
-  const [roomCode, setRoomCode] = useState('');
-  const [roomId, setRoomId] = useState<string | null>(null);
   const [joinCode, setJoinCode] = useState('');
   const [playerName, setPlayerName] = useState('');
-  const [copied, setCopied] = useState(false);
-  const [playerNumber, setPlayerNumber] = useState<1 | 2>(1);
-  const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
-  const [questionIndex, setQuestionIndex] = useState(0);
-  const [scores, setScores] = useState({ player1: 0, player2: 0 });
-  const [answered, setAnswered] = useState<{ player1: number | null; player2: number | null }>({ player1: null, player2: null });
-  const [winner, setWinner] = useState<string | null>(null);
-  const [playerNames, setPlayerNames] = useState({ player1: '', player2: '' });
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
-  const [showResult, setShowResult] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(10);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const channelRef = useRef<RealtimeChannel | null>(null);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-
-  const generateRoomCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
-
-  const shuffleQuestions = () => {
-    const shuffled = [...QUESTIONS].sort(() => Math.random() - 0.5);
-    return shuffled.slice(0, 10);
-  };
+  const [roomSize, setRoomSize] = useState(4);
+  const [settings, setSettings] = useState<QuizSettings>(DEFAULT_QUIZ_SETTINGS);
+  // Only the host who imported a pack holds its questions; the room just knows its name and size
+  const [pack, setPack] = useState<QuizPack | null>(null);
+  const [sealed, setSealed] = useState<{ questionIndex: number; answer: SealedChoice<number> } | null>(null);
+  const { difficulty } = useDifficulty();
+
+  const {
+    state,
+    dispatch,
+    room,
+    status,
+    players: lobbyPlayers,
+    bots,
+    spectators,
+    me,
+    capacity,
+    hostSeat,
+    createRoom: createOnlineRoom,
+    joinRoom: joinOnlineRoom,
+    leaveRoom,
+    startGame,
+    addBot,
+    updateRoomStatus,
+  } = useRealtimeRoom<GameState, GameAction>({
+    gameType: 'quizbattle',
+    reducer: gameReducer,
+    lobby: true,
+    initialState: createGameState(),
+    playerName,
+    onPlayerJoined: (player) => {
+      dispatch({ type: 'player_joined', seat: player.seat, name: player.name });
+    },
+    onPlayerLeft: (player) => {
+      dispatch({ type: 'player_left', seat: player.seat });
+    },
+    onAction: (action, next) => {
+      if (action.type === 'start') {
+        soundManager.playLocalSound('start');
+        haptics.success();
+        return;
+      }
+      if (action.type !== 'next_question') return;
+
+      if (next.status === 'ended') {
+        setMode('ended');
+        if (isHost) updateRoomStatus('ended');
+        if (isSpectator) return;
+        if (next.winner === next.players[mySeat]) {
+          soundManager.playLocalSound('win');
+          haptics.success();
+          celebrateFireworks();
+        } else if (next.winner === 'Tie') {
+          soundManager.playLocalSound('correct');
+          haptics.light();
+        } else {
+          soundManager.playLocalSound('lose');
+          haptics.error();
+        }
+      }
+    },
+    onOpponentLeft: () => {
+      setMode('menu');
+      setJoinCode('');
+    },
+  });
+
+  const quickMatch = useQuickMatch({
+    gameType: 'quizbattle',
+    status,
+    players: lobbyPlayers,
+    createRoom: () => createOnlineRoom(createGameState(playerName.trim() || me.name), roomSize),
+    joinRoom: joinOnlineRoom,
+    leaveRoom: () => leaveGame(),
+    onOpponentFound: () => startMatch(),
+  });
+
+  const { currentQuestion, questionIndex, scores, winner, players } = state;
+  const roomSettings = state.settings ?? DEFAULT_QUIZ_SETTINGS;
+  const roomCode = room?.code || '';
+  const isHost = !!room?.isHost;
+  const isSpectator = !!room?.isSpectator;
+  const mySeat = room?.seat ?? 0;
+  const showResult = state.status === 'results';
+  const hasAnswered = isSpectator || state.commitments[mySeat] != null;
+  // Our own answer for this question, kept back until everyone has committed
+  const mySealed = sealed?.questionIndex === questionIndex && state.commitments[mySeat] === sealed.answer.hash
+    ? sealed.answer
+    : null;
+  // Spectators never answer, so they follow the reveal without a selection of their own
+  const selectedAnswer = isSpectator ? null : (showResult ? state.answered[mySeat] : mySealed?.value) ?? null;
+
+  // Follow the room lifecycle
+  useEffect(() => {
+    if (status === 'waiting') {
+      setMode('waiting');
+    } else if (status === 'playing') {
+      setMode('playing');
+    }
+  }, [status]);
+
+  // The host moves everyone on once the answers have been revealed, opening
+  // the next question on the server so its deadline is the same for all
+  useEffect(() => {
+    if (!isHost || !room || !showResult) return;
+    const isLast = questionIndex >= state.totalQuestions - 1;
+    const timer = setTimeout(async () => {
+      if (isLast) {
+        dispatch({ type: 'next_question' });
+        return;
+      }
+      try {
+        const { deadline } = await sendSecretRequest<{ deadline: number }>(room.id, { type: 'open', questionIndex: questionIndex + 1 });
+        dispatch({ type: 'next_question', deadline });
+      } catch (error) {
+        console.error('Failed to open the next question:', error);
+        toast({ variant: 'destructive', title: 'Error', description: error instanceof Error ? error.message : 'Please try again.' });
+      }
+    }, REVEAL_DELAY);
+    return () => clearTimeout(timer);
+  }, [isHost, room, showResult, questionIndex, state.totalQuestions, dispatch, toast]);
+
+  // Everyone counts down to the same server deadline. Unanswered players score
+  // nothing; the host closes the question once a little grace has passed too
+  const timeLeft = useDeadline(mode === 'playing' && state.status === 'playing' ? state.deadline : null, {
+    onExpire: () => {
+      if (isHost) dispatch({ type: 'close_answers' });
+    },
+    grace: DEADLINE_GRACE,
+  }) ?? QUESTION_TIME;
+  const timeUp = state.status === 'playing' && timeLeft === 0;
+
+  useEffect(() => {
+    if (state.status === 'playing' && timeLeft > 0 && timeLeft <= 3) soundManager.playLocalSound('tick');
+  }, [state.status, timeLeft]);
+
+  // Everyone has committed: open our answer to the server, which checks it
+  // against the commitment it holds
+  const shouldReveal = state.status === 'revealing' && !isSpectator && !state.left[mySeat]
+    && !!state.commitments[mySeat] && !state.revealed[mySeat];
+  useEffect(() => {
+    if (!room || !shouldReveal) return;
+    // Without our sealed answer (e.g. after a reload) the reveal can't match, and scores nothing
+    sendSecretRequest(room.id, { type: 'reveal', questionIndex, answer: mySealed?.value ?? -1, nonce: mySealed?.nonce ?? '' })
+      .then(() => dispatch({ type: 'reveal', seat: mySeat }))
+      .catch(error => console.error('Failed to open your answer:', error));
+  }, [room, shouldReveal, questionIndex, mySeat, mySealed, dispatch]);
+
+  // The host asks the server for the scores once every answer is open, or once
+  // the others have had their time; the server's own clock decides when that is.
+  // Bots' answers are already on the server
+  const allRevealed = state.players.every((_, seat) =>
+    state.left[seat] || !state.commitments[seat] || state.revealed[seat] || bots.some(bot => bot.seat === seat)
+  );
+  useEffect(() => {
+    if (!isHost || !room || state.status !== 'revealing') return;
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+    const requestScores = () => {
+      sendSecretRequest<{ correct: number; answers: number[]; points: number[] }>(room.id, { type: 'score', questionIndex })
+        .then(result => {
+          if (!cancelled) dispatch({ type: 'scored', questionIndex, ...result });
+        })
+        .catch(error => {
+          if (cancelled) return;
+          console.log('Scores not ready yet:', error instanceof Error ? error.message : error);
+          timer = setTimeout(requestScores, SCORE_RETRY_DELAY);
+        });
+    };
+    timer = setTimeout(requestScores, allRevealed ? 0 : REVEAL_TIMEOUT);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isHost, room, state.status, allRevealed, questionIndex, dispatch]);
+
+  // Right or wrong is only known once the answer is revealed
+  useEffect(() => {
+    if (!showResult || isSpectator) return;
+    soundManager.playLocalSound(state.answered[mySeat] === state.answerKey ? 'correct' : 'wrong');
+    // Once per question, when its result first shows
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showResult, questionIndex]);
+
+  // The host answers for the bots. The server picks each bot's answer and keeps
+  // it sealed like anyone else's, so the host doesn't learn the right option
+  useEffect(() => {
+    if (!isHost || !room || state.status !== 'playing') return;
+    const level = QUIZ_BOT_LEVELS[difficulty];
+    const timers = bots
+      .filter(bot => state.commitments[bot.seat] === null && !state.left[bot.seat])
+      .map(bot => setTimeout(async () => {
+        try {
+          const { hash } = await sendSecretRequest<{ hash: string }>(
+            room.id,
+            { type: 'bot_answer', questionIndex, accuracy: level.accuracy },
+            bot.seat
+          );
+          dispatch({ type: 'commit', seat: bot.seat, hash });
+        } catch (error) {
+          console.error('Bot failed to answer:', error);
+        }
+      }, quizBotDelay(level)));
+    return () => timers.forEach(clearTimeout);
+    // Once per question; a bot committing doesn't restart the others' clocks
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHost, room, state.status, questionIndex, bots, difficulty, dispatch]);
 
   const createRoom = async () => {
     if (!playerName.trim()) {
@@ -82,49 +415,12 @@ const QuizBattle: React.FC = () => {
       return;
     }
     
-    const code = generateRoomCode();
-    const gameQuestions = shuffleQuestions();
-    
-    const initialState: GameState = {
-      currentQuestion: gameQuestions[0],
-      questionIndex: 0,
-      scores: { player1: 0, player2: 0 },
-      answered: { player1: null, player2: null },
-      status: 'waiting',
-      winner: null,
-      playerNames: { player1: playerName, player2: '' },
-      totalQuestions: 10,
-    };
-
-    const { data, error } = await supabase
-      .from('game_rooms')
-      .insert({
-        room_code: code,
-        game_type: 'quizbattle',
-        game_state: { ...initialState, questions: gameQuestions } as any,
-        status: 'waiting',
-        player_count: 1,
-        max_players: 2,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to create room' });
-      return;
+    const summary = pack ? { name: pack.name, size: pack.questions.length } : null;
+    const session = await createOnlineRoom(createGameState(playerName, { ...settings, pack: summary }), roomSize);
+    if (session) {
+      soundManager.playLocalSound('click');
+      haptics.light();
     }
-
-    setRoomCode(code);
-    setRoomId(data.id);
-    setPlayerNumber(1);
-    setPlayerNames({ player1: playerName, player2: '' });
-    setQuestions(gameQuestions);
-    setCurrentQuestion(gameQuestions[0]);
-    setMode('waiting');
-    soundManager.playLocalSound('click');
-    haptics.light();
-    
-    setupRealtimeChannel(data.id, 1);
   };
 
   const joinRoom = async () => {
@@ -133,311 +429,63 @@ const QuizBattle: React.FC = () => {
       return;
     }
 
-    const { data: room, error } = await supabase
-      .from('game_rooms')
-      .select('*')
-      .eq('room_code', joinCode.toUpperCase())
-      .eq('game_type', 'quizbattle')
-      .single();
-
-    if (error || !room) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Room not found' });
-      return;
-    }
-
-    if (room.player_count >= 2) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Room is full' });
-      return;
-    }
-
-    const currentState = room.game_state as any;
-    const updatedState = {
-      ...currentState,
-      playerNames: { ...currentState.playerNames, player2: playerName },
-      status: 'playing',
-    };
-
-    await supabase
-      .from('game_rooms')
-      .update({ 
-        player_count: 2, 
-        game_state: updatedState,
-        status: 'playing'
-      })
-      .eq('id', room.id);
-
-    setRoomCode(joinCode.toUpperCase());
-    setRoomId(room.id);
-    setPlayerNumber(2);
-    setPlayerNames(updatedState.playerNames);
-    setQuestions(currentState.questions);
-    setCurrentQuestion(currentState.currentQuestion);
-    setMode('playing');
-    setTimeLeft(10);
-    soundManager.playLocalSound('start');
-    haptics.success();
-    
-    setupRealtimeChannel(room.id, 2);
-  };
-
-  const setupRealtimeChannel = (roomId: string, player: 1 | 2) => {
-    const channel = supabase
-      .channel(`quizbattle-${roomId}`)
-      .on('broadcast', { event: 'game_update' }, ({ payload }) => {
-        setCurrentQuestion(payload.currentQuestion);
-        setQuestionIndex(payload.questionIndex);
-        setScores(payload.scores);
-        setAnswered(payload.answered);
-        setPlayerNames(payload.playerNames);
-        
-        if (payload.status === 'ended') {
-          setWinner(payload.winner);
-          setMode('ended');
-          if (payload.winner === (player === 1 ? payload.playerNames.player1 : payload.playerNames.player2)) {
-            soundManager.playLocalSound('win');
-            haptics.success();
-            celebrateFireworks();
-          } else if (payload.winner === 'Tie') {
-            soundManager.playLocalSound('correct');
-            haptics.light();
-          } else {
-            soundManager.playLocalSound('lose');
-            haptics.error();
-          }
-        } else if (payload.status === 'revealing') {
-          setShowResult(true);
-        } else if (payload.status === 'playing' && payload.questionIndex !== questionIndex) {
-          // New question
-          setShowResult(false);
-          setSelectedAnswer(null);
-          setTimeLeft(10);
-        }
-      })
-      .on('broadcast', { event: 'game_start' }, ({ payload }) => {
-        setMode('playing');
-        setPlayerNames(payload.playerNames);
-        setTimeLeft(10);
-        soundManager.playLocalSound('start');
-        haptics.success();
-      })
-      .on('broadcast', { event: 'answer' }, ({ payload }) => {
-        setAnswered(prev => ({
-          ...prev,
-          [payload.player === 1 ? 'player1' : 'player2']: payload.answer,
-        }));
-      })
-      .on('broadcast', { event: 'game_left' }, () => {
-        toast({ title: 'Game ended', description: 'Other player left the game' });
-        leaveGame();
-      })
-      .subscribe();
-
-    channelRef.current = channel;
+    await joinOnlineRoom(joinCode);
   };
 
-  // Timer effect
-  useEffect(() => {
-    if (mode !== 'playing' || showResult) return;
-
-    timerRef.current = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          // Auto-submit if not answered
-          if (selectedAnswer === null) {
-            handleAnswer(-1); // -1 means no answer
-          }
-          return 0;
-        }
-        if (prev <= 4) {
-          soundManager.playLocalSound('tick');
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
-  }, [mode, showResult, selectedAnswer]);
-
   const handleAnswer = async (answerIndex: number) => {
-    if (selectedAnswer !== null || !roomId || !currentQuestion) return;
+    if (hasAnswered || timeUp || !room || !currentQuestion || sealed?.questionIndex === questionIndex) return;
 
-    setSelectedAnswer(answerIndex);
     haptics.light();
+    soundManager.playLocalSound('click');
 
-    const isCorrect = answerIndex === currentQuestion.correct;
-    if (isCorrect) {
-      soundManager.playLocalSound('correct');
-    } else {
-      soundManager.playLocalSound('wrong');
-    }
-
-    // Broadcast answer
-    channelRef.current?.send({
-      type: 'broadcast',
-      event: 'answer',
-      payload: { player: playerNumber, answer: answerIndex },
-    });
-
-    // Update local answered state
-    const newAnswered = {
-      ...answered,
-      [playerNumber === 1 ? 'player1' : 'player2']: answerIndex,
-    };
-    setAnswered(newAnswered);
-
-    // Check if both players answered
-    const otherPlayerKey = playerNumber === 1 ? 'player2' : 'player1';
-    if (newAnswered[otherPlayerKey] !== null || playerNumber === 1) {
-      // Small delay then check if we should reveal
-      setTimeout(() => checkBothAnswered(newAnswered), 500);
-    }
-  };
-
-  const checkBothAnswered = async (currentAnswered: { player1: number | null; player2: number | null }) => {
-    if (currentAnswered.player1 !== null && currentAnswered.player2 !== null && roomId && currentQuestion) {
-      // Calculate new scores
-      const newScores = { ...scores };
-      if (currentAnswered.player1 === currentQuestion.correct) {
-        newScores.player1 += 10;
-      }
-      if (currentAnswered.player2 === currentQuestion.correct) {
-        newScores.player2 += 10;
-      }
-      setScores(newScores);
-      setShowResult(true);
-
-      // Reveal results
-      channelRef.current?.send({
-        type: 'broadcast',
-        event: 'game_update',
-        payload: {
-          currentQuestion,
-          questionIndex,
-          scores: newScores,
-          answered: currentAnswered,
-          status: 'revealing',
-          playerNames,
-          totalQuestions: 10,
-        },
-      });
-
-      // After 2 seconds, move to next question or end game
-      setTimeout(() => {
-        if (questionIndex >= 9) {
-          endGame(newScores);
-        } else {
-          nextQuestion(newScores);
-        }
-      }, 2000);
+    // Only the hash is shared until every player has answered. The server keeps
+    // a copy so it knows when the answer can be released
+    const answer = sealChoice(answerIndex);
+    setSealed({ questionIndex, answer });
+    try {
+      await sendSecretRequest(room.id, { type: 'commit', questionIndex, hash: answer.hash });
+    } catch (error) {
+      console.error('Failed to submit answer:', error);
+      setSealed(null);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not submit your answer. Please try again.' });
+      return;
     }
+    dispatch({ type: 'commit', seat: mySeat, hash: answer.hash });
   };
 
-  const nextQuestion = async (currentScores: typeof scores) => {
-    if (!roomId) return;
-    
-    const nextIdx = questionIndex + 1;
-    const nextQ = questions[nextIdx];
-
-    const newState = {
-      currentQuestion: nextQ,
-      questionIndex: nextIdx,
-      scores: currentScores,
-      answered: { player1: null, player2: null },
-      status: 'playing',
-      playerNames,
-      totalQuestions: 10,
-    };
-
-    setQuestionIndex(nextIdx);
-    setCurrentQuestion(nextQ);
-    setAnswered({ player1: null, player2: null });
-    setSelectedAnswer(null);
-    setShowResult(false);
-    setTimeLeft(10);
-
-    channelRef.current?.send({
-      type: 'broadcast',
-      event: 'game_update',
-      payload: newState,
-    });
-  };
-
-  const endGame = async (finalScores: typeof scores) => {
-    if (!roomId) return;
-
-    let winnerName: string;
-    if (finalScores.player1 > finalScores.player2) {
-      winnerName = playerNames.player1;
-    } else if (finalScores.player2 > finalScores.player1) {
-      winnerName = playerNames.player2;
-    } else {
-      winnerName = 'Tie';
+  const startMatch = async () => {
+    if (!room) return;
+    // The server picks the questions and keeps their answers. A host who took
+    // over from the one with the pack deals from the bank instead
+    const { categories, difficulty } = roomSettings;
+    const request = { type: 'deal', categories, difficulty, pack: roomSettings.pack ? pack?.questions : undefined };
+    let questions: Question[];
+    let deadline: number;
+    try {
+      ({ questions, deadline } = await sendSecretRequest<{ questions: Question[]; deadline: number }>(room.id, request));
+    } catch (error) {
+      console.error('Failed to deal questions:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not start the quiz. Please try again.' });
+      return;
     }
-
-    const endState = {
-      currentQuestion,
-      questionIndex,
-      scores: finalScores,
-      answered,
-      status: 'ended',
-      winner: winnerName,
-      playerNames,
-      totalQuestions: 10,
-    };
-
-    await supabase.from('game_rooms').update({ 
-      game_state: { ...endState, questions } as any,
-      status: 'ended'
-    }).eq('id', roomId);
-
-    channelRef.current?.send({
-      type: 'broadcast',
-      event: 'game_update',
-      payload: endState,
-    });
-  };
-
-  const copyRoomCode = () => {
-    navigator.clipboard.writeText(roomCode);
-    setCopied(true);
-    haptics.light();
-    setTimeout(() => setCopied(false), 2000);
+    if (await startGame()) dispatch({ type: 'start', questions, deadline });
   };
 
   const leaveGame = async () => {
-    if (roomId) {
-      channelRef.current?.send({
-        type: 'broadcast',
-        event: 'game_left',
-      });
-      await supabase.from('game_rooms').delete().eq('id', roomId);
-    }
-    channelRef.current?.unsubscribe();
-    channelRef.current = null;
-    if (timerRef.current) clearInterval(timerRef.current);
+    await leaveRoom();
     
     setMode('menu');
-    setRoomCode('');
-    setRoomId(null);
     setJoinCode('');
-    setScores({ player1: 0, player2: 0 });
-    setWinner(null);
-    setSelectedAnswer(null);
-    setShowResult(false);
-    setQuestionIndex(0);
-    setCurrentQuestion(null);
-    setTimeLeft(10);
-    setAnswered({ player1: null, player2: null });
   };
 
-  useEffect(() => {
-    return () => {
-      channelRef.current?.unsubscribe();
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
-  }, []);
+  // Quick match search / nobody found
+  if (quickMatch.phase !== 'idle' && (mode === 'menu' || mode === 'waiting')) {
+    return (
+      <div className="flex flex-col items-center gap-6 animate-slide-in">
+        <QuickMatchPanel quickMatch={quickMatch} fallbacks={[{ label: 'Create Private Room', onSelect: createRoom }]} />
+      </div>
+    );
+  }
 
   // Menu Screen
   if (mode === 'menu') {
@@ -447,7 +495,7 @@ const QuizBattle: React.FC = () => {
           <HelpCircle className="w-16 h-16 text-neon-purple mx-auto animate-float" />
           <h2 className="font-orbitron text-2xl text-foreground">Quiz Battle</h2>
           <p className="text-muted-foreground font-rajdhani max-w-sm">
-            Answer trivia questions head-to-head. Fastest correct answer wins!
+            Answer trivia questions against your friends. Most correct answers win!
           </p>
         </div>
 
@@ -458,6 +506,12 @@ const QuizBattle: React.FC = () => {
           className="max-w-xs font-rajdhani"
         />
 
+        <QuickMatchPanel quickMatch={quickMatch} />
+
+        <LobbySizePicker value={roomSize} onChange={setRoomSize} />
+
+        <QuizSettingsPicker value={settings} onChange={setSettings} pack={pack} onPackChange={setPack} />
+
         <div className="flex flex-col gap-4 w-full max-w-xs">
           <Button variant="game" size="lg" onClick={createRoom}>
             <Users className="w-5 h-5" />
@@ -490,30 +544,23 @@ const QuizBattle: React.FC = () => {
     );
   }
 
-  // Waiting Screen
+  // Lobby
   if (mode === 'waiting') {
     return (
-      <div className="flex flex-col items-center gap-6 animate-slide-in">
-        <div className="text-center space-y-2">
-          <Users className="w-16 h-16 text-neon-purple mx-auto animate-pulse" />
-          <h2 className="font-orbitron text-2xl text-foreground">Waiting for Player 2</h2>
-          <p className="text-muted-foreground font-rajdhani">Share this code with your friend</p>
-        </div>
-
-        <div className="flex items-center gap-2 p-4 bg-muted rounded-xl">
-          <span className="font-orbitron text-3xl text-neon-purple tracking-widest">{roomCode}</span>
-          <Button variant="ghost" size="icon" onClick={copyRoomCode}>
-            {copied ? <Check className="w-5 h-5 text-neon-green" /> : <Copy className="w-5 h-5" />}
-          </Button>
-        </div>
-
-        <p className="text-sm text-muted-foreground font-rajdhani">10 trivia questions await!</p>
-
-        <Button variant="ghost" onClick={leaveGame}>
-          <ArrowLeft className="w-4 h-4" />
-          Leave
-        </Button>
-      </div>
+      <RoomLobby
+        roomCode={roomCode}
+        gameType="quizbattle"
+        players={lobbyPlayers}
+        capacity={capacity}
+        hostSeat={hostSeat}
+        isHost={isHost}
+        myId={me.id}
+        onStart={startMatch}
+        onLeave={leaveGame}
+        onAddBot={() => addBot(pickBotName(lobbyPlayers.map(p => p.name)))}
+      >
+        <p className="text-sm text-muted-foreground font-rajdhani text-center">{describeSettings(roomSettings)}</p>
+      </RoomLobby>
     );
   }
 
@@ -521,31 +568,39 @@ const QuizBattle: React.FC = () => {
   if (mode === 'playing' && currentQuestion) {
     return (
       <div className="flex flex-col items-center gap-4 w-full max-w-lg animate-slide-in">
+        <SpectatorBanner isSpectator={isSpectator} spectatorCount={spectators.length} />
+
         {/* Header */}
-        <div className="flex justify-between w-full items-center">
-          <div className="text-center">
-            <span className="font-rajdhani text-xs text-muted-foreground">{playerNames.player1}</span>
-            <p className="font-orbitron text-xl text-neon-cyan">{scores.player1}</p>
-          </div>
-          
-          <div className="text-center">
-            <span className="font-rajdhani text-xs text-muted-foreground">Q{questionIndex + 1}/10</span>
-            <div className={`flex items-center gap-1 ${timeLeft <= 3 ? 'text-destructive' : 'text-neon-orange'}`}>
-              <Clock className="w-4 h-4" />
-              <span className="font-orbitron text-lg">{timeLeft}</span>
-            </div>
+        <div className="text-center">
+          <span className="font-rajdhani text-xs text-muted-foreground">Q{questionIndex + 1}/{state.totalQuestions}</span>
+          <div className={`flex items-center justify-center gap-1 ${timeLeft <= 3 ? 'text-destructive' : 'text-neon-orange'}`}>
+            <Clock className="w-4 h-4" />
+            <span className="font-orbitron text-lg">{timeLeft}</span>
           </div>
+        </div>
 
-          <div className="text-center">
-            <span className="font-rajdhani text-xs text-muted-foreground">{playerNames.player2}</span>
-            <p className="font-orbitron text-xl text-neon-pink">{scores.player2}</p>
-          </div>
+        {/* Scoreboard */}
+        <div className="flex flex-wrap justify-center gap-2 w-full">
+          {players.map((name, seat) => (
+            <div
+              key={seat}
+              className={`text-center px-3 py-1 rounded-lg border ${seat === mySeat && !isSpectator ? 'border-neon-cyan' : 'border-border'}`}
+            >
+              <span className="font-rajdhani text-xs text-muted-foreground">
+                {name}{state.left[seat] ? ' (left)' : state.commitments[seat] != null && !showResult ? ' ✓' : ''}
+              </span>
+              <p className="font-orbitron text-lg text-neon-cyan">{scores[seat] ?? 0}</p>
+            </div>
+          ))}
         </div>
 
         {/* Category Badge */}
         <div className="flex items-center gap-2 px-3 py-1 bg-neon-purple/20 rounded-full">
           <Sparkles className="w-4 h-4 text-neon-purple" />
-          <span className="font-rajdhani text-sm text-neon-purple">{currentQuestion.category}</span>
+          <span className="font-rajdhani text-sm text-neon-purple">
+            {currentQuestion.category}
+            {currentQuestion.difficulty && ` · ${QUIZ_DIFFICULTIES.find(({ id }) => id === currentQuestion.difficulty)?.label}`}
+          </span>
         </div>
 
         {/* Question */}
@@ -559,7 +614,7 @@ const QuizBattle: React.FC = () => {
             let buttonClass = 'border-border bg-card hover:border-primary';
             
             if (showResult) {
-              if (index === currentQuestion.correct) {
+              if (index === state.answerKey) {
                 buttonClass = 'border-neon-green bg-neon-green/20';
               } else if (selectedAnswer === index) {
                 buttonClass = 'border-destructive bg-destructive/20';
@@ -572,9 +627,9 @@ const QuizBattle: React.FC = () => {
               <button
                 key={index}
                 onClick={() => handleAnswer(index)}
-                disabled={selectedAnswer !== null}
+                disabled={hasAnswered || timeUp}
                 className={`p-4 rounded-xl border-2 font-rajdhani text-lg transition-all ${buttonClass}
-                  ${selectedAnswer === null ? 'hover:scale-105 cursor-pointer' : 'cursor-default'}`}
+                  ${!hasAnswered && !timeUp ? 'hover:scale-105 cursor-pointer' : 'cursor-default'}`}
               >
                 {option}
               </button>
@@ -583,13 +638,13 @@ const QuizBattle: React.FC = () => {
         </div>
 
         {/* Status */}
-        {selectedAnswer !== null && !showResult && (
-          <p className="text-muted-foreground font-rajdhani animate-pulse">Waiting for other player...</p>
+        {hasAnswered && !isSpectator && !showResult && (
+          <p className="text-muted-foreground font-rajdhani animate-pulse">Waiting for the other players...</p>
         )}
 
-        {showResult && (
+        {showResult && !isSpectator && (
           <p className="font-orbitron text-neon-green animate-scale-pop">
-            {selectedAnswer === currentQuestion.correct ? '+10 points!' : 'Incorrect!'}
+            {selectedAnswer === state.answerKey ? '+10 points!' : 'Incorrect!'}
           </p>
         )}
 
@@ -603,7 +658,10 @@ const QuizBattle: React.FC = () => {
 
   // Ended Screen
   if (mode === 'ended') {
-    const isWinner = winner === (playerNumber === 1 ? playerNames.player1 : playerNames.player2);
+    const isWinner = !isSpectator && winner === players[mySeat];
+    const standings = players
+      .map((name, seat) => ({ name, seat, score: scores[seat] ?? 0 }))
+      .sort((a, b) => b.score - a.score);
     const isTie = winner === 'Tie';
 
     return (
@@ -611,20 +669,21 @@ const QuizBattle: React.FC = () => {
         <div className="text-center space-y-4">
           <Trophy className={`w-20 h-20 mx-auto ${isWinner ? 'text-neon-orange' : isTie ? 'text-neon-purple' : 'text-muted-foreground'}`} />
           <h2 className={`font-orbitron text-3xl ${isWinner ? 'text-neon-green' : isTie ? 'text-neon-purple' : 'text-destructive'}`}>
-            {isTie ? "It's a Tie!" : isWinner ? 'You Win!' : 'You Lose!'}
+            {isTie ? "It's a Tie!" : isSpectator ? 'Quiz Over!' : isWinner ? 'You Win!' : 'You Lose!'}
           </h2>
           {!isTie && <p className="text-muted-foreground font-rajdhani">{winner} wins the quiz!</p>}
         </div>
 
-        <div className="flex gap-8">
-          <div className="text-center">
-            <span className="font-rajdhani text-muted-foreground">{playerNames.player1}</span>
-            <p className="font-orbitron text-3xl text-neon-cyan">{scores.player1}</p>
-          </div>
-          <div className="text-center">
-            <span className="font-rajdhani text-muted-foreground">{playerNames.player2}</span>
-            <p className="font-orbitron text-3xl text-neon-pink">{scores.player2}</p>
-          </div>
+        <div className="w-full max-w-xs space-y-2">
+          {standings.map(({ name, seat, score }, index) => (
+            <div
+              key={seat}
+              className={`flex justify-between px-4 py-2 rounded-lg border ${index === 0 ? 'border-neon-orange bg-neon-orange/10' : 'border-border bg-card'}`}
+            >
+              <span className="font-rajdhani">{index + 1}. {name}{state.left[seat] ? ' (left)' : ''}</span>
+              <span className="font-orbitron text-neon-cyan">{score}</span>
+            </div>
+          ))}
         </div>
 
         <Button variant="game" onClick={leaveGame}>
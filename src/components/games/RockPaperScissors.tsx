@@ -1,12 +1,18 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Hand, Copy, Check, RotateCcw, Wifi, WifiOff, Trophy } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
-import { celebrateWin, celebrateEpicVictory, celebrateStars } from '@/utils/confetti';
-import { useToast } from '@/hooks/use-toast';
+import { celebrateEpicVictory } from '@/utils/confetti';
+import { useRealtimeRoom } from '@/hooks/useRealtimeRoom';
+import { useQuickMatch } from '@/hooks/useQuickMatch';
+import SpectatorBanner from '@/components/SpectatorBanner';
+import QuickMatchPanel from '@/components/QuickMatchPanel';
+import RoomInvite from '@/components/RoomInvite';
+import { sealChoice, verifyReveal, type SealedChoice } from '@/utils/commitReveal';
+import { reportBracketMatch } from '@/utils/brackets';
+import { reportTournamentMatch } from '@/utils/tournaments';
 
 type Choice = 'rock' | 'paper' | 'scissors' | null;
 type GameMode = 'menu' | 'create' | 'join' | 'waiting' | 'playing' | 'result';
@@ -20,15 +26,27 @@ interface FloatingEmoji {
   scale: number;
 }
 
+// Shared state is indexed by seat (0 = host, 1 = guest). Choices stay sealed as
+// commitments until both players have chosen, then each is revealed and checked
 interface GameState {
-  myChoice: Choice;
-  opponentChoice: Choice;
-  myScore: number;
-  opponentScore: number;
+  commitments: [string | null, string | null];
+  choices: [Choice, Choice];
+  /** Seats whose reveal did not match their commitment this round */
+  forfeited: [boolean, boolean];
+  scores: [number, number];
   round: number;
   maxRounds: number;
+  finished: boolean;
 }
 
+type GameAction =
+  | { type: 'commit'; seat: number; hash: string }
+  | { type: 'reveal'; seat: number; choice: Choice; nonce: string }
+  | { type: 'next_round' }
+  | { type: 'restart' };
+
+const WINS_NEEDED = 3;
+
 const choices: { id: Choice; emoji: string; label: string }[] = [
   { id: 'rock', emoji: '🪨', label: 'Rock' },
   { id: 'paper', emoji: '📄', label: 'Paper' },
@@ -37,8 +55,11 @@ const choices: { id: Choice; emoji: string; label: string }[] = [
 
 const REACTION_EMOJIS = ['😍', '🔥', '😂', '😤', '🥵', '👏', '💯', '✨', '🎉', '💀'];
 
+// A settled round with no choice means that player forfeited it
 const getWinner = (choice1: Choice, choice2: Choice): 'player1' | 'player2' | 'draw' => {
-  if (!choice1 || !choice2) return 'draw';
+  if (!choice1 && !choice2) return 'draw';
+  if (!choice1) return 'player2';
+  if (!choice2) return 'player1';
   if (choice1 === choice2) return 'draw';
   if (
     (choice1 === 'rock' && choice2 === 'scissors') ||
@@ -50,26 +71,60 @@ const getWinner = (choice1: Choice, choice2: Choice): 'player1' | 'player2' | 'd
   return 'player2';
 };
 
+const isSettled = (state: GameState, seat: number) => !!state.choices[seat] || state.forfeited[seat];
+
+const createGameState = (): GameState => ({
+  commitments: [null, null],
+  choices: [null, null],
+  forfeited: [false, false],
+  scores: [0, 0],
+  round: 1,
+  maxRounds: 5,
+  finished: false,
+});
+
+const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'commit': {
+      if (state.finished || state.commitments[action.seat]) return state;
+      const commitments = [...state.commitments] as [string | null, string | null];
+      commitments[action.seat] = action.hash;
+      return { ...state, commitments };
+    }
+    case 'reveal': {
+      if (state.finished || !state.commitments[0] || !state.commitments[1] || isSettled(state, action.seat)) return state;
+      const nextChoices = [...state.choices] as [Choice, Choice];
+      const forfeited = [...state.forfeited] as [boolean, boolean];
+      if (verifyReveal(state.commitments[action.seat], action.choice, action.nonce)) nextChoices[action.seat] = action.choice;
+      else forfeited[action.seat] = true;
+
+      const next = { ...state, choices: nextChoices, forfeited };
+      if (!isSettled(next, 0) || !isSettled(next, 1)) return next;
+
+      const winner = getWinner(nextChoices[0], nextChoices[1]);
+      const scores: [number, number] = [
+        state.scores[0] + (winner === 'player1' ? 1 : 0),
+        state.scores[1] + (winner === 'player2' ? 1 : 0),
+      ];
+      const finished = state.round >= state.maxRounds || scores[0] >= WINS_NEEDED || scores[1] >= WINS_NEEDED;
+      return { ...next, scores, finished };
+    }
+    case 'next_round':
+      if (state.finished || !isSettled(state, 0) || !isSettled(state, 1)) return state;
+      return { ...state, round: state.round + 1, commitments: [null, null], choices: [null, null], forfeited: [false, false] };
+    case 'restart':
+      return createGameState();
+    default:
+      return state;
+  }
+};
+
 const RockPaperScissors: React.FC = () => {
-  const { toast } = useToast();
   const [mode, setMode] = useState<GameMode>('menu');
-  const [roomCode, setRoomCode] = useState('');
   const [joinCode, setJoinCode] = useState('');
   const [copied, setCopied] = useState(false);
-  const [isHost, setIsHost] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const [gameState, setGameState] = useState<GameState>({
-    myChoice: null,
-    opponentChoice: null,
-    myScore: 0,
-    opponentScore: 0,
-    round: 1,
-    maxRounds: 5,
-  });
-  const [showResult, setShowResult] = useState(false);
-  const [countdown, setCountdown] = useState<number | null>(null);
   const [floatingEmojis, setFloatingEmojis] = useState<FloatingEmoji[]>([]);
-  const channelRef = useRef<any>(null);
+  const [sealed, setSealed] = useState<{ round: number; choice: SealedChoice<NonNullable<Choice>> } | null>(null);
 
   // Spawn floating emojis
   const spawnFloatingEmojis = useCallback((emoji: string) => {
@@ -90,250 +145,181 @@ const RockPaperScissors: React.FC = () => {
     }, 2500);
   }, []);
 
-  const handleReaction = (emoji: string) => {
-    haptics.light();
-    soundManager.playEmojiSound(emoji);
-    spawnFloatingEmojis(emoji);
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'reaction',
-        payload: { emoji },
-      });
-    }
-  };
-
-  const generateRoomCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
-
-  const createRoom = async () => {
-    const code = generateRoomCode();
-    setRoomCode(code);
-    setIsHost(true);
-
-    try {
-      await supabase.from('game_rooms').insert({
-        room_code: code,
-        game_type: 'rps',
-        game_state: { round: 1, scores: { host: 0, guest: 0 } },
-        status: 'waiting',
-      });
-      setMode('waiting');
-      toast({ title: 'Room Created!', description: 'Share the code with a friend' });
-    } catch (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to create room' });
-    }
-  };
-
-  const joinRoom = async () => {
-    if (!joinCode.trim()) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('game_rooms')
-        .select('*')
-        .eq('room_code', joinCode.toUpperCase())
-        .single();
-
-      if (error || !data) {
-        toast({ variant: 'destructive', title: 'Error', description: 'Room not found' });
+  const {
+    state,
+    dispatch,
+    room,
+    status,
+    spectators,
+    createRoom: createOnlineRoom,
+    joinRoom: joinOnlineRoom,
+    leaveRoom,
+    broadcast,
+  } = useRealtimeRoom<GameState, GameAction>({
+    gameType: 'rps',
+    reducer: gameReducer,
+    serverValidated: true,
+    initialState: createGameState(),
+    onAction: (action, next) => {
+      if (action.type === 'restart') {
+        setMode('playing');
         return;
       }
+      if (action.type !== 'reveal' || !isSettled(next, 0) || !isSettled(next, 1)) return;
 
-      setRoomCode(joinCode.toUpperCase());
-      setIsHost(false);
-      setMode('playing');
-      setIsConnected(true);
-
-      await supabase.from('game_rooms')
-        .update({ player_count: 2, status: 'playing' })
-        .eq('room_code', joinCode.toUpperCase());
-
-      haptics.success();
-      toast({ title: 'Joined!', description: 'Game starting!' });
-    } catch (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to join room' });
-    }
-  };
-
-  const copyRoomCode = () => {
-    navigator.clipboard.writeText(roomCode);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
-
-  // Subscribe to room
-  useEffect(() => {
-    if (!roomCode || (mode !== 'waiting' && mode !== 'playing' && mode !== 'result')) return;
-
-    const channel = supabase
-      .channel(`rps-${roomCode}`, { config: { broadcast: { self: false } } })
-      .on('broadcast', { event: 'game_left' }, () => {
-        toast({ title: 'Opponent Left', description: 'The game has ended' });
-        resetGame();
-      })
-      .on('broadcast', { event: 'player_joined' }, () => {
-        if (mode === 'waiting') {
-          setMode('playing');
-          setIsConnected(true);
-          haptics.success();
-          toast({ title: 'Player Joined!', description: 'Game starting!' });
-        }
-      })
-      .on('broadcast', { event: 'choice_made' }, ({ payload }) => {
-        if (payload) {
-          setGameState(prev => ({ ...prev, opponentChoice: payload.choice }));
-        }
-      })
-      .on('broadcast', { event: 'next_round' }, ({ payload }) => {
-        if (payload) {
-          setGameState(prev => ({
-            ...prev,
-            round: payload.round,
-            myChoice: null,
-            opponentChoice: null,
-          }));
-          setShowResult(false);
-        }
-      })
-      .on('broadcast', { event: 'reaction' }, ({ payload }) => {
-        if (payload?.emoji) {
-          soundManager.playEmojiSound(payload.emoji);
-          spawnFloatingEmojis(payload.emoji);
-        }
-      })
-      .subscribe(async (status) => {
-        if (status === 'SUBSCRIBED' && !isHost) {
-          await channel.send({
-            type: 'broadcast',
-            event: 'player_joined',
-            payload: {},
-          });
-        }
-      });
-
-    channelRef.current = channel;
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [roomCode, mode, isHost]);
-
-  // Handle both choices made
-  useEffect(() => {
-    if (gameState.myChoice && gameState.opponentChoice && !showResult) {
-      setShowResult(true);
-      const winner = getWinner(gameState.myChoice, gameState.opponentChoice);
-      
-      if (winner === 'player1') {
+      const result = getWinner(next.choices[mySeat], next.choices[1 - mySeat]);
+      if (room?.isSpectator) {
+        soundManager.playLocalSound('click');
+        if (next.finished) setTimeout(() => setMode('result'), 2000);
+        return;
+      }
+      if (result === 'player1') {
         soundManager.playLocalSound('win');
         haptics.success();
-        setGameState(prev => ({ ...prev, myScore: prev.myScore + 1 }));
-      } else if (winner === 'player2') {
+      } else if (result === 'player2') {
         soundManager.playLocalSound('lose');
         haptics.screenShake();
-        setGameState(prev => ({ ...prev, opponentScore: prev.opponentScore + 1 }));
       } else {
         soundManager.playLocalSound('click');
       }
 
-      // Check if game is over
-      setTimeout(() => {
-        const newMyScore = gameState.myScore + (winner === 'player1' ? 1 : 0);
-        const newOpponentScore = gameState.opponentScore + (winner === 'player2' ? 1 : 0);
-        
-        if (gameState.round >= gameState.maxRounds || newMyScore >= 3 || newOpponentScore >= 3) {
-          if (newMyScore > newOpponentScore) {
+      if (next.finished) {
+        reportTournamentMatch(room.id, 'rps');
+        reportBracketMatch(room.id);
+        setTimeout(() => {
+          const myFinal = next.scores[mySeat];
+          const opponentFinal = next.scores[1 - mySeat];
+          if (myFinal > opponentFinal) {
             celebrateEpicVictory();
             spawnFloatingEmojis('🏆');
             setTimeout(() => spawnFloatingEmojis('🎉'), 300);
-          } else if (newMyScore < newOpponentScore) {
+          } else if (myFinal < opponentFinal) {
             haptics.screenShake();
             spawnFloatingEmojis('💀');
           }
           setMode('result');
-        } else {
-          // Next round
-          const nextRound = gameState.round + 1;
-          setGameState(prev => ({
-            ...prev,
-            round: nextRound,
-            myChoice: null,
-            opponentChoice: null,
-          }));
-          setShowResult(false);
-          
-          if (isHost && channelRef.current) {
-            channelRef.current.send({
-              type: 'broadcast',
-              event: 'next_round',
-              payload: { round: nextRound },
-            });
-          }
+        }, 2000);
+      }
+    },
+    onOpponentLeft: () => {
+      setMode('menu');
+      setJoinCode('');
+    },
+    events: {
+      reaction: (payload) => {
+        if (typeof payload?.emoji === 'string') {
+          soundManager.playEmojiSound(payload.emoji);
+          spawnFloatingEmojis(payload.emoji);
         }
-      }, 2000);
-    }
-  }, [gameState.myChoice, gameState.opponentChoice, showResult]);
+      },
+    },
+  });
+
+  const quickMatch = useQuickMatch({
+    gameType: 'rps',
+    status,
+    createRoom: () => createOnlineRoom(createGameState()),
+    joinRoom: joinOnlineRoom,
+    leaveRoom: () => leaveGame(),
+  });
+
+  const roomCode = room?.code || '';
+  const isHost = !!room?.isHost;
+  const isSpectator = !!room?.isSpectator;
+  // Spectators watch from the host's side
+  const mySeat = room && !isSpectator ? room.seat : 0;
+  const labels = isSpectator ? { me: 'Host', opponent: 'Guest' } : { me: 'You', opponent: 'Opponent' };
+  const isConnected = status === 'playing';
+  const showResult = isSettled(state, 0) && isSettled(state, 1);
+  // Our own pick for this round, kept back until both players have committed
+  const mySealed = sealed?.round === state.round && state.commitments[mySeat] === sealed.choice.hash ? sealed.choice : null;
+
+  // The same state seen from this player's side of the table
+  const gameState = {
+    myChoice: showResult ? state.choices[mySeat] : mySealed?.value ?? null,
+    opponentChoice: state.choices[1 - mySeat],
+    hasChosen: !!state.commitments[mySeat],
+    myScore: state.scores[mySeat],
+    opponentScore: state.scores[1 - mySeat],
+    round: state.round,
+    maxRounds: state.maxRounds,
+  };
+
+  // Follow the room lifecycle
+  useEffect(() => {
+    if (status === 'waiting') setMode('waiting');
+    else if (status === 'playing') setMode('playing');
+  }, [status]);
+
+  // Reveal once both players are committed. The host goes first and the guest
+  // follows, so the two reveals never race each other on the server
+  const shouldReveal = !isSpectator && !!state.commitments[0] && !!state.commitments[1]
+    && !isSettled(state, mySeat) && (mySeat === 0 || isSettled(state, 0));
+  useEffect(() => {
+    if (!shouldReveal) return;
+    // Without our sealed pick (e.g. after a reload) the reveal can't match, and the round is forfeited
+    dispatch({ type: 'reveal', seat: mySeat, choice: mySealed?.value ?? null, nonce: mySealed?.nonce ?? '' });
+    // A rejected reveal resyncs the state, which retries it
+  }, [shouldReveal, state, mySeat, mySealed, dispatch]);
+
+  // The host moves everyone on to the next round once both choices are shown
+  useEffect(() => {
+    if (!isHost || !showResult || state.finished) return;
+    const timer = setTimeout(() => dispatch({ type: 'next_round' }), 2000);
+    return () => clearTimeout(timer);
+  }, [isHost, showResult, state.finished, state.round, dispatch]);
+
+  const handleReaction = (emoji: string) => {
+    haptics.light();
+    soundManager.playEmojiSound(emoji);
+    spawnFloatingEmojis(emoji);
+    broadcast('reaction', { emoji });
+  };
+
+  const createRoom = async () => {
+    await createOnlineRoom(createGameState());
+  };
+
+  const joinRoom = async () => {
+    await joinOnlineRoom(joinCode);
+  };
+
+  const copyRoomCode = () => {
+    navigator.clipboard.writeText(roomCode);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
 
   const makeChoice = (choice: Choice) => {
-    if (gameState.myChoice) return;
+    if (!choice || gameState.hasChosen || isSpectator) return;
     
     haptics.medium();
     soundManager.playLocalSound('click');
-    setGameState(prev => ({ ...prev, myChoice: choice }));
-
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'choice_made',
-        payload: { choice },
-      });
-    }
+    // Only the hash leaves this device until the opponent has chosen too
+    const sealedChoice = sealChoice(choice);
+    setSealed({ round: state.round, choice: sealedChoice });
+    dispatch({ type: 'commit', seat: mySeat, hash: sealedChoice.hash });
   };
 
-  const resetGame = () => {
+  const leaveGame = async () => {
+    await leaveRoom();
     setMode('menu');
-    setRoomCode('');
     setJoinCode('');
-    setIsHost(false);
-    setIsConnected(false);
-    setShowResult(false);
-    setGameState({
-      myChoice: null,
-      opponentChoice: null,
-      myScore: 0,
-      opponentScore: 0,
-      round: 1,
-      maxRounds: 5,
-    });
-  };
-
-  const leaveGame = async () => {
-    if (channelRef.current) {
-      await channelRef.current.send({
-        type: 'broadcast',
-        event: 'game_left',
-        payload: {},
-      });
-    }
-    if (roomCode) {
-      await supabase.from('game_rooms').delete().eq('room_code', roomCode);
-    }
-    resetGame();
   };
 
   const playAgain = () => {
-    setGameState({
-      myChoice: null,
-      opponentChoice: null,
-      myScore: 0,
-      opponentScore: 0,
-      round: 1,
-      maxRounds: 5,
-    });
-    setShowResult(false);
-    setMode('playing');
+    dispatch({ type: 'restart' });
   };
 
+  // Quick match search / nobody found
+  if (quickMatch.phase !== 'idle' && (mode === 'menu' || mode === 'waiting')) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-6 p-4">
+        <QuickMatchPanel quickMatch={quickMatch} fallbacks={[{ label: 'Create Private Room', onSelect: createRoom }]} />
+      </div>
+    );
+  }
+
   // Menu
   if (mode === 'menu') {
     return (
@@ -346,6 +332,8 @@ const RockPaperScissors: React.FC = () => {
           <p className="text-muted-foreground">Best of 5 rounds!</p>
         </div>
 
+        <QuickMatchPanel quickMatch={quickMatch} />
+
         <div className="flex flex-col gap-3 w-full max-w-xs">
           <Button onClick={createRoom} className="w-full bg-neon-orange/20 border-neon-orange text-neon-orange hover:bg-neon-orange/30">
             Create Room
@@ -378,6 +366,7 @@ const RockPaperScissors: React.FC = () => {
               {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
             </Button>
           </div>
+          <RoomInvite roomCode={roomCode} gameType="rps" />
         </div>
         <Button variant="outline" onClick={leaveGame}>Cancel</Button>
       </div>
@@ -388,6 +377,8 @@ const RockPaperScissors: React.FC = () => {
   if (mode === 'playing') {
     return (
       <div className="flex flex-col items-center justify-center gap-6 p-4 w-full max-w-md">
+        <SpectatorBanner isSpectator={isSpectator} spectatorCount={spectators.length} />
+
         <div className="flex items-center justify-between w-full">
           <div className="flex items-center gap-2">
             {isConnected ? <Wifi className="w-4 h-4 text-green-500" /> : <WifiOff className="w-4 h-4 text-red-500" />}
@@ -399,12 +390,12 @@ const RockPaperScissors: React.FC = () => {
         {/* Scoreboard */}
         <div className="flex items-center justify-center gap-8 w-full">
           <div className="text-center">
-            <p className="text-sm text-muted-foreground">You</p>
+            <p className="text-sm text-muted-foreground">{labels.me}</p>
             <p className="font-orbitron text-3xl font-bold text-neon-cyan transition-all duration-300" key={gameState.myScore} style={{ animation: 'pulse 0.3s ease-out' }}>{gameState.myScore}</p>
           </div>
           <span className="text-2xl text-muted-foreground animate-pulse">⚡</span>
           <div className="text-center">
-            <p className="text-sm text-muted-foreground">Opponent</p>
+            <p className="text-sm text-muted-foreground">{labels.opponent}</p>
             <p className="font-orbitron text-3xl font-bold text-neon-orange transition-all duration-300" key={gameState.opponentScore} style={{ animation: 'pulse 0.3s ease-out' }}>{gameState.opponentScore}</p>
           </div>
         </div>
@@ -413,18 +404,23 @@ const RockPaperScissors: React.FC = () => {
         {showResult ? (
           <div className="flex items-center justify-center gap-8 py-4">
             <div className="text-center animate-scale-in">
-              <p className="text-6xl mb-2 animate-[bounce_0.5s_ease-in-out]">{choices.find(c => c.id === gameState.myChoice)?.emoji}</p>
-              <p className="text-sm text-muted-foreground">You</p>
+              <p className="text-6xl mb-2 animate-[bounce_0.5s_ease-in-out]">{choices.find(c => c.id === gameState.myChoice)?.emoji ?? '🚫'}</p>
+              <p className="text-sm text-muted-foreground">{gameState.myChoice ? labels.me : `${labels.me} (forfeit)`}</p>
             </div>
             <span className="text-2xl animate-pulse">⚔️</span>
             <div className="text-center animate-scale-in" style={{ animationDelay: '0.2s' }}>
-              <p className="text-6xl mb-2 animate-[bounce_0.5s_ease-in-out_0.2s]">{choices.find(c => c.id === gameState.opponentChoice)?.emoji}</p>
-              <p className="text-sm text-muted-foreground">Opponent</p>
+              <p className="text-6xl mb-2 animate-[bounce_0.5s_ease-in-out_0.2s]">{choices.find(c => c.id === gameState.opponentChoice)?.emoji ?? '🚫'}</p>
+              <p className="text-sm text-muted-foreground">{gameState.opponentChoice ? labels.opponent : `${labels.opponent} (forfeit)`}</p>
             </div>
           </div>
-        ) : gameState.myChoice ? (
+        ) : isSpectator ? (
+          <div className="text-center py-8">
+            <p className="text-6xl mb-4 animate-[pulse_1s_ease-in-out_infinite]">🤔</p>
+            <p className="text-muted-foreground animate-pulse">Players are choosing...</p>
+          </div>
+        ) : gameState.hasChosen ? (
           <div className="text-center py-8">
-            <p className="text-6xl mb-4 animate-[pulse_1s_ease-in-out_infinite]">{choices.find(c => c.id === gameState.myChoice)?.emoji}</p>
+            <p className="text-6xl mb-4 animate-[pulse_1s_ease-in-out_infinite]">{choices.find(c => c.id === gameState.myChoice)?.emoji ?? '🔒'}</p>
             <p className="text-muted-foreground animate-pulse">Waiting for opponent...</p>
           </div>
         ) : (
@@ -443,7 +439,7 @@ const RockPaperScissors: React.FC = () => {
           </div>
         )}
 
-        {!gameState.myChoice && !showResult && (
+        {!gameState.hasChosen && !showResult && !isSpectator && (
           <p className="text-center text-muted-foreground">Make your choice!</p>
         )}
 
@@ -487,15 +483,21 @@ const RockPaperScissors: React.FC = () => {
       <div className="flex flex-col items-center justify-center gap-6 p-4">
         <Trophy className={`w-16 h-16 ${won ? 'text-neon-green' : 'text-red-500'}`} />
         <h2 className="font-orbitron text-2xl font-bold">
-          {won ? 'You Win!' : gameState.myScore === gameState.opponentScore ? "It's a Tie!" : 'You Lose!'}
+          {gameState.myScore === gameState.opponentScore
+            ? "It's a Tie!"
+            : isSpectator
+              ? `${won ? labels.me : labels.opponent} Wins!`
+              : won ? 'You Win!' : 'You Lose!'}
         </h2>
         <p className="text-xl">
           {gameState.myScore} - {gameState.opponentScore}
         </p>
         <div className="flex gap-3">
-          <Button onClick={playAgain} className="bg-neon-green/20 text-neon-green">
-            <RotateCcw className="w-4 h-4 mr-2" /> Play Again
-          </Button>
+          {!isSpectator && (
+            <Button onClick={playAgain} className="bg-neon-green/20 text-neon-green">
+              <RotateCcw className="w-4 h-4 mr-2" /> Play Again
+            </Button>
+          )}
           <Button variant="outline" onClick={leaveGame}>Leave</Button>
         </div>
       </div>
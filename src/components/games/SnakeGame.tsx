@@ -132,9 +132,9 @@ const SnakeGame: React.FC = () => {
         setBestScore(score);
         celebrateBurst();
       }
-      addScore(GAME_TYPES.SNAKE_GAME, playerName, score, `${snake.length} length`);
+      addScore(GAME_TYPES.SNAKE_GAME, playerName, score, `${snake.length} length`, difficulty);
     }
-  }, [score, bestScore, snake.length, playerName, addScore]);
+  }, [score, bestScore, snake.length, playerName, addScore, difficulty]);
 
   const collectPowerUp = useCallback((type: PowerUpType) => {
     const config = POWER_UP_CONFIG[type];
@@ -1,12 +1,19 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Calculator, Copy, Check, Wifi, WifiOff, Trophy, RotateCcw, Timer } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Calculator, Copy, Check, Wifi, WifiOff, Trophy, RotateCcw, Timer, Bot } from 'lucide-react';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
-import { celebrateWin, celebrateEpicVictory, celebrateStars } from '@/utils/confetti';
-import { useToast } from '@/hooks/use-toast';
+import { celebrateEpicVictory } from '@/utils/confetti';
+import { useRealtimeRoom } from '@/hooks/useRealtimeRoom';
+import { useQuickMatch } from '@/hooks/useQuickMatch';
+import { useDeadline } from '@/hooks/useDeadline';
+import { useDifficulty } from '@/contexts/DifficultyContext';
+import { serverNow } from '@/utils/serverClock';
+import { MATH_BOT_LEVELS, mathBotAnswersCorrectly, pickBotName, sampleMathSolveTime } from '@/utils/bots';
+import SpectatorBanner from '@/components/SpectatorBanner';
+import QuickMatchPanel from '@/components/QuickMatchPanel';
+import RoomInvite from '@/components/RoomInvite';
 
 type GameMode = 'menu' | 'create' | 'join' | 'waiting' | 'playing' | 'ended';
 type Operator = '+' | '-' | '×';
@@ -27,6 +34,21 @@ interface Problem {
   answer: number;
 }
 
+// Both players race through the same problems; scores are indexed by seat
+interface GameState {
+  problems: Problem[];
+  scores: [number, number];
+  finished: [boolean, boolean];
+  /** When the duel ends, on the server's clock; the host sets it once both players are in */
+  endsAt: number | null;
+}
+
+type GameAction =
+  | { type: 'score'; seat: number; score: number }
+  | { type: 'finish'; seat: number }
+  | { type: 'start_clock'; endsAt: number }
+  | { type: 'restart'; problems: Problem[]; endsAt: number };
+
 const GAME_DURATION = 60;
 const PROBLEMS_COUNT = 20;
 const REACTION_EMOJIS = ['😍', '🔥', '😂', '😤', '🥵', '👏', '💯', '✨', '🎉', '💀'];
@@ -58,26 +80,50 @@ const generateProblem = (): Problem => {
   return { num1, num2, operator, answer };
 };
 
+const generateProblems = (): Problem[] =>
+  Array(PROBLEMS_COUNT).fill(null).map(() => generateProblem());
+
+const createGameState = (problems: Problem[] = [], endsAt: number | null = null): GameState => ({
+  problems,
+  scores: [0, 0],
+  finished: [false, false],
+  endsAt,
+});
+
+const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'score': {
+      if (state.finished[action.seat]) return state;
+      const scores = [...state.scores] as [number, number];
+      scores[action.seat] = action.score;
+      return { ...state, scores };
+    }
+    case 'finish': {
+      const finished = [...state.finished] as [boolean, boolean];
+      finished[action.seat] = true;
+      return { ...state, finished };
+    }
+    case 'start_clock':
+      return state.endsAt ? state : { ...state, endsAt: action.endsAt };
+    case 'restart':
+      return createGameState(action.problems, action.endsAt);
+    default:
+      return state;
+  }
+};
+
 const SpeedMathDuel: React.FC = () => {
-  const { toast } = useToast();
   const [mode, setMode] = useState<GameMode>('menu');
-  const [roomCode, setRoomCode] = useState('');
   const [joinCode, setJoinCode] = useState('');
   const [copied, setCopied] = useState(false);
-  const [isHost, setIsHost] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
   
-  const [problems, setProblems] = useState<Problem[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [userAnswer, setUserAnswer] = useState('');
-  const [myScore, setMyScore] = useState(0);
-  const [opponentScore, setOpponentScore] = useState(0);
-  const [timeLeft, setTimeLeft] = useState(GAME_DURATION);
   const [gameStarted, setGameStarted] = useState(false);
   const [streak, setStreak] = useState(0);
   const [floatingEmojis, setFloatingEmojis] = useState<FloatingEmoji[]>([]);
+  const { difficulty } = useDifficulty();
   
-  const channelRef = useRef<any>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Spawn floating emojis
@@ -99,78 +145,106 @@ const SpeedMathDuel: React.FC = () => {
     }, 2500);
   }, []);
 
+  const resetProgress = () => {
+    setCurrentIndex(0);
+    setUserAnswer('');
+    setStreak(0);
+  };
+
+  const {
+    state,
+    dispatch,
+    room,
+    status,
+    spectators,
+    bots,
+    createRoom: createOnlineRoom,
+    joinRoom: joinOnlineRoom,
+    leaveRoom,
+    addBot,
+    broadcast,
+  } = useRealtimeRoom<GameState, GameAction>({
+    gameType: 'speedmath',
+    reducer: gameReducer,
+    initialState: createGameState(),
+    onAction: (action, next) => {
+      if (action.type === 'restart') {
+        resetProgress();
+        setMode('playing');
+        setGameStarted(true);
+      } else if (action.type === 'finish' && mode !== 'ended') {
+        // The first player to finish ends the duel for both
+        setMode('ended');
+        if (room?.isSpectator) return;
+        const finalScore = next.scores[mySeat];
+        const finalOpponentScore = next.scores[1 - mySeat];
+        if (finalScore > finalOpponentScore) {
+          celebrateEpicVictory();
+          spawnFloatingEmojis('🏆');
+          setTimeout(() => spawnFloatingEmojis('🎉'), 300);
+        } else if (finalScore < finalOpponentScore) {
+          haptics.screenShake();
+          spawnFloatingEmojis('💀');
+        }
+      }
+    },
+    onOpponentLeft: () => {
+      setMode('menu');
+      setJoinCode('');
+      setGameStarted(false);
+      resetProgress();
+    },
+    events: {
+      reaction: (payload) => {
+        if (typeof payload?.emoji === 'string') {
+          soundManager.playEmojiSound(payload.emoji);
+          spawnFloatingEmojis(payload.emoji);
+        }
+      },
+    },
+  });
+
+  const quickMatch = useQuickMatch({
+    gameType: 'speedmath',
+    status,
+    createRoom: () => createOnlineRoom(createGameState(generateProblems())),
+    joinRoom: joinOnlineRoom,
+    leaveRoom: () => leaveGame(),
+  });
+
+  const { problems } = state;
+  const roomCode = room?.code || '';
+  const isSpectator = !!room?.isSpectator;
+  // Spectators watch from the host's side
+  const mySeat = room && !isSpectator ? room.seat : 0;
+  const labels = isSpectator ? { me: 'Host', opponent: 'Guest' } : { me: 'You', opponent: 'Opponent' };
+  const myScore = state.scores[mySeat];
+  const opponentScore = state.scores[1 - mySeat];
+  const isConnected = status === 'playing';
+
+  // Follow the room lifecycle
+  useEffect(() => {
+    if (status === 'waiting') {
+      setMode('waiting');
+    } else if (status === 'playing') {
+      setMode('playing');
+      setGameStarted(true);
+    }
+  }, [status]);
+
   const handleReaction = (emoji: string) => {
     haptics.light();
     soundManager.playEmojiSound(emoji);
     spawnFloatingEmojis(emoji);
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'reaction',
-        payload: { emoji },
-      });
-    }
+    broadcast('reaction', { emoji });
   };
 
-  const generateRoomCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
-
-  const generateProblems = useCallback(() => {
-    return Array(PROBLEMS_COUNT).fill(null).map(() => generateProblem());
-  }, []);
-
   const createRoom = async () => {
-    const code = generateRoomCode();
-    const newProblems = generateProblems();
-    setRoomCode(code);
-    setIsHost(true);
-    setProblems(newProblems);
-
-    try {
-      await supabase.from('game_rooms').insert([{
-        room_code: code,
-        game_type: 'speedmath',
-        game_state: JSON.parse(JSON.stringify({ problems: newProblems, scores: { host: 0, guest: 0 } })),
-        status: 'waiting',
-      }]);
-      setMode('waiting');
-      toast({ title: 'Room Created!', description: 'Share the code with a friend' });
-    } catch (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to create room' });
-    }
+    await createOnlineRoom(createGameState(generateProblems()));
   };
 
   const joinRoom = async () => {
-    if (!joinCode.trim()) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('game_rooms')
-        .select('*')
-        .eq('room_code', joinCode.toUpperCase())
-        .single();
-
-      if (error || !data) {
-        toast({ variant: 'destructive', title: 'Error', description: 'Room not found' });
-        return;
-      }
-
-      const gameState = data.game_state as any;
-      setRoomCode(joinCode.toUpperCase());
-      setIsHost(false);
-      setProblems(gameState.problems || generateProblems());
-      setIsConnected(true);
-      setMode('playing');
-      setGameStarted(true);
-
-      await supabase.from('game_rooms')
-        .update({ player_count: 2, status: 'playing' })
-        .eq('room_code', joinCode.toUpperCase());
-
-      haptics.success();
-      toast({ title: 'Joined!', description: 'Game starting!' });
-    } catch (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to join room' });
-    }
+    await joinOnlineRoom(joinCode);
   };
 
   const copyRoomCode = () => {
@@ -179,76 +253,48 @@ const SpeedMathDuel: React.FC = () => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  // Timer
+  const endGame = useCallback(() => {
+    dispatch({ type: 'finish', seat: mySeat });
+  }, [dispatch, mySeat]);
+
+  // The host starts the clock for both players once the duel begins
   useEffect(() => {
-    if (!gameStarted || mode !== 'playing') return;
-
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          endGame();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    if (gameStarted && mode === 'playing' && room?.isHost && !state.endsAt) {
+      dispatch({ type: 'start_clock', endsAt: serverNow() + GAME_DURATION * 1000 });
+    }
+  }, [gameStarted, mode, room?.isHost, state.endsAt, dispatch]);
 
-    return () => clearInterval(timer);
-  }, [gameStarted, mode]);
+  // Both players count down to the same moment on the server's clock
+  const timeLeft = useDeadline(gameStarted && mode === 'playing' ? state.endsAt : null, { onExpire: endGame }) ?? GAME_DURATION;
 
-  // Subscribe to room
+  // A bot opponent works through the same problems at its own pace, with the
+  // same streak bonus a player gets. The host plays it
+  const botSeat = room?.isHost ? bots[0]?.seat : undefined;
+  const duelOver = state.finished.some(Boolean);
   useEffect(() => {
-    if (!roomCode || (mode !== 'waiting' && mode !== 'playing' && mode !== 'ended')) return;
-
-    const channel = supabase
-      .channel(`speedmath-${roomCode}`, { config: { broadcast: { self: false } } })
-      .on('broadcast', { event: 'game_left' }, () => {
-        toast({ title: 'Opponent Left', description: 'The game has ended' });
-        resetGame();
-      })
-      .on('broadcast', { event: 'player_joined' }, () => {
-        if (mode === 'waiting') {
-          setMode('playing');
-          setIsConnected(true);
-          setGameStarted(true);
-          haptics.success();
-          toast({ title: 'Player Joined!', description: 'GO GO GO!' });
-        }
-      })
-      .on('broadcast', { event: 'score_update' }, ({ payload }) => {
-        if (payload) {
-          setOpponentScore(payload.score);
+    if (botSeat === undefined || mode !== 'playing' || !state.endsAt || duelOver) return;
+    const level = MATH_BOT_LEVELS[difficulty];
+    let index = 0;
+    let botStreak = 0;
+    let botScore = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const solveNext = () => {
+      timer = setTimeout(() => {
+        if (mathBotAnswersCorrectly(level)) {
+          botScore += 10 + botStreak * 2;
+          botStreak += 1;
+          dispatch({ type: 'score', seat: botSeat, score: botScore });
+        } else {
+          botStreak = 0;
         }
-      })
-      .on('broadcast', { event: 'game_ended' }, ({ payload }) => {
-        if (payload) {
-          setOpponentScore(payload.finalScore);
-          setMode('ended');
-        }
-      })
-      .on('broadcast', { event: 'reaction' }, ({ payload }) => {
-        if (payload?.emoji) {
-          soundManager.playEmojiSound(payload.emoji);
-          spawnFloatingEmojis(payload.emoji);
-        }
-      })
-      .subscribe(async (status) => {
-        if (status === 'SUBSCRIBED' && !isHost) {
-          await channel.send({
-            type: 'broadcast',
-            event: 'player_joined',
-            payload: {},
-          });
-        }
-      });
-
-    channelRef.current = channel;
-
-    return () => {
-      supabase.removeChannel(channel);
+        index += 1;
+        if (index < problems.length) solveNext();
+        else dispatch({ type: 'finish', seat: botSeat });
+      }, sampleMathSolveTime(level));
     };
-  }, [roomCode, mode, isHost]);
+    solveNext();
+    return () => clearTimeout(timer);
+  }, [botSeat, mode, state.endsAt, duelOver, problems, difficulty, dispatch]);
 
   // Focus input
   useEffect(() => {
@@ -258,25 +304,17 @@ const SpeedMathDuel: React.FC = () => {
   }, [mode, currentIndex]);
 
   const submitAnswer = () => {
-    if (!userAnswer.trim()) return;
+    if (!userAnswer.trim() || isSpectator) return;
 
     const answer = parseInt(userAnswer);
     const correct = answer === problems[currentIndex]?.answer;
 
     if (correct) {
       const points = 10 + streak * 2; // Bonus for streak
-      setMyScore(prev => prev + points);
       setStreak(prev => prev + 1);
       soundManager.playLocalSound('correct');
       haptics.success();
-
-      if (channelRef.current) {
-        channelRef.current.send({
-          type: 'broadcast',
-          event: 'score_update',
-          payload: { score: myScore + points },
-        });
-      }
+      dispatch({ type: 'score', seat: mySeat, score: myScore + points });
     } else {
       setStreak(0);
       soundManager.playLocalSound('lose');
@@ -292,75 +330,32 @@ const SpeedMathDuel: React.FC = () => {
     }
   };
 
-  const endGame = () => {
-    setMode('ended');
-    
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'game_ended',
-        payload: { finalScore: myScore },
-      });
-    }
-
-    if (myScore > opponentScore) {
-      celebrateEpicVictory();
-      spawnFloatingEmojis('🏆');
-      setTimeout(() => spawnFloatingEmojis('🎉'), 300);
-    } else if (myScore < opponentScore) {
-      haptics.screenShake();
-      spawnFloatingEmojis('💀');
-    }
-  };
-
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       submitAnswer();
     }
   };
 
-  const resetGame = () => {
+  const leaveGame = async () => {
+    await leaveRoom();
     setMode('menu');
-    setRoomCode('');
     setJoinCode('');
-    setIsHost(false);
-    setIsConnected(false);
-    setProblems([]);
-    setCurrentIndex(0);
-    setUserAnswer('');
-    setMyScore(0);
-    setOpponentScore(0);
-    setTimeLeft(GAME_DURATION);
     setGameStarted(false);
-    setStreak(0);
+    resetProgress();
   };
 
-  const leaveGame = async () => {
-    if (channelRef.current) {
-      await channelRef.current.send({
-        type: 'broadcast',
-        event: 'game_left',
-        payload: {},
-      });
-    }
-    if (roomCode) {
-      await supabase.from('game_rooms').delete().eq('room_code', roomCode);
-    }
-    resetGame();
+  const playAgain = () => {
+    dispatch({ type: 'restart', problems: generateProblems(), endsAt: serverNow() + GAME_DURATION * 1000 });
   };
 
-  const playAgain = async () => {
-    const newProblems = generateProblems();
-    setProblems(newProblems);
-    setCurrentIndex(0);
-    setUserAnswer('');
-    setMyScore(0);
-    setOpponentScore(0);
-    setTimeLeft(GAME_DURATION);
-    setStreak(0);
-    setMode('playing');
-    setGameStarted(true);
-  };
+  // Quick match search / nobody found
+  if (quickMatch.phase !== 'idle' && (mode === 'menu' || mode === 'waiting')) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-6 p-4">
+        <QuickMatchPanel quickMatch={quickMatch} fallbacks={[{ label: 'Create Private Room', onSelect: createRoom }]} />
+      </div>
+    );
+  }
 
   // Menu
   if (mode === 'menu') {
@@ -374,6 +369,8 @@ const SpeedMathDuel: React.FC = () => {
           <p className="text-muted-foreground">60 seconds of intense math!</p>
         </div>
 
+        <QuickMatchPanel quickMatch={quickMatch} />
+
         <div className="flex flex-col gap-3 w-full max-w-xs">
           <Button onClick={createRoom} className="w-full bg-neon-green/20 border-neon-green text-neon-green hover:bg-neon-green/30">
             Create Room
@@ -406,8 +403,15 @@ const SpeedMathDuel: React.FC = () => {
               {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
             </Button>
           </div>
+          <RoomInvite roomCode={roomCode} gameType="speedmath" />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => addBot(pickBotName())}>
+            <Bot className="w-4 h-4" />
+            Play a Bot
+          </Button>
+          <Button variant="outline" onClick={leaveGame}>Cancel</Button>
         </div>
-        <Button variant="outline" onClick={leaveGame}>Cancel</Button>
       </div>
     );
   }
@@ -418,6 +422,8 @@ const SpeedMathDuel: React.FC = () => {
     
     return (
       <div className="flex flex-col items-center justify-center gap-4 p-4 w-full max-w-md">
+      <SpectatorBanner isSpectator={isSpectator} spectatorCount={spectators.length} />
+
       <div className="flex items-center justify-between w-full">
           <div className="flex items-center gap-2">
             {isConnected ? <Wifi className="w-4 h-4 text-green-500 animate-pulse" /> : <WifiOff className="w-4 h-4 text-red-500" />}
@@ -435,12 +441,12 @@ const SpeedMathDuel: React.FC = () => {
         {/* Scoreboard */}
         <div className="flex items-center justify-center gap-8 w-full">
           <div className="text-center">
-            <p className="text-sm text-muted-foreground">You</p>
+            <p className="text-sm text-muted-foreground">{labels.me}</p>
             <p className="font-orbitron text-3xl font-bold text-neon-green drop-shadow-[0_0_10px_rgba(0,255,0,0.3)] transition-all duration-200" key={myScore} style={{ animation: 'pulse 0.3s ease-out' }}>{myScore}</p>
           </div>
           <span className="text-2xl text-muted-foreground">⚡</span>
           <div className="text-center">
-            <p className="text-sm text-muted-foreground">Opponent</p>
+            <p className="text-sm text-muted-foreground">{labels.opponent}</p>
             <p className="font-orbitron text-3xl font-bold text-neon-orange drop-shadow-[0_0_10px_rgba(255,165,0,0.3)] transition-all duration-200" key={opponentScore} style={{ animation: 'pulse 0.3s ease-out' }}>{opponentScore}</p>
           </div>
         </div>
@@ -454,34 +460,40 @@ const SpeedMathDuel: React.FC = () => {
           </div>
         )}
 
-        {/* Problem */}
-        <div className="bg-card/50 p-8 rounded-2xl text-center shadow-lg shadow-neon-green/10 animate-scale-in" key={currentIndex}>
-          <p className="font-orbitron text-4xl font-bold bg-gradient-to-r from-neon-green via-neon-cyan to-neon-green bg-clip-text text-transparent">
-            {currentProblem.num1} {currentProblem.operator} {currentProblem.num2} = ?
-          </p>
-        </div>
-
-        {/* Input */}
-        <div className="flex gap-2 w-full max-w-xs">
-          <Input
-            ref={inputRef}
-            type="number"
-            placeholder="Your answer"
-            value={userAnswer}
-            onChange={(e) => setUserAnswer(e.target.value)}
-            onKeyPress={handleKeyPress}
-            className="text-center text-xl font-mono"
-            autoFocus
-          />
-          <Button onClick={submitAnswer} className="bg-neon-green text-black">
-            GO
-          </Button>
-        </div>
-
-        {/* Progress */}
-        <p className="text-sm text-muted-foreground">
-          Problem {currentIndex + 1} / {problems.length}
-        </p>
+        {isSpectator ? (
+          <p className="text-muted-foreground animate-pulse py-8">Players are racing through {problems.length} problems...</p>
+        ) : (
+          <>
+            {/* Problem */}
+            <div className="bg-card/50 p-8 rounded-2xl text-center shadow-lg shadow-neon-green/10 animate-scale-in" key={currentIndex}>
+              <p className="font-orbitron text-4xl font-bold bg-gradient-to-r from-neon-green via-neon-cyan to-neon-green bg-clip-text text-transparent">
+                {currentProblem.num1} {currentProblem.operator} {currentProblem.num2} = ?
+              </p>
+            </div>
+
+            {/* Input */}
+            <div className="flex gap-2 w-full max-w-xs">
+              <Input
+                ref={inputRef}
+                type="number"
+                placeholder="Your answer"
+                value={userAnswer}
+                onChange={(e) => setUserAnswer(e.target.value)}
+                onKeyPress={handleKeyPress}
+                className="text-center text-xl font-mono"
+                autoFocus
+              />
+              <Button onClick={submitAnswer} className="bg-neon-green text-black">
+                GO
+              </Button>
+            </div>
+
+            {/* Progress */}
+            <p className="text-sm text-muted-foreground">
+              Problem {currentIndex + 1} / {problems.length}
+            </p>
+          </>
+        )}
 
         {/* Reaction Bar */}
         <div className="flex flex-wrap gap-2 justify-center max-w-xs">
@@ -525,7 +537,11 @@ const SpeedMathDuel: React.FC = () => {
       <div className="flex flex-col items-center justify-center gap-6 p-4">
         <Trophy className={`w-16 h-16 ${won ? 'text-neon-green' : tied ? 'text-yellow-500' : 'text-red-500'}`} />
         <h2 className="font-orbitron text-2xl font-bold">
-          {won ? 'You Win!' : tied ? "It's a Tie!" : 'You Lose!'}
+          {tied
+            ? "It's a Tie!"
+            : isSpectator
+              ? `${won ? labels.me : labels.opponent} Wins!`
+              : won ? 'You Win!' : 'You Lose!'}
         </h2>
         <div className="text-center">
           <p className="text-3xl font-bold">
@@ -535,9 +551,11 @@ const SpeedMathDuel: React.FC = () => {
           </p>
         </div>
         <div className="flex gap-3">
-          <Button onClick={playAgain} className="bg-neon-green/20 text-neon-green">
-            <RotateCcw className="w-4 h-4 mr-2" /> Play Again
-          </Button>
+          {!isSpectator && (
+            <Button onClick={playAgain} className="bg-neon-green/20 text-neon-green">
+              <RotateCcw className="w-4 h-4 mr-2" /> Play Again
+            </Button>
+          )}
           <Button variant="outline" onClick={leaveGame}>Leave</Button>
         </div>
       </div>
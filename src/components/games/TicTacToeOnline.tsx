@@ -1,16 +1,26 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Grid3X3, Users, Copy, Check, RotateCcw, Wifi, WifiOff, Timer, Trophy, BarChart3 } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
-import { checkSupabaseConfig } from '@/utils/supabaseHelpers';
+import { Grid3X3, Users, Copy, Check, RotateCcw, Wifi, WifiOff, Timer, Trophy, BarChart3, LineChart } from 'lucide-react';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
 import { celebrateWin } from '@/utils/confetti';
-import { useToast } from '@/hooks/use-toast';
-import { usePendingJoin } from '@/hooks/usePendingJoin';
-import { useGameChannel } from '@/contexts/GameChannelContext';
+import { useRealtimeRoom } from '@/hooks/useRealtimeRoom';
+import { useQuickMatch } from '@/hooks/useQuickMatch';
+import { useDeadline } from '@/hooks/useDeadline';
+import { DEADLINE_GRACE, serverNow } from '@/utils/serverClock';
+import { reportBracketMatch } from '@/utils/brackets';
+import { reportTournamentMatch } from '@/utils/tournaments';
+import { analyseTicTacToeGame, findBestMove } from '@/utils/ticTacToeAI';
+import type { AnalysedMove } from '@/utils/moveAnalysis';
+import { toast } from '@/hooks/use-toast';
 import { useChallengeContext } from '@/contexts/ChallengeContext';
+import { usePowerUpsContext } from '@/contexts/PowerUpsContext';
+import ReconnectingBanner from '@/components/ReconnectingBanner';
+import SpectatorBanner from '@/components/SpectatorBanner';
+import QuickMatchPanel from '@/components/QuickMatchPanel';
+import RoomInvite from '@/components/RoomInvite';
+import MoveAnalysis from '@/components/MoveAnalysis';
 
 type Player = 'X' | 'O' | null;
 type Board = Player[];
@@ -21,8 +31,24 @@ interface GameState {
   board: Board;
   currentPlayer: 'X' | 'O';
   winner: Player;
+  winningLine: number[] | null;
+  isDraw: boolean;
   scores: { X: number; O: number };
   gridSize: GridSize;
+  /** When the current turn runs out; online the server sets it on its own clock */
+  turnDeadline: number | null;
+}
+
+type GameAction =
+  | { type: 'move'; index: number }
+  | { type: 'timeout'; player: 'X' | 'O' }
+  | { type: 'skip_turn' }
+  | { type: 'start_clock' }
+  | { type: 'new_round' };
+
+interface PlayedMove {
+  player: 'X' | 'O';
+  index: number;
 }
 
 interface GameStats {
@@ -36,7 +62,7 @@ const TURN_TIME = 15; // seconds per turn
 
 const getWinningCombinations = (size: GridSize): number[][] => {
   const combinations: number[][] = [];
-  
+
   for (let i = 0; i < size; i++) {
     const row = [];
     for (let j = 0; j < size; j++) {
@@ -44,7 +70,7 @@ const getWinningCombinations = (size: GridSize): number[][] => {
     }
     combinations.push(row);
   }
-  
+
   for (let i = 0; i < size; i++) {
     const col = [];
     for (let j = 0; j < size; j++) {
@@ -52,7 +78,7 @@ const getWinningCombinations = (size: GridSize): number[][] => {
     }
     combinations.push(col);
   }
-  
+
   const diag1 = [];
   const diag2 = [];
   for (let i = 0; i < size; i++) {
@@ -60,10 +86,80 @@ const getWinningCombinations = (size: GridSize): number[][] => {
     diag2.push(i * size + (size - 1 - i));
   }
   combinations.push(diag1, diag2);
-  
+
   return combinations;
 };
 
+const checkWinner = (board: Board, size: GridSize): { winner: Player; line: number[] | null } => {
+  const combinations = getWinningCombinations(size);
+  for (const combination of combinations) {
+    const first = board[combination[0]];
+    if (first && combination.every(idx => board[idx] === first)) {
+      return { winner: first, line: combination };
+    }
+  }
+  return { winner: null, line: null };
+};
+
+const createGameState = (size: GridSize, scores = { X: 0, O: 0 }): GameState => ({
+  board: Array(size * size).fill(null),
+  currentPlayer: 'X',
+  winner: null,
+  winningLine: null,
+  isDraw: false,
+  scores,
+  gridSize: size,
+  turnDeadline: null,
+});
+
+const nextDeadline = () => serverNow() + TURN_TIME * 1000;
+
+const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'move': {
+      if (state.board[action.index] || state.winner || state.isDraw) return state;
+
+      const board = [...state.board];
+      board[action.index] = state.currentPlayer;
+      const result = checkWinner(board, state.gridSize);
+
+      if (result.winner) {
+        return {
+          ...state,
+          board,
+          winner: result.winner,
+          winningLine: result.line,
+          turnDeadline: null,
+          scores: { ...state.scores, [result.winner]: state.scores[result.winner] + 1 },
+        };
+      }
+      if (board.every(cell => cell !== null)) {
+        return { ...state, board, isDraw: true, turnDeadline: null };
+      }
+      return { ...state, board, currentPlayer: state.currentPlayer === 'X' ? 'O' : 'X', turnDeadline: nextDeadline() };
+    }
+    case 'start_clock':
+      if (state.winner || state.isDraw || state.turnDeadline) return state;
+      return { ...state, turnDeadline: nextDeadline() };
+    case 'timeout': {
+      if (state.winner || state.isDraw || state.currentPlayer !== action.player) return state;
+      const opponent: 'X' | 'O' = action.player === 'X' ? 'O' : 'X';
+      return {
+        ...state,
+        winner: opponent,
+        turnDeadline: null,
+        scores: { ...state.scores, [opponent]: state.scores[opponent] + 1 },
+      };
+    }
+    case 'skip_turn':
+      return { ...state, currentPlayer: state.currentPlayer === 'X' ? 'O' : 'X', turnDeadline: nextDeadline() };
+    case 'new_round':
+      return { ...createGameState(state.gridSize, state.scores), turnDeadline: nextDeadline() };
+    default:
+      return state;
+  }
+};
+
 const loadStats = (): GameStats => {
   const saved = localStorage.getItem('tictactoe-stats');
   if (saved) return JSON.parse(saved);
@@ -75,55 +171,26 @@ const saveStats = (stats: GameStats) => {
 };
 
 const TicTacToeOnline: React.FC = () => {
-  const { toast } = useToast();
-  const pendingJoin = usePendingJoin();
-  const { setChannelRef, setPlayerName, setRoomId } = useGameChannel();
   const { updateChallengeProgress } = useChallengeContext();
+  const { usePowerUp: spendPowerUp, getOwnedQuantity } = usePowerUpsContext();
   const [mode, setMode] = useState<GameMode>('menu');
-  const [localRoomId, setLocalRoomId] = useState<string | null>(null);
-  const [gridSize, setGridSize] = useState<GridSize>(3);
-  const [board, setBoard] = useState<Board>(Array(9).fill(null));
-  const [currentPlayer, setCurrentPlayer] = useState<'X' | 'O'>('X');
-  const [isLoading, setIsLoading] = useState(false);
-  const [winner, setWinner] = useState<Player>(null);
-  const [winningLine, setWinningLine] = useState<number[] | null>(null);
-  const [scores, setScores] = useState({ X: 0, O: 0 });
-  const [isDraw, setIsDraw] = useState(false);
   const [showStats, setShowStats] = useState(false);
   const [stats, setStats] = useState<GameStats>(loadStats);
   const [gameStarted, setGameStarted] = useState(false); // Only true when game actually starts
-
-  // Timer state
-  const [timeLeft, setTimeLeft] = useState(TURN_TIME);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  // Moves of the current round, and the last finished round kept for analysis after the board resets
+  const [moveHistory, setMoveHistory] = useState<PlayedMove[]>([]);
+  const [lastGame, setLastGame] = useState<{ size: GridSize; moves: PlayedMove[] } | null>(null);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [analysis, setAnalysis] = useState<AnalysedMove[] | null>(null);
+  const [hintCell, setHintCell] = useState<number | null>(null);
 
   // Online state
-  const [roomCode, setRoomCode] = useState('');
   const [joinCode, setJoinCode] = useState('');
-  const [mySymbol, setMySymbol] = useState<'X' | 'O'>('X');
   const [copied, setCopied] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const channelRef = useRef<any>(null);
   const [localPlayerName, setLocalPlayerName] = useState(() => {
     return localStorage.getItem('mindgames-player-name') || '';
   });
 
-  const generateRoomCode = () => {
-    return Math.random().toString(36).substring(2, 8).toUpperCase();
-  };
-
-
-  const checkWinner = useCallback((board: Board, size: GridSize): { winner: Player; line: number[] | null } => {
-    const combinations = getWinningCombinations(size);
-    for (const combination of combinations) {
-      const first = board[combination[0]];
-      if (first && combination.every(idx => board[idx] === first)) {
-        return { winner: first, line: combination };
-      }
-    }
-    return { winner: null, line: null };
-  }, []);
-
   const updateStats = useCallback((result: 'win' | 'loss' | 'draw') => {
     setStats(prev => {
       const newStats = {
@@ -138,285 +205,163 @@ const TicTacToeOnline: React.FC = () => {
     });
   }, []);
 
-  // Timer countdown - ONLY when game actually started
+  const {
+    state,
+    dispatch,
+    reportTimeout,
+    replaceState,
+    room,
+    status,
+    spectators,
+    isLoading,
+    isReconnecting,
+    createRoom: createOnlineRoom,
+    joinRoom: joinOnlineRoom,
+    leaveRoom,
+  } = useRealtimeRoom<GameState, GameAction>({
+    gameType: 'tictactoe',
+    reducer: gameReducer,
+    serverValidated: true,
+    initialState: createGameState(3),
+    playerName: localPlayerName,
+    onAction: (action, next, remote) => {
+      if (action.type === 'new_round') {
+        setMoveHistory([]);
+        return;
+      }
+      if (action.type === 'move' && next.board[action.index]) {
+        const player = next.board[action.index];
+        setMoveHistory(prev => (prev.some(m => m.index === action.index) ? prev : [...prev, { player, index: action.index }]));
+      }
+      if (room?.isSpectator) {
+        soundManager.playLocalSound('click');
+        return;
+      }
+      const isOnline = !!room;
+      if (next.winner) {
+        const won = !isOnline || next.winner === mySymbol;
+        soundManager.playLocalSound(won ? 'win' : 'lose');
+        if (won) {
+          haptics.success();
+          celebrateWin();
+        } else {
+          haptics.error();
+        }
+        if (isOnline) {
+          updateStats(won ? 'win' : 'loss');
+          if (won) updateChallengeProgress('win', 'tictactoe');
+          reportTournamentMatch(room.id, 'tictactoe');
+          reportBracketMatch(room.id);
+        }
+      } else if (next.isDraw) {
+        soundManager.playLocalSound('lose');
+        haptics.error();
+        if (isOnline) {
+          updateStats('draw');
+          reportTournamentMatch(room.id, 'tictactoe');
+        }
+      } else if (remote && action.type === 'move') {
+        soundManager.playLocalSound('click');
+      }
+    },
+    onOpponentLeft: () => {
+      setMode('menu');
+      setJoinCode('');
+      setGameStarted(false);
+    },
+  });
+
+  const quickMatch = useQuickMatch({
+    gameType: 'tictactoe',
+    status,
+    createRoom: () => createOnlineRoom(createGameState(3)),
+    joinRoom: (code) => joinOnlineRoom(code),
+    leaveRoom: () => leaveGame(),
+  });
+
+  const { board, currentPlayer, winner, winningLine, isDraw, scores, gridSize, turnDeadline } = state;
+  const roomCode = room?.code || '';
+  const mySymbol: 'X' | 'O' = room && !room.isHost ? 'O' : 'X';
+  const isSpectator = !!room?.isSpectator;
+  const isConnected = status === 'playing' && !isReconnecting;
+
+  // Follow the room lifecycle for online screens
   useEffect(() => {
-    if (gameStarted && !winner && !isDraw) {
-      timerRef.current = setInterval(() => {
-        setTimeLeft(prev => {
-          if (prev <= 1) {
-            if (mode === 'online-playing') {
-              const isMyTurn = currentPlayer === mySymbol;
-              if (isMyTurn) {
-                haptics.error();
-                soundManager.playLocalSound('lose');
-                
-                const opponent: 'X' | 'O' = mySymbol === 'X' ? 'O' : 'X';
-                const newScores = { ...scores, [opponent]: scores[opponent] + 1 };
-                setScores(newScores);
-                setWinner(opponent);
-                updateStats('loss');
-                
-                if (channelRef.current) {
-                  channelRef.current.send({
-                    type: 'broadcast',
-                    event: 'game_update',
-                    payload: { timeout: true, winner: opponent, scores: newScores }
-                  });
-                }
-              }
-            } else if (mode === 'local') {
-              setCurrentPlayer(prev => prev === 'X' ? 'O' : 'X');
-            }
-            return TURN_TIME;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-
-      return () => {
-        if (timerRef.current) clearInterval(timerRef.current);
-      };
+    if (status === 'waiting') {
+      setMode('online-waiting');
+    } else if (status === 'playing') {
+      setMode('online-playing');
+      setGameStarted(true);
+    }
+  }, [status]);
+
+  // The host starts the first turn's clock once the opponent is in
+  useEffect(() => {
+    if (mode === 'online-playing' && room?.isHost && !turnDeadline && !winner && !isDraw) {
+      dispatch({ type: 'start_clock' });
     }
-  }, [gameStarted, winner, isDraw, currentPlayer, mySymbol, scores, updateStats, mode]);
+  }, [mode, room?.isHost, turnDeadline, winner, isDraw, dispatch]);
+
+  // Turn timer on the server's clock. Online, the player on turn reports their own
+  // timeout and the opponent steps in shortly after if that player's tab doesn't
+  const timeLeft = useDeadline(gameStarted ? turnDeadline : null, {
+    onExpire: () => {
+      if (mode === 'local') {
+        dispatch({ type: 'skip_turn' });
+      } else if (mode === 'online-playing' && !isSpectator) {
+        reportTimeout({ type: 'timeout', player: currentPlayer });
+      }
+    },
+    grace: mode === 'online-playing' && currentPlayer !== mySymbol ? DEADLINE_GRACE : 0,
+  }) ?? TURN_TIME;
 
-  // Reset timer on player change
+  // Keep the finished round for analysis, as long as every move of it was seen
   useEffect(() => {
-    setTimeLeft(TURN_TIME);
-  }, [currentPlayer]);
+    if (!winner && !isDraw) return;
+    if (moveHistory.length === board.filter(Boolean).length) {
+      setLastGame({ size: gridSize, moves: moveHistory });
+    }
+  }, [winner, isDraw, moveHistory, board, gridSize]);
+
+  // A hint only stands for the position it was asked in
+  useEffect(() => {
+    setHintCell(null);
+  }, [board]);
 
   // Auto-restart after win/draw
   useEffect(() => {
     if (winner || isDraw) {
-      if (timerRef.current) clearInterval(timerRef.current);
-      
+      // The host drives the next round online so both boards clear together
+      if (mode === 'online-playing' && mySymbol !== 'X') return;
+
       const timer = setTimeout(() => {
-        const newBoard = Array(gridSize * gridSize).fill(null);
-        setBoard(newBoard);
-        setCurrentPlayer('X');
-        setWinner(null);
-        setWinningLine(null);
-        setIsDraw(false);
-        setTimeLeft(TURN_TIME);
-
-        if (mode === 'online-playing' && channelRef.current) {
-          channelRef.current.send({
-            type: 'broadcast',
-            event: 'game_update',
-            payload: { board: newBoard, currentPlayer: 'X', winner: null, scores, autoRestart: true }
-          });
-
-          supabase.from('game_rooms')
-            .update({ game_state: JSON.parse(JSON.stringify({ board: newBoard, currentPlayer: 'X', winner: null, scores, gridSize })) })
-            .eq('room_code', roomCode)
-            .then();
-        }
+        dispatch({ type: 'new_round' });
       }, 2500);
 
       return () => clearTimeout(timer);
     }
-  }, [winner, isDraw, gridSize, mode, roomCode, scores]);
+  }, [winner, isDraw, mode, mySymbol, dispatch]);
 
   const createRoom = async (selectedSize: GridSize) => {
-    if (!checkSupabaseConfig()) return;
-    
-    setIsLoading(true);
-    haptics.light();
-    const code = generateRoomCode();
-    setRoomCode(code);
-    setMySymbol('X');
-    setGridSize(selectedSize);
-    setBoard(Array(selectedSize * selectedSize).fill(null));
-    setTimeLeft(TURN_TIME);
-    
-    try {
-      // Get user ID from localStorage (from UserProfile)
-      const userProfile = JSON.parse(localStorage.getItem('mindgames-user-profile') || '{}');
-      const userId = userProfile.id || `user_${Math.random().toString(36).substring(2, 10)}`;
-      const userName = localPlayerName || userProfile.displayName || `Player ${Math.random().toString(36).substring(2, 6)}`;
-      
-      // Add timeout to prevent hanging
-      const insertPromise = supabase.from('game_rooms').insert({
-        room_code: code,
-        game_type: 'tictactoe',
-        game_state: { board: Array(selectedSize * selectedSize).fill(null), currentPlayer: 'X', scores: { X: 0, O: 0 }, gridSize: selectedSize, hostId: userId, hostName: userName },
-        status: 'waiting',
-      }).select().single();
-      
-      const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Request timeout')), 10000)
-      );
-      
-      const { data, error } = await Promise.race([insertPromise, timeoutPromise]) as any;
-
-      if (error) {
-        throw error;
-      }
-      
-      if (!data) {
-        throw new Error('Room creation failed - no data returned');
-      }
-      
-      setLocalRoomId(data.id);
-      setRoomId(data.id);
-      const defaultName = localPlayerName || localStorage.getItem('mindgames-player-name') || `Player ${Math.random().toString(36).substring(2, 6)}`;
+    const defaultName = localPlayerName || localStorage.getItem('mindgames-player-name') || `Player ${Math.random().toString(36).substring(2, 6)}`;
+    if (!localPlayerName) {
       setLocalPlayerName(defaultName);
-      setPlayerName(defaultName);
-      if (!localPlayerName) {
-        localStorage.setItem('mindgames-player-name', defaultName);
-      }
-      setMode('online-waiting');
-      haptics.success();
-      soundManager.playLocalSound('correct');
-      toast({ title: 'Room Created!', description: `Share code: ${code}` });
-    } catch (error: any) {
-      console.error('Error creating room:', error);
-      toast({ 
-        variant: 'destructive', 
-        title: 'Connection Error', 
-        description: error?.message?.includes('timeout') 
-          ? 'Request timed out. Please check your connection and try again.' 
-          : 'Failed to create room. Please try again.' 
-      });
-      soundManager.playLocalSound('wrong');
-      haptics.error();
-    } finally {
-      setIsLoading(false);
+      localStorage.setItem('mindgames-player-name', defaultName);
     }
+    await createOnlineRoom(createGameState(selectedSize));
   };
 
-  const joinRoom = async () => {
-    if (!joinCode.trim()) return;
-    if (!checkSupabaseConfig()) return;
-
-    setIsLoading(true);
-    haptics.light();
-    
-    try {
-      // Add timeout to prevent hanging
-      const queryPromise = supabase
-        .from('game_rooms')
-        .select('*')
-        .eq('room_code', joinCode.toUpperCase())
-        .single();
-      
-      const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Request timeout')), 10000)
-      );
-      
-      const { data, error } = await Promise.race([queryPromise, timeoutPromise]) as any;
-
-      if (error || !data) {
-        toast({ 
-          variant: 'destructive', 
-          title: 'Room Not Found', 
-          description: error?.message || 'No room found with this code. Please check and try again.' 
-        });
-        setIsLoading(false);
-        soundManager.playLocalSound('wrong');
-        haptics.error();
-        return;
-      }
-
-      // Check if room is full
-      if (data.player_count >= (data.max_players || 2)) {
-        toast({ 
-          variant: 'destructive', 
-          title: 'Room Full', 
-          description: 'This room is already full. Try another code.' 
-        });
-        setIsLoading(false);
-        soundManager.playLocalSound('wrong');
-        haptics.error();
-        return;
-      }
+  const joinRoom = useCallback(async (code?: string) => {
+    const target = (code || joinCode).toUpperCase();
+    if (!target.trim()) return;
 
-      // Check if room is ended
-      if (data.status === 'ended') {
-        toast({ 
-          variant: 'destructive', 
-          title: 'Game Ended', 
-          description: 'This game has already ended. Please join a new game.' 
-        });
-        setIsLoading(false);
-        soundManager.playLocalSound('wrong');
-        haptics.error();
-        return;
-      }
-
-      const code = joinCode.toUpperCase();
-      const gameState = data.game_state as any;
-      const size = gameState?.gridSize || 3;
-      
-      // Store creator info for auto-friend feature from game_state
-      if (gameState?.hostId) {
-        sessionStorage.setItem('pendingJoinCreatorId', gameState.hostId);
-        sessionStorage.setItem('pendingJoinCreatorName', gameState.hostName || 'Unknown');
-      }
-      
-      // Set player name if not set
-      const defaultName = localPlayerName || localStorage.getItem('mindgames-player-name') || `Player ${Math.random().toString(36).substring(2, 6)}`;
+    const defaultName = localPlayerName || localStorage.getItem('mindgames-player-name') || `Player ${Math.random().toString(36).substring(2, 6)}`;
+    if (!localPlayerName) {
       setLocalPlayerName(defaultName);
-      setPlayerName(defaultName);
-      if (!localPlayerName) {
-        localStorage.setItem('mindgames-player-name', defaultName);
-      }
-      
-      // Update room status quickly
-      await supabase
-        .from('game_rooms')
-        .update({ player_count: 2, status: 'playing' })
-        .eq('room_code', code);
-      
-      // Set game state
-      setRoomCode(code);
-      setLocalRoomId(data.id);
-      setRoomId(data.id);
-      setMySymbol('O');
-      setGridSize(size);
-      setBoard(gameState?.board || Array(size * size).fill(null));
-      setScores(gameState?.scores || { X: 0, O: 0 });
-      setTimeLeft(TURN_TIME);
-      setMode('online-playing');
-      setIsConnected(true);
-      setGameStarted(true);
-      
-      // Update global context for chat/reactions
-      setRoomId(data.id);
-      
-      // Setup channel and broadcast (non-blocking)
-      const channel = supabase.channel(`ttt-${code}`);
-      channel.subscribe(async (status) => {
-        if (status === 'SUBSCRIBED') {
-          try {
-            await channel.send({
-              type: 'broadcast',
-              event: 'game_update',
-              payload: { player_joined: true }
-            });
-          } catch (err) {
-            console.log('Broadcast error (non-critical):', err);
-          }
-        }
-      });
-
-      haptics.success();
-      soundManager.playLocalSound('correct');
-      toast({ title: 'Joined!', description: 'Game starting!' });
-    } catch (error: any) {
-      console.error('Error joining room:', error);
-      toast({ 
-        variant: 'destructive', 
-        title: 'Connection Error', 
-        description: error?.message?.includes('timeout') 
-          ? 'Request timed out. Please check your connection and try again.' 
-          : 'Failed to join room. Please try again.' 
-      });
-      soundManager.playLocalSound('wrong');
-      haptics.error();
-    } finally {
-      setIsLoading(false);
+      localStorage.setItem('mindgames-player-name', defaultName);
     }
-  };
+    await joinOnlineRoom(target);
+  }, [joinCode, localPlayerName, joinOnlineRoom]);
 
   const copyRoomCode = () => {
     navigator.clipboard.writeText(roomCode);
@@ -424,260 +369,73 @@ const TicTacToeOnline: React.FC = () => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  // Auto-join if pending join code exists - Optimized and Fast
-  useEffect(() => {
-    if (pendingJoin && pendingJoin.gameType === 'tictactoe' && mode === 'menu' && !isLoading) {
-      setJoinCode(pendingJoin.code);
-      // Clear pending join immediately to prevent re-triggering
-      sessionStorage.removeItem('pendingJoinCode');
-      sessionStorage.removeItem('pendingJoinGameType');
-      sessionStorage.removeItem('pendingJoinRoomId');
-      
-      // Use the existing joinRoom function directly with minimal delay
-      const timer = setTimeout(() => {
-        joinRoom();
-      }, 50);
-      return () => clearTimeout(timer);
-    }
-  }, [pendingJoin, mode, isLoading, joinRoom]);
-
-  // Subscribe to room changes
-  useEffect(() => {
-    if (!roomCode || (mode !== 'online-waiting' && mode !== 'online-playing')) return;
-
-    const channel = supabase
-      .channel(`ttt-${roomCode}`, {
-        config: { broadcast: { self: false } } // Don't receive own broadcasts
-      })
-      .on('broadcast', { event: 'game_left' }, () => {
-        // Other player left - reset game
-        toast({ title: 'Opponent Left', description: 'The game has ended' });
-        setMode('menu');
-        setRoomCode('');
-        setJoinCode('');
-        setBoard(Array(9).fill(null));
-        setGridSize(3);
-        setCurrentPlayer('X');
-        setWinner(null);
-        setWinningLine(null);
-        setScores({ X: 0, O: 0 });
-        setIsDraw(false);
-        setIsConnected(false);
-        setTimeLeft(TURN_TIME);
-        setGameStarted(false);
-      })
-      .on('broadcast', { event: 'game_update' }, ({ payload }) => {
-        if (payload) {
-          if (payload.player_joined && mode === 'online-waiting') {
-            setMode('online-playing');
-            setIsConnected(true);
-            setTimeLeft(TURN_TIME);
-            setGameStarted(true); // Game starts NOW when opponent joins
-            haptics.success();
-            toast({ title: 'Player Joined!', description: 'Game starting!' });
-          }
-          
-          if (payload.timeout && payload.winner) {
-            setWinner(payload.winner);
-            if (payload.scores) setScores(payload.scores);
-            const isWinner = payload.winner === mySymbol;
-            if (isWinner) {
-              haptics.success();
-              celebrateWin();
-              updateStats('win');
-              // Update daily challenges
-              updateChallengeProgress('win', 'tictactoe');
-            }
-          }
-          
-          if (payload.board) setBoard(payload.board);
-          if (payload.currentPlayer) {
-            setCurrentPlayer(payload.currentPlayer);
-            setTimeLeft(TURN_TIME);
-          }
-          if (payload.winner !== undefined) {
-            setWinner(payload.winner);
-            if (payload.winner && payload.board) {
-              const result = checkWinner(payload.board, gridSize);
-              setWinningLine(result.line);
-            } else {
-              setWinningLine(null);
-            }
-          }
-          if (payload.scores) setScores(payload.scores);
-          if (payload.autoRestart) {
-            setWinner(null);
-            setWinningLine(null);
-            setIsDraw(false);
-            setTimeLeft(TURN_TIME);
-          }
-        }
-      })
-      .on('presence', { event: 'join' }, ({ newPresences }) => {
-        // Only start game if opponent (different player) joins, not self
-        if (mode === 'online-waiting' && newPresences.length > 0) {
-          const isOpponentJoining = newPresences.some(p => (p as any).player !== mySymbol);
-          if (isOpponentJoining) {
-            setMode('online-playing');
-            setIsConnected(true);
-            setTimeLeft(TURN_TIME);
-            setGameStarted(true);
-            haptics.success();
-            toast({ title: 'Player Joined!', description: 'Game starting!' });
-          }
-        }
-      })
-      .subscribe(async (status) => {
-        if (status === 'SUBSCRIBED') {
-          await channel.track({ player: mySymbol, joined_at: Date.now() });
-        }
-      });
-
-    channelRef.current = channel;
-    
-    // Update global context for chat/reactions
-    setChannelRef(channelRef);
-    setPlayerName(localPlayerName || `Player ${mySymbol}`);
-    setRoomId(localRoomId || null);
-    
-    // Listen for reactions and chat from global components
-    channel.on('broadcast', { event: 'reaction' }, ({ payload }) => {
-      if (payload?.emoji) {
-        window.dispatchEvent(new CustomEvent('game-reaction', { detail: { emoji: payload.emoji } }));
-      }
-    });
-    
-    channel.on('broadcast', { event: 'chat' }, ({ payload }) => {
-      if (payload?.type === 'chat' && payload?.message && payload?.playerName) {
-        window.dispatchEvent(new CustomEvent('game-chat', { detail: payload }));
-      }
-    });
-    
-    return () => {
-      supabase.removeChannel(channel);
-      channelRef.current = null;
-      setChannelRef(null);
-      setRoomId(null);
-    };
-  }, [roomCode, mode, mySymbol, gridSize, checkWinner, updateStats, localRoomId, localPlayerName, setChannelRef, setPlayerName, setRoomId]);
-
-  const handleClick = async (index: number) => {
+  const handleClick = (index: number) => {
     if (board[index] || winner || isDraw) return;
-    if (mode === 'online-playing' && currentPlayer !== mySymbol) return;
+    if (mode === 'online-playing' && (currentPlayer !== mySymbol || isReconnecting || isSpectator)) return;
 
     haptics.medium();
-    
-    const newBoard = [...board];
-    newBoard[index] = currentPlayer;
-    setBoard(newBoard);
     soundManager.playLocalSound('click');
+    dispatch({ type: 'move', index });
+  };
 
-    const result = checkWinner(newBoard, gridSize);
-    let newWinner = result.winner;
-    let newScores = scores;
-    const nextPlayer: 'X' | 'O' = currentPlayer === 'X' ? 'O' : 'X';
-
-    if (result.winner) {
-      setWinner(result.winner);
-      setWinningLine(result.line);
-      newScores = { ...scores, [result.winner]: scores[result.winner] + 1 };
-      setScores(newScores);
-      soundManager.playLocalSound('win');
-      haptics.success();
-      celebrateWin();
-      
-      // Update stats
-      if (mode === 'online-playing') {
-        updateStats(result.winner === mySymbol ? 'win' : 'loss');
-      }
-    } else if (newBoard.every(cell => cell !== null)) {
-      setIsDraw(true);
-      soundManager.playLocalSound('lose');
-      haptics.error();
-      if (mode === 'online-playing') updateStats('draw');
-    } else {
-      setCurrentPlayer(nextPlayer);
-      setTimeLeft(TURN_TIME);
-    }
+  const resetGame = () => {
+    dispatch({ type: 'new_round' });
+  };
 
-    if (mode === 'online-playing' && channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'game_update',
-        payload: { board: newBoard, currentPlayer: nextPlayer, winner: newWinner, scores: newScores }
-      });
-
-      supabase.from('game_rooms')
-        .update({ game_state: JSON.parse(JSON.stringify({ board: newBoard, currentPlayer: nextPlayer, winner: newWinner, scores: newScores, gridSize })) })
-        .eq('room_code', roomCode)
-        .then();
+  const showHint = () => {
+    if (!spendPowerUp('hint')) {
+      toast({ title: 'No hints left', description: 'Buy more from the Power-Ups shop.' });
+      return;
     }
+    haptics.light();
+    setHintCell(findBestMove(board, getWinningCombinations(gridSize), currentPlayer));
   };
 
-  const resetGame = async () => {
-    const newBoard = Array(gridSize * gridSize).fill(null);
-    setBoard(newBoard);
-    setCurrentPlayer('X');
-    setWinner(null);
-    setWinningLine(null);
-    setIsDraw(false);
-    setTimeLeft(TURN_TIME);
-
-    if (mode === 'online-playing' && channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'game_update',
-        payload: { board: newBoard, currentPlayer: 'X', winner: null, scores }
-      });
-
-      supabase.from('game_rooms')
-        .update({ game_state: JSON.parse(JSON.stringify({ board: newBoard, currentPlayer: 'X', winner: null, scores, gridSize })) })
-        .eq('room_code', roomCode)
-        .then();
-    }
+  const openAnalysis = () => {
+    if (!lastGame) return;
+    setAnalysis(null);
+    setShowAnalysis(true);
+    // Let the dialog open before the search blocks the page
+    setTimeout(() => {
+      setAnalysis(analyseTicTacToeGame(lastGame.size, getWinningCombinations(lastGame.size), lastGame.moves));
+    }, 50);
   };
 
   const leaveGame = async () => {
-    if (timerRef.current) clearInterval(timerRef.current);
-    
-    // Broadcast to other player that we're leaving
-    if (channelRef.current) {
-      await channelRef.current.send({
-        type: 'broadcast',
-        event: 'game_left',
-        payload: {}
-      });
-    }
-    
-    if (roomCode) {
-      await supabase.from('game_rooms').delete().eq('room_code', roomCode);
-    }
+    await leaveRoom();
+    replaceState(createGameState(3));
+    setMoveHistory([]);
+    setLastGame(null);
     setMode('menu');
-    setRoomCode('');
     setJoinCode('');
-    setBoard(Array(9).fill(null));
-    setGridSize(3);
-    setCurrentPlayer('X');
-    setWinner(null);
-    setWinningLine(null);
-    setScores({ X: 0, O: 0 });
-    setIsDraw(false);
-    setIsConnected(false);
-    setTimeLeft(TURN_TIME);
     setGameStarted(false);
   };
 
   const startLocalGame = (size: GridSize) => {
-    setGridSize(size);
-    setBoard(Array(size * size).fill(null));
-    setScores({ X: 0, O: 0 });
-    setTimeLeft(TURN_TIME);
+    replaceState({ ...createGameState(size), turnDeadline: nextDeadline() });
+    setMoveHistory([]);
+    setLastGame(null);
     setGameStarted(true); // Game starts NOW for local
     setMode('local');
   };
 
   const winRate = stats.totalGames > 0 ? Math.round((stats.wins / stats.totalGames) * 100) : 0;
 
+  // Quick match search / nobody found
+  if (quickMatch.phase !== 'idle' && (mode === 'menu' || mode === 'online-waiting')) {
+    return (
+      <div className="flex flex-col items-center gap-4 sm:gap-6 animate-slide-in w-full max-w-md mx-auto px-4">
+        <QuickMatchPanel
+          quickMatch={quickMatch}
+          fallbacks={[
+            { label: 'Play Local', icon: <Users className="w-4 h-4" />, onSelect: () => startLocalGame(3) },
+            { label: 'Create Online Room', icon: <Wifi className="w-4 h-4" />, onSelect: () => setMode('online-create') },
+          ]}
+        />
+      </div>
+    );
+  }
+
   // Menu
   if (mode === 'menu') {
     return (
@@ -728,6 +486,9 @@ const TicTacToeOnline: React.FC = () => {
           </div>
         </div>
         
+        {/* Quick Match */}
+        <QuickMatchPanel quickMatch={quickMatch} />
+
         {/* Action Buttons - Enhanced Design */}
         <div className="flex flex-col gap-3 w-full">
           {/* Local 2 Players */}
@@ -785,7 +546,7 @@ const TicTacToeOnline: React.FC = () => {
   }
 
   // Local - Grid Selection
-  if (mode === 'local' && board.length === 9 && scores.X === 0 && scores.O === 0 && !board.some(c => c !== null)) {
+  if (mode === 'local' && !gameStarted) {
     return (
       <div className="flex flex-col items-center gap-6 animate-slide-in">
         <h2 className="font-orbitron text-xl text-foreground">Select Grid Size</h2>
@@ -913,7 +674,7 @@ const TicTacToeOnline: React.FC = () => {
           <Button 
             variant="neon" 
             size="lg" 
-            onClick={joinRoom} 
+            onClick={() => joinRoom()}
             disabled={isLoading || !joinCode.trim() || joinCode.length < 4}
             className="w-full h-14 text-lg font-orbitron"
           >
@@ -989,6 +750,9 @@ const TicTacToeOnline: React.FC = () => {
               ✓ Code copied to clipboard!
             </p>
           )}
+          <div className="mt-3">
+            <RoomInvite roomCode={roomCode} gameType="tictactoe" />
+          </div>
         </div>
         
         {/* Game info */}
@@ -1039,14 +803,52 @@ const TicTacToeOnline: React.FC = () => {
   }
 
   // Game Board
-  const isMyTurn = mode === 'local' || currentPlayer === mySymbol;
+  const isMyTurn = mode === 'local' || (currentPlayer === mySymbol && !isSpectator);
   const cellSize = gridSize === 3 ? 'w-20 h-20 sm:w-24 sm:h-24 text-4xl' : 
                    gridSize === 4 ? 'w-16 h-16 sm:w-20 sm:h-20 text-3xl' : 
                    'w-14 h-14 sm:w-16 sm:h-16 text-2xl';
   const timerColor = timeLeft <= 5 ? 'text-destructive' : timeLeft <= 10 ? 'text-neon-orange' : 'text-neon-green';
+  // Hints are for offline games only, so online and tournament play stays fair
+  const canHint = mode === 'local' && isMyTurn && !winner && !isDraw && hintCell === null;
+  const hintsOwned = getOwnedQuantity('hint');
+
+  const cellLabel = (index: number) => {
+    const size = lastGame?.size ?? gridSize;
+    return `${String.fromCharCode(65 + (index % size))}${Math.floor(index / size) + 1}`;
+  };
+
+  const playerLabel = (player: string) => {
+    if (mode === 'online-playing' && !isSpectator) return player === mySymbol ? 'You' : 'Opponent';
+    return `Player ${player}`;
+  };
+
+  const renderAnalysisBoard = (step: number, move: AnalysedMove | null) => {
+    if (!lastGame) return null;
+    const cells: Player[] = Array(lastGame.size * lastGame.size).fill(null);
+    lastGame.moves.slice(0, step).forEach(m => { cells[m.index] = m.player; });
+    return (
+      <div className="grid gap-1.5 p-2 bg-card rounded-xl border border-border" style={{ gridTemplateColumns: `repeat(${lastGame.size}, 1fr)` }}>
+        {cells.map((cell, index) => (
+          <div
+            key={index}
+            className={`w-10 h-10 rounded-lg border-2 flex items-center justify-center font-orbitron font-bold
+              ${cell === 'X' ? 'text-neon-cyan border-neon-cyan/50' : cell === 'O' ? 'text-neon-pink border-neon-pink/50' : 'border-border'}
+              ${move?.move === index ? 'ring-2 ring-foreground/60' : ''}
+              ${move && move.best !== move.move && move.best === index ? 'border-dashed border-neon-green bg-neon-green/10' : ''}
+            `}
+          >
+            {cell}
+          </div>
+        ))}
+      </div>
+    );
+  };
 
   return (
     <div className="flex flex-col items-center gap-3 sm:gap-4 w-full max-w-2xl mx-auto px-4">
+      <ReconnectingBanner isReconnecting={isReconnecting} />
+      <SpectatorBanner isSpectator={isSpectator} spectatorCount={spectators.length} />
+
       {/* Connection Status & Timer */}
       <div className="flex items-center justify-between w-full px-2">
         {mode === 'online-playing' && (
@@ -1055,7 +857,7 @@ const TicTacToeOnline: React.FC = () => {
             <span className="font-rajdhani text-muted-foreground">
               <span className="font-orbitron text-neon-cyan">{roomCode}</span>
               <span className="mx-2">•</span>
-              <span>You: <span className="font-orbitron text-foreground">{mySymbol}</span></span>
+              {!isSpectator && <span>You: <span className="font-orbitron text-foreground">{mySymbol}</span></span>}
               {localPlayerName && (
                 <>
                   <span className="mx-2">•</span>
@@ -1063,6 +865,7 @@ const TicTacToeOnline: React.FC = () => {
                 </>
               )}
             </span>
+            <RoomInvite roomCode={roomCode} gameType="tictactoe" compact />
           </div>
         )}
         
@@ -1102,13 +905,13 @@ const TicTacToeOnline: React.FC = () => {
       <div className="h-8 sm:h-10 flex items-center justify-center">
         {winner ? (
           <span className={`font-orbitron text-base sm:text-lg animate-scale-pop ${winner === 'X' ? 'text-neon-cyan' : 'text-neon-pink'}`}>
-            {winner === mySymbol ? '🎉 You Win!' : `Player ${winner} Wins!`} Next in 2s...
+            {winner === mySymbol && !isSpectator ? '🎉 You Win!' : `Player ${winner} Wins!`} Next in 2s...
           </span>
         ) : isDraw ? (
           <span className="font-orbitron text-base sm:text-lg text-neon-purple animate-scale-pop">Draw! Next in 2s...</span>
         ) : (
           <span className={`font-rajdhani text-sm sm:text-base ${!isMyTurn ? 'opacity-50' : ''} ${currentPlayer === 'X' ? 'text-neon-cyan' : 'text-neon-pink'}`}>
-            {mode === 'online-playing' 
+            {mode === 'online-playing' && !isSpectator
               ? (isMyTurn ? "⚡ Your Turn!" : "Waiting for opponent...")
               : `Player ${currentPlayer}'s Turn`
             }
@@ -1138,6 +941,7 @@ const TicTacToeOnline: React.FC = () => {
               }
               ${winningLine?.includes(index) && cell === 'X' ? 'box-glow-cyan bg-neon-cyan/10' : ''}
               ${winningLine?.includes(index) && cell === 'O' ? 'box-glow-pink bg-neon-pink/10' : ''}
+              ${hintCell === index ? 'ring-2 ring-neon-green animate-pulse' : ''}
             `}
           >
             {cell && <span className="animate-scale-pop">{cell}</span>}
@@ -1146,15 +950,37 @@ const TicTacToeOnline: React.FC = () => {
       </div>
 
       {/* Controls */}
-      <div className="flex gap-3 sm:gap-4">
-        <Button variant="neon" size="sm" onClick={resetGame}>
-          <RotateCcw className="w-4 h-4" />
-          Reset
-        </Button>
+      <div className="flex flex-wrap justify-center gap-3 sm:gap-4">
+        {!isSpectator && (
+          <Button variant="neon" size="sm" onClick={resetGame}>
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </Button>
+        )}
+        {mode === 'local' && (
+          <Button variant="outline" size="sm" onClick={showHint} disabled={!canHint}>
+            💡 Hint ({hintsOwned})
+          </Button>
+        )}
+        {lastGame && (
+          <Button variant="outline" size="sm" onClick={openAnalysis}>
+            <LineChart className="w-4 h-4" />
+            Analyse Last Game
+          </Button>
+        )}
         <Button variant="ghost" size="sm" onClick={leaveGame}>
           Leave
         </Button>
       </div>
+
+      <MoveAnalysis
+        isOpen={showAnalysis}
+        onClose={() => setShowAnalysis(false)}
+        moves={analysis}
+        playerLabel={playerLabel}
+        moveLabel={cellLabel}
+        renderBoard={renderAnalysisBoard}
+      />
     </div>
   );
 };
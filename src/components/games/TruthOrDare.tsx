@@ -1,7 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback } from "react";
 import {
   Heart,
-  Copy,
   Users,
   ArrowLeft,
   Sparkles,
@@ -13,7 +12,6 @@ import {
   CheckCheck,
   ChevronDown,
 } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
@@ -21,13 +19,21 @@ import { haptics } from "@/utils/haptics";
 import { soundManager } from "@/utils/soundManager";
 import { useActiveGame } from "@/contexts/ActiveGameContext";
 import { celebrateHearts } from "@/utils/confetti";
+import { useRealtimeRoom } from "@/hooks/useRealtimeRoom";
+import { useQuickMatch } from "@/hooks/useQuickMatch";
+import SpectatorBanner from "@/components/SpectatorBanner";
+import QuickMatchPanel from "@/components/QuickMatchPanel";
+import RoomLobby from "@/components/RoomLobby";
+import LobbySizePicker from "@/components/LobbySizePicker";
+import { ROOM_CODE_LENGTH } from "@/utils/gameRooms";
 
 // --- Types ---
 type GameMode = "menu" | "create" | "join" | "waiting" | "playing";
 
 interface ChatMessage {
   id: string;
-  sender: "system" | "player1" | "player2";
+  sender: "system" | "player";
+  sender_id?: string;
   sender_name?: string;
   message_type: "text" | "buttons" | "input" | "result";
   content: {
@@ -61,13 +67,49 @@ interface GameState {
   roundCount: number;
   truthCount: number;
   dareCount: number;
+  messages: ChatMessage[];
 }
 
+// Every turn step appends chat messages and/or replaces the turn state
+type GameAction =
+  | { type: "player_joined"; player: Player }
+  | { type: "start"; messages: ChatMessage[] }
+  | { type: "update"; messages?: ChatMessage[]; disableMessageId?: string; state?: Omit<GameState, "messages"> };
+
 const POINTS = { TRUTH_ANSWERED: 10, DARE_COMPLETED: 20, SKIP_PENALTY: -5 };
 
 // Helper to generate unique IDs
 const generateId = () => Math.random().toString(36).substring(2, 15);
-const generateRoomCode = () => Math.random().toString(36).substring(2, 6).toUpperCase();
+
+const createGameState = (players: Player[] = []): GameState => ({
+  players,
+  currentPlayerIndex: 0,
+  roundCount: 0,
+  truthCount: 0,
+  dareCount: 0,
+  messages: [],
+});
+
+const appendMessages = (existing: ChatMessage[], incoming: ChatMessage[] = []) =>
+  [...existing, ...incoming.filter((m) => !existing.some((e) => e.id === m.id))];
+
+const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case "player_joined":
+      if (state.messages.length > 0 || state.players.some((p) => p.id === action.player.id)) return state;
+      return { ...state, players: [...state.players, action.player] };
+    case "start":
+      return { ...state, messages: appendMessages(state.messages, action.messages) };
+    case "update": {
+      const messages = appendMessages(state.messages, action.messages).map((m) =>
+        m.id === action.disableMessageId ? { ...m, disabled: true } : m
+      );
+      return { ...state, ...action.state, messages };
+    }
+    default:
+      return state;
+  }
+};
 
 // Create turn message content
 const createTurnMessageContent = (
@@ -92,26 +134,14 @@ const createTurnMessageContent = (
 // --- Main Component ---
 const TruthOrDare: React.FC = () => {
   const [mode, setMode] = useState<GameMode>("menu");
-  const [roomCode, setRoomCode] = useState("");
   const [inputCode, setInputCode] = useState("");
-  const [roomId, setRoomId] = useState<string | null>(null);
-  const [playerId] = useState(() => generateId());
   const [playerName, setPlayerName] = useState("");
-  const [partnerName, setPartnerName] = useState("");
+  const [roomSize, setRoomSize] = useState(4);
 
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState("");
   const [currentInputAction, setCurrentInputAction] = useState<string | null>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
 
-  const [gameState, setGameState] = useState<GameState>({
-    players: [],
-    currentPlayerIndex: 0,
-    roundCount: 0,
-    truthCount: 0,
-    dareCount: 0,
-  });
-
   const [floatingReactions, setFloatingReactions] = useState<
     { id: number; x: number; y?: number; emoji: string; delay?: number; scale?: number }[]
   >([]);
@@ -122,34 +152,104 @@ const TruthOrDare: React.FC = () => {
   const [darePhotoBase64, setDarePhotoBase64] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
   const { setGameActive, setActiveGameName } = useActiveGame();
 
-  // Refs for callbacks to avoid stale closures
-  const gameStateRef = useRef(gameState);
-  const messagesRef = useRef(messages);
-  const modeRef = useRef(mode);
-  useEffect(() => {
-    gameStateRef.current = gameState;
-  }, [gameState]);
-  useEffect(() => {
-    messagesRef.current = messages;
-  }, [messages]);
-  useEffect(() => {
-    modeRef.current = mode;
-  }, [mode]);
+  const {
+    state: gameState,
+    dispatch,
+    room,
+    status,
+    players: lobbyPlayers,
+    me,
+    spectators,
+    capacity,
+    hostSeat,
+    createRoom: createOnlineRoom,
+    joinRoom: joinOnlineRoom,
+    leaveRoom,
+    startGame,
+  } = useRealtimeRoom<GameState, GameAction>({
+    gameType: "truthordare",
+    reducer: gameReducer,
+    lobby: true,
+    initialState: createGameState(),
+    playerName: playerName.trim(),
+    onPlayerJoined: (player) => {
+      dispatch({
+        type: "player_joined",
+        player: { id: player.id, name: player.name, skipsLeft: 2, points: 0 },
+      });
+    },
+    onPlayerLeft: (player) => handlePlayerLeft(player.id),
+    onAction: (action) => {
+      if (action.type === "start") {
+        celebrateHearts();
+        haptics.success();
+        soundManager.playLocalSound("start");
+      }
+    },
+    onOpponentLeft: () => {
+      resetLocalState();
+    },
+    events: {
+      reaction: (payload) => {
+        if (typeof payload?.emoji === 'string') {
+          showFloatingEmoji(payload.emoji);
+          soundManager.playEmojiSound(payload.emoji);
+        }
+      },
+    },
+  });
+
+  const quickMatch = useQuickMatch({
+    gameType: "truthordare",
+    status,
+    players: lobbyPlayers,
+    createRoom: async () => {
+      const session = await createOnlineRoom(
+        createGameState([{ id: me.id, name: playerName.trim() || me.name, skipsLeft: 2, points: 0 }]),
+        roomSize
+      );
+      if (session) {
+        setGameActive(true);
+        setActiveGameName("truth-or-dare");
+      }
+      return session;
+    },
+    joinRoom: async (code) => {
+      const session = await joinOnlineRoom(code);
+      if (session) {
+        setGameActive(true);
+        setActiveGameName("truth-or-dare");
+      }
+      return session;
+    },
+    leaveRoom: () => leaveGame(),
+    onOpponentFound: () => startMatch(),
+  });
+
+  const { messages } = gameState;
+  const playerId = me.id;
+  const roomCode = room?.code || "";
 
   // Derived state
   const myPlayerIndex = gameState.players.findIndex((p) => p.id === playerId);
   const currentPlayer = gameState.players[gameState.currentPlayerIndex];
   const isMyTurn = currentPlayer?.id === playerId;
+  // The next player in the circle asks the question
+  const askerIndex = gameState.players.length > 0 ? (gameState.currentPlayerIndex + 1) % gameState.players.length : -1;
+  const asker = gameState.players[askerIndex];
+  const isSpectator = !!room?.isSpectator;
+
+  // Follow the room lifecycle; the host starts the game from the lobby
+  useEffect(() => {
+    if (status === "idle") return;
+    setMode(status === "playing" ? "playing" : "waiting");
+  }, [status]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-      }
       setGameActive(false);
       setActiveGameName('');
     };
@@ -194,14 +294,6 @@ const TruthOrDare: React.FC = () => {
     };
   }, [currentInputAction]);
 
-  // Re-evaluate input action when gameState changes (handles race condition with messages)
-  useEffect(() => {
-    if (mode === "playing" && messages.length > 0) {
-      const action = determineInputAction(messages, gameState, playerId);
-      setCurrentInputAction(action);
-    }
-  }, [gameState.currentPlayerIndex, messages, playerId, mode]);
-
   // --- Determine Input Action ---
   const determineInputAction = useCallback(
     (msgs: ChatMessage[], state: GameState, currentPlayerId: string): string | null => {
@@ -209,6 +301,8 @@ const TruthOrDare: React.FC = () => {
 
       const currentTurnPlayer = state.players[state.currentPlayerIndex];
       const isCurrentTurnPlayer = currentTurnPlayer?.id === currentPlayerId;
+      const askingPlayer = state.players[(state.currentPlayerIndex + 1) % state.players.length];
+      const isAskingPlayer = askingPlayer?.id === currentPlayerId;
 
       const reversedMsgs = [...msgs].reverse();
       const lastInputMsgIdx = reversedMsgs.findIndex((m) => m.message_type === "input" && m.content.inputAction);
@@ -223,9 +317,9 @@ const TruthOrDare: React.FC = () => {
       const lastInputMsg = reversedMsgs[lastInputMsgIdx];
       const action = lastInputMsg.content.inputAction;
 
-      // 'submit_question' -> The OPPONENT (not current turn player) needs to type
+      // 'submit_question' -> The next player in the circle asks the current turn player
       if (action === "submit_question") {
-        if (!isCurrentTurnPlayer) return "submit_question";
+        if (isAskingPlayer) return "submit_question";
         return null;
       }
 
@@ -240,119 +334,25 @@ const TruthOrDare: React.FC = () => {
     []
   );
 
-  // --- Setup Realtime Channel ---
-  const setupChannel = useCallback(
-    (code: string) => {
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-      }
-
-      const channel = supabase.channel(`tod-${code}`, {
-        config: { broadcast: { self: true } },
-      });
-
-      channel
-        .on("broadcast", { event: "game_state" }, ({ payload }) => {
-          setGameState(payload.state);
-          
-          const otherPlayer = payload.state.players.find((p: Player) => p.id !== playerId);
-          if (otherPlayer) setPartnerName(otherPlayer.name);
-          
-          if (payload.state.players.length === 2 && modeRef.current === "waiting") {
-            setMode("playing");
-            celebrateHearts();
-            haptics.success();
-            soundManager.playLocalSound("start");
-          }
-        })
-        .on("broadcast", { event: "message" }, ({ payload }) => {
-          setMessages((prev) => {
-            const exists = prev.some((m) => m.id === payload.message.id);
-            if (exists) return prev;
-            const newMsgs = [...prev, payload.message];
-            const action = determineInputAction(newMsgs, gameStateRef.current, playerId);
-            setCurrentInputAction(action);
-            return newMsgs;
-          });
-        })
-        .on("broadcast", { event: "disable_message" }, ({ payload }) => {
-          setMessages((prev) =>
-            prev.map((m) => (m.id === payload.messageId ? { ...m, disabled: true } : m))
-          );
-        })
-        .on("broadcast", { event: "game_left" }, () => {
-          toast.info("Game ended");
-          leaveGame();
-        })
-        .on("broadcast", { event: "reaction" }, ({ payload }) => {
-          showFloatingEmoji(payload.emoji);
-          soundManager.playEmojiSound(payload.emoji);
-        })
-        .subscribe();
-
-      channelRef.current = channel;
-    },
-    [mode, playerId, determineInputAction]
-  );
-
-  // --- Broadcast Helpers ---
-  const broadcastState = (state: GameState) => {
-    channelRef.current?.send({
-      type: "broadcast",
-      event: "game_state",
-      payload: { state },
-    });
-  };
-
-  const broadcastMessage = (message: ChatMessage) => {
-    channelRef.current?.send({
-      type: "broadcast",
-      event: "message",
-      payload: { message },
-    });
-  };
-
-  const broadcastDisableMessage = (messageId: string) => {
-    channelRef.current?.send({
-      type: "broadcast",
-      event: "disable_message",
-      payload: { messageId },
-    });
-  };
+  // Re-evaluate input action whenever the shared state changes
+  useEffect(() => {
+    if (mode === "playing") {
+      setCurrentInputAction(isSpectator ? null : determineInputAction(messages, gameState, playerId));
+    }
+  }, [gameState, messages, playerId, mode, isSpectator, determineInputAction]);
 
   // --- Leave Game ---
-  const leaveGame = useCallback(() => {
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: "broadcast",
-        event: "game_left",
-        payload: {},
-      });
-      supabase.removeChannel(channelRef.current);
-      channelRef.current = null;
-    }
+  const resetLocalState = () => {
     setMode("menu");
-    setRoomId(null);
-    setRoomCode("");
-    setMessages([]);
-    setGameState({
-      players: [],
-      currentPlayerIndex: 0,
-      roundCount: 0,
-      truthCount: 0,
-      dareCount: 0,
-    });
-    setPartnerName("");
     setCurrentInputAction(null);
+    setInputValue("");
     setGameActive(false);
     setActiveGameName('');
-  }, [setGameActive, setActiveGameName]);
+  };
 
-  // --- Copy Room Code ---
-  const copyRoomCode = () => {
-    navigator.clipboard.writeText(roomCode);
-    toast.success("Code copied!");
-    haptics.light();
+  const leaveGame = async () => {
+    await leaveRoom();
+    resetLocalState();
   };
 
   // --- Floating Emoji ---
@@ -393,32 +393,74 @@ const TruthOrDare: React.FC = () => {
     setDarePhotoBase64(null);
   };
 
+  // Hand the turn to the next player with fresh Truth/Dare buttons
+  const nextTurn = (state: Omit<GameState, "messages">) => {
+    const nextPlayer = state.players[state.currentPlayerIndex];
+    const turnMsg: ChatMessage = {
+      id: generateId(),
+      sender: "system",
+      message_type: "buttons",
+      content: createTurnMessageContent(nextPlayer.name, nextPlayer.id, state.truthCount, state.dareCount, true),
+      created_at: new Date().toISOString(),
+    };
+    return turnMsg;
+  };
+
+  // --- Player Left (host) ---
+  // Drop them from the circle; if they were answering or asking, the turn restarts without them
+  const handlePlayerLeft = (leftId: string) => {
+    const index = gameState.players.findIndex((p) => p.id === leftId);
+    if (index === -1) return;
+
+    const { messages: _messages, ...turnState } = gameState;
+    const players = gameState.players.filter((p) => p.id !== leftId);
+    const current = gameState.currentPlayerIndex;
+    const askerIndex = (current + 1) % gameState.players.length;
+    const newState = {
+      ...turnState,
+      players,
+      currentPlayerIndex: players.length === 0 ? 0 : (index < current ? current - 1 : current) % players.length,
+    };
+
+    // Nothing has been said yet in the lobby
+    if (mode !== "playing" || players.length === 0) {
+      dispatch({ type: "update", state: newState });
+      return;
+    }
+
+    const leftMsg: ChatMessage = {
+      id: generateId(),
+      sender: "system",
+      message_type: "text",
+      content: { text: `👋 ${gameState.players[index].name} left the game` },
+      created_at: new Date().toISOString(),
+    };
+    const involved = index === current || index === askerIndex;
+    dispatch({ type: "update", messages: involved ? [leftMsg, nextTurn(newState)] : [leftMsg], state: newState });
+  };
+
   // --- Button Click Handler ---
   const handleButtonClick = async (buttonValue: string, messageId: string) => {
-    if (isSubmitting || !roomId) return;
+    if (isSubmitting || !room || room.isSpectator) return;
     haptics.light();
-    setIsSubmitting(true);
-
-    // Disable the button message
-    setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, disabled: true } : m)));
-    broadcastDisableMessage(messageId);
 
     if (buttonValue === "truth" || buttonValue === "dare") {
-      const newState: GameState = { ...gameState, currentType: buttonValue as "truth" | "dare" };
+      setIsSubmitting(true);
+      const { messages: _messages, ...turnState } = gameState;
 
       // 1. Announce Choice
       const choiceMsg: ChatMessage = {
         id: generateId(),
-        sender: myPlayerIndex === 0 ? "player1" : "player2",
+        sender: "player",
+        sender_id: playerId,
         sender_name: playerName,
         message_type: "text",
         content: { text: buttonValue === "truth" ? "💬 I choose TRUTH!" : "🔥 I choose DARE!" },
         created_at: new Date().toISOString(),
       };
 
-      // 2. Ask OPPONENT to type question (opponent is NOT the current turn player)
-      const opponent = gameState.players.find((p) => p.id !== playerId);
-      const opponentName = opponent?.name || "Partner";
+      // 2. Ask the next player in the circle to type the question
+      const askerName = asker?.name || "Partner";
 
       const inputMsg: ChatMessage = {
         id: generateId(),
@@ -426,7 +468,7 @@ const TruthOrDare: React.FC = () => {
         message_type: "input",
         content: {
           text: buttonValue === "truth" ? `💬 ${playerName} CHOSE TRUTH` : `🔥 ${playerName} CHOSE DARE`,
-          subtext: `${opponentName}, please type your ${buttonValue === "truth" ? "question" : "dare"} for ${playerName}:`,
+          subtext: `${askerName}, please type your ${buttonValue === "truth" ? "question" : "dare"} for ${playerName}:`,
           inputPlaceholder: buttonValue === "truth" ? "Ask a truth question..." : "Give a dare...",
           inputAction: "submit_question",
           questionType: buttonValue as "truth" | "dare",
@@ -434,26 +476,21 @@ const TruthOrDare: React.FC = () => {
         created_at: new Date().toISOString(),
       };
 
-      setMessages((prev) => [...prev, choiceMsg, inputMsg]);
-      broadcastMessage(choiceMsg);
-      broadcastMessage(inputMsg);
-      
-      setGameState(newState);
-      broadcastState(newState);
-      
-      // Re-evaluate input action
-      const action = determineInputAction([...messagesRef.current, choiceMsg, inputMsg], newState, playerId);
-      setCurrentInputAction(action);
+      dispatch({
+        type: "update",
+        disableMessageId: messageId,
+        messages: [choiceMsg, inputMsg],
+        state: { ...turnState, currentType: buttonValue as "truth" | "dare" },
+      });
+      setIsSubmitting(false);
     } else if (buttonValue === "end") {
       leaveGame();
     }
-    
-    setIsSubmitting(false);
   };
 
   // --- Input Submit Handler ---
   const handleInputSubmit = async () => {
-    if (!inputValue.trim() || isSubmitting || !roomId) return;
+    if (!inputValue.trim() || isSubmitting || !room || room.isSpectator) return;
     haptics.light();
     setIsSubmitting(true);
 
@@ -465,7 +502,8 @@ const TruthOrDare: React.FC = () => {
       // 1. Save Question as player message
       const questionMsg: ChatMessage = {
         id: generateId(),
-        sender: myPlayerIndex === 0 ? "player1" : "player2",
+        sender: "player",
+        sender_id: playerId,
         sender_name: playerName,
         message_type: "text",
         content: { text: inputValue.trim() },
@@ -488,14 +526,8 @@ const TruthOrDare: React.FC = () => {
         created_at: new Date().toISOString(),
       };
 
-      setMessages((prev) => [...prev, questionMsg, answerInputMsg]);
-      broadcastMessage(questionMsg);
-      broadcastMessage(answerInputMsg);
+      dispatch({ type: "update", messages: [questionMsg, answerInputMsg] });
       setInputValue("");
-      
-      // Re-evaluate input action
-      const action = determineInputAction([...messagesRef.current, questionMsg, answerInputMsg], gameState, playerId);
-      setCurrentInputAction(action);
 
     // PHASE 2: Current Player Answering
     } else if (currentInputAction === "submit_answer") {
@@ -503,13 +535,14 @@ const TruthOrDare: React.FC = () => {
       soundManager.playLocalSound("win");
       toast.success("Answered! +10 points!");
 
-      const questionMsg = [...messagesRef.current].reverse().find((m) => m.content.question);
+      const questionMsg = [...messages].reverse().find((m) => m.content.question);
       const question = questionMsg?.content.question || "";
       const questionType = questionMsg?.content.questionType || "truth";
 
       const answerMsg: ChatMessage = {
         id: generateId(),
-        sender: myPlayerIndex === 0 ? "player1" : "player2",
+        sender: "player",
+        sender_id: playerId,
         sender_name: playerName,
         message_type: "text",
         content: { text: inputValue.trim() },
@@ -531,45 +564,21 @@ const TruthOrDare: React.FC = () => {
       };
 
       // SWITCH TURN to next player
-      const currentState = gameStateRef.current;
-      const nextIndex = (currentState.currentPlayerIndex + 1) % currentState.players.length;
-      const nextPlayer = currentState.players[nextIndex];
-
+      const { messages: _messages, ...currentState } = gameState;
       const updatedPlayers = currentState.players.map((p, idx) =>
         idx === myPlayerIndex ? { ...p, points: p.points + POINTS.TRUTH_ANSWERED } : p
       );
 
-      const newState: GameState = {
+      const newState = {
         ...currentState,
         players: updatedPlayers,
-        currentPlayerIndex: nextIndex,
+        currentPlayerIndex: (currentState.currentPlayerIndex + 1) % currentState.players.length,
         currentType: undefined,
         roundCount: currentState.roundCount + 1,
         truthCount: currentState.truthCount + 1,
       };
 
-      // Show Buttons for Next Player
-      const turnMsg: ChatMessage = {
-        id: generateId(),
-        sender: "system",
-        message_type: "buttons",
-        content: createTurnMessageContent(
-          nextPlayer.name,
-          nextPlayer.id,
-          newState.truthCount,
-          newState.dareCount,
-          true
-        ),
-        created_at: new Date().toISOString(),
-      };
-
-      setMessages((prev) => [...prev, answerMsg, resultMsg, turnMsg]);
-      broadcastMessage(answerMsg);
-      broadcastMessage(resultMsg);
-      broadcastMessage(turnMsg);
-      
-      setGameState(newState);
-      broadcastState(newState);
+      dispatch({ type: "update", messages: [answerMsg, resultMsg, nextTurn(newState)], state: newState });
       setCurrentInputAction(null);
       setInputValue("");
     }
@@ -579,19 +588,20 @@ const TruthOrDare: React.FC = () => {
 
   // --- Dare Complete Handler ---
   const handleDareComplete = async () => {
-    if (isSubmitting || !roomId) return;
+    if (isSubmitting || !room || room.isSpectator) return;
     setIsSubmitting(true);
 
     celebrateHearts();
     soundManager.playLocalSound("win");
     toast.success("Dare completed! +20 points!");
 
-    const questionMsg = [...messagesRef.current].reverse().find((m) => m.content.question);
+    const questionMsg = [...messages].reverse().find((m) => m.content.question);
     const question = questionMsg?.content.question || "";
 
     const completionMsg: ChatMessage = {
       id: generateId(),
-      sender: myPlayerIndex === 0 ? "player1" : "player2",
+      sender: "player",
+      sender_id: playerId,
       sender_name: playerName,
       message_type: "text",
       content: { text: darePhotoBase64 ? "✅ I completed the dare! 📸" : "✅ I completed the dare!" },
@@ -614,38 +624,21 @@ const TruthOrDare: React.FC = () => {
     };
 
     // SWITCH TURN
-    const currentState = gameStateRef.current;
-    const nextIndex = (currentState.currentPlayerIndex + 1) % currentState.players.length;
-    const nextPlayer = currentState.players[nextIndex];
-
+    const { messages: _messages, ...currentState } = gameState;
     const updatedPlayers = currentState.players.map((p, idx) =>
       idx === myPlayerIndex ? { ...p, points: p.points + POINTS.DARE_COMPLETED } : p
     );
 
-    const newState: GameState = {
+    const newState = {
       ...currentState,
       players: updatedPlayers,
-      currentPlayerIndex: nextIndex,
+      currentPlayerIndex: (currentState.currentPlayerIndex + 1) % currentState.players.length,
       currentType: undefined,
       roundCount: currentState.roundCount + 1,
       dareCount: currentState.dareCount + 1,
     };
 
-    const turnMsg: ChatMessage = {
-      id: generateId(),
-      sender: "system",
-      message_type: "buttons",
-      content: createTurnMessageContent(nextPlayer.name, nextPlayer.id, newState.truthCount, newState.dareCount, true),
-      created_at: new Date().toISOString(),
-    };
-
-    setMessages((prev) => [...prev, completionMsg, resultMsg, turnMsg]);
-    broadcastMessage(completionMsg);
-    broadcastMessage(resultMsg);
-    broadcastMessage(turnMsg);
-    
-    setGameState(newState);
-    broadcastState(newState);
+    dispatch({ type: "update", messages: [completionMsg, resultMsg, nextTurn(newState)], state: newState });
     setCurrentInputAction(null);
     setDarePhoto(null);
     setDarePhotoPreview(null);
@@ -655,9 +648,9 @@ const TruthOrDare: React.FC = () => {
 
   // --- Skip Handler ---
   const handleSkip = async () => {
-    if (isSubmitting || !roomId) return;
+    if (isSubmitting || !room || room.isSpectator) return;
 
-    const currentState = gameStateRef.current;
+    const { messages: _messages, ...currentState } = gameState;
     const currentPlayerData = currentState.players[myPlayerIndex];
     if (!currentPlayerData || currentPlayerData.skipsLeft <= 0) {
       toast.error("No skips left!");
@@ -666,12 +659,13 @@ const TruthOrDare: React.FC = () => {
 
     setIsSubmitting(true);
 
-    const questionMsg = [...messagesRef.current].reverse().find((m) => m.content.question);
+    const questionMsg = [...messages].reverse().find((m) => m.content.question);
     const question = questionMsg?.content.question || "";
 
     const skipMsg: ChatMessage = {
       id: generateId(),
-      sender: myPlayerIndex === 0 ? "player1" : "player2",
+      sender: "player",
+      sender_id: playerId,
       sender_name: playerName,
       message_type: "text",
       content: { text: "⏭️ I skip this one!" },
@@ -693,37 +687,21 @@ const TruthOrDare: React.FC = () => {
     };
 
     // SWITCH TURN
-    const nextIndex = (currentState.currentPlayerIndex + 1) % currentState.players.length;
-    const nextPlayer = currentState.players[nextIndex];
     const updatedPlayers = currentState.players.map((p, idx) =>
       idx === myPlayerIndex
         ? { ...p, skipsLeft: p.skipsLeft - 1, points: Math.max(0, p.points + POINTS.SKIP_PENALTY) }
         : p
     );
 
-    const newState: GameState = {
+    const newState = {
       ...currentState,
       players: updatedPlayers,
-      currentPlayerIndex: nextIndex,
+      currentPlayerIndex: (currentState.currentPlayerIndex + 1) % currentState.players.length,
       currentType: undefined,
       roundCount: currentState.roundCount + 1,
     };
 
-    const turnMsg: ChatMessage = {
-      id: generateId(),
-      sender: "system",
-      message_type: "buttons",
-      content: createTurnMessageContent(nextPlayer.name, nextPlayer.id, newState.truthCount, newState.dareCount, true),
-      created_at: new Date().toISOString(),
-    };
-
-    setMessages((prev) => [...prev, skipMsg, resultMsg, turnMsg]);
-    broadcastMessage(skipMsg);
-    broadcastMessage(resultMsg);
-    broadcastMessage(turnMsg);
-    
-    setGameState(newState);
-    broadcastState(newState);
+    dispatch({ type: "update", messages: [skipMsg, resultMsg, nextTurn(newState)], state: newState });
     setCurrentInputAction(null);
     setIsSubmitting(false);
   };
@@ -735,26 +713,14 @@ const TruthOrDare: React.FC = () => {
       return;
     }
 
-    const code = generateRoomCode();
-    const rid = generateId();
-    
-    const initialState: GameState = {
-      players: [{ id: playerId, name: playerName.trim(), skipsLeft: 2, points: 0 }],
-      currentPlayerIndex: 0,
-      roundCount: 0,
-      truthCount: 0,
-      dareCount: 0,
-    };
-
-    setRoomCode(code);
-    setRoomId(rid);
-    setGameState(initialState);
-    setMode("waiting");
-    setGameActive(true);
-    setActiveGameName("truth-or-dare");
-    
-    setupChannel(code);
-    broadcastState(initialState);
+    const session = await createOnlineRoom(
+      createGameState([{ id: playerId, name: playerName.trim(), skipsLeft: 2, points: 0 }]),
+      roomSize
+    );
+    if (session) {
+      setGameActive(true);
+      setActiveGameName("truth-or-dare");
+    }
   };
 
   // --- Join Room ---
@@ -763,93 +729,44 @@ const TruthOrDare: React.FC = () => {
       toast.error("Name must be at least 2 characters");
       return;
     }
-    if (!inputCode || inputCode.length !== 4) {
-      toast.error("Room code must be 4 characters");
+    if (!inputCode || inputCode.length !== ROOM_CODE_LENGTH) {
+      toast.error(`Room code must be ${ROOM_CODE_LENGTH} characters`);
       return;
     }
 
-    const code = inputCode.toUpperCase();
-    setRoomCode(code);
-    setRoomId(generateId());
-    setMode("waiting");
-    setGameActive(true);
-    setActiveGameName("truth-or-dare");
-    
-    setupChannel(code);
-
-    // Wait a moment for channel to connect, then request to join
-    setTimeout(() => {
-      const newPlayer: Player = { id: playerId, name: playerName.trim(), skipsLeft: 2, points: 0 };
-      
-      channelRef.current?.send({
-        type: "broadcast",
-        event: "join_request",
-        payload: { player: newPlayer },
-      });
-    }, 500);
+    const session = await joinOnlineRoom(inputCode);
+    if (session) {
+      setGameActive(true);
+      setActiveGameName("truth-or-dare");
+    }
   };
 
-  // Listen for join requests (host only)
-  useEffect(() => {
-    if (!channelRef.current || mode !== "waiting") return;
-
-    const handleJoinRequest = ({ payload }: { payload: { player: Player } }) => {
-      // Only host handles join requests (has 1 player)
-      if (gameState.players.length !== 1) return;
-      if (gameState.players.some(p => p.id === payload.player.id)) return;
-
-      const newState: GameState = {
-        ...gameState,
-        players: [...gameState.players, payload.player],
-      };
-
-      setGameState(newState);
-      setPartnerName(payload.player.name);
-      broadcastState(newState);
-
-      // Start game with welcome message
-      const welcomeMsg: ChatMessage = {
-        id: generateId(),
-        sender: "system",
-        message_type: "text",
-        content: { 
-          text: "🎉 Welcome!", 
-          subtext: `${gameState.players[0].name} 🤝 ${payload.player.name}` 
-        },
-        created_at: new Date().toISOString(),
-      };
-      
-      const turnMsg: ChatMessage = {
-        id: generateId(),
-        sender: "system",
-        message_type: "buttons",
-        content: createTurnMessageContent(
-          gameState.players[0].name,
-          gameState.players[0].id,
-          0,
-          0,
-          true
-        ),
-        created_at: new Date().toISOString(),
-      };
+  // --- Start Game (host) ---
+  const startMatch = async () => {
+    const host = gameState.players[0];
+    if (!host || !(await startGame())) return;
 
-      setMessages([welcomeMsg, turnMsg]);
-      broadcastMessage(welcomeMsg);
-      broadcastMessage(turnMsg);
-      
-      // Transition to playing mode for host
-      setMode("playing");
-      celebrateHearts();
-      haptics.success();
-      soundManager.playLocalSound("start");
+    const welcomeMsg: ChatMessage = {
+      id: generateId(),
+      sender: "system",
+      message_type: "text",
+      content: {
+        text: "🎉 Welcome!",
+        subtext: gameState.players.map((p) => p.name).join(" 🤝 "),
+      },
+      created_at: new Date().toISOString(),
     };
 
-    channelRef.current.on("broadcast", { event: "join_request" }, handleJoinRequest);
-
-    return () => {
-      // Cleanup handled by channel removal
+    const turnMsg: ChatMessage = {
+      id: generateId(),
+      sender: "system",
+      message_type: "buttons",
+      content: createTurnMessageContent(host.name, host.id, 0, 0, true),
+      created_at: new Date().toISOString(),
     };
-  }, [mode, gameState]);
+
+    dispatch({ type: "start", messages: [welcomeMsg, turnMsg] });
+  };
 
   // --- Render Logic ---
   const shouldShowButtonsForMessage = (msg: ChatMessage, allMessages: ChatMessage[]): boolean => {
@@ -867,7 +784,7 @@ const TruthOrDare: React.FC = () => {
 
   const renderMessage = (msg: ChatMessage) => {
     const isSystem = msg.sender === "system";
-    const isMe = (msg.sender === "player1" && myPlayerIndex === 0) || (msg.sender === "player2" && myPlayerIndex === 1);
+    const isMe = msg.sender_id === playerId;
 
     if (isSystem) {
       return (
@@ -1002,6 +919,15 @@ const TruthOrDare: React.FC = () => {
     </div>
   );
 
+  // Quick match search / nobody found
+  if (quickMatch.phase !== "idle" && (mode === "menu" || mode === "waiting")) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-6 space-y-8 bg-gradient-to-b from-background to-secondary/20">
+        <QuickMatchPanel quickMatch={quickMatch} fallbacks={[{ label: "Create Private Room", onSelect: () => setMode("create") }]} />
+      </div>
+    );
+  }
+
   // --- MENU VIEW ---
   if (mode === "menu") {
     return (
@@ -1015,9 +941,11 @@ const TruthOrDare: React.FC = () => {
           <h1 className="text-3xl font-bold bg-gradient-to-r from-pink-500 to-purple-600 bg-clip-text text-transparent">
             Truth or Dare
           </h1>
-          <p className="text-muted-foreground">Play with a friend!</p>
+          <p className="text-muted-foreground">Play with your friends!</p>
         </div>
 
+        <QuickMatchPanel quickMatch={quickMatch} />
+
         <div className="flex flex-col gap-4 w-full max-w-xs">
           <Button
             className="h-14 text-lg bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700"
@@ -1054,9 +982,9 @@ const TruthOrDare: React.FC = () => {
               <label className="text-xs font-semibold text-muted-foreground uppercase">Room Code</label>
               <Input
                 value={inputCode}
-                onChange={(e) => setInputCode(e.target.value.toUpperCase().slice(0, 4))}
+                onChange={(e) => setInputCode(e.target.value.toUpperCase().slice(0, ROOM_CODE_LENGTH))}
                 className="text-center text-2xl tracking-[0.5em] font-mono h-14 uppercase"
-                placeholder="ABCD"
+                placeholder="ABC123"
               />
             </div>
           )}
@@ -1071,6 +999,8 @@ const TruthOrDare: React.FC = () => {
             />
           </div>
 
+          {mode === "create" && <LobbySizePicker value={roomSize} onChange={setRoomSize} />}
+
           <Button
             className="w-full h-12 text-lg mt-4 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700"
             onClick={mode === "create" ? createRoom : joinRoom}
@@ -1082,43 +1012,23 @@ const TruthOrDare: React.FC = () => {
     );
   }
 
-  // --- WAITING VIEW ---
+  // --- LOBBY VIEW ---
   if (mode === "waiting") {
     return (
-      <div className="flex flex-col items-center justify-center h-full p-6 space-y-8 bg-gradient-to-b from-background to-secondary/20">
-        <div className="text-center space-y-2">
-          <h2 className="text-xl font-bold text-foreground">Waiting for friend...</h2>
-          <p className="text-muted-foreground text-sm">Share this code with your partner</p>
-        </div>
-
-        <button
-          onClick={copyRoomCode}
-          className="bg-card px-8 py-6 rounded-3xl shadow-sm border border-border flex flex-col items-center gap-2 transition-transform active:scale-95"
+      <div className="flex flex-col items-center justify-center h-full p-6 bg-gradient-to-b from-background to-secondary/20">
+        <RoomLobby
+          roomCode={roomCode}
+          gameType="truthordare"
+          players={lobbyPlayers}
+          capacity={capacity}
+          hostSeat={hostSeat}
+          isHost={!!room?.isHost}
+          myId={playerId}
+          onStart={startMatch}
+          onLeave={leaveGame}
         >
-          <span className="text-4xl font-mono font-bold text-primary tracking-widest">{roomCode}</span>
-          <span className="text-xs text-muted-foreground flex items-center gap-1">
-            <Copy className="w-3 h-3" /> Tap to copy
-          </span>
-        </button>
-
-        <div className="w-full max-w-xs bg-card/50 rounded-xl p-4 border border-border">
-          <p className="text-xs font-bold text-muted-foreground uppercase mb-2">Players Joined</p>
-          <div className="space-y-2">
-            {gameState.players.map((p) => (
-              <div key={p.id} className="flex items-center gap-2 text-foreground">
-                <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                {p.name} {p.id === playerId && <span className="text-muted-foreground text-xs">(You)</span>}
-              </div>
-            ))}
-            {gameState.players.length === 0 && (
-              <p className="text-muted-foreground text-sm italic">Loading...</p>
-            )}
-          </div>
-        </div>
-
-        <Button variant="ghost" onClick={leaveGame} className="text-muted-foreground hover:text-destructive">
-          Cancel
-        </Button>
+          <p className="text-muted-foreground text-sm">Take turns in a circle - the next player asks the questions</p>
+        </RoomLobby>
       </div>
     );
   }
@@ -1135,9 +1045,9 @@ const TruthOrDare: React.FC = () => {
         <Button variant="ghost" onClick={leaveGame} className="p-2">
           <ArrowLeft className="w-5 h-5 text-muted-foreground" />
         </Button>
-        <div className="text-center">
-          <p className="font-bold text-foreground text-sm">
-            {playerName} <span className="text-primary">vs</span> {partnerName}
+        <div className="text-center min-w-0 px-2">
+          <p className="font-bold text-foreground text-sm truncate">
+            {gameState.players.map((p) => p.name).join(" • ")}
           </p>
           <div className="flex items-center justify-center gap-1">
             <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
@@ -1146,10 +1056,20 @@ const TruthOrDare: React.FC = () => {
         </div>
         <div className="flex flex-col items-end">
           <span className="text-xs font-bold text-muted-foreground">PTS</span>
-          <span className="text-sm font-bold text-primary">{gameState.players[myPlayerIndex]?.points || 0}</span>
+          <span className="text-sm font-bold text-primary">
+            {isSpectator
+              ? gameState.players.map((p) => p.points).join(" - ")
+              : gameState.players[myPlayerIndex]?.points || 0}
+          </span>
         </div>
       </div>
 
+      {(isSpectator || spectators.length > 0) && (
+        <div className="px-4 pt-2 shrink-0">
+          <SpectatorBanner isSpectator={isSpectator} spectatorCount={spectators.length} />
+        </div>
+      )}
+
       {/* Chat Area */}
       <div className="flex-1 overflow-y-auto p-4 space-y-2 scroll-smooth" ref={chatContainerRef}>
         {messages.map((msg) => renderMessage(msg))}
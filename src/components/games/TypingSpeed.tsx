@@ -103,9 +103,9 @@ const TypingSpeed: React.FC = () => {
       }
       
       const score = wpm * (accuracy / 100);
-      addScore(GAME_TYPES.TYPING_SPEED || 'typing_speed', playerName, Math.round(score), `${wpm} WPM, ${accuracy}% acc`);
+      addScore(GAME_TYPES.TYPING_SPEED || 'typing_speed', playerName, Math.round(score), `${wpm} WPM, ${accuracy}% acc`, difficulty);
     }
-  }, [isPlaying, timeLeft, wordsTyped, correctChars, totalChars, bestWPM, playerName, addScore]);
+  }, [isPlaying, timeLeft, wordsTyped, correctChars, totalChars, bestWPM, playerName, addScore, difficulty]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
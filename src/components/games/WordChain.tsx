@@ -1,102 +1,309 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Link2, Users, Copy, Check, Play, Trophy, Clock, ArrowLeft, Send } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Link2, Users, Play, Trophy, Clock, ArrowLeft, Send } from 'lucide-react';
 import { soundManager } from '@/utils/soundManager';
 import { haptics } from '@/utils/haptics';
 import { celebrateFireworks } from '@/utils/confetti';
 import { useToast } from '@/hooks/use-toast';
-import { RealtimeChannel } from '@supabase/supabase-js';
+import { useRealtimeRoom } from '@/hooks/useRealtimeRoom';
+import { useQuickMatch } from '@/hooks/useQuickMatch';
+import { useDeadline } from '@/hooks/useDeadline';
+import { useDifficulty } from '@/contexts/DifficultyContext';
+import { DEADLINE_GRACE, serverNow } from '@/utils/serverClock';
+import { reportTournamentMatch } from '@/utils/tournaments';
+import { WORD_CHAIN_BOT_LEVELS, pickBotName, pickWordChainBotWord, wordChainBotDelay } from '@/utils/bots';
+import {
+  DEFAULT_WORD_CHAIN_RULES,
+  WORD_CHAIN_THEMES,
+  checkWordChainWord,
+  loadWordChainDictionary,
+  normalizeWord,
+  pickStartingWord,
+  playableWords,
+  requiredStart,
+  scoreWordChainWord,
+  type WordChainDictionary,
+  type WordChainRules,
+} from '@/utils/wordChain';
+import ReconnectingBanner from '@/components/ReconnectingBanner';
+import SpectatorBanner from '@/components/SpectatorBanner';
+import QuickMatchPanel from '@/components/QuickMatchPanel';
+import RoomLobby from '@/components/RoomLobby';
+import LobbySizePicker from '@/components/LobbySizePicker';
+import WordChainRulesPicker from '@/components/WordChainRulesPicker';
 
 type GameMode = 'menu' | 'create' | 'join' | 'waiting' | 'playing' | 'ended';
 
 interface GameState {
   words: string[];
-  currentTurn: 1 | 2;
-  scores: { player1: number; player2: number };
-  timeLeft: number;
+  /** Seat of the player whose turn it is */
+  currentTurn: number;
+  /** When the current turn runs out, on the server's clock; set by the server */
+  turnDeadline: number | null;
+  /** Player names by seat */
+  players: string[];
+  scores: number[];
+  eliminated: boolean[];
   status: 'waiting' | 'playing' | 'ended';
   winner: string | null;
-  playerNames: { player1: string; player2: string };
   lastWord: string;
+  /** Chosen by the host when creating the room */
+  rules: WordChainRules;
 }
 
-const TURN_TIME = 15; // seconds per turn
+type GameAction =
+  | { type: 'player_joined'; seat: number; name: string }
+  | { type: 'start' }
+  | { type: 'word'; seat: number; word: string }
+  | { type: 'timeout'; seat: number }
+  | { type: 'player_left'; seat: number };
+
+const TURN_TIME = 15; // seconds per turn, matching the server rule
+
+const createGameState = (hostName = '', startWord = '', rules = DEFAULT_WORD_CHAIN_RULES): GameState => ({
+  words: startWord ? [startWord] : [],
+  currentTurn: 0,
+  turnDeadline: null,
+  players: hostName ? [hostName] : [],
+  scores: [0],
+  eliminated: [false],
+  status: 'waiting',
+  winner: null,
+  lastWord: startWord,
+  rules,
+});
+
+const describeRules = ({ link, theme }: WordChainRules) => {
+  const themeLabel = WORD_CHAIN_THEMES.find(({ id }) => id === theme)?.label;
+  const chain = link === 2 ? 'Chain on the last two letters' : 'Chain on the last letter';
+  return themeLabel ? `${chain} · ${themeLabel} only` : chain;
+};
+
+/** The next seat after `seat` that is still in the game */
+const nextSeat = (seat: number, eliminated: boolean[]): number => {
+  for (let i = 1; i <= eliminated.length; i++) {
+    const next = (seat + i) % eliminated.length;
+    if (!eliminated[next]) return next;
+  }
+  return seat;
+};
+
+const nextDeadline = () => serverNow() + TURN_TIME * 1000;
+
+/** Knock a seat out; the last player standing wins */
+const eliminate = (state: GameState, out: number): GameState => {
+  const eliminated = [...state.eliminated];
+  eliminated[out] = true;
+  if (state.status !== 'playing') return { ...state, eliminated };
+
+  const remaining = state.players.filter((_, seat) => !eliminated[seat]);
+  if (remaining.length <= 1) {
+    return { ...state, eliminated, status: 'ended', winner: remaining[0] ?? null, turnDeadline: null };
+  }
+  if (state.currentTurn !== out) return { ...state, eliminated };
+  return { ...state, eliminated, currentTurn: nextSeat(out, eliminated), turnDeadline: nextDeadline() };
+};
+
+const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'player_joined': {
+      if (state.status !== 'waiting') return state;
+      const players = [...state.players];
+      players[action.seat] = action.name;
+      return { ...state, players };
+    }
+    case 'start': {
+      if (state.status !== 'waiting') return state;
+      // A seat whose join broadcast was missed still gets a name
+      const players = Array.from({ length: state.players.length }, (_, i) => state.players[i] || `Player ${i + 1}`);
+      // Players who left the lobby keep their seat but never get a turn
+      const eliminated = players.map((_, seat) => !!state.eliminated[seat]);
+      return {
+        ...state,
+        players,
+        scores: players.map(() => 0),
+        eliminated,
+        currentTurn: eliminated.indexOf(false),
+        turnDeadline: nextDeadline(),
+        status: 'playing',
+      };
+    }
+    case 'word': {
+      if (state.status !== 'playing' || state.currentTurn !== action.seat) return state;
+      if (state.words.includes(action.word)) return state;
+
+      const scores = [...state.scores];
+      scores[action.seat] = (scores[action.seat] || 0) + scoreWordChainWord(action.word).total;
+      return {
+        ...state,
+        words: [...state.words, action.word],
+        scores,
+        currentTurn: nextSeat(action.seat, state.eliminated),
+        turnDeadline: nextDeadline(),
+        lastWord: action.word,
+      };
+    }
+    case 'timeout': {
+      // Time's up - the player is out, and the last one standing wins
+      if (state.status !== 'playing' || state.currentTurn !== action.seat) return state;
+      return eliminate(state, action.seat);
+    }
+    case 'player_left': {
+      if (state.status === 'ended') return state;
+      return eliminate(state, action.seat);
+    }
+    default:
+      return state;
+  }
+};
 
 const WordChain: React.FC = () => {
   const { toast } = useToast();
   const [mode, setMode] = useState<GameMode>('menu');
-  const [roomCode, setRoomCode] = useState('');
-  const [roomId, setRoomId] = useState<string | null>(null);
   const [joinCode, setJoinCode] = useState('');
   const [playerName, setPlayerName] = useState('');
-  const [copied, setCopied] = useState(false);
-  const [playerNumber, setPlayerNumber] = useState<1 | 2>(1);
-  const [words, setWords] = useState<string[]>([]);
-  const [currentTurn, setCurrentTurn] = useState<1 | 2>(1);
-  const [scores, setScores] = useState({ player1: 0, player2: 0 });
-  const [timeLeft, setTimeLeft] = useState(TURN_TIME);
-  const [winner, setWinner] = useState<string | null>(null);
-  const [playerNames, setPlayerNames] = useState({ player1: '', player2: '' });
+  const [roomSize, setRoomSize] = useState(4);
   const [inputWord, setInputWord] = useState('');
-  const [lastWord, setLastWord] = useState('');
-  const channelRef = useRef<RealtimeChannel | null>(null);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-
-  const generateRoomCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
+  const [rules, setRules] = useState<WordChainRules>(DEFAULT_WORD_CHAIN_RULES);
+  const [dictionary, setDictionary] = useState<WordChainDictionary | null>(null);
+  const { difficulty } = useDifficulty();
+
+  const {
+    state,
+    dispatch,
+    dispatchAs,
+    reportTimeout,
+    room,
+    status,
+    players: lobbyPlayers,
+    bots,
+    spectators,
+    me,
+    capacity,
+    hostSeat,
+    isReconnecting,
+    createRoom: createOnlineRoom,
+    joinRoom: joinOnlineRoom,
+    leaveRoom,
+    startGame,
+    addBot,
+    updateRoomStatus,
+  } = useRealtimeRoom<GameState, GameAction>({
+    gameType: 'wordchain',
+    reducer: gameReducer,
+    serverValidated: true,
+    lobby: true,
+    initialState: createGameState(),
+    playerName,
+    onPlayerJoined: (player) => {
+      dispatch({ type: 'player_joined', seat: player.seat, name: player.name });
+    },
+    onPlayerLeft: (player) => {
+      dispatch({ type: 'player_left', seat: player.seat });
+    },
+    onAction: (action, next, remote) => {
+      if (action.type === 'word' && action.seat === mySeat && !remote) {
+        const { letters, rareLetters, longWord, total } = scoreWordChainWord(action.word);
+        const bonuses = [rareLetters && `+${rareLetters} rare letters`, longWord && `+${longWord} long word`].filter(Boolean);
+        toast({
+          title: `+${total} points`,
+          description: bonuses.length ? `${letters} letters ${bonuses.join(' ')}` : undefined,
+        });
+      } else if (action.type === 'start') {
+        soundManager.playLocalSound('start');
+        haptics.success();
+      } else if (action.type === 'timeout' && next.status !== 'ended') {
+        if (action.seat === mySeat) {
+          soundManager.playLocalSound('lose');
+          haptics.error();
+        }
+      } else if ((action.type === 'timeout' || action.type === 'player_left') && next.status === 'ended') {
+        setMode('ended');
+        if (isHost) updateRoomStatus('ended');
+        if (room?.isSpectator) return;
+        reportTournamentMatch(room.id, 'wordchain');
+        if (next.winner === next.players[mySeat]) {
+          soundManager.playLocalSound('win');
+          haptics.success();
+          celebrateFireworks();
+        } else {
+          soundManager.playLocalSound('lose');
+          haptics.error();
+        }
+      }
+    },
+    onOpponentLeft: () => {
+      setMode('menu');
+      setJoinCode('');
+      setInputWord('');
+    },
+  });
+
+  const quickMatch = useQuickMatch({
+    gameType: 'wordchain',
+    status,
+    players: lobbyPlayers,
+    // Quick matches always use the classic rules
+    createRoom: async () => {
+      const startWord = pickStartingWord(DEFAULT_WORD_CHAIN_RULES, await loadWordChainDictionary());
+      return createOnlineRoom(createGameState(playerName.trim() || me.name, startWord), roomSize);
+    },
+    joinRoom: joinOnlineRoom,
+    leaveRoom: () => leaveGame(),
+    onOpponentFound: () => startMatch(),
+  });
+
+  const { words, currentTurn, scores, winner, players, eliminated, lastWord } = state;
+  const gameRules = state.rules ?? DEFAULT_WORD_CHAIN_RULES;
+  const roomCode = room?.code || '';
+  const isHost = !!room?.isHost;
+  const mySeat = room?.seat ?? 0;
+  const isSpectator = !!room?.isSpectator;
+
+  // Follow the room lifecycle
+  useEffect(() => {
+    if (status === 'waiting') {
+      setMode('waiting');
+    } else if (status === 'playing') {
+      setMode('playing');
+    }
+  }, [status]);
 
-  const startingWords = ['APPLE', 'ELEPHANT', 'ORANGE', 'ENERGY', 'YELLOW', 'WATER'];
+  // Words are checked against the dictionary before they're sent, so fetch it
+  // as soon as we're in a room
+  useEffect(() => {
+    if (mode === 'menu' || dictionary) return;
+    let cancelled = false;
+    loadWordChainDictionary()
+      .then(loaded => {
+        if (!cancelled) setDictionary(loaded);
+      })
+      .catch(error => console.error('Failed to load the word list:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, dictionary]);
 
   const createRoom = async () => {
     if (!playerName.trim()) {
       toast({ variant: 'destructive', title: 'Error', description: 'Please enter your name' });
       return;
     }
-    
-    const code = generateRoomCode();
-    const startWord = startingWords[Math.floor(Math.random() * startingWords.length)];
-    
-    const initialState: GameState = {
-      words: [startWord],
-      currentTurn: 1,
-      scores: { player1: 0, player2: 0 },
-      timeLeft: TURN_TIME,
-      status: 'waiting',
-      winner: null,
-      playerNames: { player1: playerName, player2: '' },
-      lastWord: startWord,
-    };
-
-    const { data, error } = await supabase
-      .from('game_rooms')
-      .insert({
-        room_code: code,
-        game_type: 'wordchain',
-        game_state: initialState as any,
-        status: 'waiting',
-        player_count: 1,
-        max_players: 2,
-      })
-      .select()
-      .single();
 
-    if (error) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Failed to create room' });
+    let startWord: string;
+    try {
+      startWord = pickStartingWord(rules, await loadWordChainDictionary());
+    } catch (error) {
+      console.error('Failed to load the word list:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not load the word list. Check your connection and try again.' });
       return;
     }
-
-    setRoomCode(code);
-    setRoomId(data.id);
-    setPlayerNumber(1);
-    setPlayerNames({ player1: playerName, player2: '' });
-    setWords([startWord]);
-    setLastWord(startWord);
-    setMode('waiting');
-    soundManager.playLocalSound('click');
-    haptics.light();
-    
-    setupRealtimeChannel(data.id, 1);
+    const session = await createOnlineRoom(createGameState(playerName, startWord, rules), roomSize);
+    if (session) {
+      soundManager.playLocalSound('click');
+      haptics.light();
+    }
   };
 
   const joinRoom = async () => {
@@ -105,169 +312,48 @@ const WordChain: React.FC = () => {
       return;
     }
 
-    const { data: room, error } = await supabase
-      .from('game_rooms')
-      .select('*')
-      .eq('room_code', joinCode.toUpperCase())
-      .eq('game_type', 'wordchain')
-      .single();
-
-    if (error || !room) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Room not found' });
-      return;
-    }
-
-    if (room.player_count >= 2) {
-      toast({ variant: 'destructive', title: 'Error', description: 'Room is full' });
-      return;
-    }
-
-    const currentState = room.game_state as unknown as GameState;
-    const updatedState: GameState = {
-      ...currentState,
-      playerNames: { ...currentState.playerNames, player2: playerName },
-      status: 'playing',
-    };
-
-    await supabase
-      .from('game_rooms')
-      .update({ 
-        player_count: 2, 
-        game_state: updatedState as any,
-        status: 'playing'
-      })
-      .eq('id', room.id);
-
-    setRoomCode(joinCode.toUpperCase());
-    setRoomId(room.id);
-    setPlayerNumber(2);
-    setPlayerNames(updatedState.playerNames);
-    setWords(currentState.words);
-    setLastWord(currentState.lastWord);
-    setMode('playing');
-    soundManager.playLocalSound('start');
-    haptics.success();
-    
-    setupRealtimeChannel(room.id, 2);
+    await joinOnlineRoom(joinCode);
   };
 
-  const setupRealtimeChannel = (roomId: string, player: 1 | 2) => {
-    const channel = supabase
-      .channel(`wordchain-${roomId}`)
-      .on('broadcast', { event: 'game_update' }, ({ payload }) => {
-        const state = payload as GameState;
-        setWords(state.words);
-        setCurrentTurn(state.currentTurn);
-        setScores(state.scores);
-        setTimeLeft(state.timeLeft);
-        setLastWord(state.lastWord);
-        setPlayerNames(state.playerNames);
-        
-        if (state.status === 'ended') {
-          setWinner(state.winner);
-          setMode('ended');
-          if (state.winner === (player === 1 ? state.playerNames.player1 : state.playerNames.player2)) {
-            soundManager.playLocalSound('win');
-            haptics.success();
-            celebrateFireworks();
-          } else {
-            soundManager.playLocalSound('lose');
-            haptics.error();
-          }
-        }
-      })
-      .on('broadcast', { event: 'game_start' }, ({ payload }) => {
-        setMode('playing');
-        setPlayerNames(payload.playerNames);
-        soundManager.playLocalSound('start');
-        haptics.success();
-      })
-      .on('broadcast', { event: 'game_left' }, () => {
-        toast({ title: 'Game ended', description: 'Other player left the game' });
-        leaveGame();
-      })
-      .subscribe();
-
-    channelRef.current = channel;
-  };
+  // The turn clock runs on the server's time. The player on turn reports their
+  // own timeout; the others step in shortly after if that player's tab doesn't
+  const timeLeft = useDeadline(mode === 'playing' ? state.turnDeadline : null, {
+    onExpire: () => {
+      if (!isSpectator) reportTimeout({ type: 'timeout', seat: currentTurn });
+    },
+    grace: currentTurn === mySeat ? 0 : DEADLINE_GRACE,
+  }) ?? TURN_TIME;
 
-  // Timer effect
   useEffect(() => {
-    if (mode !== 'playing') return;
-
-    timerRef.current = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          // Time's up - other player wins
-          handleTimeout();
-          return TURN_TIME;
-        }
-        if (prev <= 5) {
-          soundManager.playLocalSound('tick');
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
-  }, [mode, currentTurn]);
-
-  const handleTimeout = async () => {
-    if (!roomId) return;
-    
-    const loser = currentTurn;
-    const winnerName = loser === 1 ? playerNames.player2 : playerNames.player1;
-    
-    const endState: GameState = {
-      words,
-      currentTurn,
-      scores,
-      timeLeft: 0,
-      status: 'ended',
-      winner: winnerName,
-      playerNames,
-      lastWord,
-    };
-
-    await supabase.from('game_rooms').update({ 
-      game_state: endState as any,
-      status: 'ended'
-    }).eq('id', roomId);
-
-    channelRef.current?.send({
-      type: 'broadcast',
-      event: 'game_update',
-      payload: endState,
-    });
-  };
-
-  const submitWord = async () => {
-    if (!inputWord.trim() || currentTurn !== playerNumber || !roomId) return;
-
-    const word = inputWord.trim().toUpperCase();
-    const requiredLetter = lastWord.slice(-1).toUpperCase();
-
-    // Validate word starts with correct letter
-    if (word[0] !== requiredLetter) {
-      toast({ variant: 'destructive', title: 'Invalid!', description: `Word must start with "${requiredLetter}"` });
-      soundManager.playLocalSound('wrong');
-      haptics.error();
-      return;
-    }
+    if (mode === 'playing' && timeLeft > 0 && timeLeft <= 5) soundManager.playLocalSound('tick');
+  }, [mode, timeLeft]);
 
-    // Check if word was already used
-    if (words.includes(word)) {
-      toast({ variant: 'destructive', title: 'Already used!', description: 'This word was already played' });
-      soundManager.playLocalSound('wrong');
-      haptics.error();
+  // The host plays the bots' turns. A bot that can't think of a word lets its
+  // turn run out, and the usual timeout knocks it out
+  const isBotTurn = isHost && mode === 'playing' && state.status === 'playing' && bots.some(bot => bot.seat === currentTurn);
+  useEffect(() => {
+    if (!isBotTurn || !dictionary) return;
+    const level = WORD_CHAIN_BOT_LEVELS[difficulty];
+    const seat = currentTurn;
+    const timer = setTimeout(() => {
+      const word = pickWordChainBotWord(playableWords({ words, lastWord }, gameRules, dictionary), level);
+      if (word) dispatchAs(seat, { type: 'word', seat, word });
+    }, wordChainBotDelay(level));
+    return () => clearTimeout(timer);
+  }, [isBotTurn, currentTurn, lastWord, words, gameRules, dictionary, difficulty, dispatchAs]);
+
+  const submitWord = () => {
+    if (!inputWord.trim() || currentTurn !== mySeat || !room || isReconnecting || isSpectator) return;
+
+    if (!dictionary) {
+      toast({ title: 'Just a moment', description: 'Still loading the word list' });
       return;
     }
 
-    // Word length must be at least 2
-    if (word.length < 2) {
-      toast({ variant: 'destructive', title: 'Too short!', description: 'Word must be at least 2 letters' });
+    const word = normalizeWord(inputWord);
+    const invalid = checkWordChainWord(word, { words, lastWord }, gameRules, dictionary);
+    if (invalid) {
+      toast({ variant: 'destructive', title: 'Invalid!', description: invalid });
       soundManager.playLocalSound('wrong');
       haptics.error();
       return;
@@ -275,79 +361,30 @@ const WordChain: React.FC = () => {
 
     soundManager.playLocalSound('correct');
     haptics.success();
-
-    const newWords = [...words, word];
-    const newScores = {
-      ...scores,
-      [playerNumber === 1 ? 'player1' : 'player2']: scores[playerNumber === 1 ? 'player1' : 'player2'] + word.length,
-    };
-    const nextTurn = currentTurn === 1 ? 2 : 1;
-
-    const newState: GameState = {
-      words: newWords,
-      currentTurn: nextTurn as 1 | 2,
-      scores: newScores,
-      timeLeft: TURN_TIME,
-      status: 'playing',
-      winner: null,
-      playerNames,
-      lastWord: word,
-    };
-
-    setWords(newWords);
-    setScores(newScores);
-    setCurrentTurn(nextTurn as 1 | 2);
-    setTimeLeft(TURN_TIME);
-    setLastWord(word);
     setInputWord('');
-
-    await supabase.from('game_rooms').update({ game_state: newState as any }).eq('id', roomId);
-
-    channelRef.current?.send({
-      type: 'broadcast',
-      event: 'game_update',
-      payload: newState,
-    });
+    dispatch({ type: 'word', seat: mySeat, word });
   };
 
-  const copyRoomCode = () => {
-    navigator.clipboard.writeText(roomCode);
-    setCopied(true);
-    haptics.light();
-    setTimeout(() => setCopied(false), 2000);
+  const startMatch = async () => {
+    if (await startGame()) dispatch({ type: 'start' });
   };
 
   const leaveGame = async () => {
-    if (roomId) {
-      channelRef.current?.send({
-        type: 'broadcast',
-        event: 'game_left',
-      });
-      await supabase.from('game_rooms').delete().eq('id', roomId);
-    }
-    channelRef.current?.unsubscribe();
-    channelRef.current = null;
-    if (timerRef.current) clearInterval(timerRef.current);
+    await leaveRoom();
     
     setMode('menu');
-    setRoomCode('');
-    setRoomId(null);
     setJoinCode('');
-    setWords([]);
-    setScores({ player1: 0, player2: 0 });
-    setWinner(null);
     setInputWord('');
-    setLastWord('');
-    setCurrentTurn(1);
-    setTimeLeft(TURN_TIME);
   };
 
-  useEffect(() => {
-    return () => {
-      channelRef.current?.unsubscribe();
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
-  }, []);
+  // Quick match search / nobody found
+  if (quickMatch.phase !== 'idle' && (mode === 'menu' || mode === 'waiting')) {
+    return (
+      <div className="flex flex-col items-center gap-6 animate-slide-in">
+        <QuickMatchPanel quickMatch={quickMatch} fallbacks={[{ label: 'Create Private Room', onSelect: createRoom }]} />
+      </div>
+    );
+  }
 
   // Menu Screen
   if (mode === 'menu') {
@@ -368,6 +405,12 @@ const WordChain: React.FC = () => {
           className="max-w-xs font-rajdhani"
         />
 
+        <QuickMatchPanel quickMatch={quickMatch} />
+
+        <LobbySizePicker value={roomSize} onChange={setRoomSize} />
+
+        <WordChainRulesPicker value={rules} onChange={setRules} />
+
         <div className="flex flex-col gap-4 w-full max-w-xs">
           <Button variant="game" size="lg" onClick={createRoom}>
             <Users className="w-5 h-5" />
@@ -400,56 +443,62 @@ const WordChain: React.FC = () => {
     );
   }
 
-  // Waiting Screen
+  // Lobby
   if (mode === 'waiting') {
     return (
-      <div className="flex flex-col items-center gap-6 animate-slide-in">
-        <div className="text-center space-y-2">
-          <Users className="w-16 h-16 text-neon-green mx-auto animate-pulse" />
-          <h2 className="font-orbitron text-2xl text-foreground">Waiting for Player 2</h2>
-          <p className="text-muted-foreground font-rajdhani">Share this code with your friend</p>
-        </div>
-
-        <div className="flex items-center gap-2 p-4 bg-muted rounded-xl">
-          <span className="font-orbitron text-3xl text-neon-green tracking-widest">{roomCode}</span>
-          <Button variant="ghost" size="icon" onClick={copyRoomCode}>
-            {copied ? <Check className="w-5 h-5 text-neon-green" /> : <Copy className="w-5 h-5" />}
-          </Button>
+      <RoomLobby
+        roomCode={roomCode}
+        gameType="wordchain"
+        players={lobbyPlayers}
+        capacity={capacity}
+        hostSeat={hostSeat}
+        isHost={isHost}
+        myId={me.id}
+        onStart={startMatch}
+        onLeave={leaveGame}
+        onAddBot={() => addBot(pickBotName(lobbyPlayers.map(p => p.name)))}
+      >
+        <div className="text-center space-y-1">
+          <p className="text-sm text-muted-foreground font-rajdhani">Starting word: <span className="text-neon-cyan font-bold">{lastWord}</span></p>
+          <p className="text-sm text-muted-foreground font-rajdhani">{describeRules(gameRules)}</p>
         </div>
-
-        <p className="text-sm text-muted-foreground font-rajdhani">Starting word: <span className="text-neon-cyan font-bold">{lastWord}</span></p>
-
-        <Button variant="ghost" onClick={leaveGame}>
-          <ArrowLeft className="w-4 h-4" />
-          Leave
-        </Button>
-      </div>
+      </RoomLobby>
     );
   }
 
   // Playing Screen
   if (mode === 'playing') {
-    const isMyTurn = currentTurn === playerNumber;
-    const requiredLetter = lastWord.slice(-1).toUpperCase();
+    const isMyTurn = currentTurn === mySeat && !isSpectator;
+    const requiredLetters = requiredStart(lastWord, gameRules);
 
     return (
       <div className="flex flex-col items-center gap-4 w-full max-w-md animate-slide-in">
-        {/* Scoreboard */}
-        <div className="flex justify-between w-full px-4">
-          <div className={`text-center p-3 rounded-xl border-2 ${currentTurn === 1 ? 'border-neon-cyan bg-neon-cyan/10' : 'border-border'}`}>
-            <span className="font-rajdhani text-sm text-muted-foreground">{playerNames.player1}</span>
-            <p className="font-orbitron text-2xl text-neon-cyan">{scores.player1}</p>
-          </div>
-          
-          <div className="flex flex-col items-center justify-center">
-            <Clock className={`w-5 h-5 ${timeLeft <= 5 ? 'text-destructive animate-pulse' : 'text-neon-orange'}`} />
-            <span className={`font-orbitron text-xl ${timeLeft <= 5 ? 'text-destructive' : ''}`}>{timeLeft}s</span>
-          </div>
+        <ReconnectingBanner isReconnecting={isReconnecting} />
+        <SpectatorBanner isSpectator={isSpectator} spectatorCount={spectators.length} />
 
-          <div className={`text-center p-3 rounded-xl border-2 ${currentTurn === 2 ? 'border-neon-pink bg-neon-pink/10' : 'border-border'}`}>
-            <span className="font-rajdhani text-sm text-muted-foreground">{playerNames.player2}</span>
-            <p className="font-orbitron text-2xl text-neon-pink">{scores.player2}</p>
-          </div>
+        {/* Timer */}
+        <div className="flex items-center gap-2">
+          <Clock className={`w-5 h-5 ${timeLeft <= 5 ? 'text-destructive animate-pulse' : 'text-neon-orange'}`} />
+          <span className={`font-orbitron text-xl ${timeLeft <= 5 ? 'text-destructive' : ''}`}>{timeLeft}s</span>
+        </div>
+
+        {/* Scoreboard */}
+        <div className="flex flex-wrap justify-center gap-2 w-full">
+          {players.map((name, seat) => (
+            <div
+              key={seat}
+              className={`text-center px-3 py-2 rounded-xl border-2 min-w-[5rem] ${
+                eliminated[seat]
+                  ? 'border-border opacity-40 line-through'
+                  : currentTurn === seat
+                  ? 'border-neon-green bg-neon-green/10'
+                  : 'border-border'
+              }`}
+            >
+              <span className="font-rajdhani text-sm text-muted-foreground">{name}{seat === mySeat && !isSpectator ? ' (You)' : ''}</span>
+              <p className="font-orbitron text-xl text-neon-cyan">{scores[seat] ?? 0}</p>
+            </div>
+          ))}
         </div>
 
         {/* Last Word */}
@@ -457,14 +506,15 @@ const WordChain: React.FC = () => {
           <span className="font-rajdhani text-muted-foreground">Last word</span>
           <p className="font-orbitron text-4xl text-foreground">{lastWord}</p>
           <p className="font-rajdhani text-neon-green mt-2">
-            Next word must start with: <span className="font-orbitron text-2xl">{requiredLetter}</span>
+            Next word must start with: <span className="font-orbitron text-2xl">{requiredLetters}</span>
           </p>
+          <p className="font-rajdhani text-xs text-muted-foreground mt-1">{describeRules(gameRules)}</p>
         </div>
 
         {/* Turn Indicator */}
         <div className={`text-center py-2 px-4 rounded-full ${isMyTurn ? 'bg-neon-green/20 text-neon-green' : 'bg-muted text-muted-foreground'}`}>
           <span className="font-orbitron text-sm">
-            {isMyTurn ? "Your turn!" : `${currentTurn === 1 ? playerNames.player1 : playerNames.player2}'s turn`}
+            {isMyTurn ? "Your turn!" : `${players[currentTurn] || 'Player'}'s turn`}
           </span>
         </div>
 
@@ -472,7 +522,7 @@ const WordChain: React.FC = () => {
         {isMyTurn && (
           <div className="flex gap-2 w-full">
             <Input
-              placeholder={`Type a word starting with "${requiredLetter}"`}
+              placeholder={`Type a word starting with "${requiredLetters}"`}
               value={inputWord}
               onChange={(e) => setInputWord(e.target.value.toUpperCase())}
               onKeyDown={(e) => e.key === 'Enter' && submitWord()}
@@ -506,27 +556,31 @@ const WordChain: React.FC = () => {
 
   // Ended Screen
   if (mode === 'ended') {
-    const isWinner = winner === (playerNumber === 1 ? playerNames.player1 : playerNames.player2);
+    const isWinner = !isSpectator && winner === players[mySeat];
+    const standings = players
+      .map((name, seat) => ({ name, seat, score: scores[seat] ?? 0 }))
+      .sort((a, b) => b.score - a.score);
 
     return (
       <div className="flex flex-col items-center gap-6 animate-slide-in">
         <div className="text-center space-y-4">
-          <Trophy className={`w-20 h-20 mx-auto ${isWinner ? 'text-neon-orange' : 'text-muted-foreground'}`} />
-          <h2 className={`font-orbitron text-3xl ${isWinner ? 'text-neon-green' : 'text-destructive'}`}>
-            {isWinner ? 'You Win!' : 'You Lose!'}
+          <Trophy className={`w-20 h-20 mx-auto ${isWinner || isSpectator ? 'text-neon-orange' : 'text-muted-foreground'}`} />
+          <h2 className={`font-orbitron text-3xl ${isSpectator ? 'text-foreground' : isWinner ? 'text-neon-green' : 'text-destructive'}`}>
+            {isSpectator ? 'Game Over' : isWinner ? 'You Win!' : 'You Lose!'}
           </h2>
           <p className="text-muted-foreground font-rajdhani">{winner} wins the game!</p>
         </div>
 
-        <div className="flex gap-8">
-          <div className="text-center">
-            <span className="font-rajdhani text-muted-foreground">{playerNames.player1}</span>
-            <p className="font-orbitron text-3xl text-neon-cyan">{scores.player1}</p>
-          </div>
-          <div className="text-center">
-            <span className="font-rajdhani text-muted-foreground">{playerNames.player2}</span>
-            <p className="font-orbitron text-3xl text-neon-pink">{scores.player2}</p>
-          </div>
+        <div className="w-full max-w-xs space-y-2">
+          {standings.map(({ name, seat, score }) => (
+            <div
+              key={seat}
+              className={`flex justify-between px-4 py-2 rounded-lg border ${name === winner ? 'border-neon-orange bg-neon-orange/10' : 'border-border bg-card'}`}
+            >
+              <span className="font-rajdhani">{name}</span>
+              <span className="font-orbitron text-neon-cyan">{score}</span>
+            </div>
+          ))}
         </div>
 
         <p className="text-muted-foreground font-rajdhani">{words.length} words played</p>
@@ -88,9 +88,9 @@ const WordScramble: React.FC = () => {
       if (bestScore === null || score > bestScore) {
         setBestScore(score);
       }
-      addScore(GAME_TYPES.WORD_SCRAMBLE || 'word_scramble', playerName, score, `${streak} max streak`);
+      addScore(GAME_TYPES.WORD_SCRAMBLE || 'word_scramble', playerName, score, `${streak} max streak`, difficulty);
     }
-  }, [isPlaying, timeLeft, score, streak, bestScore, playerName, addScore]);
+  }, [isPlaying, timeLeft, score, streak, bestScore, playerName, addScore, difficulty]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -1,4 +1,9 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { isSignedInUser, saveCloudProfile, syncCloudProfile } from '@/utils/profiles';
+import { clearSyncedData, flushCloudSync, startCloudSync, stopCloudSync } from '@/utils/cloudSync';
 
 export interface UserProfile {
   id: string;
@@ -14,9 +19,17 @@ export interface UserProfile {
   lastActive: number;
 }
 
+/** The Supabase account the profile is synced to */
+export interface ProfileAccount {
+  id: string;
+  email: string | null;
+}
+
 const PROFILE_STORAGE_KEY = 'mindgames-user-profile';
 const XP_PER_LEVEL = 100;
 const MAX_LEVEL = 100;
+// Batch quick successive changes (XP, then a badge) into one cloud write
+const CLOUD_SAVE_DELAY = 1500;
 
 const AVATARS = [
   '😀', '😎', '🤖', '🦄', '🐉', '🦁', '🐺', '🦊',
@@ -28,6 +41,20 @@ const generateUserId = () => {
   return `user_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 };
 
+const createProfile = (): UserProfile => ({
+  id: generateUserId(),
+  username: `Player${Math.floor(Math.random() * 10000)}`,
+  displayName: '',
+  avatar: AVATARS[Math.floor(Math.random() * AVATARS.length)],
+  level: 1,
+  xp: 0,
+  totalGames: 0,
+  totalWins: 0,
+  badges: [],
+  joinDate: Date.now(),
+  lastActive: Date.now(),
+});
+
 const getInitialProfile = (): UserProfile => {
   const saved = localStorage.getItem(PROFILE_STORAGE_KEY);
   if (saved) {
@@ -41,27 +68,18 @@ const getInitialProfile = (): UserProfile => {
     }
   }
 
-  // Create new profile
-  const newProfile: UserProfile = {
-    id: generateUserId(),
-    username: `Player${Math.floor(Math.random() * 10000)}`,
-    displayName: '',
-    avatar: AVATARS[Math.floor(Math.random() * AVATARS.length)],
-    level: 1,
-    xp: 0,
-    totalGames: 0,
-    totalWins: 0,
-    badges: [],
-    joinDate: Date.now(),
-    lastActive: Date.now(),
-  };
-
+  const newProfile = createProfile();
   localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(newProfile));
   return newProfile;
 };
 
 interface UserProfileContextType {
   profile: UserProfile;
+  /** Signed-in account the profile is saved to, or null while playing anonymously */
+  account: ProfileAccount | null;
+  /** The profile is being loaded from or merged with the cloud */
+  isSyncing: boolean;
+  signOut: () => Promise<void>;
   updateProfile: (updates: Partial<UserProfile>) => void;
   addXP: (amount: number) => void;
   addBadge: (badgeId: string) => void;
@@ -82,12 +100,84 @@ export const useUserProfile = () => {
 
 export const UserProfileProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [profile, setProfile] = useState<UserProfile>(getInitialProfile);
+  const [account, setAccount] = useState<ProfileAccount | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+  // Account whose cloud profile has been loaded; local changes are only saved back after that
+  const [syncedAccountId, setSyncedAccountId] = useState<string | null>(null);
 
   // Save profile to localStorage whenever it changes
   useEffect(() => {
     localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
   }, [profile]);
 
+  // Follow the Supabase session. Anonymous sessions (made to join rooms) are not accounts
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+    const follow = (user: User | undefined) => {
+      setAccount(prev => {
+        if (!isSignedInUser(user)) return null;
+        return prev?.id === user.id ? prev : { id: user.id, email: user.email ?? null };
+      });
+    };
+
+    supabase.auth.getSession().then(({ data: { session } }) => follow(session?.user));
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => follow(session?.user));
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Stats, history, currency and the rest sync on their own once there is an account
+  useEffect(() => {
+    if (account) startCloudSync(account.id);
+    else stopCloudSync();
+  }, [account]);
+
+  // On sign-in, upload this device's profile (first time) or merge it with the saved one
+  useEffect(() => {
+    if (!account) {
+      setSyncedAccountId(null);
+      return;
+    }
+    let cancelled = false;
+    setIsSyncing(true);
+    syncCloudProfile(account.id, profileRef.current)
+      .then(merged => {
+        if (cancelled) return;
+        setProfile(merged);
+        setSyncedAccountId(account.id);
+      })
+      .catch(error => {
+        console.error('Failed to sync profile:', error);
+        toast({ variant: 'destructive', title: 'Sync Failed', description: 'Your profile could not be loaded from the cloud.' });
+      })
+      .finally(() => {
+        if (!cancelled) setIsSyncing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [account]);
+
+  // Keep the cloud copy up to date while signed in
+  useEffect(() => {
+    if (!syncedAccountId || profile.id !== syncedAccountId) return;
+    const timer = setTimeout(() => {
+      saveCloudProfile(syncedAccountId, profile).catch(error => console.error('Failed to save profile:', error));
+    }, CLOUD_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [profile, syncedAccountId]);
+
+  // The profile and progress stay in the cloud; this device starts over with a fresh anonymous one
+  const signOut = useCallback(async () => {
+    // Best effort: anything still queued offline is lost with the local copy
+    await flushCloudSync().catch(error => console.error('Failed to sync data before signing out:', error));
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+    clearSyncedData();
+    setProfile(createProfile());
+  }, []);
+
   const updateProfile = useCallback((updates: Partial<UserProfile>) => {
     setProfile(prev => ({
       ...prev,
@@ -161,6 +251,9 @@ export const UserProfileProvider: React.FC<{ children: ReactNode }> = ({ childre
     <UserProfileContext.Provider
       value={{
         profile,
+        account,
+        isSyncing,
+        signOut,
         updateProfile,
         addXP,
         addBadge,
@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isSupabaseConfigured, supabase } from '@/integrations/supabase/client';
+import {
+  fetchBracket,
+  fetchBracketEvents,
+  subscribeToBrackets,
+  type BracketEvent,
+  type BracketMatch,
+  type BracketPlayer,
+} from '@/utils/brackets';
+
+const OFFLINE_ERROR = 'Brackets need an online connection to the game server.';
+
+/** Recent bracket events, kept up to date while enabled */
+export const useBracketEvents = (enabled: boolean) => {
+  const [events, setEvents] = useState<BracketEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (!isSupabaseConfigured()) {
+      setError(OFFLINE_ERROR);
+      return;
+    }
+
+    let cancelled = false;
+    const load = () => {
+      fetchBracketEvents()
+        .then(list => {
+          if (!cancelled) setEvents(list);
+        })
+        .catch(err => {
+          console.error('Failed to load bracket events:', err);
+          if (!cancelled) setError('Could not load events. Check your connection and try again.');
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+
+    setIsLoading(true);
+    setError(null);
+    load();
+    const unsubscribe = subscribeToBrackets(null, load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [enabled]);
+
+  return { events, isLoading, error };
+};
+
+/** One event's players and bracket, updated live as matches are decided */
+export const useBracket = (eventId: string | null) => {
+  const [event, setEvent] = useState<BracketEvent | null>(null);
+  const [players, setPlayers] = useState<BracketPlayer[]>([]);
+  const [matches, setMatches] = useState<BracketMatch[]>([]);
+  const [myUserId, setMyUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!eventId) return;
+    if (!isSupabaseConfigured()) {
+      setError(OFFLINE_ERROR);
+      return;
+    }
+
+    let cancelled = false;
+    const load = () => {
+      Promise.all([fetchBracket(eventId), supabase.auth.getSession()])
+        .then(([bracket, { data: { session } }]) => {
+          if (cancelled) return;
+          setEvent(bracket.event);
+          setPlayers(bracket.players);
+          setMatches(bracket.matches);
+          setMyUserId(session?.user.id ?? null);
+        })
+        .catch(err => {
+          console.error('Failed to load bracket:', err);
+          if (!cancelled) setError('Could not load this event. Check your connection and try again.');
+        });
+    };
+
+    setError(null);
+    load();
+    const unsubscribe = subscribeToBrackets(eventId, load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [eventId, version]);
+
+  /** Load again, e.g. after registering signed this device in */
+  const reload = useCallback(() => setVersion(v => v + 1), []);
+
+  return { event, players, matches, myUserId, error, reload };
+};
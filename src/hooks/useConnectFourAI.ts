@@ -0,0 +1,112 @@
+import { useEffect, useRef, useCallback } from 'react';
+import type { Difficulty } from '@/contexts/DifficultyContext';
+import type { Board } from '@/utils/connectFour';
+import { analyseConnectFourGame, chooseConnectFourMove, findBestConnectFourMove } from '@/utils/connectFourAI';
+import type { AnalysedMove } from '@/utils/moveAnalysis';
+import type { ConnectFourAIJob, ConnectFourAIRequest, ConnectFourAIResponse } from '@/workers/connectFourAI.worker';
+
+type Color = 'red' | 'yellow';
+
+interface PendingSearch {
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  /** The same search on the page, for when the worker fails */
+  fallback: () => unknown;
+}
+
+/**
+ * Connect Four searches (the computer opponent, hints and game analysis) run
+ * in a Web Worker so the board stays responsive. Falls back to searching on
+ * the page where workers are unavailable, or once the worker has failed
+ */
+export const useConnectFourAI = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingSearch>());
+  const nextIdRef = useRef(0);
+  const workerFailedRef = useRef(false);
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pending.clear();
+    };
+  }, []);
+
+  const getWorker = useCallback(() => {
+    if (workerRef.current || workerFailedRef.current || typeof Worker === 'undefined') return workerRef.current;
+    try {
+      const worker = new Worker(new URL('../workers/connectFourAI.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<ConnectFourAIResponse>) => {
+        const search = pendingRef.current.get(event.data.id);
+        pendingRef.current.delete(event.data.id);
+        search?.resolve(event.data.result);
+      };
+      // A search that throws would otherwise never answer, leaving the
+      // computer's turn waiting forever. Stop using the worker and finish
+      // every waiting search on the page instead
+      const fail = (error: unknown) => {
+        console.error('Connect Four worker failed, searching on the page instead:', error);
+        worker.terminate();
+        workerRef.current = null;
+        workerFailedRef.current = true;
+        const searches = Array.from(pendingRef.current.values());
+        pendingRef.current.clear();
+        searches.forEach(({ resolve, reject, fallback }) => {
+          setTimeout(() => {
+            try {
+              resolve(fallback());
+            } catch (fallbackError) {
+              reject(fallbackError);
+            }
+          }, 0);
+        });
+      };
+      worker.onerror = event => {
+        event.preventDefault();
+        fail(event.message);
+      };
+      worker.onmessageerror = fail;
+      workerRef.current = worker;
+    } catch (error) {
+      console.error('Failed to start the Connect Four worker:', error);
+    }
+    return workerRef.current;
+  }, []);
+
+  const run = useCallback(<T>(job: ConnectFourAIJob, fallback: () => T) => {
+    const worker = getWorker();
+    if (!worker) {
+      return new Promise<T>((resolve, reject) => {
+        setTimeout(() => {
+          try {
+            resolve(fallback());
+          } catch (error) {
+            reject(error);
+          }
+        }, 0);
+      });
+    }
+    const id = ++nextIdRef.current;
+    return new Promise<T>((resolve, reject) => {
+      pendingRef.current.set(id, { resolve: resolve as (result: unknown) => void, reject, fallback });
+      const request: ConnectFourAIRequest = { ...job, id };
+      worker.postMessage(request);
+    });
+  }, [getWorker]);
+
+  /** The column the computer plays as `me`; resolves to -1 on a full board */
+  const requestMove = useCallback((board: Board, me: Color, difficulty: Difficulty) =>
+    run({ type: 'move', board, me, difficulty }, () => chooseConnectFourMove(board, me, difficulty)), [run]);
+
+  /** The best column for `me`, for a hint */
+  const requestHint = useCallback((board: Board, me: Color) =>
+    run({ type: 'hint', board, me }, () => findBestConnectFourMove(board, me)), [run]);
+
+  /** Every move of a finished game, rated against the best one */
+  const requestAnalysis = useCallback((moves: { player: Color; col: number }[]) =>
+    run<AnalysedMove<Color>[]>({ type: 'analyse', moves }, () => analyseConnectFourGame(moves)), [run]);
+
+  return { requestMove, requestHint, requestAnalysis };
+};
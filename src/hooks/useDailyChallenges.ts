@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { mergeCount, onSyncedDataChange, registerSyncedKey, saveSyncedItem } from '@/utils/cloudSync';
 
 export interface DailyChallenge {
   id: string;
@@ -22,6 +23,23 @@ export interface WeeklyQuest extends DailyChallenge {
 const CHALLENGES_STORAGE_KEY = 'mindgames-daily-challenges';
 const QUESTS_STORAGE_KEY = 'mindgames-weekly-quests';
 const LAST_RESET_KEY = 'mindgames-challenges-reset';
+const STREAK_STORAGE_KEY = 'mindgames-challenge-streak';
+const REWARDS_STORAGE_KEY = 'mindgames-total-rewards';
+
+// Today's challenges reset every midnight on each device, so only the streak,
+// rewards and this week's quest follow the player between devices
+registerSyncedKey<number>(STREAK_STORAGE_KEY, mergeCount);
+registerSyncedKey<number>(REWARDS_STORAGE_KEY, mergeCount);
+registerSyncedKey<WeeklyQuest>(QUESTS_STORAGE_KEY, (local, cloud) => {
+  if (local.id !== cloud.id) return local.weekNumber > cloud.weekNumber ? local : cloud;
+  const completedAt = [local.completedAt, cloud.completedAt].filter(Boolean).sort((a, b) => a - b)[0];
+  return {
+    ...local,
+    progress: Math.max(local.progress, cloud.progress),
+    completed: local.completed || cloud.completed,
+    completedAt,
+  };
+});
 
 // Generate daily challenges based on date
 const generateDailyChallenges = (): DailyChallenge[] => {
@@ -170,20 +188,17 @@ export const useDailyChallenges = () => {
   // Initialize challenges
   useEffect(() => {
     if (shouldResetChallenges()) {
-      const newChallenges = generateDailyChallenges();
-      const newQuest = generateWeeklyQuest();
-      
-      localStorage.setItem(CHALLENGES_STORAGE_KEY, JSON.stringify(newChallenges));
-      localStorage.setItem(QUESTS_STORAGE_KEY, JSON.stringify(newQuest));
+      localStorage.setItem(CHALLENGES_STORAGE_KEY, JSON.stringify(generateDailyChallenges()));
+      saveSyncedItem(QUESTS_STORAGE_KEY, generateWeeklyQuest());
       localStorage.setItem(LAST_RESET_KEY, Date.now().toString());
-      
-      setChallenges(newChallenges);
-      setWeeklyQuest(newQuest);
-    } else {
+    }
+
+    // Also runs when progress from another device is synced in
+    const loadChallenges = () => {
       const saved = localStorage.getItem(CHALLENGES_STORAGE_KEY);
       const savedQuest = localStorage.getItem(QUESTS_STORAGE_KEY);
-      const savedStreak = localStorage.getItem('mindgames-challenge-streak');
-      const savedRewards = localStorage.getItem('mindgames-total-rewards');
+      const savedStreak = localStorage.getItem(STREAK_STORAGE_KEY);
+      const savedRewards = localStorage.getItem(REWARDS_STORAGE_KEY);
 
       if (saved) {
         try {
@@ -193,22 +208,18 @@ export const useDailyChallenges = () => {
         }
       }
 
-      if (savedQuest) {
-        try {
-          setWeeklyQuest(JSON.parse(savedQuest));
-        } catch (e) {
-          console.error('Failed to parse weekly quest');
-        }
+      try {
+        setWeeklyQuest(savedQuest ? JSON.parse(savedQuest) : null);
+      } catch (e) {
+        console.error('Failed to parse weekly quest');
       }
 
-      if (savedStreak) {
-        setStreak(parseInt(savedStreak));
-      }
+      setStreak(savedStreak ? parseInt(savedStreak) : 0);
+      setTotalRewards(savedRewards ? parseInt(savedRewards) : 0);
+    };
 
-      if (savedRewards) {
-        setTotalRewards(parseInt(savedRewards));
-      }
-    }
+    loadChallenges();
+    return onSyncedDataChange([QUESTS_STORAGE_KEY, STREAK_STORAGE_KEY, REWARDS_STORAGE_KEY], loadChallenges);
   }, []);
 
   const updateChallengeProgress = useCallback((
@@ -229,12 +240,12 @@ export const useDailyChallenges = () => {
           // Challenge completed!
           const newRewards = totalRewards + challenge.reward;
           setTotalRewards(newRewards);
-          localStorage.setItem('mindgames-total-rewards', newRewards.toString());
+          saveSyncedItem(REWARDS_STORAGE_KEY, newRewards);
 
           // Update streak
           const newStreak = streak + 1;
           setStreak(newStreak);
-          localStorage.setItem('mindgames-challenge-streak', newStreak.toString());
+          saveSyncedItem(STREAK_STORAGE_KEY, newStreak);
 
           // Dispatch event for power-ups to add currency
           window.dispatchEvent(new CustomEvent('challenge-completed', {
@@ -266,7 +277,7 @@ export const useDailyChallenges = () => {
         if (completed) {
           const newRewards = totalRewards + prev.reward;
           setTotalRewards(newRewards);
-          localStorage.setItem('mindgames-total-rewards', newRewards.toString());
+          saveSyncedItem(REWARDS_STORAGE_KEY, newRewards);
         }
 
         const updated = {
@@ -276,7 +287,7 @@ export const useDailyChallenges = () => {
           completedAt: completed ? Date.now() : prev.completedAt,
         };
 
-        localStorage.setItem(QUESTS_STORAGE_KEY, JSON.stringify(updated));
+        saveSyncedItem(QUESTS_STORAGE_KEY, updated);
         return updated;
       });
     }
@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef } from 'react';
+import { serverNow } from '@/utils/serverClock';
+
+const TICK_INTERVAL = 250;
+// While the deadline stays the same, onExpire is called again after these
+// waits, doubling each time
+const RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 16000;
+
+interface UseDeadlineOptions {
+  /**
+   * Called once the deadline (plus any grace) has passed on the server's clock.
+   * Our clock estimate can run a little ahead of the server's, so the server may
+   * turn the timeout down as early; onExpire is called again, less and less
+   * often, until the deadline changes
+   */
+  onExpire?: () => void;
+  /**
+   * Extra wait before onExpire. The player on turn reports their own timeout
+   * straight away; everyone else waits a little longer and only steps in if
+   * that player's tab is slow or in the background
+   */
+  grace?: number;
+}
+
+/**
+ * Count down to an absolute deadline on the server's clock, so every player
+ * sees the same time left. Returns whole seconds remaining, or null without a deadline
+ */
+export const useDeadline = (deadline: number | null | undefined, { onExpire, grace = 0 }: UseDeadlineOptions = {}) => {
+  const [now, setNow] = useState(serverNow);
+  const expireRef = useRef(onExpire);
+  expireRef.current = onExpire;
+
+  useEffect(() => {
+    if (!deadline) return;
+    let nextExpiry = deadline + grace;
+    let retryDelay = RETRY_DELAY;
+
+    const tick = () => {
+      const current = serverNow();
+      setNow(current);
+      if (current >= nextExpiry) {
+        nextExpiry = current + retryDelay;
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+        expireRef.current?.();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, TICK_INTERVAL);
+    // Background tabs throttle timers, so catch up as soon as the tab is shown again
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [deadline, grace]);
+
+  return deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : null;
+};
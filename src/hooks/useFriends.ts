@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback } from 'react';
 
 export interface Friend {
   id: string;
+  /** Their auth user id, known for friends added from a room they host */
+  userId?: string;
   username: string;
   displayName: string;
   avatar: string;
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { mergeById, onSyncedDataChange, registerSyncedKey, saveSyncedItem } from '@/utils/cloudSync';
 
 export interface GameHistoryEntry {
   id: string;
@@ -17,20 +18,29 @@ export interface GameHistoryEntry {
 const HISTORY_STORAGE_KEY = 'mindgames-game-history';
 const MAX_HISTORY_ENTRIES = 50;
 
+// Games from every device, newest first
+registerSyncedKey<GameHistoryEntry[]>(HISTORY_STORAGE_KEY, (local, cloud, base) =>
+  mergeById(local, cloud, base, h => h.id)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_HISTORY_ENTRIES)
+);
+
 export const useGameHistory = () => {
   const [history, setHistory] = useState<GameHistoryEntry[]>([]);
 
-  // Load history from localStorage
+  // Load history from localStorage, and again when games from another device are synced in
   useEffect(() => {
-    const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
-    if (saved) {
+    const loadHistory = () => {
+      const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
       try {
-        const parsed = JSON.parse(saved);
-        setHistory(parsed);
+        setHistory(saved ? JSON.parse(saved) : []);
       } catch (e) {
         console.error('Failed to parse game history');
       }
-    }
+    };
+
+    loadHistory();
+    return onSyncedDataChange([HISTORY_STORAGE_KEY], loadHistory);
   }, []);
 
   const addGameHistory = useCallback((entry: Omit<GameHistoryEntry, 'id' | 'timestamp'>) => {
@@ -42,7 +52,7 @@ export const useGameHistory = () => {
 
     setHistory(prev => {
       const updated = [newEntry, ...prev].slice(0, MAX_HISTORY_ENTRIES);
-      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updated));
+      saveSyncedItem(HISTORY_STORAGE_KEY, updated);
       return updated;
     });
 
@@ -81,7 +91,8 @@ export const useGameHistory = () => {
 
   const clearHistory = useCallback(() => {
     setHistory([]);
-    localStorage.removeItem(HISTORY_STORAGE_KEY);
+    // An empty list rather than no key, so the player's other devices drop these games as well
+    saveSyncedItem(HISTORY_STORAGE_KEY, []);
   }, []);
 
   const getStats = useCallback(() => {
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { mergeById, mergeCount, mergeRecords, onSyncedDataChange, registerSyncedKey, saveSyncedItem } from '@/utils/cloudSync';
 
 export interface GameStats {
   gamesPlayed: number;
@@ -47,36 +48,68 @@ const ACHIEVEMENT_DEFINITIONS: Omit<Achievement, 'unlockedAt' | 'progress'>[] =
   { id: 'all_games', name: 'Explorer', description: 'Play all available games', icon: '🗺️', maxProgress: 12 },
 ];
 
+// Totals add up what was played on each device; records and streaks keep the best
+registerSyncedKey<Record<string, GameStats>>(STATS_KEY, (local, cloud, base) =>
+  mergeRecords(local, cloud, base, (l, c, b) => {
+    const latest = l.lastPlayed > c.lastPlayed ? l : c;
+    return {
+      gamesPlayed: mergeCount(l.gamesPlayed, c.gamesPlayed, b?.gamesPlayed),
+      wins: mergeCount(l.wins, c.wins, b?.wins),
+      losses: mergeCount(l.losses, c.losses, b?.losses),
+      draws: mergeCount(l.draws, c.draws, b?.draws),
+      totalScore: mergeCount(l.totalScore, c.totalScore, b?.totalScore),
+      highScore: Math.max(l.highScore, c.highScore),
+      totalPlayTime: mergeCount(l.totalPlayTime, c.totalPlayTime, b?.totalPlayTime),
+      lastPlayed: latest.lastPlayed,
+      streaks: {
+        current: latest.streaks.current,
+        best: Math.max(l.streaks.best, c.streaks.best),
+      },
+    };
+  })
+);
+
+// An achievement unlocked on either device stays unlocked
+registerSyncedKey<Achievement[]>(ACHIEVEMENTS_KEY, (local, cloud, base) =>
+  mergeById(local, cloud, base, a => a.id, (l, c) => {
+    const unlockedAt = [l.unlockedAt, c.unlockedAt].filter(Boolean).sort()[0];
+    return { ...l, progress: Math.max(l.progress || 0, c.progress || 0), unlockedAt };
+  })
+);
+
+const initialAchievements = () => ACHIEVEMENT_DEFINITIONS.map(a => ({ ...a, progress: 0 }));
+
 export const useGameStats = () => {
   const [stats, setStats] = useState<Record<string, GameStats>>({});
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [sessionStart, setSessionStart] = useState<number>(Date.now());
 
-  // Load data on mount
+  // Load data on mount, and again when another device's progress is synced in
   useEffect(() => {
-    const savedStats = localStorage.getItem(STATS_KEY);
-    const savedAchievements = localStorage.getItem(ACHIEVEMENTS_KEY);
-    const savedSessionStart = localStorage.getItem(SESSION_START_KEY);
+    const loadProgress = () => {
+      const savedStats = localStorage.getItem(STATS_KEY);
+      const savedAchievements = localStorage.getItem(ACHIEVEMENTS_KEY);
 
-    if (savedStats) {
       try {
-        setStats(JSON.parse(savedStats));
+        setStats(savedStats ? JSON.parse(savedStats) : {});
       } catch (e) {
         console.error('Failed to parse stats');
       }
-    }
 
-    if (savedAchievements) {
-      try {
-        setAchievements(JSON.parse(savedAchievements));
-      } catch (e) {
-        console.error('Failed to parse achievements');
+      if (savedAchievements) {
+        try {
+          setAchievements(JSON.parse(savedAchievements));
+        } catch (e) {
+          console.error('Failed to parse achievements');
+        }
+      } else {
+        // Initialize achievements
+        setAchievements(initialAchievements());
       }
-    } else {
-      // Initialize achievements
-      setAchievements(ACHIEVEMENT_DEFINITIONS.map(a => ({ ...a, progress: 0 })));
-    }
+    };
 
+    loadProgress();
+    const savedSessionStart = localStorage.getItem(SESSION_START_KEY);
     if (savedSessionStart) {
       setSessionStart(parseInt(savedSessionStart));
     } else {
@@ -84,17 +117,19 @@ export const useGameStats = () => {
       setSessionStart(now);
       localStorage.setItem(SESSION_START_KEY, now.toString());
     }
+
+    return onSyncedDataChange([STATS_KEY, ACHIEVEMENTS_KEY], loadProgress);
   }, []);
 
   // Save stats
   const saveStats = useCallback((newStats: Record<string, GameStats>) => {
-    localStorage.setItem(STATS_KEY, JSON.stringify(newStats));
+    saveSyncedItem(STATS_KEY, newStats);
     setStats(newStats);
   }, []);
 
   // Save achievements
   const saveAchievements = useCallback((newAchievements: Achievement[]) => {
-    localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(newAchievements));
+    saveSyncedItem(ACHIEVEMENTS_KEY, newAchievements);
     setAchievements(newAchievements);
   }, []);
 
@@ -307,10 +342,12 @@ export const useGameStats = () => {
 
   // Clear all data
   const clearAll = useCallback(() => {
-    localStorage.removeItem(STATS_KEY);
-    localStorage.removeItem(ACHIEVEMENTS_KEY);
+    const resetAchievements = initialAchievements();
+    // Saved rather than removed, so the cleared stats reach the player's other devices too
+    saveSyncedItem(STATS_KEY, {});
+    saveSyncedItem(ACHIEVEMENTS_KEY, resetAchievements);
     setStats({});
-    setAchievements(ACHIEVEMENT_DEFINITIONS.map(a => ({ ...a, progress: 0 })));
+    setAchievements(resetAchievements);
   }, []);
 
   return {
@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+import { isSupabaseConfigured } from '@/integrations/supabase/client';
+import {
+  fetchGlobalLeaderboard,
+  fetchMyGlobalBest,
+  type GlobalBoard,
+  type GlobalLeaderboardEntry,
+} from '@/utils/globalLeaderboard';
+
+interface UseGlobalLeaderboardOptions {
+  /** Nothing is fetched while disabled, e.g. while the dialog shows local scores */
+  enabled: boolean;
+  /** Limit the board to this player and these friends' auth user ids, keeping their global ranks */
+  friendIds?: string[];
+}
+
+/** One global board, plus this player's best score and rank on it */
+export const useGlobalLeaderboard = ({ period, gameType, difficulty }: GlobalBoard, { enabled, friendIds }: UseGlobalLeaderboardOptions) => {
+  const [entries, setEntries] = useState<GlobalLeaderboardEntry[]>([]);
+  const [myBest, setMyBest] = useState<GlobalLeaderboardEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Compared by value so a new array with the same ids doesn't refetch
+  const friendsKey = friendIds ? JSON.stringify(friendIds) : null;
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (!isSupabaseConfigured()) {
+      setError('Global leaderboards need an online connection to the game server.');
+      return;
+    }
+
+    let cancelled = false;
+    const board = { period, gameType, difficulty };
+    setIsLoading(true);
+    setError(null);
+    Promise.all([
+      fetchGlobalLeaderboard(board, { friendIds: friendsKey ? JSON.parse(friendsKey) : undefined }),
+      fetchMyGlobalBest(board),
+    ])
+      .then(([top, best]) => {
+        if (cancelled) return;
+        setEntries(top);
+        setMyBest(best);
+      })
+      .catch(err => {
+        console.error('Failed to load global leaderboard:', err);
+        if (!cancelled) setError('Could not load the global leaderboard. Check your connection and try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, period, gameType, difficulty, friendsKey]);
+
+  return { entries, myBest, isLoading, error };
+};
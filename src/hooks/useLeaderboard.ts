@@ -1,4 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
+import { isSupabaseConfigured } from '@/integrations/supabase/client';
+import type { Difficulty } from '@/contexts/DifficultyContext';
+import { submitGlobalScore } from '@/utils/globalLeaderboard';
+import { mergeById, mergeCount, mergeRecords, onSyncedDataChange, registerSyncedKey, saveSyncedItem } from '@/utils/cloudSync';
 
 export interface LeaderboardEntry {
   id: string;
@@ -20,41 +24,61 @@ const STORAGE_KEY = 'mindgames-leaderboard';
 const STATS_KEY = 'mindgames-stats';
 const MAX_ENTRIES_PER_GAME = 10;
 
+// Best scores from every device, still capped per game
+registerSyncedKey<LeaderboardEntry[]>(STORAGE_KEY, (local, cloud, base) => {
+  const merged = mergeById(local, cloud, base, e => e.id).sort((a, b) => b.score - a.score);
+  const kept: Record<string, number> = {};
+  return merged.filter(e => {
+    kept[e.gameType] = (kept[e.gameType] || 0) + 1;
+    return kept[e.gameType] <= MAX_ENTRIES_PER_GAME;
+  });
+});
+
+registerSyncedKey<Record<string, GameStats>>(STATS_KEY, (local, cloud, base) =>
+  mergeRecords(local, cloud, base, (l, c, b) => ({
+    gamesPlayed: mergeCount(l.gamesPlayed, c.gamesPlayed, b?.gamesPlayed),
+    totalScore: mergeCount(l.totalScore, c.totalScore, b?.totalScore),
+    highScore: Math.max(l.highScore, c.highScore),
+    lastPlayed: l.lastPlayed > c.lastPlayed ? l.lastPlayed : c.lastPlayed,
+  }))
+);
+
 export const useLeaderboard = () => {
   const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
   const [stats, setStats] = useState<Record<string, GameStats>>({});
 
-  // Load data from localStorage on mount
+  // Load data from localStorage on mount, and again when scores from another device are synced in
   useEffect(() => {
-    const savedEntries = localStorage.getItem(STORAGE_KEY);
-    const savedStats = localStorage.getItem(STATS_KEY);
-    
-    if (savedEntries) {
+    const loadScores = () => {
+      const savedEntries = localStorage.getItem(STORAGE_KEY);
+      const savedStats = localStorage.getItem(STATS_KEY);
+
       try {
-        setEntries(JSON.parse(savedEntries));
+        setEntries(savedEntries ? JSON.parse(savedEntries) : []);
       } catch (e) {
         console.error('Failed to parse leaderboard data');
       }
-    }
-    
-    if (savedStats) {
+
       try {
-        setStats(JSON.parse(savedStats));
+        setStats(savedStats ? JSON.parse(savedStats) : {});
       } catch (e) {
         console.error('Failed to parse stats data');
       }
-    }
+    };
+
+    loadScores();
+    return onSyncedDataChange([STORAGE_KEY, STATS_KEY], loadScores);
   }, []);
 
   // Save entries to localStorage
   const saveEntries = useCallback((newEntries: LeaderboardEntry[]) => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newEntries));
+    saveSyncedItem(STORAGE_KEY, newEntries);
     setEntries(newEntries);
   }, []);
 
   // Save stats to localStorage
   const saveStats = useCallback((newStats: Record<string, GameStats>) => {
-    localStorage.setItem(STATS_KEY, JSON.stringify(newStats));
+    saveSyncedItem(STATS_KEY, newStats);
     setStats(newStats);
   }, []);
 
@@ -63,7 +87,8 @@ export const useLeaderboard = () => {
     gameType: string,
     playerName: string,
     score: number,
-    details?: string
+    details?: string,
+    difficulty?: Difficulty
   ) => {
     const entry: LeaderboardEntry = {
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -104,6 +129,12 @@ export const useLeaderboard = () => {
 
     saveStats(updatedStats);
 
+    // The local board still works offline; the global one is best effort
+    if (isSupabaseConfigured()) {
+      submitGlobalScore({ gameType, score, difficulty, playerName: entry.playerName, details })
+        .catch(error => console.error('Failed to submit global score:', error));
+    }
+
     return entry;
   }, [entries, stats, saveEntries, saveStats]);
 
@@ -129,8 +160,9 @@ export const useLeaderboard = () => {
 
   // Clear all data
   const clearAll = useCallback(() => {
-    localStorage.removeItem(STORAGE_KEY);
-    localStorage.removeItem(STATS_KEY);
+    // Synced as empty so the scores are cleared on every device
+    saveSyncedItem(STORAGE_KEY, []);
+    saveSyncedItem(STATS_KEY, {});
     setEntries([]);
     setStats({});
   }, []);
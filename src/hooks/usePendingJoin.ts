@@ -1,27 +1,48 @@
 import { useEffect, useState } from 'react';
 
-interface PendingJoin {
+export interface PendingJoin {
   code: string;
   gameType: string;
   roomId: string;
 }
 
-export const usePendingJoin = (): PendingJoin | null => {
+const PENDING_JOIN_EVENT = 'mindgames-pending-join';
+
+/**
+ * Ask the game for `gameType` to join a room. The join dialogs and invite links
+ * use this; the game picks it up when it mounts, or straight away if it is open
+ */
+export const queuePendingJoin = (join: PendingJoin) => {
+  sessionStorage.setItem('pendingJoinCode', join.code);
+  sessionStorage.setItem('pendingJoinGameType', join.gameType);
+  sessionStorage.setItem('pendingJoinRoomId', join.roomId);
+  window.dispatchEvent(new Event(PENDING_JOIN_EVENT));
+};
+
+/** The room queued for this game to join, if any. Reading it clears it */
+export const usePendingJoin = (gameType?: string): PendingJoin | null => {
   const [pendingJoin, setPendingJoin] = useState<PendingJoin | null>(null);
 
   useEffect(() => {
-    const code = sessionStorage.getItem('pendingJoinCode');
-    const gameType = sessionStorage.getItem('pendingJoinGameType');
-    const roomId = sessionStorage.getItem('pendingJoinRoomId');
-
-    if (code && gameType && roomId) {
-      setPendingJoin({ code, gameType, roomId });
-      // Clear after reading
-      sessionStorage.removeItem('pendingJoinCode');
-      sessionStorage.removeItem('pendingJoinGameType');
-      sessionStorage.removeItem('pendingJoinRoomId');
-    }
-  }, []);
+    const readPendingJoin = () => {
+      const code = sessionStorage.getItem('pendingJoinCode');
+      const pendingGameType = sessionStorage.getItem('pendingJoinGameType');
+      const roomId = sessionStorage.getItem('pendingJoinRoomId');
+
+      // Joins meant for another game stay queued until that game opens
+      if (code && pendingGameType && roomId && (!gameType || pendingGameType === gameType)) {
+        setPendingJoin({ code, gameType: pendingGameType, roomId });
+        // Clear after reading
+        sessionStorage.removeItem('pendingJoinCode');
+        sessionStorage.removeItem('pendingJoinGameType');
+        sessionStorage.removeItem('pendingJoinRoomId');
+      }
+    };
+
+    readPendingJoin();
+    window.addEventListener(PENDING_JOIN_EVENT, readPendingJoin);
+    return () => window.removeEventListener(PENDING_JOIN_EVENT, readPendingJoin);
+  }, [gameType]);
 
   return pendingJoin;
 };
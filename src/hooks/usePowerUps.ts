@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { mergeCount, onSyncedDataChange, registerSyncedKey, saveSyncedItem } from '@/utils/cloudSync';
 
 export interface PowerUp {
   id: string;
@@ -62,36 +63,48 @@ const POWER_UPS: PowerUp[] = [
 const POWER_UPS_STORAGE_KEY = 'mindgames-power-ups';
 const CURRENCY_STORAGE_KEY = 'mindgames-currency';
 
+// Coins and power-ups earned or spent on each device since the last sync are all kept
+registerSyncedKey<number>(CURRENCY_STORAGE_KEY, mergeCount);
+
+registerSyncedKey<OwnedPowerUp[]>(POWER_UPS_STORAGE_KEY, (local, cloud, base) => {
+  const quantity = (owned: OwnedPowerUp[] | undefined, powerUpId: string) =>
+    owned?.find(p => p.powerUpId === powerUpId)?.quantity ?? 0;
+  const ids = new Set([...cloud, ...local].map(p => p.powerUpId));
+  return Array.from(ids)
+    .map(powerUpId => ({
+      powerUpId,
+      quantity: mergeCount(quantity(local, powerUpId), quantity(cloud, powerUpId), quantity(base, powerUpId)),
+    }))
+    .filter(p => p.quantity > 0);
+});
+
 export const usePowerUps = () => {
   const [ownedPowerUps, setOwnedPowerUps] = useState<OwnedPowerUp[]>([]);
   const [currency, setCurrency] = useState(0);
 
-  // Load from localStorage
+  // Load from localStorage, and again when another device's purchases are synced in
   useEffect(() => {
-    const saved = localStorage.getItem(POWER_UPS_STORAGE_KEY);
-    const savedCurrency = localStorage.getItem(CURRENCY_STORAGE_KEY);
+    const loadInventory = () => {
+      const saved = localStorage.getItem(POWER_UPS_STORAGE_KEY);
+      const savedCurrency = localStorage.getItem(CURRENCY_STORAGE_KEY);
 
-    if (saved) {
       try {
-        setOwnedPowerUps(JSON.parse(saved));
+        setOwnedPowerUps(saved ? JSON.parse(saved) : []);
       } catch (e) {
         console.error('Failed to parse power-ups');
       }
-    }
 
-    if (savedCurrency) {
-      try {
-        setCurrency(parseInt(savedCurrency));
-      } catch (e) {
-        console.error('Failed to parse currency');
-      }
-    }
+      setCurrency(savedCurrency ? parseInt(savedCurrency) : 0);
+    };
+
+    loadInventory();
+    return onSyncedDataChange([POWER_UPS_STORAGE_KEY, CURRENCY_STORAGE_KEY], loadInventory);
   }, []);
 
   const addCurrency = useCallback((amount: number) => {
     setCurrency(prev => {
       const newAmount = prev + amount;
-      localStorage.setItem(CURRENCY_STORAGE_KEY, newAmount.toString());
+      saveSyncedItem(CURRENCY_STORAGE_KEY, newAmount);
       return newAmount;
     });
   }, []);
@@ -106,7 +119,7 @@ export const usePowerUps = () => {
 
     setCurrency(prev => {
       const newAmount = prev - powerUp.cost;
-      localStorage.setItem(CURRENCY_STORAGE_KEY, newAmount.toString());
+      saveSyncedItem(CURRENCY_STORAGE_KEY, newAmount);
       return newAmount;
     });
 
@@ -115,7 +128,7 @@ export const usePowerUps = () => {
       const updated = existing
         ? prev.map(p => p.powerUpId === powerUpId ? { ...p, quantity: p.quantity + 1 } : p)
         : [...prev, { powerUpId, quantity: 1 }];
-      localStorage.setItem(POWER_UPS_STORAGE_KEY, JSON.stringify(updated));
+      saveSyncedItem(POWER_UPS_STORAGE_KEY, updated);
       return updated;
     });
 
@@ -134,7 +147,7 @@ export const usePowerUps = () => {
           ? { ...p, quantity: Math.max(0, p.quantity - 1) }
           : p
       ).filter(p => p.quantity > 0);
-      localStorage.setItem(POWER_UPS_STORAGE_KEY, JSON.stringify(updated));
+      saveSyncedItem(POWER_UPS_STORAGE_KEY, updated);
       return updated;
     });
 
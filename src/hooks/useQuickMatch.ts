@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { haptics } from '@/utils/haptics';
+import { soundManager } from '@/utils/soundManager';
+import {
+  QUICK_MATCH_SKILL_BAND,
+  QUICK_MATCH_TIMEOUT,
+  claimQuickMatch,
+  enqueueQuickMatch,
+  getSkillRating,
+  leaveQuickMatch,
+} from '@/utils/matchmaking';
+import type { RoomPlayer, RoomSession, RoomStatus } from '@/hooks/useRealtimeRoom';
+
+export type QuickMatchPhase = 'idle' | 'searching' | 'timed_out';
+
+interface UseQuickMatchOptions {
+  gameType: string;
+  /** Room lifecycle from useRealtimeRoom */
+  status: RoomStatus;
+  /** Present players, used by lobby games to notice the opponent arriving */
+  players?: RoomPlayer[];
+  /** Create a room for this game with the host's starting state */
+  createRoom: () => Promise<RoomSession | null>;
+  joinRoom: (code: string) => Promise<RoomSession | null>;
+  /** Leave the room and return the game to its menu */
+  leaveRoom: () => Promise<void> | void;
+  /** Lobby games: called on the host once an opponent has joined, to start the game */
+  onOpponentFound?: () => void;
+}
+
+/**
+ * "Play now" matchmaking on top of the normal room flow.
+ *
+ * Claims a waiting player's room from the queue and joins it; if nobody is
+ * waiting, creates a room and queues it until someone claims it or the search
+ * times out.
+ */
+export const useQuickMatch = ({
+  gameType,
+  status,
+  players = [],
+  createRoom,
+  joinRoom,
+  leaveRoom,
+  onOpponentFound,
+}: UseQuickMatchOptions) => {
+  const [phase, setPhase] = useState<QuickMatchPhase>('idle');
+  const [matchSkill, setMatchSkill] = useState(false);
+  const [searchStartedAt, setSearchStartedAt] = useState<number | null>(null);
+
+  const entryRef = useRef<string | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const searchRef = useRef(0);
+  const leaveRef = useRef(leaveRoom);
+  leaveRef.current = leaveRoom;
+  const opponentFoundRef = useRef(onOpponentFound);
+  opponentFoundRef.current = onOpponentFound;
+
+  const clearSearch = useCallback(() => {
+    searchRef.current += 1;
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const entry = entryRef.current;
+    entryRef.current = null;
+    if (entry) leaveQuickMatch(entry);
+    setSearchStartedAt(null);
+  }, []);
+
+  const playNow = useCallback(async () => {
+    clearSearch();
+    const search = searchRef.current;
+    setPhase('searching');
+    setSearchStartedAt(Date.now());
+    haptics.light();
+
+    const skill = getSkillRating();
+    try {
+      const code = await claimQuickMatch(gameType, skill, matchSkill ? QUICK_MATCH_SKILL_BAND : undefined);
+      if (searchRef.current !== search) return;
+
+      if (code && (await joinRoom(code))) {
+        setPhase('idle');
+        setSearchStartedAt(null);
+        return;
+      }
+      if (searchRef.current !== search) return;
+
+      // Nobody waiting (or they were taken first) - wait in the queue ourselves
+      const session = await createRoom();
+      if (searchRef.current !== search) {
+        // Cancelled while the room was being created
+        if (session) await leaveRef.current();
+        return;
+      }
+      if (!session) {
+        setPhase('idle');
+        return;
+      }
+
+      entryRef.current = await enqueueQuickMatch(gameType, session, skill);
+      if (searchRef.current !== search) {
+        leaveQuickMatch(entryRef.current);
+        entryRef.current = null;
+        await leaveRef.current();
+        return;
+      }
+
+      timerRef.current = setTimeout(async () => {
+        if (searchRef.current !== search) return;
+        clearSearch();
+        await leaveRef.current();
+        setPhase('timed_out');
+        soundManager.playLocalSound('wrong');
+      }, QUICK_MATCH_TIMEOUT);
+    } catch (error) {
+      console.error('Quick match failed:', error);
+      if (searchRef.current !== search) return;
+      clearSearch();
+      setPhase('idle');
+      toast({ variant: 'destructive', title: 'Quick Match Failed', description: 'Could not search for a match. Please try again.' });
+      haptics.error();
+    }
+  }, [gameType, matchSkill, createRoom, joinRoom, clearSearch]);
+
+  const cancel = useCallback(async () => {
+    const queued = !!entryRef.current;
+    clearSearch();
+    setPhase('idle');
+    if (queued) await leaveRef.current();
+  }, [clearSearch]);
+
+  /** Dismiss the "no match found" offer */
+  const reset = useCallback(() => {
+    setPhase('idle');
+  }, []);
+
+  // An opponent claimed our queue entry and joined the room
+  const opponentArrived = status === 'playing' || players.length >= 2;
+  useEffect(() => {
+    if (phase !== 'searching' || !entryRef.current || !opponentArrived) return;
+    // Our entry was deleted by the claim, so there is nothing left to dequeue
+    entryRef.current = null;
+    clearSearch();
+    setPhase('idle');
+    haptics.success();
+    if (status !== 'playing') opponentFoundRef.current?.();
+  }, [phase, opponentArrived, status, clearSearch]);
+
+  useEffect(() => () => clearSearch(), [clearSearch]);
+
+  return {
+    phase,
+    isSearching: phase === 'searching',
+    searchStartedAt,
+    matchSkill,
+    setMatchSkill,
+    playNow,
+    cancel,
+    reset,
+  };
+};
+
+export type QuickMatch = ReturnType<typeof useQuickMatch>;
@@ -0,0 +1,944 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { checkSupabaseConfig } from '@/utils/supabaseHelpers';
+import { toast } from '@/hooks/use-toast';
+import { soundManager } from '@/utils/soundManager';
+import { haptics } from '@/utils/haptics';
+import { syncServerClock } from '@/utils/serverClock';
+import { useGameChannel } from '@/contexts/GameChannelContext';
+import { type PendingJoin, usePendingJoin } from '@/hooks/usePendingJoin';
+import {
+  type GameRoom,
+  ROOM_ERROR_MESSAGES,
+  ROOM_HEARTBEAT_INTERVAL,
+  ROOM_REQUEST_TIMEOUT,
+  type SeatedPlayer,
+  type StoredRoomSession,
+  addRoomBot,
+  claimRoomHost,
+  clearRoomSession,
+  createGameRoom,
+  findJoinableRoom,
+  getLocalPlayer,
+  isTimeoutError,
+  joinGameRoom,
+  leaveGameRoom,
+  loadRoomSession,
+  saveRoomSession,
+  sendGameAction,
+  sendRoomHeartbeat,
+  toRoomState,
+  withTimeout,
+} from '@/utils/gameRooms';
+
+export type RoomStatus = 'idle' | 'waiting' | 'playing';
+
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  seat: number;
+  /** Played by the host's device rather than a person of its own */
+  isBot?: boolean;
+}
+
+export interface RoomSession {
+  id: string;
+  code: string;
+  seat: number;
+  isHost: boolean;
+  /** Watching a full room: receives every update but can't act */
+  isSpectator: boolean;
+}
+
+const SPECTATOR_SEAT = -1;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 10000;
+/** How often the earliest remaining player asks to take over from a lobby host who vanished */
+const HOST_CLAIM_INTERVAL = 15000;
+
+type RoomEventHandler = (payload: Record<string, unknown>) => void;
+
+interface RoomMeta {
+  hostId: string;
+  hostName: string;
+  /** The host starts the game from the lobby; the room doesn't start when it fills */
+  lobby?: boolean;
+  /** Lobby rooms only: the seat now running the room, when the creator has left */
+  hostSeat?: number;
+  /** Lobby rooms only: seats whose players have left the game */
+  leftSeats?: number[];
+  /** Seats the host filled with bots */
+  bots?: { seat: number; name: string }[];
+}
+
+const toBotPlayer = ({ seat, name }: { seat: number; name: string }): RoomPlayer => ({
+  id: `bot-${seat}`,
+  name,
+  seat,
+  isBot: true,
+});
+
+/** Split the persisted game_state into the room bookkeeping and the game's own state */
+const splitRoomState = (gameState: unknown): { meta: RoomMeta | null; state: Record<string, unknown> } => {
+  const { hostId, hostName, lobby, hostSeat, leftSeats, bots, ...state } = (gameState || {}) as Record<string, unknown>;
+  if (!hostId) return { meta: null, state };
+  return {
+    meta: {
+      hostId: String(hostId),
+      hostName: String(hostName || ''),
+      ...(lobby ? { lobby: true } : {}),
+      ...(typeof hostSeat === 'number' ? { hostSeat } : {}),
+      ...(Array.isArray(leftSeats) && leftSeats.length ? { leftSeats: leftSeats as number[] } : {}),
+      ...(Array.isArray(bots) && bots.length ? { bots: bots as RoomMeta['bots'] } : {}),
+    },
+    state,
+  };
+};
+
+export interface UseRealtimeRoomOptions<State, Action> {
+  /** game_type stored on the room row, also used as the channel prefix */
+  gameType: string;
+  reducer: (state: State, action: Action) => State;
+  initialState: State;
+  /** Default room size; createRoom can pick a different one */
+  maxPlayers?: number;
+  /** Players gather in a lobby and the host starts the game, instead of it starting once the room is full */
+  lobby?: boolean;
+  /** Display name for this player; falls back to the saved player name */
+  playerName?: string;
+  /** Runs after every action (local or remote) has been applied */
+  onAction?: (action: Action, state: State, remote: boolean) => void;
+  /** Host only: a new player finished joining the room */
+  onPlayerJoined?: (player: RoomPlayer) => void;
+  /** Host only, lobby rooms: a player left and the game carries on without them */
+  onPlayerLeft?: (player: RoomPlayer) => void;
+  /** The other side left and the room was closed */
+  onOpponentLeft?: () => void;
+  /** Extra broadcast events that are not part of the reducer (reactions, secrets, ...) */
+  events?: Record<string, RoomEventHandler>;
+  /** Reattach to the saved room after a reload (default true). Disable when state lives only in memory */
+  resumeSession?: boolean;
+  /** Send actions to the game-action edge function, which validates and applies them, instead of reducing locally */
+  serverValidated?: boolean;
+}
+
+/**
+ * Shared room lifecycle for the online games.
+ *
+ * Owns the game_rooms row, the realtime channel (presence + broadcast) and the
+ * persisted game_state. Games only supply a reducer and an initial state; every
+ * dispatched action is applied locally, broadcast to the other players and saved.
+ */
+export const useRealtimeRoom = <State, Action>(options: UseRealtimeRoomOptions<State, Action>) => {
+  const { gameType, initialState, maxPlayers = 2, lobby = false, resumeSession = true } = options;
+  const gameChannel = useGameChannel();
+  const gameChannelRef = useRef(gameChannel);
+  gameChannelRef.current = gameChannel;
+
+  const [state, setState] = useState<State>(initialState);
+  const [room, setRoom] = useState<RoomSession | null>(null);
+  const [status, setStatus] = useState<RoomStatus>('idle');
+  const [players, setPlayers] = useState<RoomPlayer[]>([]);
+  const [spectators, setSpectators] = useState<RoomPlayer[]>([]);
+  const [bots, setBots] = useState<RoomPlayer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [capacity, setCapacity] = useState(maxPlayers);
+  const [hostSeat, setHostSeat] = useState(0);
+  const [me, setMe] = useState<RoomPlayer>(() => ({ ...getLocalPlayer(options.playerName), seat: 0 }));
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const stateRef = useRef<State>(initialState);
+  const roomRef = useRef<RoomSession | null>(null);
+  const meRef = useRef<RoomPlayer>(me);
+  const localIdRef = useRef(me.id);
+  const metaRef = useRef<RoomMeta | null>(null);
+  const joinedCountRef = useRef(1);
+  const capacityRef = useRef(maxPlayers);
+  const playersRef = useRef<RoomPlayer[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const reconnectRef = useRef<() => void>(() => {});
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectingRef = useRef(false);
+
+  const applyState = useCallback((next: State) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  const persistState = useCallback((next: State) => {
+    const current = roomRef.current;
+    if (!current) return;
+    supabase.from('game_rooms')
+      .update({ game_state: toRoomState({ ...next, ...metaRef.current }) })
+      .eq('id', current.id)
+      .then(({ error }) => {
+        if (error) console.error('Failed to save game state:', error);
+      });
+  }, []);
+
+  const disconnect = useCallback(() => {
+    // Clear the ref first so the CLOSED status of a channel we removed is not treated as a drop
+    const channel = channelRef.current;
+    channelRef.current = null;
+    if (channel) supabase.removeChannel(channel);
+    gameChannelRef.current.setChannelRef(null);
+    gameChannelRef.current.setRoomId(null);
+  }, []);
+
+  const stopReconnecting = useCallback(() => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    reconnectingRef.current = false;
+    setIsReconnecting(false);
+  }, []);
+
+  const rememberSession = useCallback((session: RoomSession, player: RoomPlayer) => {
+    if (!resumeSession || session.isSpectator) return;
+    saveRoomSession({
+      roomId: session.id,
+      code: session.code,
+      gameType,
+      seat: session.seat,
+      isHost: session.isHost,
+      playerId: player.id,
+      playerName: player.name,
+    });
+  }, [gameType, resumeSession]);
+
+  /** Whether a room row is past its lobby/waiting phase */
+  const hasStarted = useCallback((data: GameRoom) => {
+    if (lobby) return data.status === 'playing';
+    return data.player_count >= (data.max_players || maxPlayers);
+  }, [lobby, maxPlayers]);
+
+  const trackCapacity = useCallback((size: number) => {
+    capacityRef.current = size;
+    setCapacity(size);
+  }, []);
+
+  const trackMeta = useCallback((meta: RoomMeta | null) => {
+    metaRef.current = meta;
+    setHostSeat(meta?.hostSeat ?? 0);
+    setBots((meta?.bots || []).map(toBotPlayer));
+  }, []);
+
+  const resetRoom = useCallback(() => {
+    stopReconnecting();
+    disconnect();
+    roomRef.current = null;
+    trackMeta(null);
+    joinedCountRef.current = 1;
+    playersRef.current = [];
+    setRoom(null);
+    setStatus('idle');
+    setPlayers([]);
+    setSpectators([]);
+    applyState(optionsRef.current.initialState);
+  }, [stopReconnecting, disconnect, applyState, trackMeta]);
+
+  /** Record a player leaving a lobby room and, if they were the host, who took over */
+  const applyHandover = useCallback((departed: RoomPlayer, host: SeatedPlayer) => {
+    const current = roomRef.current;
+    if (!current) return;
+
+    const leftSeats = (metaRef.current?.leftSeats || []).filter(seat => seat !== departed.seat);
+    trackMeta({
+      ...metaRef.current,
+      hostId: host.id,
+      hostName: host.name,
+      hostSeat: host.seat,
+      leftSeats: [...leftSeats, departed.seat],
+    });
+
+    const promoted = !current.isHost && !current.isSpectator && host.seat === current.seat;
+    if (promoted) {
+      const session: RoomSession = { ...current, isHost: true };
+      roomRef.current = session;
+      setRoom(session);
+      rememberSession(session, meRef.current);
+    }
+
+    toast(promoted
+      ? { title: "You're the Host", description: `${departed.name} left, so you're running the game now` }
+      : { title: 'Player Left', description: `${departed.name} left the game` });
+    if (roomRef.current?.isHost) optionsRef.current.onPlayerLeft?.(departed);
+  }, [trackMeta, rememberSession]);
+
+  const connect = useCallback((session: RoomSession, player: RoomPlayer) => {
+    disconnect();
+    // Turn deadlines are server timestamps; learn our clock offset before the first one
+    syncServerClock();
+
+    const channel = supabase.channel(`${gameType}-${session.code}`, {
+      config: {
+        broadcast: { self: false },
+        presence: { key: player.id },
+      },
+    });
+
+    channel
+      .on('broadcast', { event: 'action' }, ({ payload }) => {
+        if (!payload?.action) return;
+        // Server-validated games broadcast the state the server accepted
+        const next = payload.state ?? optionsRef.current.reducer(stateRef.current, payload.action);
+        applyState(next);
+        optionsRef.current.onAction?.(payload.action, next, true);
+      })
+      .on('broadcast', { event: 'player_joined' }, ({ payload }) => {
+        // Everyone keeps the room's bots, since they are saved with the game state
+        if (payload?.player?.isBot && !roomRef.current?.isHost && metaRef.current) {
+          const others = (metaRef.current.bots || []).filter(bot => bot.seat !== payload.player.seat);
+          trackMeta({ ...metaRef.current, bots: [...others, { seat: payload.player.seat, name: payload.player.name }] });
+        }
+        if (!roomRef.current?.isHost || !payload?.player) return;
+        joinedCountRef.current += 1;
+        if (!lobby && joinedCountRef.current >= capacityRef.current) setStatus('playing');
+        haptics.success();
+        soundManager.playLocalSound('correct');
+        toast({ title: 'Player Joined!', description: `${payload.player.name} joined the game` });
+        optionsRef.current.onPlayerJoined?.(payload.player);
+      })
+      .on('broadcast', { event: 'game_started' }, () => {
+        if (roomRef.current) setStatus('playing');
+      })
+      .on('broadcast', { event: 'player_left' }, ({ payload }) => {
+        if (payload?.player && payload?.host) applyHandover(payload.player, payload.host);
+      })
+      .on('broadcast', { event: 'game_left' }, () => {
+        toast(roomRef.current?.isSpectator
+          ? { title: 'Game Ended', description: 'A player left the game' }
+          : { title: 'Opponent Left', description: 'The game has ended' });
+        clearRoomSession();
+        resetRoom();
+        optionsRef.current.onOpponentLeft?.();
+      })
+      .on('broadcast', { event: 'reaction' }, ({ payload }) => {
+        const handler = optionsRef.current.events?.reaction;
+        if (handler) {
+          handler(payload);
+        } else if (payload?.emoji) {
+          window.dispatchEvent(new CustomEvent('game-reaction', { detail: { emoji: payload.emoji } }));
+        }
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const presence = channel.presenceState<RoomPlayer>();
+        const present = Object.values(presence)
+          .map(entries => entries[0])
+          .filter(Boolean)
+          .map(({ id, name, seat }) => ({ id, name, seat }))
+          .sort((a, b) => a.seat - b.seat);
+        playersRef.current = present.filter(p => p.seat !== SPECTATOR_SEAT);
+        setPlayers(playersRef.current);
+        setSpectators(present.filter(p => p.seat === SPECTATOR_SEAT));
+      });
+
+    Object.keys(optionsRef.current.events || {})
+      .filter(event => event !== 'reaction')
+      .forEach(event => {
+        channel.on('broadcast', { event }, ({ payload }) => {
+          optionsRef.current.events?.[event]?.(payload);
+        });
+      });
+
+    channelRef.current = channel;
+    gameChannelRef.current.setChannelRef(channelRef);
+    gameChannelRef.current.setPlayerName(player.name);
+    gameChannelRef.current.setRoomId(session.id);
+
+    let subscribed = false;
+    return withTimeout(new Promise<void>((resolve, reject) => {
+      channel.subscribe(async (subscribeStatus) => {
+        if (subscribeStatus === 'SUBSCRIBED') {
+          subscribed = true;
+          await channel.track({ id: player.id, name: player.name, seat: player.seat, joined_at: Date.now() });
+          resolve();
+        } else if (!subscribed) {
+          reject(new Error(`Channel ${subscribeStatus.toLowerCase()}`));
+        } else if (channelRef.current === channel) {
+          // The connection dropped mid-game (sleeping phone, network blip)
+          reconnectRef.current();
+        }
+      });
+    }), ROOM_REQUEST_TIMEOUT);
+  }, [gameType, lobby, disconnect, applyState, resetRoom, applyHandover, trackMeta]);
+
+  /**
+   * Reload the authoritative game_state from the room row.
+   * Returns false when the room no longer exists.
+   */
+  const resyncState = useCallback(async (): Promise<boolean> => {
+    const current = roomRef.current;
+    if (!current) return false;
+
+    const { data, error } = await withTimeout(
+      supabase.from('game_rooms').select('*').eq('id', current.id).maybeSingle()
+    );
+    if (error) throw error;
+    if (roomRef.current !== current) return false;
+
+    if (!data) {
+      toast({ title: 'Game Ended', description: 'The room was closed while you were disconnected' });
+      clearRoomSession();
+      resetRoom();
+      optionsRef.current.onOpponentLeft?.();
+      return false;
+    }
+
+    const { meta, state: savedState } = splitRoomState(data.game_state);
+    if (meta?.leftSeats?.includes(current.seat)) {
+      toast({ title: 'Game Moved On', description: 'You were away too long and the game carried on without you' });
+      clearRoomSession();
+      resetRoom();
+      optionsRef.current.onOpponentLeft?.();
+      return false;
+    }
+    if (meta) trackMeta(meta);
+    // Someone else took over as host while we were away
+    if (current.isHost && (meta?.hostSeat ?? 0) !== current.seat) {
+      const session: RoomSession = { ...current, isHost: false };
+      roomRef.current = session;
+      setRoom(session);
+      rememberSession(session, meRef.current);
+    }
+    applyState({ ...optionsRef.current.initialState, ...savedState } as State);
+
+    // Someone may have joined while we were away
+    joinedCountRef.current = Math.max(joinedCountRef.current, data.player_count);
+    if (hasStarted(data)) setStatus('playing');
+    return true;
+  }, [hasStarted, applyState, resetRoom, trackMeta, rememberSession]);
+
+  /** Resubscribe to the room channel and resync state, backing off between attempts */
+  const reconnect = useCallback(async () => {
+    const session = roomRef.current;
+    if (!session || reconnectingRef.current) return;
+
+    reconnectingRef.current = true;
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    setIsReconnecting(true);
+
+    try {
+      // The old topic must be fully removed before a new channel can be created for it
+      const stale = channelRef.current;
+      channelRef.current = null;
+      if (stale) await supabase.removeChannel(stale);
+
+      await connect(session, meRef.current);
+      if (!(await resyncState())) return;
+
+      reconnectAttemptRef.current = 0;
+      reconnectingRef.current = false;
+      setIsReconnecting(false);
+    } catch (error) {
+      console.error('Reconnect failed:', error);
+      reconnectingRef.current = false;
+      if (roomRef.current !== session) return;
+
+      const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** reconnectAttemptRef.current, RECONNECT_MAX_DELAY);
+      reconnectAttemptRef.current += 1;
+      reconnectTimerRef.current = setTimeout(() => reconnectRef.current(), delay);
+    }
+  }, [connect, resyncState]);
+  reconnectRef.current = reconnect;
+
+  const buildPlayer = (seat: number): RoomPlayer => ({
+    id: localIdRef.current,
+    name: getLocalPlayer(optionsRef.current.playerName).name,
+    seat,
+  });
+
+  const showConnectionError = (error: unknown, action: 'create' | 'join') => {
+    console.error(`Error trying to ${action} room:`, error);
+    toast({
+      variant: 'destructive',
+      title: 'Connection Error',
+      description: isTimeoutError(error)
+        ? 'Request timed out. Please check your connection and try again.'
+        : `Failed to ${action} room. Please try again.`,
+    });
+    soundManager.playLocalSound('wrong');
+    haptics.error();
+  };
+
+  const createRoom = useCallback(async (roomState?: State, size: number = maxPlayers): Promise<RoomSession | null> => {
+    if (!checkSupabaseConfig()) return null;
+
+    setIsLoading(true);
+    haptics.light();
+    const startState = roomState ?? optionsRef.current.initialState;
+    const player = buildPlayer(0);
+    const meta: RoomMeta = { hostId: player.id, hostName: player.name, ...(lobby ? { lobby: true } : {}) };
+
+    try {
+      const data = await createGameRoom(gameType, { ...startState, ...meta }, size);
+      const session: RoomSession = { id: data.id, code: data.room_code, seat: 0, isHost: true, isSpectator: false };
+
+      trackMeta(meta);
+      roomRef.current = session;
+      joinedCountRef.current = 1;
+      trackCapacity(data.max_players || size);
+      meRef.current = player;
+      setMe(player);
+      applyState(startState);
+      await connect(session, player);
+
+      setRoom(session);
+      setStatus('waiting');
+      rememberSession(session, player);
+      haptics.success();
+      soundManager.playLocalSound('correct');
+      toast({ title: 'Room Created!', description: `Share code: ${session.code}` });
+      return session;
+    } catch (error) {
+      showConnectionError(error, 'create');
+      resetRoom();
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameType, maxPlayers, lobby, connect, applyState, resetRoom, rememberSession, trackCapacity, trackMeta]);
+
+  /** Watch a full room that is already playing */
+  const spectateRoom = useCallback(async (data: GameRoom): Promise<RoomSession> => {
+    const { meta, state: savedState } = splitRoomState(data.game_state);
+    const player = buildPlayer(SPECTATOR_SEAT);
+    const session: RoomSession = {
+      id: data.id,
+      code: data.room_code,
+      seat: SPECTATOR_SEAT,
+      isHost: false,
+      isSpectator: true,
+    };
+
+    trackMeta(meta);
+    roomRef.current = session;
+    joinedCountRef.current = data.player_count;
+    trackCapacity(data.max_players || maxPlayers);
+    meRef.current = player;
+    setMe(player);
+    applyState({ ...optionsRef.current.initialState, ...savedState } as State);
+    await connect(session, player);
+
+    setRoom(session);
+    setStatus('playing');
+    haptics.success();
+    toast({ title: 'Spectating', description: 'This room is full, so you are watching live' });
+    return session;
+  }, [maxPlayers, connect, applyState, trackCapacity, trackMeta]);
+
+  const joinRoom = useCallback(async (code: string): Promise<RoomSession | null> => {
+    if (!code.trim()) return null;
+    if (!checkSupabaseConfig()) return null;
+
+    setIsLoading(true);
+    haptics.light();
+
+    try {
+      const { room: data, error } = await findJoinableRoom(code, gameType);
+      if (error === 'full' && data?.status === 'playing') {
+        return await spectateRoom(data);
+      }
+      if (error || !data) {
+        toast({ variant: 'destructive', ...ROOM_ERROR_MESSAGES[error || 'not_found'] });
+        soundManager.playLocalSound('wrong');
+        haptics.error();
+        return null;
+      }
+
+      // The server hands out seats so two players can't claim the same one
+      const { seat, status: roomStatus } = await joinGameRoom(data.id);
+      const started = roomStatus === 'playing';
+
+      const { meta, state: savedState } = splitRoomState(data.game_state);
+      // Store creator info for the auto-friend feature
+      if (meta) {
+        sessionStorage.setItem('pendingJoinCreatorId', meta.hostId);
+        sessionStorage.setItem('pendingJoinCreatorName', meta.hostName || 'Unknown');
+        if (data.host_id) sessionStorage.setItem('pendingJoinCreatorUserId', data.host_id);
+      }
+
+      const player = buildPlayer(seat);
+      // Only a room made for its players, like a bracket match, has its host join by code
+      const session: RoomSession = { id: data.id, code: data.room_code, seat, isHost: (meta?.hostSeat ?? 0) === seat, isSpectator: false };
+
+      trackMeta(meta);
+      roomRef.current = session;
+      trackCapacity(data.max_players || maxPlayers);
+      meRef.current = player;
+      setMe(player);
+      applyState({ ...optionsRef.current.initialState, ...savedState } as State);
+      await connect(session, player);
+      await channelRef.current?.send({ type: 'broadcast', event: 'player_joined', payload: { player } });
+
+      setRoom(session);
+      setStatus(started ? 'playing' : 'waiting');
+      rememberSession(session, player);
+      haptics.success();
+      soundManager.playLocalSound('correct');
+      toast({
+        title: 'Joined!',
+        description: started ? 'Game starting!' : lobby ? 'Waiting for the host to start...' : 'Waiting for more players...',
+      });
+      return session;
+    } catch (error) {
+      showConnectionError(error, 'join');
+      resetRoom();
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameType, maxPlayers, lobby, connect, applyState, resetRoom, rememberSession, spectateRoom, trackCapacity, trackMeta]);
+
+  /** Reattach to a room saved before a reload, keeping the same seat and player id */
+  const resumeRoom = useCallback(async (saved: StoredRoomSession) => {
+    if (!checkSupabaseConfig()) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await withTimeout(
+        supabase.from('game_rooms').select('*').eq('id', saved.roomId).maybeSingle()
+      );
+      if (error) throw error;
+      if (!data || data.status === 'ended') {
+        clearRoomSession();
+        return;
+      }
+
+      const { meta, state: savedState } = splitRoomState(data.game_state);
+      if (meta?.leftSeats?.includes(saved.seat)) {
+        clearRoomSession();
+        return;
+      }
+
+      const player: RoomPlayer = { id: saved.playerId, name: saved.playerName, seat: saved.seat };
+      const session: RoomSession = {
+        id: data.id,
+        code: data.room_code,
+        seat: saved.seat,
+        // The host may have changed while we were gone
+        isHost: (meta?.hostSeat ?? 0) === saved.seat,
+        isSpectator: false,
+      };
+
+      localIdRef.current = player.id;
+      trackMeta(meta);
+      roomRef.current = session;
+      joinedCountRef.current = data.player_count;
+      trackCapacity(data.max_players || maxPlayers);
+      meRef.current = player;
+      setMe(player);
+      applyState({ ...optionsRef.current.initialState, ...savedState } as State);
+      await connect(session, player);
+
+      setRoom(session);
+      setStatus(hasStarted(data) ? 'playing' : 'waiting');
+      rememberSession(session, player);
+      toast({ title: 'Rejoined!', description: `Back in room ${session.code}` });
+    } catch (error) {
+      console.error('Error trying to resume room:', error);
+      if (!isTimeoutError(error)) clearRoomSession();
+      resetRoom();
+    } finally {
+      setIsLoading(false);
+    }
+  }, [maxPlayers, hasStarted, connect, applyState, resetRoom, rememberSession, trackCapacity, trackMeta]);
+
+  const leaveRoom = useCallback(async () => {
+    const current = roomRef.current;
+    // Spectators just stop watching; the game carries on without them
+    if (current?.isSpectator) {
+      resetRoom();
+      return;
+    }
+
+    if (current && lobby) {
+      // Lobby rooms carry on without us; a leaving host hands over to the earliest player still here
+      const leftSeats = metaRef.current?.leftSeats || [];
+      const successor = current.isHost
+        ? playersRef.current.find(p => p.id !== meRef.current.id && !leftSeats.includes(p.seat))
+        : undefined;
+      try {
+        const { host, closed } = await leaveGameRoom(current.id, successor);
+        await channelRef.current?.send({
+          type: 'broadcast',
+          event: closed ? 'game_left' : 'player_left',
+          payload: { playerId: meRef.current.id, player: meRef.current, host },
+        });
+      } catch (error) {
+        // The others notice we're gone and take over once our heartbeat stops
+        console.error('Failed to leave room:', error);
+      }
+      clearRoomSession();
+      resetRoom();
+      return;
+    }
+
+    if (channelRef.current) {
+      await channelRef.current.send({
+        type: 'broadcast',
+        event: 'game_left',
+        payload: { playerId: meRef.current.id },
+      });
+    }
+    if (current) {
+      // Only the host may delete the room; a guest leaving just ends it
+      if (current.isHost) {
+        await supabase.from('game_rooms').delete().eq('id', current.id);
+      } else {
+        await supabase.from('game_rooms').update({ status: 'ended' }).eq('id', current.id);
+      }
+    }
+    clearRoomSession();
+    resetRoom();
+  }, [lobby, resetRoom]);
+
+  const sendAction = useCallback((action: Action, botSeat?: number, quiet = false) => {
+    const current = roomRef.current;
+    if (current?.isSpectator) return;
+    if (current && optionsRef.current.serverValidated) {
+      // The server applies the move and saves it; we only send the intent
+      sendGameAction<State>(current.id, action, botSeat)
+        .then(next => {
+          if (roomRef.current !== current) return;
+          applyState(next);
+          optionsRef.current.onAction?.(action, next, false);
+          channelRef.current?.send({
+            type: 'broadcast',
+            event: 'action',
+            payload: { action, state: next, from: meRef.current.id },
+          });
+        })
+        .catch(error => {
+          // Timeout reports are expected to be turned down now and then: too
+          // early by the server's clock, or after someone else's report. The
+          // deadline hook tries again, and the state that ends the turn arrives
+          // like any other move
+          if (quiet) {
+            console.log('Timeout report not accepted:', error.message);
+            return;
+          }
+          console.error('Action rejected:', error);
+          toast({ variant: 'destructive', title: 'Move Rejected', description: error.message });
+          haptics.error();
+          resyncState().catch(e => console.error('Failed to resync game state:', e));
+        });
+      return;
+    }
+
+    const next = optionsRef.current.reducer(stateRef.current, action);
+    applyState(next);
+    optionsRef.current.onAction?.(action, next, false);
+
+    if (channelRef.current) {
+      channelRef.current.send({
+        type: 'broadcast',
+        event: 'action',
+        payload: { action, from: meRef.current.id },
+      });
+    }
+    persistState(next);
+  }, [applyState, persistState, resyncState]);
+
+  /** Apply an action locally, then broadcast and persist it when in a room */
+  const dispatch = useCallback((action: Action) => sendAction(action), [sendAction]);
+
+  /** Report that a turn's time ran out, without telling the player if the server says it hasn't */
+  const reportTimeout = useCallback((action: Action) => sendAction(action, undefined, true), [sendAction]);
+
+  /** Host only: play a move for one of the room's bots */
+  const dispatchAs = useCallback((botSeat: number, action: Action) => {
+    if (!roomRef.current?.isHost) return;
+    sendAction(action, botSeat);
+  }, [sendAction]);
+
+  /** Host only, before the game starts: fill the next open seat with a bot */
+  const addBot = useCallback(async (name: string): Promise<RoomPlayer | null> => {
+    const current = roomRef.current;
+    if (!current?.isHost || !metaRef.current) return null;
+
+    let bot: RoomPlayer;
+    let roomStatus: string;
+    try {
+      const added = await addRoomBot(current.id, name);
+      bot = toBotPlayer(added);
+      roomStatus = added.status;
+    } catch (error) {
+      console.error('Failed to add bot:', error);
+      toast({ variant: 'destructive', title: 'Error', description: error instanceof Error ? error.message : 'Please try again.' });
+      haptics.error();
+      return null;
+    }
+    if (roomRef.current !== current) return null;
+
+    trackMeta({ ...metaRef.current, bots: [...(metaRef.current.bots || []), { seat: bot.seat, name: bot.name }] });
+    joinedCountRef.current += 1;
+    await channelRef.current?.send({ type: 'broadcast', event: 'player_joined', payload: { player: bot } });
+    if (roomStatus === 'playing') setStatus('playing');
+    haptics.success();
+    toast({ title: 'Bot Added', description: `${bot.name} joined the game` });
+    optionsRef.current.onPlayerJoined?.(bot);
+    return bot;
+  }, [trackMeta]);
+
+  /** Replace local state without syncing (e.g. starting a local game) */
+  const replaceState = useCallback((next: State) => {
+    applyState(next);
+  }, [applyState]);
+
+  const broadcast = useCallback((event: string, payload: Record<string, unknown> = {}) => {
+    channelRef.current?.send({ type: 'broadcast', event, payload });
+  }, []);
+
+  const updateRoomStatus = useCallback(async (roomStatus: 'waiting' | 'playing' | 'ended') => {
+    const current = roomRef.current;
+    if (!current || current.isSpectator) return;
+    await supabase.from('game_rooms').update({ status: roomStatus }).eq('id', current.id);
+  }, []);
+
+  /** Host only: close the lobby and start the game for everyone in it */
+  const startGame = useCallback(async (): Promise<boolean> => {
+    const current = roomRef.current;
+    if (!current?.isHost || !channelRef.current) return false;
+    try {
+      const { error } = await withTimeout(
+        supabase.from('game_rooms').update({ status: 'playing' }).eq('id', current.id)
+      );
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to start game:', error);
+      toast({ variant: 'destructive', title: 'Connection Error', description: 'Could not start the game. Please try again.' });
+      return false;
+    }
+    if (roomRef.current !== current) return false;
+
+    await channelRef.current?.send({ type: 'broadcast', event: 'game_started', payload: {} });
+    setStatus('playing');
+    soundManager.playLocalSound('start');
+    return true;
+  }, []);
+
+  // Reattach to the room this device was in before a reload
+  useEffect(() => {
+    if (!resumeSession) return;
+    const saved = loadRoomSession(gameType);
+    if (saved) resumeRoom(saved);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Join the room picked in a join dialog or opened from an invite link
+  const pendingJoin = usePendingJoin(gameType);
+  const handledJoinRef = useRef<PendingJoin | null>(null);
+  useEffect(() => {
+    if (!pendingJoin || handledJoinRef.current === pendingJoin) return;
+    handledJoinRef.current = pendingJoin;
+    if (roomRef.current?.code === pendingJoin.code) return;
+    joinRoom(pendingJoin.code);
+  }, [pendingJoin, joinRoom]);
+
+  // A lobby host who vanished without leaving (closed tab, lost connection) is replaced by
+  // the earliest player still here, once the server agrees the host's heartbeat has stopped
+  useEffect(() => {
+    if (!lobby || !room || room.isHost || room.isSpectator) return;
+    const meta = metaRef.current;
+    const leftSeats = meta?.leftSeats || [];
+    if (!players.some(p => p.id === me.id) || players.some(p => p.seat === (meta?.hostSeat ?? 0))) return;
+    if (players.find(p => !leftSeats.includes(p.seat))?.id !== me.id) return;
+
+    const interval = setInterval(async () => {
+      const previous = metaRef.current;
+      try {
+        const { host, left, closed } = await claimRoomHost(room.id, meRef.current);
+        if (roomRef.current?.id !== room.id || left === null) return;
+
+        if (closed) {
+          toast({ title: 'Game Ended', description: 'Everyone else left the game' });
+          clearRoomSession();
+          resetRoom();
+          optionsRef.current.onOpponentLeft?.();
+          return;
+        }
+        const departed: RoomPlayer = { id: previous?.hostId || '', name: previous?.hostName || 'The host', seat: left };
+        channelRef.current?.send({ type: 'broadcast', event: 'player_left', payload: { player: departed, host } });
+        applyHandover(departed, host);
+      } catch (error) {
+        // Usually the host's heartbeat is still recent; ask again shortly
+      }
+    }, HOST_CLAIM_INTERVAL);
+    return () => clearInterval(interval);
+  }, [lobby, room, players, me.id, resetRoom, applyHandover]);
+
+  // Keep the room alive on the server; closing the tab stops this and the cleanup job takes over
+  useEffect(() => {
+    if (!room || room.isSpectator) return;
+    const beat = () => {
+      sendRoomHeartbeat(room.id).catch(error => console.error('Room heartbeat failed:', error));
+    };
+    beat();
+    const interval = setInterval(beat, ROOM_HEARTBEAT_INTERVAL);
+    return () => clearInterval(interval);
+  }, [room]);
+
+  // Broadcasts may be missed while the tab sleeps, even if the socket survives
+  useEffect(() => {
+    const handleWake = () => {
+      if (!roomRef.current || document.visibilityState !== 'visible') return;
+      if (channelRef.current?.state === 'joined') {
+        resyncState().catch(error => console.error('Failed to resync game state:', error));
+      } else {
+        reconnectRef.current();
+      }
+    };
+
+    window.addEventListener('online', handleWake);
+    document.addEventListener('visibilitychange', handleWake);
+    return () => {
+      window.removeEventListener('online', handleWake);
+      document.removeEventListener('visibilitychange', handleWake);
+    };
+  }, [resyncState]);
+
+  // Leave the channel (but keep the room) when the game unmounts
+  useEffect(() => () => {
+    roomRef.current = null;
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    disconnect();
+  }, [disconnect]);
+
+  // Bots have no presence of their own, so they are listed from the room's bookkeeping
+  const roomPlayers = useMemo(() => [...players, ...bots].sort((a, b) => a.seat - b.seat), [players, bots]);
+
+  return {
+    state,
+    dispatch,
+    dispatchAs,
+    reportTimeout,
+    replaceState,
+    room,
+    status,
+    players: roomPlayers,
+    bots,
+    spectators,
+    me,
+    isLoading,
+    isReconnecting,
+    capacity,
+    hostSeat,
+    createRoom,
+    joinRoom,
+    leaveRoom,
+    startGame,
+    addBot,
+    broadcast,
+    updateRoomStatus,
+  };
+};
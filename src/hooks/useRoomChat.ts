@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { isSupabaseConfigured, supabase } from '@/integrations/supabase/client';
+import {
+  deleteChatMessage,
+  fetchChatHistory,
+  getMutedPlayers,
+  reportChatMessage,
+  sendChatMessage,
+  setPlayerMuted,
+  subscribeToChat,
+  watchRoomChat,
+  type RoomChatMessage,
+} from '@/utils/roomChat';
+import { withTimeout } from '@/utils/gameRooms';
+
+/**
+ * A room's chat: history loaded on join and new messages as they arrive.
+ * Messages the host removed are dropped as soon as they are removed.
+ * `onMessage` is called for each message that arrives live, not for history
+ */
+export const useRoomChat = (roomId: string | null, onMessage?: (message: RoomChatMessage) => void) => {
+  const [messages, setMessages] = useState<RoomChatMessage[]>([]);
+  const [myUserId, setMyUserId] = useState<string | null>(null);
+  const [isHost, setIsHost] = useState(false);
+  const [mutedPlayers, setMutedPlayers] = useState<string[]>(getMutedPlayers);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    setMessages([]);
+    setIsHost(false);
+    if (!roomId || !isSupabaseConfigured()) return;
+
+    let cancelled = false;
+    const upsert = (message: RoomChatMessage) => {
+      setMessages(prev => {
+        if (message.isDeleted) return prev.filter(m => m.id !== message.id);
+        if (prev.some(m => m.id === message.id)) return prev;
+        return [...prev, message];
+      });
+      if (!message.isDeleted) onMessageRef.current?.(message);
+    };
+
+    const unsubscribe = subscribeToChat(roomId, upsert);
+    Promise.all([
+      // Spectators have to be registered before the history is theirs to read
+      watchRoomChat(roomId).then(() => fetchChatHistory(roomId)),
+      supabase.auth.getSession(),
+      withTimeout(supabase.from('game_rooms').select('host_id').eq('id', roomId).maybeSingle()),
+    ])
+      .then(([history, { data: { session } }, { data: room }]) => {
+        if (cancelled) return;
+        const userId = session?.user.id ?? null;
+        setMyUserId(userId);
+        setIsHost(!!userId && room?.host_id === userId);
+        // Keep anything that arrived live while the history was loading
+        setMessages(prev => [...history, ...prev.filter(m => !history.some(h => h.id === m.id))]);
+      })
+      .catch(err => console.error('Failed to load chat history:', err));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [roomId]);
+
+  const send = useCallback(async (message: string, playerName: string) => {
+    if (!roomId) throw new Error('Join a game to chat');
+    const saved = await sendChatMessage(roomId, message, playerName);
+    setMyUserId(saved.senderId);
+    setMessages(prev => (prev.some(m => m.id === saved.id) ? prev : [...prev, saved]));
+  }, [roomId]);
+
+  const remove = useCallback(async (messageId: string) => {
+    await deleteChatMessage(messageId);
+    setMessages(prev => prev.filter(m => m.id !== messageId));
+  }, []);
+
+  const report = useCallback((messageId: string) => reportChatMessage(messageId), []);
+
+  const toggleMute = useCallback((senderId: string) => {
+    setMutedPlayers(setPlayerMuted(senderId, !getMutedPlayers().includes(senderId)));
+  }, []);
+
+  return {
+    messages,
+    myUserId,
+    isHost,
+    mutedPlayers,
+    send,
+    remove,
+    report,
+    toggleMute,
+  };
+};
@@ -14,35 +14,207 @@ export type Database = {
   }
   public: {
     Tables: {
+      bracket_events: {
+        Row: {
+          champion_id: string | null
+          created_at: string
+          finished_at: string | null
+          format: string
+          game_type: string
+          id: string
+          max_players: number
+          name: string
+          organiser_id: string
+          organiser_name: string
+          started_at: string | null
+          status: string
+        }
+        Insert: {
+          champion_id?: string | null
+          created_at?: string
+          finished_at?: string | null
+          format?: string
+          game_type: string
+          id?: string
+          max_players?: number
+          name: string
+          organiser_id: string
+          organiser_name: string
+          started_at?: string | null
+          status?: string
+        }
+        Update: {
+          champion_id?: string | null
+          created_at?: string
+          finished_at?: string | null
+          format?: string
+          game_type?: string
+          id?: string
+          max_players?: number
+          name?: string
+          organiser_id?: string
+          organiser_name?: string
+          started_at?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
+      bracket_matches: {
+        Row: {
+          bracket: string
+          completed_at: string | null
+          event_id: string
+          id: string
+          loser_slot: number | null
+          loser_to: string | null
+          player1_id: string | null
+          player2_id: string | null
+          position: number
+          room_code: string | null
+          room_id: string | null
+          round: number
+          slots_filled: number
+          walkover: boolean
+          winner_id: string | null
+          winner_slot: number | null
+          winner_to: string | null
+        }
+        Insert: {
+          bracket: string
+          completed_at?: string | null
+          event_id: string
+          id?: string
+          loser_slot?: number | null
+          loser_to?: string | null
+          player1_id?: string | null
+          player2_id?: string | null
+          position: number
+          room_code?: string | null
+          room_id?: string | null
+          round: number
+          slots_filled?: number
+          walkover?: boolean
+          winner_id?: string | null
+          winner_slot?: number | null
+          winner_to?: string | null
+        }
+        Update: {
+          bracket?: string
+          completed_at?: string | null
+          event_id?: string
+          id?: string
+          loser_slot?: number | null
+          loser_to?: string | null
+          player1_id?: string | null
+          player2_id?: string | null
+          position?: number
+          room_code?: string | null
+          room_id?: string | null
+          round?: number
+          slots_filled?: number
+          walkover?: boolean
+          winner_id?: string | null
+          winner_slot?: number | null
+          winner_to?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bracket_matches_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "bracket_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bracket_matches_loser_to_fkey"
+            columns: ["loser_to"]
+            isOneToOne: false
+            referencedRelation: "bracket_matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bracket_matches_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "game_rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bracket_matches_winner_to_fkey"
+            columns: ["winner_to"]
+            isOneToOne: false
+            referencedRelation: "bracket_matches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bracket_players: {
+        Row: {
+          event_id: string
+          joined_at: string
+          player_name: string
+          seed: number | null
+          user_id: string
+        }
+        Insert: {
+          event_id: string
+          joined_at?: string
+          player_name: string
+          seed?: number | null
+          user_id: string
+        }
+        Update: {
+          event_id?: string
+          joined_at?: string
+          player_name?: string
+          seed?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bracket_players_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "bracket_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_messages: {
         Row: {
           content: Json
           created_at: string
+          deleted_at: string | null
           disabled: boolean | null
           id: string
           message_type: string
           room_id: string
           sender: string
+          sender_id: string | null
           sender_name: string | null
         }
         Insert: {
           content?: Json
           created_at?: string
+          deleted_at?: string | null
           disabled?: boolean | null
           id?: string
           message_type: string
           room_id: string
           sender: string
+          sender_id?: string | null
           sender_name?: string | null
         }
         Update: {
           content?: Json
           created_at?: string
+          deleted_at?: string | null
           disabled?: boolean | null
           id?: string
           message_type?: string
           room_id?: string
           sender?: string
+          sender_id?: string | null
           sender_name?: string | null
         }
         Relationships: [
@@ -55,14 +227,50 @@ export type Database = {
           },
         ]
       }
+      chat_reports: {
+        Row: {
+          created_at: string
+          id: string
+          message_id: string
+          reason: string | null
+          reporter_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message_id: string
+          reason?: string | null
+          reporter_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message_id?: string
+          reason?: string | null
+          reporter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_reports_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       game_rooms: {
         Row: {
           created_at: string
           game_state: Json
           game_type: string
+          host_id: string | null
+          host_seen_at: string
           id: string
+          last_seen_at: string
           max_players: number
           player_count: number
+          player_ids: string[]
           room_code: string
           status: string
           updated_at: string
@@ -71,9 +279,13 @@ export type Database = {
           created_at?: string
           game_state?: Json
           game_type: string
+          host_id?: string | null
+          host_seen_at?: string
           id?: string
+          last_seen_at?: string
           max_players?: number
           player_count?: number
+          player_ids?: string[]
           room_code: string
           status?: string
           updated_at?: string
@@ -82,21 +294,450 @@ export type Database = {
           created_at?: string
           game_state?: Json
           game_type?: string
+          host_id?: string | null
+          host_seen_at?: string
           id?: string
+          last_seen_at?: string
           max_players?: number
           player_count?: number
+          player_ids?: string[]
           room_code?: string
           status?: string
           updated_at?: string
         }
         Relationships: []
       }
+      game_secrets: {
+        Row: {
+          created_at: string
+          room_id: string
+          secret: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          room_id: string
+          secret?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          room_id?: string
+          secret?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_secrets_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: true
+            referencedRelation: "game_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leaderboard_entries: {
+        Row: {
+          created_at: string
+          details: string | null
+          difficulty: string | null
+          game_type: string
+          id: string
+          player_name: string
+          score: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          difficulty?: string | null
+          game_type: string
+          id?: string
+          player_name: string
+          score: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          difficulty?: string | null
+          game_type?: string
+          id?: string
+          player_name?: string
+          score?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      matchmaking_queue: {
+        Row: {
+          created_at: string
+          game_type: string
+          id: string
+          room_code: string
+          room_id: string
+          skill: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          game_type: string
+          id?: string
+          room_code: string
+          room_id: string
+          skill?: number
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          game_type?: string
+          id?: string
+          room_code?: string
+          room_id?: string
+          skill?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "matchmaking_queue_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "game_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar: string
+          badges: string[]
+          created_at: string
+          display_name: string
+          id: string
+          join_date: string
+          last_active: string
+          level: number
+          total_games: number
+          total_wins: number
+          updated_at: string
+          username: string
+          xp: number
+        }
+        Insert: {
+          avatar?: string
+          badges?: string[]
+          created_at?: string
+          display_name?: string
+          id: string
+          join_date?: string
+          last_active?: string
+          level?: number
+          total_games?: number
+          total_wins?: number
+          updated_at?: string
+          username: string
+          xp?: number
+        }
+        Update: {
+          avatar?: string
+          badges?: string[]
+          created_at?: string
+          display_name?: string
+          id?: string
+          join_date?: string
+          last_active?: string
+          level?: number
+          total_games?: number
+          total_wins?: number
+          updated_at?: string
+          username?: string
+          xp?: number
+        }
+        Relationships: []
+      }
+      quiz_question_history: {
+        Row: {
+          question: string
+          seen_at: string
+          user_id: string
+        }
+        Insert: {
+          question: string
+          seen_at?: string
+          user_id: string
+        }
+        Update: {
+          question?: string
+          seen_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      room_watchers: {
+        Row: {
+          created_at: string
+          room_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          room_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          room_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_watchers_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "game_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tournament_entries: {
+        Row: {
+          final_rank: number | null
+          games_played: number
+          id: string
+          joined_at: string
+          player_name: string
+          score: number
+          tournament_id: string
+          user_id: string
+          wins: number
+        }
+        Insert: {
+          final_rank?: number | null
+          games_played?: number
+          id?: string
+          joined_at?: string
+          player_name: string
+          score?: number
+          tournament_id: string
+          user_id: string
+          wins?: number
+        }
+        Update: {
+          final_rank?: number | null
+          games_played?: number
+          id?: string
+          joined_at?: string
+          player_name?: string
+          score?: number
+          tournament_id?: string
+          user_id?: string
+          wins?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tournament_entries_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tournament_matches: {
+        Row: {
+          created_at: string
+          match_key: string
+          points: number
+          result: string
+          room_id: string
+          tournament_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          match_key: string
+          points: number
+          result: string
+          room_id: string
+          tournament_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          match_key?: string
+          points?: number
+          result?: string
+          room_id?: string
+          tournament_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tournament_matches_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tournaments: {
+        Row: {
+          created_at: string
+          end_date: string
+          finalized_at: string | null
+          game_type: string
+          id: string
+          max_participants: number
+          name: string
+          prize: string
+          start_date: string
+          tier: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          finalized_at?: string | null
+          game_type: string
+          id?: string
+          max_participants?: number
+          name: string
+          prize: string
+          start_date: string
+          tier: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          finalized_at?: string | null
+          game_type?: string
+          id?: string
+          max_participants?: number
+          name?: string
+          prize?: string
+          start_date?: string
+          tier?: string
+        }
+        Relationships: []
+      }
+      user_sync_data: {
+        Row: {
+          created_at: string
+          key: string
+          updated_at: string
+          user_id: string
+          value: Json
+        }
+        Insert: {
+          created_at?: string
+          key: string
+          updated_at?: string
+          user_id: string
+          value: Json
+        }
+        Update: {
+          created_at?: string
+          key?: string
+          updated_at?: string
+          user_id?: string
+          value?: Json
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      leaderboard_all_time: {
+        Row: {
+          created_at: string | null
+          details: string | null
+          difficulty: string | null
+          game_type: string | null
+          id: string | null
+          player_name: string | null
+          rank: number | null
+          score: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      leaderboard_daily: {
+        Row: {
+          created_at: string | null
+          details: string | null
+          difficulty: string | null
+          game_type: string | null
+          id: string | null
+          player_name: string | null
+          rank: number | null
+          score: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      leaderboard_weekly: {
+        Row: {
+          created_at: string | null
+          details: string | null
+          difficulty: string | null
+          game_type: string | null
+          id: string | null
+          player_name: string | null
+          rank: number | null
+          score: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      claim_quick_match: {
+        Args: { _game_type: string; _skill: number; _skill_band?: number }
+        Returns: string
+      }
+      cleanup_stale_rooms: { Args: never; Returns: undefined }
+      current_tournament: {
+        Args: never
+        Returns: {
+          created_at: string
+          end_date: string
+          finalized_at: string | null
+          game_type: string
+          id: string
+          max_participants: number
+          name: string
+          prize: string
+          start_date: string
+          tier: string
+        }
+      }
+      fill_bracket_slot: {
+        Args: { _match_id: string; _player: string; _slot: number }
+        Returns: undefined
+      }
+      finalize_tournaments: { Args: never; Returns: undefined }
+      finish_bracket_match: {
+        Args: { _match_id: string; _walkover?: boolean; _winner: string }
+        Returns: boolean
+      }
+      is_room_member: { Args: { _room_id: string }; Returns: boolean }
+      is_room_watcher: { Args: { _room_id: string }; Returns: boolean }
+      is_server_validated_game: {
+        Args: { _game_type: string }
+        Returns: boolean
+      }
+      record_tournament_match: {
+        Args: {
+          _match_key: string
+          _points: number
+          _result: string
+          _room_id: string
+          _tournament_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      room_heartbeat: { Args: { _room_id: string }; Returns: undefined }
+      server_time: { Args: never; Returns: string }
     }
     Enums: {
       [_ in never]: never
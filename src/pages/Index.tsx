@@ -1,4 +1,5 @@
 import React, { useState, useCallback, createContext, useContext, useMemo, useEffect } from "react";
+import { useMatch, useNavigate } from "react-router-dom";
 import { useSwipe } from "@/hooks/useSwipe";
 import {
   Grid3X3,
@@ -75,6 +76,7 @@ import MagneticButton from "@/components/MagneticButton";
 import { soundManager } from "@/utils/soundManager";
 import { haptics } from "@/utils/haptics";
 import { isPWAInstalled, isInstallable, installPWA } from "@/utils/pwa";
+import { ROOM_ERROR_MESSAGES, findJoinableRoom, isTimeoutError, loadRoomSession } from "@/utils/gameRooms";
 import { DifficultyProvider } from "@/contexts/DifficultyContext";
 import { ActiveGameProvider, useActiveGame } from "@/contexts/ActiveGameContext";
 import { GameChannelProvider, useGameChannel } from "@/contexts/GameChannelContext";
@@ -84,6 +86,7 @@ import { PowerUpsProvider } from "@/contexts/PowerUpsContext";
 import { Achievement } from "@/hooks/useGameStats";
 import { useToast } from "@/hooks/use-toast";
 import { useFriends } from "@/hooks/useFriends";
+import { queuePendingJoin } from "@/hooks/usePendingJoin";
 import { useUserProfile } from "@/contexts/UserProfileContext";
 
 // Achievement notification context
@@ -284,9 +287,13 @@ const games = [
 
 const IndexContent: React.FC = () => {
   const { toast } = useToast();
-  const { addFriend } = useFriends();
+  const { addFriend, updateFriendStatus } = useFriends();
   const { profile } = useUserProfile();
-  const [activeGame, setActiveGame] = useState<GameType>("tictactoe");
+  const [activeGame, setActiveGame] = useState<GameType>(() => {
+    // Reopen the game whose room we were in before a reload so it can reattach
+    const session = loadRoomSession();
+    return games.find((g) => g.id === session?.gameType)?.id ?? "tictactoe";
+  });
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [showLeaderboard, setShowLeaderboard] = useState(false);
   const [showStats, setShowStats] = useState(false);
@@ -304,9 +311,7 @@ const IndexContent: React.FC = () => {
   const [showLeaveDialog, setShowLeaveDialog] = useState(false);
   const [pendingGameSwitch, setPendingGameSwitch] = useState<GameType | null>(null);
   const [showUniversalCodeInput, setShowUniversalCodeInput] = useState(false);
-  const [globalChannelRef, setGlobalChannelRef] = useState<any>(null);
-  const [currentPlayerName, setCurrentPlayerName] = useState('');
-  const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
+  const gameChannel = useGameChannel();
   const [showSplash, setShowSplash] = useState(() => {
     // Only show splash on mobile and on first load
     const isMobile = window.innerWidth < 1024;
@@ -426,6 +431,7 @@ const IndexContent: React.FC = () => {
     // Check for auto-friend feature - if joining via code, add creator as friend
     const creatorId = sessionStorage.getItem('pendingJoinCreatorId');
     const creatorName = sessionStorage.getItem('pendingJoinCreatorName');
+    const creatorUserId = sessionStorage.getItem('pendingJoinCreatorUserId');
     
     if (creatorId && creatorName && profile.id && creatorId !== profile.id) {
       // Check if already friends
@@ -436,6 +442,7 @@ const IndexContent: React.FC = () => {
         // Auto-add as friend
         addFriend({
           id: creatorId,
+          userId: creatorUserId || undefined,
           username: creatorId.substring(0, 8),
           displayName: creatorName,
           avatar: '',
@@ -452,11 +459,15 @@ const IndexContent: React.FC = () => {
         });
         soundManager.playLocalSound('correct');
         haptics.success();
+      } else if (creatorUserId) {
+        // Friends added before their user id was recorded show on the friends leaderboard from now on
+        updateFriendStatus(creatorId, { userId: creatorUserId });
       }
       
       // Clear session storage
       sessionStorage.removeItem('pendingJoinCreatorId');
       sessionStorage.removeItem('pendingJoinCreatorName');
+      sessionStorage.removeItem('pendingJoinCreatorUserId');
     }
     
     // Switch to the game type
@@ -471,7 +482,44 @@ const IndexContent: React.FC = () => {
         haptics.light();
       }
     }
-  }, [isGameActive, addFriend, profile.id, toast]);
+  }, [isGameActive, addFriend, updateFriendStatus, profile.id, toast]);
+
+  // Invite links (/play/:gameType/:roomCode or /play/:roomCode) open straight into the room.
+  // The game in the path is only there for people reading the link; the room decides
+  const inviteMatch = useMatch("/play/:gameType/:roomCode");
+  const shortInviteMatch = useMatch("/play/:roomCode");
+  const inviteCode = (inviteMatch ?? shortInviteMatch)?.params.roomCode;
+  const navigate = useNavigate();
+  useEffect(() => {
+    if (!inviteCode) return;
+    navigate("/", { replace: true });
+
+    (async () => {
+      try {
+        const { room, error } = await findJoinableRoom(inviteCode);
+        // Full rooms that are already playing can still be watched
+        const spectating = error === "full" && room?.status === "playing";
+        if (!room || (error && !spectating)) {
+          toast({ variant: "destructive", ...ROOM_ERROR_MESSAGES[error || "not_found"] });
+          return;
+        }
+        if (!games.some((g) => g.id === room.game_type)) {
+          toast({ variant: "destructive", title: "Unknown Game", description: "This game type is not supported." });
+          return;
+        }
+        queuePendingJoin({ code: room.room_code, gameType: room.game_type, roomId: room.id });
+        handleJoinGameByCode(room.game_type, room.room_code);
+      } catch (error) {
+        console.error("Failed to open invite link:", error);
+        toast({
+          variant: "destructive",
+          ...ROOM_ERROR_MESSAGES[isTimeoutError(error) ? "timeout" : "not_found"],
+        });
+      }
+    })();
+    // Only when a link is opened; handleJoinGameByCode changes as the profile loads
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [inviteCode]);
 
   // Handle game switching with confirmation if game is active
   const handleGameSwitch = useCallback(
@@ -621,9 +669,9 @@ const IndexContent: React.FC = () => {
 
         {/* Floating Action Panel - Slideable sidebar with all actions */}
         <FloatingActionPanel
-          channelRef={globalChannelRef}
-          playerName={currentPlayerName || undefined}
-          roomId={currentRoomId || undefined}
+          channelRef={gameChannel.channelRef || undefined}
+          playerName={gameChannel.playerName || undefined}
+          roomId={gameChannel.roomId || undefined}
           onJoinGame={handleJoinGameByCode}
         />
 
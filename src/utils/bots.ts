@@ -0,0 +1,121 @@
+import type { Difficulty } from '@/contexts/DifficultyContext';
+
+/**
+ * Bots for the online party and word games. A bot takes a seat in the room
+ * and the host's device plays it, sending the same actions and secret
+ * requests a person in that seat would. Each game reads its tuning from here,
+ * at the difficulty the host has picked.
+ */
+
+const BOT_NAMES = ['Pixel', 'Byte', 'Gizmo', 'Sprocket', 'Widget', 'Chip', 'Nova', 'Bolt'];
+
+/** A name for the next bot, skipping ones already in the room */
+export const pickBotName = (taken: string[] = []): string => {
+  const names = BOT_NAMES.map(name => `🤖 ${name}`);
+  const free = names.filter(name => !taken.includes(name));
+  return (free.length ? free : names)[Math.floor(Math.random() * (free.length || names.length))];
+};
+
+const randomBetween = (min: number, max: number) => min + Math.random() * (max - min);
+
+// ---------- Quiz Battle ----------
+
+interface QuizBotLevel {
+  /** Chance of picking the right option */
+  accuracy: number;
+  /** Time taken to answer, in ms */
+  latency: [number, number];
+}
+
+export const QUIZ_BOT_LEVELS: Record<Difficulty, QuizBotLevel> = {
+  easy: { accuracy: 0.45, latency: [4000, 9000] },
+  medium: { accuracy: 0.7, latency: [2500, 7000] },
+  hard: { accuracy: 0.9, latency: [1500, 4500] },
+};
+
+export const quizBotDelay = (level: QuizBotLevel) => randomBetween(...level.latency);
+
+// ---------- Word Chain ----------
+
+interface WordChainBotLevel {
+  /** Time taken to play a word, in ms */
+  thinkTime: [number, number];
+  /** Chance of running out of ideas and letting the turn time out */
+  missChance: number;
+  /** Longest word the bot knows to play; easier bots stick to short words */
+  maxLength: number;
+}
+
+export const WORD_CHAIN_BOT_LEVELS: Record<Difficulty, WordChainBotLevel> = {
+  easy: { thinkTime: [5000, 11000], missChance: 0.2, maxLength: 5 },
+  medium: { thinkTime: [3000, 8000], missChance: 0.08, maxLength: 7 },
+  hard: { thinkTime: [1500, 5000], missChance: 0.02, maxLength: 12 },
+};
+
+export const wordChainBotDelay = (level: WordChainBotLevel) => randomBetween(...level.thinkTime);
+
+/**
+ * The word the bot plays out of every word it could play, or null when it
+ * can't think of one. Easier bots only know shorter words
+ */
+export const pickWordChainBotWord = (candidates: string[], level: WordChainBotLevel): string | null => {
+  if (Math.random() < level.missChance) return null;
+  const options = candidates.filter(word => word.length <= level.maxLength);
+  return options.length ? options[Math.floor(Math.random() * options.length)] : null;
+};
+
+// ---------- Hangman ----------
+
+// English letters from most to least common
+const LETTER_FREQUENCY = 'etaoinshrdlcumwfgypbvkjxqz';
+
+interface HangmanBotLevel {
+  /** Chance of guessing a random letter instead of the next most common one */
+  randomChance: number;
+  /** Time taken to guess, in ms */
+  thinkTime: [number, number];
+}
+
+export const HANGMAN_BOT_LEVELS: Record<Difficulty, HangmanBotLevel> = {
+  easy: { randomChance: 0.6, thinkTime: [1500, 3500] },
+  medium: { randomChance: 0.3, thinkTime: [1000, 2500] },
+  hard: { randomChance: 0.05, thinkTime: [700, 1800] },
+};
+
+export const hangmanBotDelay = (level: HangmanBotLevel) => randomBetween(...level.thinkTime);
+
+/** The bot's next letter: usually the most common one not yet tried */
+export const pickHangmanBotGuess = (guessed: string[], level: HangmanBotLevel): string | null => {
+  const left = LETTER_FREQUENCY.split('').filter(letter => !guessed.includes(letter));
+  if (left.length === 0) return null;
+  return Math.random() < level.randomChance ? left[Math.floor(Math.random() * left.length)] : left[0];
+};
+
+// ---------- Math duels ----------
+
+interface MathBotLevel {
+  /** Median time to solve a problem, in ms */
+  medianSolveTime: number;
+  /** Spread of solve times around the median; 0 answers at the same pace every time */
+  spread: number;
+  /** Chance of getting a problem right */
+  accuracy: number;
+}
+
+export const MATH_BOT_LEVELS: Record<Difficulty, MathBotLevel> = {
+  easy: { medianSolveTime: 6000, spread: 0.5, accuracy: 0.7 },
+  medium: { medianSolveTime: 4000, spread: 0.4, accuracy: 0.85 },
+  hard: { medianSolveTime: 2500, spread: 0.3, accuracy: 0.95 },
+};
+
+/**
+ * How long the bot takes on one problem. Solve times are log-normal: mostly
+ * near the median, with the odd slow one
+ */
+export const sampleMathSolveTime = ({ medianSolveTime, spread }: MathBotLevel): number => {
+  // Box-Muller: a standard normal sample from two uniform ones
+  const normal = Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+  return Math.round(medianSolveTime * Math.exp(spread * normal));
+};
+
+export const mathBotAnswersCorrectly = (level: MathBotLevel) => Math.random() < level.accuracy;
@@ -0,0 +1,194 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { invokeEdgeFunction, withTimeout } from '@/utils/gameRooms';
+
+export type BracketFormat = 'single' | 'double';
+
+export interface BracketEvent {
+  id: string;
+  name: string;
+  gameType: string;
+  format: BracketFormat;
+  organiserId: string;
+  organiserName: string;
+  maxPlayers: number;
+  status: 'registration' | 'running' | 'finished';
+  championId: string | null;
+  createdAt: number;
+}
+
+export interface BracketPlayer {
+  userId: string;
+  playerName: string;
+  seed: number | null;
+}
+
+export interface BracketMatch {
+  id: string;
+  bracket: 'winners' | 'losers' | 'final';
+  round: number;
+  position: number;
+  player1Id: string | null;
+  player2Id: string | null;
+  /** Both slots decided; a slot may still be empty, which makes the match a bye */
+  isSettled: boolean;
+  winnerId: string | null;
+  walkover: boolean;
+  roomCode: string | null;
+  completed: boolean;
+}
+
+/** Games the bracket edge function can open match rooms for */
+export const BRACKET_GAMES = [
+  { id: 'tictactoe', label: 'Tic Tac Toe' },
+  { id: 'connect4', label: 'Connect Four' },
+  { id: 'rps', label: 'Rock Paper Scissors' },
+];
+
+const BRACKET_FUNCTION = 'bracket';
+// The bracket room this device was sent to, so only its result is reported
+const BRACKET_ROOM_KEY = 'mindgames-bracket-room';
+// The final move may still be being saved when a player reports it, so the server may not see it straight away
+const REPORT_ATTEMPTS = 3;
+const REPORT_RETRY_DELAY = 2000;
+const EVENT_LIST_LIMIT = 20;
+
+const fromEventRow = (row: Tables<'bracket_events'>): BracketEvent => ({
+  id: row.id,
+  name: row.name,
+  gameType: row.game_type,
+  format: row.format as BracketFormat,
+  organiserId: row.organiser_id,
+  organiserName: row.organiser_name,
+  maxPlayers: row.max_players,
+  status: row.status as BracketEvent['status'],
+  championId: row.champion_id,
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+const fromMatchRow = (row: Tables<'bracket_matches'>): BracketMatch => ({
+  id: row.id,
+  bracket: row.bracket as BracketMatch['bracket'],
+  round: row.round,
+  position: row.position,
+  player1Id: row.player1_id,
+  player2Id: row.player2_id,
+  isSettled: row.slots_filled === 2,
+  winnerId: row.winner_id,
+  walkover: row.walkover,
+  roomCode: row.room_code,
+  completed: !!row.completed_at,
+});
+
+/** The most recent events, newest first */
+export const fetchBracketEvents = async (): Promise<BracketEvent[]> => {
+  const { data, error } = await withTimeout(
+    supabase.from('bracket_events').select('*').order('created_at', { ascending: false }).limit(EVENT_LIST_LIMIT)
+  );
+  if (error) throw error;
+  return data.map(fromEventRow);
+};
+
+/** One event with its players and every match of its bracket */
+export const fetchBracket = async (eventId: string) => {
+  const [events, players, matches] = await Promise.all([
+    withTimeout(supabase.from('bracket_events').select('*').eq('id', eventId).single()),
+    withTimeout(supabase.from('bracket_players').select('*').eq('event_id', eventId).order('joined_at')),
+    withTimeout(supabase.from('bracket_matches').select('*').eq('event_id', eventId)),
+  ]);
+  if (events.error) throw events.error;
+  if (players.error) throw players.error;
+  if (matches.error) throw matches.error;
+  return {
+    event: fromEventRow(events.data),
+    players: players.data.map((row): BracketPlayer => ({ userId: row.user_id, playerName: row.player_name, seed: row.seed })),
+    matches: matches.data.map(fromMatchRow),
+  };
+};
+
+/**
+ * Call `onChange` when anything in an event changes, or with no `eventId`,
+ * when any event is created or changes status
+ */
+export const subscribeToBrackets = (eventId: string | null, onChange: () => void) => {
+  const filter = eventId ? { filter: `event_id=eq.${eventId}` } : {};
+  let channel = supabase
+    .channel(`brackets-${eventId ?? 'all'}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'bracket_events',
+      ...(eventId ? { filter: `id=eq.${eventId}` } : {}),
+    }, onChange);
+  if (eventId) {
+    channel = channel
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bracket_players', ...filter }, onChange)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bracket_matches', ...filter }, onChange);
+  }
+  channel.subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+export const createBracketEvent = async (event: {
+  name: string;
+  gameType: string;
+  format: BracketFormat;
+  maxPlayers: number;
+  playerName: string;
+}): Promise<BracketEvent> => {
+  const { event: row } = await invokeEdgeFunction<{ event: Tables<'bracket_events'> }>(BRACKET_FUNCTION, {
+    op: 'create',
+    ...event,
+  });
+  return fromEventRow(row);
+};
+
+export const registerForBracket = (eventId: string, playerName: string) =>
+  invokeEdgeFunction(BRACKET_FUNCTION, { op: 'register', eventId, playerName });
+
+export const withdrawFromBracket = (eventId: string) =>
+  invokeEdgeFunction(BRACKET_FUNCTION, { op: 'withdraw', eventId });
+
+/** Organiser only: seed the registered players and build the bracket */
+export const startBracket = (eventId: string) =>
+  invokeEdgeFunction(BRACKET_FUNCTION, { op: 'start', eventId });
+
+/** Organiser only: decide a match without playing it, e.g. when a player has gone home */
+export const awardBracketMatch = (matchId: string, winnerId: string) =>
+  invokeEdgeFunction(BRACKET_FUNCTION, { op: 'award', matchId, winnerId });
+
+/**
+ * Get the room for one of this player's matches, opening a new one if there
+ * is none yet. Returns the room code to join it with
+ */
+export const openBracketMatch = async (matchId: string) => {
+  const { roomId, roomCode } = await invokeEdgeFunction<{ roomId: string; roomCode: string }>(BRACKET_FUNCTION, {
+    op: 'play',
+    matchId,
+  });
+  localStorage.setItem(BRACKET_ROOM_KEY, roomId);
+  return roomCode;
+};
+
+const requestMatchReport = async (roomId: string) => {
+  for (let attempt = 1; attempt <= REPORT_ATTEMPTS; attempt++) {
+    const { finished } = await invokeEdgeFunction<{ recorded: boolean; finished?: boolean }>(BRACKET_FUNCTION, {
+      op: 'report',
+      roomId,
+    });
+    if (finished !== false) return;
+    await new Promise(resolve => setTimeout(resolve, REPORT_RETRY_DELAY));
+  }
+};
+
+/**
+ * Ask the server to settle the bracket match played in this room, if this
+ * device was sent there from a bracket. Drawn games don't decide a match, so
+ * call this after every finished game. Best effort: a failure is only logged
+ */
+export const reportBracketMatch = (roomId: string) => {
+  if (localStorage.getItem(BRACKET_ROOM_KEY) !== roomId) return;
+  requestMatchReport(roomId).catch(error => console.error('Failed to report bracket match:', error));
+};
@@ -0,0 +1,220 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { withTimeout } from '@/utils/gameRooms';
+
+/**
+ * Combine this device's copy of a value with the cloud's. `base` is the value
+ * both last agreed on (undefined before the first sync), so a merge can tell
+ * what changed on each side since then
+ */
+export type SyncMerge<T> = (local: T, cloud: T, base: T | undefined) => T;
+
+// Keys written since they were last pushed, with the time of the latest write
+const QUEUE_KEY = 'mindgames-sync-queue';
+// The merged value of each key as of its last sync
+const BASE_KEY = 'mindgames-sync-base';
+const SYNC_EVENT = 'mindgames-sync-updated';
+// Group the several writes a finished game makes into one round trip
+const FLUSH_DELAY = 2000;
+
+const mergers = new Map<string, SyncMerge<unknown>>();
+let syncUserId: string | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+let flushAgain = false;
+
+const readJSON = <T>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return fallback;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse ${key}`);
+    return fallback;
+  }
+};
+
+const readQueue = () => readJSON<Record<string, number>>(QUEUE_KEY, {});
+
+const queueKeys = (keys: string[]) => {
+  const now = Date.now();
+  const queue = readQueue();
+  keys.forEach(key => {
+    queue[key] = now;
+  });
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+};
+
+const scheduleFlush = (delay = FLUSH_DELAY) => {
+  if (!syncUserId) return;
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushCloudSync().catch(error => console.error('Failed to sync data:', error));
+  }, delay);
+};
+
+/** A positive count that may have grown or shrunk on both devices since the last sync */
+export const mergeCount = (local: number, cloud: number, base: number | undefined) =>
+  Math.max(0, cloud + local - (base ?? 0));
+
+/**
+ * Merge two keyed collections. Entries on both sides go through `merge`; an
+ * entry that existed at the last sync but is now missing on one side was
+ * removed there, so it stays removed
+ */
+export const mergeRecords = <T>(
+  local: Record<string, T>,
+  cloud: Record<string, T>,
+  base: Record<string, T> | undefined,
+  merge: SyncMerge<T>
+): Record<string, T> => {
+  const merged: Record<string, T> = {};
+  new Set([...Object.keys(cloud), ...Object.keys(local)]).forEach(key => {
+    const wasSynced = !!base && key in base;
+    if (key in local && key in cloud) {
+      merged[key] = merge(local[key], cloud[key], base?.[key]);
+    } else if (!wasSynced) {
+      merged[key] = key in local ? local[key] : cloud[key];
+    }
+  });
+  return merged;
+};
+
+/** `mergeRecords` for lists of items with an id. The result is unordered */
+export const mergeById = <T>(
+  local: T[],
+  cloud: T[],
+  base: T[] | undefined,
+  getId: (item: T) => string,
+  merge: SyncMerge<T> = item => item
+): T[] => {
+  const byId = (items: T[]) => Object.fromEntries(items.map(item => [getId(item), item]));
+  return Object.values(mergeRecords(byId(local), byId(cloud), base && byId(base), merge));
+};
+
+/**
+ * Mirror a localStorage key to the signed-in player's cloud storage. Call once
+ * per key at module load, with how to merge copies from two devices
+ */
+export const registerSyncedKey = <T>(key: string, merge: SyncMerge<T>) => {
+  mergers.set(key, merge);
+  if (syncUserId) {
+    queueKeys([key]);
+    scheduleFlush();
+  }
+};
+
+/** Save a synced key locally and queue it for the cloud. Works offline; the write is sent once back online */
+export const saveSyncedItem = (key: string, value: unknown) => {
+  localStorage.setItem(key, JSON.stringify(value));
+  queueKeys([key]);
+  scheduleFlush();
+};
+
+/** Run `callback` when a sync brings in changes to any of `keys` from another device */
+export const onSyncedDataChange = (keys: string[], callback: () => void) => {
+  const handler = (event: Event) => {
+    if ((event as CustomEvent<string[]>).detail.some(key => keys.includes(key))) callback();
+  };
+  window.addEventListener(SYNC_EVENT, handler);
+  return () => window.removeEventListener(SYNC_EVENT, handler);
+};
+
+const pushQueuedKeys = async () => {
+  const userId = syncUserId;
+  const startedAt = Date.now();
+  const keys = Object.keys(readQueue()).filter(key => mergers.has(key));
+  if (!userId || keys.length === 0) return;
+
+  const { data, error } = await withTimeout(
+    supabase.from('user_sync_data').select('key, value').eq('user_id', userId).in('key', keys)
+  );
+  if (error) throw error;
+  if (syncUserId !== userId) return;
+
+  // Merge and save locally without awaiting, so a write made meanwhile can't be lost
+  const cloud = new Map(data.map(row => [row.key, row.value as unknown]));
+  const bases = readJSON<Record<string, unknown>>(BASE_KEY, {});
+  const previousBases = { ...bases };
+  const rows: { user_id: string; key: string; value: Json }[] = [];
+  const changed: string[] = [];
+
+  keys.forEach(key => {
+    const local = readJSON<unknown>(key, undefined);
+    const remote = cloud.get(key);
+    const merged = local === undefined ? remote
+      : remote === undefined ? local
+      : mergers.get(key)(local, remote, bases[key]);
+    if (merged === undefined) return;
+
+    const serialized = JSON.stringify(merged);
+    if (serialized !== localStorage.getItem(key)) {
+      localStorage.setItem(key, serialized);
+      changed.push(key);
+    }
+    rows.push({ user_id: userId, key, value: merged as Json });
+    // If the upload fails the cloud still holds `remote`, which is what later merges must compare against
+    previousBases[key] = remote;
+    bases[key] = merged;
+  });
+  localStorage.setItem(BASE_KEY, JSON.stringify(bases));
+  if (changed.length > 0) window.dispatchEvent(new CustomEvent(SYNC_EVENT, { detail: changed }));
+
+  const { error: saveError } = await withTimeout(supabase.from('user_sync_data').upsert(rows));
+  if (saveError) {
+    localStorage.setItem(BASE_KEY, JSON.stringify(previousBases));
+    throw saveError;
+  }
+
+  // Keys written again while uploading stay queued for the next flush
+  const queue = readQueue();
+  keys.forEach(key => {
+    if (queue[key] <= startedAt) delete queue[key];
+  });
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+};
+
+/** Pull, merge and push every queued key now. Offline, the queue is kept for later */
+export const flushCloudSync = async (): Promise<void> => {
+  if (!syncUserId || !navigator.onLine) return;
+  if (flushing) {
+    flushAgain = true;
+    return flushing;
+  }
+  flushing = pushQueuedKeys().finally(() => {
+    flushing = null;
+    if (flushAgain) {
+      flushAgain = false;
+      scheduleFlush(0);
+    }
+  });
+  return flushing;
+};
+
+const handleOnline = () => scheduleFlush(0);
+
+/** Start syncing for a signed-in player, catching up on every key with their other devices */
+export const startCloudSync = (userId: string) => {
+  if (syncUserId === userId) return;
+  syncUserId = userId;
+  queueKeys(Array.from(mergers.keys()));
+  window.addEventListener('online', handleOnline);
+  scheduleFlush(0);
+};
+
+export const stopCloudSync = () => {
+  syncUserId = null;
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  window.removeEventListener('online', handleOnline);
+};
+
+/** Forget the synced data on this device after signing out. It stays in the cloud */
+export const clearSyncedData = () => {
+  const keys = Array.from(mergers.keys());
+  keys.forEach(key => localStorage.removeItem(key));
+  localStorage.removeItem(QUEUE_KEY);
+  localStorage.removeItem(BASE_KEY);
+  window.dispatchEvent(new CustomEvent(SYNC_EVENT, { detail: keys }));
+};
@@ -0,0 +1,54 @@
+// Board rules shared by the Connect Four game and its computer opponent
+
+export type Player = 'red' | 'yellow' | null;
+export type Board = Player[][];
+
+export const ROWS = 6;
+export const COLS = 7;
+
+export const createEmptyBoard = (): Board => 
+  Array(ROWS).fill(null).map(() => Array(COLS).fill(null));
+
+export const checkWinner = (board: Board, row: number, col: number, player: Player): boolean => {
+  if (!player) return false;
+
+  const directions = [
+    [0, 1],   // horizontal
+    [1, 0],   // vertical
+    [1, 1],   // diagonal down-right
+    [1, -1],  // diagonal down-left
+  ];
+
+  for (const [dr, dc] of directions) {
+    let count = 1;
+    
+    // Check positive direction
+    for (let i = 1; i < 4; i++) {
+      const r = row + dr * i;
+      const c = col + dc * i;
+      if (r >= 0 && r < ROWS && c >= 0 && c < COLS && board[r][c] === player) {
+        count++;
+      } else break;
+    }
+    
+    // Check negative direction
+    for (let i = 1; i < 4; i++) {
+      const r = row - dr * i;
+      const c = col - dc * i;
+      if (r >= 0 && r < ROWS && c >= 0 && c < COLS && board[r][c] === player) {
+        count++;
+      } else break;
+    }
+
+    if (count >= 4) return true;
+  }
+  return false;
+};
+
+// Lowest empty row in a column, or -1 when the column is full
+export const findDropRow = (board: Board, col: number): number => {
+  for (let r = ROWS - 1; r >= 0; r--) {
+    if (!board[r][col]) return r;
+  }
+  return -1;
+};
@@ -0,0 +1,236 @@
+import type { Difficulty } from '@/contexts/DifficultyContext';
+import { COLS, ROWS, checkWinner, createEmptyBoard, findDropRow, type Board } from '@/utils/connectFour';
+import { bestMoves, rateMove, type AnalysedMove, type ScoredMove } from '@/utils/moveAnalysis';
+
+type Color = 'red' | 'yellow';
+
+interface AILevel {
+  /** Deepest search, in moves */
+  depth: number;
+  /** Search stops deepening once this much time has gone, keeping the best move found so far */
+  timeBudget: number;
+  /** Chance of playing a random column instead of the searched move */
+  mistakeChance: number;
+}
+
+export const CONNECT_FOUR_AI_LEVELS: Record<Difficulty, AILevel> = {
+  easy: { depth: 2, timeBudget: 150, mistakeChance: 0.3 },
+  medium: { depth: 5, timeBudget: 500, mistakeChance: 0.05 },
+  hard: { depth: 12, timeBudget: 1500, mistakeChance: 0 },
+};
+
+const WIN_SCORE = 1_000_000;
+const HINT_LEVEL = { depth: 12, timeBudget: 1000 };
+// Each position of a finished game gets a shorter search, so the whole game is done in seconds
+const ANALYSIS_LEVEL = { depth: 8, timeBudget: 150 };
+// Evaluation points below the best that still count as a good move
+const ANALYSIS_TOLERANCE = 30;
+// Centre columns take part in the most lines, so try them first
+const COLUMN_ORDER = [3, 2, 4, 1, 5, 0, 6];
+const CENTRE_WEIGHT = 3;
+const TWO_WEIGHT = 2;
+const THREE_WEIGHT = 8;
+const THREAT_WEIGHT = 40;
+const PLAYABLE_THREAT_WEIGHT = 200;
+// Red moves first, so it fills the odd rows (counting from the bottom) at the end of the game
+const PARITY_WEIGHT = 30;
+
+// Every run of four cells that can make a line
+const WINDOWS: [number, number][][] = (() => {
+  const windows: [number, number][][] = [];
+  const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
+  for (let r = 0; r < ROWS; r++) {
+    for (let c = 0; c < COLS; c++) {
+      for (const [dr, dc] of directions) {
+        const endR = r + dr * 3;
+        const endC = c + dc * 3;
+        if (endR < 0 || endR >= ROWS || endC < 0 || endC >= COLS) continue;
+        windows.push([0, 1, 2, 3].map(i => [r + dr * i, c + dc * i] as [number, number]));
+      }
+    }
+  }
+  return windows;
+})();
+
+const other = (color: Color): Color => (color === 'red' ? 'yellow' : 'red');
+
+/**
+ * Score the position for `me`: open twos and threes, plus threats (an empty
+ * cell that would complete four). A threat the opponent can't stop by playing
+ * under it, or one on the row parity that favours its owner, is worth more
+ */
+const evaluate = (board: Board, me: Color) => {
+  let score = 0;
+  const threats = { red: new Set<number>(), yellow: new Set<number>() };
+
+  for (let r = 0; r < ROWS; r++) {
+    if (board[r][3] === me) score += CENTRE_WEIGHT;
+    else if (board[r][3]) score -= CENTRE_WEIGHT;
+  }
+
+  for (const window of WINDOWS) {
+    let red = 0;
+    let yellow = 0;
+    let empty = -1;
+    for (const [r, c] of window) {
+      const cell = board[r][c];
+      if (cell === 'red') red++;
+      else if (cell === 'yellow') yellow++;
+      else empty = r * COLS + c;
+    }
+    if (red && yellow) continue;
+    const owner: Color = red ? 'red' : 'yellow';
+    const count = red || yellow;
+    const sign = owner === me ? 1 : -1;
+    if (count === 2) score += sign * TWO_WEIGHT;
+    else if (count === 3) {
+      score += sign * THREE_WEIGHT;
+      threats[owner].add(empty);
+    }
+  }
+
+  for (const owner of ['red', 'yellow'] as Color[]) {
+    const sign = owner === me ? 1 : -1;
+    for (const cell of threats[owner]) {
+      const r = Math.floor(cell / COLS);
+      const c = cell % COLS;
+      const rowFromBottom = ROWS - r;
+      const isPlayable = findDropRow(board, c) === r;
+      score += sign * (isPlayable ? PLAYABLE_THREAT_WEIGHT : THREAT_WEIGHT);
+      if (!isPlayable && (rowFromBottom % 2 === 1) === (owner === 'red')) score += sign * PARITY_WEIGHT;
+    }
+  }
+
+  return score;
+};
+
+const countEmpty = (board: Board) => board.reduce((sum, row) => sum + row.filter(cell => !cell).length, 0);
+
+interface SearchContext {
+  deadline: number;
+  nodes: number;
+  timedOut: boolean;
+}
+
+const negamax = (
+  board: Board,
+  turn: Color,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number,
+  movesLeft: number,
+  ctx: SearchContext
+): number => {
+  if (++ctx.nodes % 1024 === 0 && Date.now() > ctx.deadline) ctx.timedOut = true;
+  if (ctx.timedOut) return 0;
+  if (movesLeft === 0) return 0;
+  if (depth === 0) return evaluate(board, turn);
+
+  let best = -Infinity;
+  for (const col of COLUMN_ORDER) {
+    const row = findDropRow(board, col);
+    if (row === -1) continue;
+    board[row][col] = turn;
+    const score = checkWinner(board, row, col, turn)
+      ? WIN_SCORE - ply
+      : -negamax(board, other(turn), depth - 1, -beta, -alpha, ply + 1, movesLeft - 1, ctx);
+    board[row][col] = null;
+    if (score > best) best = score;
+    if (score > alpha) alpha = score;
+    if (alpha >= beta) break;
+  }
+  return best;
+};
+
+/**
+ * Pick a column for `me` with negamax and alpha-beta pruning, deepening one
+ * move at a time until the level's depth or time budget is reached
+ */
+export const chooseConnectFourMove = (board: Board, me: Color, difficulty: Difficulty): number => {
+  const level = CONNECT_FOUR_AI_LEVELS[difficulty];
+  const work = board.map(row => [...row]);
+  const columns = COLUMN_ORDER.filter(col => findDropRow(work, col) !== -1);
+  if (columns.length === 0) return -1;
+  if (Math.random() < level.mistakeChance) {
+    return columns[Math.floor(Math.random() * columns.length)];
+  }
+
+  const movesLeft = countEmpty(work);
+  const ctx: SearchContext = { deadline: Date.now() + level.timeBudget, nodes: 0, timedOut: false };
+  let bestMove = columns[0];
+
+  for (let depth = 1; depth <= Math.min(level.depth, movesLeft); depth++) {
+    // The last iteration's best move goes first, so a cut-short search still has it
+    const ordered = [bestMove, ...columns.filter(col => col !== bestMove)];
+    let alpha = -Infinity;
+    let iterationBest = bestMove;
+    for (const col of ordered) {
+      const row = findDropRow(work, col);
+      work[row][col] = me;
+      const score = checkWinner(work, row, col, me)
+        ? WIN_SCORE
+        : -negamax(work, other(me), depth - 1, -Infinity, -alpha, 1, movesLeft - 1, ctx);
+      work[row][col] = null;
+      if (ctx.timedOut) break;
+      if (score > alpha) {
+        alpha = score;
+        iterationBest = col;
+      }
+    }
+    if (ctx.timedOut) break;
+    bestMove = iterationBest;
+    // A forced win or loss found; looking deeper won't change it
+    if (Math.abs(alpha) >= WIN_SCORE - movesLeft) break;
+  }
+
+  return bestMove;
+};
+
+// Every playable column with its score for `me`, from the deepest search finished in time
+const scoreColumns = (board: Board, me: Color, level: { depth: number; timeBudget: number }): ScoredMove[] => {
+  const work = board.map(row => [...row]);
+  const columns = COLUMN_ORDER.filter(col => findDropRow(work, col) !== -1);
+  const movesLeft = countEmpty(work);
+  const ctx: SearchContext = { deadline: Date.now() + level.timeBudget, nodes: 0, timedOut: false };
+  let scored: ScoredMove[] = columns.map(move => ({ move, score: 0 }));
+
+  for (let depth = 1; depth <= Math.min(level.depth, movesLeft); depth++) {
+    const iteration: ScoredMove[] = [];
+    for (const col of columns) {
+      const row = findDropRow(work, col);
+      work[row][col] = me;
+      const score = checkWinner(work, row, col, me)
+        ? WIN_SCORE
+        : -negamax(work, other(me), depth - 1, -Infinity, Infinity, 1, movesLeft - 1, ctx);
+      work[row][col] = null;
+      if (ctx.timedOut) break;
+      iteration.push({ move: col, score });
+    }
+    if (ctx.timedOut) break;
+    scored = iteration;
+    if (scored.every(s => Math.abs(s.score) >= WIN_SCORE - movesLeft)) break;
+  }
+  return scored;
+};
+
+/** The column a hint points at */
+export const findBestConnectFourMove = (board: Board, me: Color): number =>
+  bestMoves(scoreColumns(board, me, HINT_LEVEL))[0] ?? -1;
+
+/** Replay a finished game and rate every move against the best one in its position */
+export const analyseConnectFourGame = (moves: { player: Color; col: number }[]): AnalysedMove<Color>[] => {
+  const board = createEmptyBoard();
+  return moves.map(({ player, col }) => {
+    const scored = scoreColumns(board, player, ANALYSIS_LEVEL);
+    const best = bestMoves(scored);
+    const played = scored.find(s => s.move === col)?.score ?? -WIN_SCORE;
+    board[findDropRow(board, col)][col] = player;
+    return {
+      player,
+      move: col,
+      best: best.includes(col) ? col : best[0],
+      rating: rateMove(played, Math.max(...scored.map(s => s.score)), WIN_SCORE, ANALYSIS_TOLERANCE),
+    };
+  });
+};
@@ -0,0 +1,303 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type GameRoom = Tables<'game_rooms'>;
+
+export type RoomLookupError = 'not_found' | 'full' | 'ended' | 'wrong_game' | 'timeout';
+
+export interface LocalPlayer {
+  id: string;
+  name: string;
+}
+
+export interface SeatedPlayer extends LocalPlayer {
+  seat: number;
+}
+
+/** Result of a player leaving a lobby room, or of someone taking over from a vanished host */
+export interface RoomHandover {
+  /** Who runs the room now */
+  host: SeatedPlayer;
+  /** The seat that was marked as left, if any */
+  left: number | null;
+  /** Too few players remain, so the room was ended or deleted */
+  closed: boolean;
+}
+
+/** The room this device is playing in, kept so a reload can reattach to it */
+export interface StoredRoomSession {
+  roomId: string;
+  code: string;
+  gameType: string;
+  seat: number;
+  isHost: boolean;
+  playerId: string;
+  playerName: string;
+  savedAt: number;
+}
+
+export const ROOM_CODE_LENGTH = 6;
+export const ROOM_REQUEST_TIMEOUT = 10000;
+
+/** Party games gather 3-8 players in a lobby; the host can start once two are in */
+export const LOBBY_MIN_SIZE = 3;
+export const LOBBY_MAX_SIZE = 8;
+export const LOBBY_MIN_TO_START = 2;
+
+/** Connected players refresh the room this often so the server can close abandoned ones */
+export const ROOM_HEARTBEAT_INTERVAL = 30000;
+/** Waiting rooms whose host has not sent a heartbeat for this long are hidden from the browser */
+export const ROOM_HOST_TIMEOUT = 2 * 60 * 1000;
+
+const GAME_ACTION_FUNCTION = 'game-action';
+const ROOM_SESSION_KEY = 'mindgames-active-room';
+const ROOM_SESSION_MAX_AGE = 2 * 60 * 60 * 1000;
+
+const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const ROOM_ERROR_MESSAGES: Record<RoomLookupError, { title: string; description: string }> = {
+  not_found: { title: 'Room Not Found', description: 'No room found with this code. Please check and try again.' },
+  full: { title: 'Room Full', description: 'This room is already full. Try another code.' },
+  ended: { title: 'Game Ended', description: 'This game has already ended. Please join a new game.' },
+  wrong_game: { title: 'Wrong Game', description: 'This code belongs to a different game.' },
+  timeout: { title: 'Connection Error', description: 'Request timed out. Please check your connection and try again.' },
+};
+
+/**
+ * Generate a room code without easily confused characters (0/O, 1/I)
+ */
+export const generateRoomCode = (length: number = ROOM_CODE_LENGTH): string => {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += ROOM_CODE_CHARS[Math.floor(Math.random() * ROOM_CODE_CHARS.length)];
+  }
+  return code;
+};
+
+export const normalizeRoomCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Shareable link that opens the app straight into a room, e.g. /play/tictactoe/ABC123.
+ * Without a game type the room is looked up to find its game
+ */
+export const getInviteLink = (code: string, gameType?: string): string => {
+  const path = gameType ? `/play/${gameType}/${normalizeRoomCode(code)}` : `/play/${normalizeRoomCode(code)}`;
+  return `${window.location.origin}${path}`;
+};
+
+/**
+ * Reject if the request takes longer than the timeout so the UI never hangs
+ */
+export const withTimeout = <T>(promise: PromiseLike<T>, timeout: number = ROOM_REQUEST_TIMEOUT): Promise<T> => {
+  const timeoutPromise = new Promise<never>((_, reject) =>
+    setTimeout(() => reject(new Error('Request timeout')), timeout)
+  );
+  return Promise.race([Promise.resolve(promise), timeoutPromise]);
+};
+
+export const isTimeoutError = (error: unknown): boolean =>
+  error instanceof Error && error.message.includes('timeout');
+
+/**
+ * Local identity used for rooms - the profile id when available, otherwise a random one
+ */
+export const getLocalPlayer = (preferredName?: string): LocalPlayer => {
+  let profile: { id?: string; displayName?: string } = {};
+  try {
+    profile = JSON.parse(localStorage.getItem('mindgames-user-profile') || '{}');
+  } catch (e) {
+    console.error('Failed to parse user profile');
+  }
+
+  const name = preferredName?.trim()
+    || localStorage.getItem('mindgames-player-name')
+    || profile.displayName
+    || `Player ${Math.random().toString(36).substring(2, 6)}`;
+
+  return {
+    id: profile.id || `user_${Math.random().toString(36).substring(2, 10)}`,
+    name,
+  };
+};
+
+/**
+ * Serialize game state into the JSON shape stored in game_rooms.game_state
+ */
+export const toRoomState = (state: unknown): Json => JSON.parse(JSON.stringify(state ?? {}));
+
+/**
+ * Room membership is checked against the Supabase Auth user, so make sure this
+ * device has one - an anonymous sign-in is enough. Returns the auth user id.
+ */
+export const ensureRoomUser = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session) return session.user.id;
+
+  const { data, error } = await withTimeout(supabase.auth.signInAnonymously());
+  if (error) throw error;
+  if (!data.user) throw new Error('Anonymous sign-in failed - no user returned');
+  return data.user.id;
+};
+
+export const createGameRoom = async (
+  gameType: string,
+  gameState: unknown,
+  maxPlayers: number = 2
+): Promise<GameRoom> => {
+  const userId = await ensureRoomUser();
+  const code = generateRoomCode();
+  const { data, error } = await withTimeout(
+    supabase.from('game_rooms').insert({
+      room_code: code,
+      game_type: gameType,
+      game_state: toRoomState(gameState),
+      host_id: userId,
+      player_ids: [userId],
+      player_count: 1,
+      max_players: maxPlayers,
+      status: 'waiting',
+    }).select().single()
+  );
+
+  if (error) throw error;
+  if (!data) throw new Error('Room creation failed - no data returned');
+  return data;
+};
+
+/**
+ * Call one of the edge functions as this device's auth user. Rejected requests
+ * throw with the server's reason
+ */
+export const invokeEdgeFunction = async <T>(name: string, body: Record<string, unknown>): Promise<T> => {
+  // The functions identify the player from the auth token sent with the request
+  await ensureRoomUser();
+  const { data, error } = await withTimeout(supabase.functions.invoke(name, { body }));
+  if (error) {
+    let message = error.message;
+    try {
+      const details = await error.context?.json();
+      if (details?.error) message = details.error;
+    } catch (e) {
+      // Response body was not JSON - keep the generic message
+    }
+    throw new Error(message);
+  }
+  return data as T;
+};
+
+const requestGameAction = <T>(body: Record<string, unknown>): Promise<T> => invokeEdgeFunction<T>(GAME_ACTION_FUNCTION, body);
+
+/**
+ * Claim a seat in a room on the server. Joining again as the same user returns the same seat
+ */
+export const joinGameRoom = (roomId: string) =>
+  requestGameAction<{ seat: number; playerCount: number; status: string }>({ op: 'join', roomId });
+
+/**
+ * Leave a lobby room without closing it. A leaving host hands the room to `successor`
+ */
+export const leaveGameRoom = (roomId: string, successor?: SeatedPlayer) =>
+  requestGameAction<RoomHandover>({ op: 'leave', roomId, player: successor });
+
+/**
+ * Take over a lobby room whose host stopped sending heartbeats. Rejected while the host is still connected
+ */
+export const claimRoomHost = (roomId: string, player: SeatedPlayer) =>
+  requestGameAction<RoomHandover>({ op: 'claim_host', roomId, player });
+
+/**
+ * Fill the next open seat with a bot, which the host plays for. Host only, before the game starts
+ */
+export const addRoomBot = (roomId: string, name: string) =>
+  requestGameAction<{ seat: number; name: string; playerCount: number; status: string }>({
+    op: 'add_bot',
+    roomId,
+    player: { name },
+  });
+
+/**
+ * Tell the server we are still connected to this room. Rooms without a heartbeat
+ * for a few minutes are ended or deleted by the scheduled cleanup
+ */
+export const sendRoomHeartbeat = async (roomId: string) => {
+  const { error } = await supabase.rpc('room_heartbeat', { _room_id: roomId });
+  if (error) throw error;
+};
+
+/**
+ * Send a move intent to the server, which checks it against the game rules and returns the new state.
+ * The host passes `botSeat` to move for one of the room's bots
+ */
+export const sendGameAction = async <State>(roomId: string, action: unknown, botSeat?: number): Promise<State> => {
+  const { state } = await requestGameAction<{ state: State }>({ op: 'action', roomId, action, botSeat });
+  return state;
+};
+
+/**
+ * Ask the server about an answer it keeps from the players (quiz answers, the
+ * word being drawn or guessed). Replies carry only what this seat may see
+ */
+export const sendSecretRequest = <Reply>(
+  roomId: string,
+  request: { type: string; [key: string]: unknown },
+  botSeat?: number
+) => requestGameAction<Reply>({ op: 'secret', roomId, action: request, botSeat });
+
+/**
+ * Look up a room by code and check that it can still be joined
+ */
+export const findJoinableRoom = async (
+  code: string,
+  gameType?: string
+): Promise<{ room: GameRoom | null; error: RoomLookupError | null }> => {
+  try {
+    const { data, error } = await withTimeout(
+      supabase.from('game_rooms').select('*').eq('room_code', normalizeRoomCode(code)).maybeSingle()
+    );
+
+    if (error || !data) return { room: null, error: 'not_found' };
+    if (gameType && data.game_type !== gameType) return { room: data, error: 'wrong_game' };
+    if (data.status === 'ended') return { room: data, error: 'ended' };
+    // Players already seated, e.g. matched into a bracket room, can always take their seat again
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session && data.player_ids?.includes(session.user.id)) return { room: data, error: null };
+    // A lobby the host has already started can only be watched
+    if (data.status === 'playing' || data.player_count >= (data.max_players || 2)) return { room: data, error: 'full' };
+
+    return { room: data, error: null };
+  } catch (error) {
+    if (isTimeoutError(error)) return { room: null, error: 'timeout' };
+    throw error;
+  }
+};
+
+export const saveRoomSession = (session: Omit<StoredRoomSession, 'savedAt'>) => {
+  localStorage.setItem(ROOM_SESSION_KEY, JSON.stringify({ ...session, savedAt: Date.now() }));
+};
+
+export const clearRoomSession = () => {
+  localStorage.removeItem(ROOM_SESSION_KEY);
+};
+
+/**
+ * Read the saved room session, optionally only for one game type.
+ * Sessions older than a couple of hours are dropped.
+ */
+export const loadRoomSession = (gameType?: string): StoredRoomSession | null => {
+  try {
+    const saved = localStorage.getItem(ROOM_SESSION_KEY);
+    if (!saved) return null;
+
+    const session: StoredRoomSession = JSON.parse(saved);
+    if (!session.roomId || Date.now() - session.savedAt > ROOM_SESSION_MAX_AGE) {
+      clearRoomSession();
+      return null;
+    }
+    if (gameType && session.gameType !== gameType) return null;
+    return session;
+  } catch (e) {
+    console.error('Failed to parse saved room session');
+    clearRoomSession();
+    return null;
+  }
+};
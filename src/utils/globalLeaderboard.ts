@@ -0,0 +1,114 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Difficulty } from '@/contexts/DifficultyContext';
+import { invokeEdgeFunction, withTimeout } from '@/utils/gameRooms';
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all_time';
+
+export interface GlobalLeaderboardEntry {
+  id: string;
+  userId: string;
+  playerName: string;
+  gameType: string;
+  difficulty: Difficulty | null;
+  score: number;
+  details: string | null;
+  date: string;
+  /** Position among everyone's best scores on this board; tied scores share a rank */
+  rank: number;
+}
+
+export interface GlobalBoard {
+  period: LeaderboardPeriod;
+  gameType: string;
+  /** Only for games in DIFFICULTY_BOARD_GAMES; the other games have a single board */
+  difficulty: Difficulty | null;
+}
+
+const SUBMIT_SCORE_FUNCTION = 'submit-score';
+
+const PERIOD_VIEWS = {
+  daily: 'leaderboard_daily',
+  weekly: 'leaderboard_weekly',
+  all_time: 'leaderboard_all_time',
+} as const;
+
+export const LEADERBOARD_PERIODS: { id: LeaderboardPeriod; label: string }[] = [
+  { id: 'daily', label: 'Today' },
+  { id: 'weekly', label: 'This Week' },
+  { id: 'all_time', label: 'All Time' },
+];
+
+/** Single-player games whose scores the submit-score function accepts (GAME_TYPES values) */
+export const GLOBAL_LEADERBOARD_GAMES = [
+  'reaction-time', 'math-challenge', 'memory-match', 'number-guess', 'pattern-memory',
+  'color-match', 'word-scramble', 'typing-speed', 'aim-trainer', 'snake-game',
+];
+
+/** Games played at the selected difficulty, which get one board per difficulty */
+export const DIFFICULTY_BOARD_GAMES = [
+  'word-scramble', 'pattern-memory', 'color-match', 'aim-trainer', 'snake-game', 'typing-speed',
+];
+
+const fromBoardRow = (row: Tables<'leaderboard_all_time'>): GlobalLeaderboardEntry => ({
+  id: row.id,
+  userId: row.user_id,
+  playerName: row.player_name,
+  gameType: row.game_type,
+  difficulty: row.difficulty as Difficulty | null,
+  score: row.score,
+  details: row.details,
+  date: row.created_at,
+  rank: row.rank,
+});
+
+const boardQuery = ({ period, gameType, difficulty }: GlobalBoard) => {
+  const query = supabase.from(PERIOD_VIEWS[period]).select('*').eq('game_type', gameType);
+  return difficulty ? query.eq('difficulty', difficulty) : query.is('difficulty', null);
+};
+
+/**
+ * Send a finished game's score to the global leaderboard. The server rejects
+ * scores the game could not have produced
+ */
+export const submitGlobalScore = async (score: {
+  gameType: string;
+  score: number;
+  difficulty?: Difficulty;
+  playerName: string;
+  details?: string;
+}) => {
+  if (!GLOBAL_LEADERBOARD_GAMES.includes(score.gameType)) return;
+  // Scores are filed under the auth user, as rooms are
+  await invokeEdgeFunction(SUBMIT_SCORE_FUNCTION, {
+    ...score,
+    difficulty: DIFFICULTY_BOARD_GAMES.includes(score.gameType) ? score.difficulty : null,
+  });
+};
+
+/**
+ * The top of a board. With `friendIds` (auth user ids), only this device's
+ * and those friends' scores, still with their global rank
+ */
+export const fetchGlobalLeaderboard = async (
+  board: GlobalBoard,
+  { limit = 25, friendIds }: { limit?: number; friendIds?: string[] } = {}
+): Promise<GlobalLeaderboardEntry[]> => {
+  let query = boardQuery(board);
+  if (friendIds) {
+    const { data: { session } } = await supabase.auth.getSession();
+    query = query.in('user_id', session ? [session.user.id, ...friendIds] : friendIds);
+  }
+  const { data, error } = await withTimeout(query.order('rank').limit(limit));
+  if (error) throw error;
+  return data.map(fromBoardRow);
+};
+
+/** This device's best score on a board and its rank, or null before it has one */
+export const fetchMyGlobalBest = async (board: GlobalBoard): Promise<GlobalLeaderboardEntry | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+  const { data, error } = await withTimeout(boardQuery(board).eq('user_id', session.user.id).maybeSingle());
+  if (error) throw error;
+  return data ? fromBoardRow(data) : null;
+};
@@ -0,0 +1,54 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ensureRoomUser, withTimeout } from '@/utils/gameRooms';
+
+/** How long to wait in the queue before offering something else to play */
+export const QUICK_MATCH_TIMEOUT = 45000;
+/** Profile levels either side of ours that still count as a fair match */
+export const QUICK_MATCH_SKILL_BAND = 5;
+
+/**
+ * Skill used for matchmaking - the profile level, which grows with games played and won
+ */
+export const getSkillRating = (): number => {
+  try {
+    const profile = JSON.parse(localStorage.getItem('mindgames-user-profile') || '{}');
+    return Number.isFinite(profile.level) ? profile.level : 1;
+  } catch (e) {
+    return 1;
+  }
+};
+
+/**
+ * Claim the oldest player waiting for this game. Returns their room code, or null if nobody is waiting
+ */
+export const claimQuickMatch = async (gameType: string, skill: number, skillBand?: number): Promise<string | null> => {
+  await ensureRoomUser();
+  const { data, error } = await withTimeout(
+    supabase.rpc('claim_quick_match', { _game_type: gameType, _skill: skill, _skill_band: skillBand })
+  );
+  if (error) throw error;
+  return data || null;
+};
+
+/**
+ * Wait in the queue with a room we host. Returns the queue entry id
+ */
+export const enqueueQuickMatch = async (
+  gameType: string,
+  room: { id: string; code: string },
+  skill: number
+): Promise<string> => {
+  const { data, error } = await withTimeout(
+    supabase.from('matchmaking_queue')
+      .insert({ game_type: gameType, room_id: room.id, room_code: room.code, skill })
+      .select('id')
+      .single()
+  );
+  if (error) throw error;
+  return data.id;
+};
+
+export const leaveQuickMatch = async (entryId: string) => {
+  const { error } = await supabase.from('matchmaking_queue').delete().eq('id', entryId);
+  if (error) console.error('Failed to leave the matchmaking queue:', error);
+};
@@ -0,0 +1,49 @@
+export type MoveRating = 'best' | 'good' | 'mistake' | 'blunder';
+
+export interface ScoredMove {
+  move: number;
+  /** From the point of view of the player making the move; wins near the game's win score */
+  score: number;
+}
+
+/** One move of a finished game as the solver saw it */
+export interface AnalysedMove<P extends string = string> {
+  player: P;
+  move: number;
+  /** The solver's choice in the same position */
+  best: number;
+  rating: MoveRating;
+}
+
+export const MOVE_RATING_LABELS: Record<MoveRating, string> = {
+  best: 'Best',
+  good: 'Good',
+  mistake: 'Mistake',
+  blunder: 'Blunder',
+};
+
+/**
+ * Rate a move against the best one in the same position. Walking into a
+ * forced loss is a blunder; giving up a forced win, or losing more than
+ * `tolerance` of the position's score, is a mistake
+ */
+export const rateMove = (played: number, best: number, winScore: number, tolerance: number): MoveRating => {
+  if (played >= best) return 'best';
+  const decisive = winScore / 2;
+  const bestWins = best >= decisive;
+  const bestLoses = best <= -decisive;
+  const playedWins = played >= decisive;
+  const playedLoses = played <= -decisive;
+
+  if (playedLoses && !bestLoses) return 'blunder';
+  if (bestWins && !playedWins) return 'mistake';
+  // Winning more slowly, or losing more quickly, still keeps the result
+  if (bestWins || bestLoses) return 'good';
+  return best - played <= tolerance ? 'good' : 'mistake';
+};
+
+/** Every move tied for the highest score */
+export const bestMoves = (scored: ScoredMove[]) => {
+  const top = Math.max(...scored.map(s => s.score));
+  return scored.filter(s => s.score === top).map(s => s.move);
+};
@@ -0,0 +1,96 @@
+import type { Provider, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { UserProfile } from '@/contexts/UserProfileContext';
+import { withTimeout } from '@/utils/gameRooms';
+
+type ProfileRow = Tables<'profiles'>;
+
+/** OAuth providers offered on the sign-in screen; each must be enabled in the Supabase dashboard */
+export const SIGN_IN_PROVIDERS: { id: Provider; label: string }[] = [
+  { id: 'google', label: 'Google' },
+  { id: 'github', label: 'GitHub' },
+];
+
+/** Anonymous sessions only exist to join rooms; they don't count as an account */
+export const isSignedInUser = (user: User | null | undefined): user is User => !!user && !user.is_anonymous;
+
+const fromProfileRow = (row: ProfileRow): UserProfile => ({
+  id: row.id,
+  username: row.username,
+  displayName: row.display_name,
+  avatar: row.avatar,
+  level: row.level,
+  xp: row.xp,
+  totalGames: row.total_games,
+  totalWins: row.total_wins,
+  badges: row.badges,
+  joinDate: new Date(row.join_date).getTime(),
+  lastActive: new Date(row.last_active).getTime(),
+});
+
+const toProfileRow = (userId: string, profile: UserProfile): TablesInsert<'profiles'> => ({
+  id: userId,
+  username: profile.username,
+  display_name: profile.displayName,
+  avatar: profile.avatar,
+  level: profile.level,
+  xp: profile.xp,
+  total_games: profile.totalGames,
+  total_wins: profile.totalWins,
+  badges: profile.badges,
+  join_date: new Date(profile.joinDate).toISOString(),
+  last_active: new Date(profile.lastActive).toISOString(),
+});
+
+/**
+ * Combine the profile on this device with the one in the cloud. Progress only
+ * ever grows, so the larger value wins; names and avatar come from the cloud
+ */
+export const mergeProfiles = (local: UserProfile, cloud: UserProfile): UserProfile => ({
+  ...cloud,
+  xp: Math.max(local.xp, cloud.xp),
+  level: Math.max(local.level, cloud.level),
+  totalGames: Math.max(local.totalGames, cloud.totalGames),
+  totalWins: Math.max(local.totalWins, cloud.totalWins),
+  badges: Array.from(new Set([...cloud.badges, ...local.badges])),
+  joinDate: Math.min(local.joinDate, cloud.joinDate),
+  lastActive: Math.max(local.lastActive, cloud.lastActive),
+});
+
+export const fetchCloudProfile = async (userId: string): Promise<UserProfile | null> => {
+  const { data, error } = await withTimeout(
+    supabase.from('profiles').select('*').eq('id', userId).maybeSingle()
+  );
+  if (error) throw error;
+  return data ? fromProfileRow(data) : null;
+};
+
+export const saveCloudProfile = async (userId: string, profile: UserProfile) => {
+  const { error } = await withTimeout(supabase.from('profiles').upsert(toProfileRow(userId, profile)));
+  if (error) throw error;
+};
+
+/**
+ * Load the signed-in user's profile. On first sign-in the profile built up on
+ * this device is uploaded as theirs; after that the two are merged
+ */
+export const syncCloudProfile = async (userId: string, local: UserProfile): Promise<UserProfile> => {
+  const cloud = await fetchCloudProfile(userId);
+  const merged = cloud ? mergeProfiles(local, cloud) : { ...local, id: userId };
+  await saveCloudProfile(userId, merged);
+  return merged;
+};
+
+/** Email a sign-in link that brings the player back to this page */
+export const signInWithMagicLink = async (email: string) => {
+  const { error } = await withTimeout(
+    supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: window.location.origin } })
+  );
+  if (error) throw error;
+};
+
+export const signInWithProvider = async (provider: Provider) => {
+  const { error } = await supabase.auth.signInWithOAuth({ provider, options: { redirectTo: window.location.origin } });
+  if (error) throw error;
+};
@@ -0,0 +1,181 @@
+// Quiz Battle room settings and custom question packs. The question bank itself
+// stays on the server (supabase/functions/game-action/questionBank.ts) so its
+// answers never reach a player; the categories here must match its names.
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export const QUIZ_CATEGORIES = [
+  'Geography', 'Science', 'History', 'Math', 'Art', 'Literature',
+  'Nature', 'Sports', 'Music', 'Movies & TV', 'Food & Drink', 'Technology',
+];
+
+export const QUIZ_DIFFICULTIES: { id: QuizDifficulty; label: string }[] = [
+  { id: 'easy', label: 'Easy' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'hard', label: 'Hard' },
+];
+
+export interface QuizPackQuestion {
+  question: string;
+  options: string[];
+  /** Index of the right option */
+  correct: number;
+  category: string;
+}
+
+export interface QuizPack {
+  name: string;
+  questions: QuizPackQuestion[];
+}
+
+/** Chosen by the host when creating the room, and shown to everyone in the lobby */
+export interface QuizSettings {
+  /** Bank categories to draw from; empty for all of them */
+  categories: string[];
+  /** null mixes all difficulties */
+  difficulty: QuizDifficulty | null;
+  /** Set when the host plays their own pack instead of the bank */
+  pack: { name: string; size: number } | null;
+}
+
+export const DEFAULT_QUIZ_SETTINGS: QuizSettings = { categories: [], difficulty: null, pack: null };
+
+// The server refuses packs past these limits
+export const QUIZ_PACK_MAX_QUESTIONS = 50;
+const MAX_OPTIONS = 6;
+const QUESTION_LENGTH = 300;
+const OPTION_LENGTH = 100;
+const CATEGORY_LENGTH = 40;
+const NAME_LENGTH = 40;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const text = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '');
+
+/** Check one question's fields, naming the question in any error */
+const toQuestion = (
+  number: number,
+  question: string,
+  options: string[],
+  correct: number,
+  category: string
+): QuizPackQuestion => {
+  const fail = (reason: string) => {
+    throw new Error(`Question ${number}: ${reason}`);
+  };
+  if (!question) fail('the question is empty');
+  if (question.length > QUESTION_LENGTH) fail(`the question is over ${QUESTION_LENGTH} characters`);
+  if (options.length < 2 || options.length > MAX_OPTIONS) fail(`it needs 2 to ${MAX_OPTIONS} answers`);
+  if (options.some(option => !option)) fail('one of its answers is empty');
+  if (options.some(option => option.length > OPTION_LENGTH)) fail(`an answer is over ${OPTION_LENGTH} characters`);
+  if (!Number.isInteger(correct) || correct < 0 || correct >= options.length) fail('it has no right answer among its options');
+  return { question, options, correct, category: category.slice(0, CATEGORY_LENGTH) || 'Custom' };
+};
+
+// JSON packs are a list of questions, or { name, questions }. Each question has
+// `options` with the right one given by `correct` (its index) or `answer`
+// (its text), or an `answer` and a list of `wrong` ones
+const parseJSONPack = (source: string): { name?: string; questions: QuizPackQuestion[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const pack = Array.isArray(data) ? { questions: data } : (data as { name?: unknown; questions?: unknown });
+  if (!Array.isArray(pack?.questions)) throw new Error('Expected a list of questions');
+
+  const questions = pack.questions.map((item, i) => {
+    const answer = text(item?.answer);
+    let options: string[];
+    let correct: number;
+    if (Array.isArray(item?.options)) {
+      options = item.options.map(text);
+      correct = typeof item.correct === 'number' ? item.correct : options.indexOf(answer);
+    } else {
+      options = shuffle([answer, ...(Array.isArray(item?.wrong) ? item.wrong.map(text) : [])]);
+      correct = options.indexOf(answer);
+    }
+    return toQuestion(i + 1, text(item?.question), options, correct, text(item?.category));
+  });
+  return { name: text(pack.name) || undefined, questions };
+};
+
+/** Rows of fields, following RFC 4180 quoting */
+const readCSV = (source: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(fields => fields.some(value => value.trim()));
+};
+
+// CSV packs have a header row naming the columns: `question`, `answer`, one or
+// more columns starting with `wrong`, and optionally `category`
+const parseCSVPack = (source: string): { name?: string; questions: QuizPackQuestion[] } => {
+  const [header, ...rows] = readCSV(source);
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  const questionColumn = columns.indexOf('question');
+  const answerColumn = columns.indexOf('answer');
+  const categoryColumn = columns.indexOf('category');
+  const wrongColumns = columns.flatMap((name, i) => (name.startsWith('wrong') ? [i] : []));
+  if (questionColumn === -1 || answerColumn === -1 || wrongColumns.length === 0) {
+    throw new Error('The first row must name the question, answer and wrong columns');
+  }
+
+  const questions = rows.map((fields, i) => {
+    const answer = text(fields[answerColumn]);
+    const wrong = wrongColumns.map(column => text(fields[column])).filter(Boolean);
+    const options = shuffle([answer, ...wrong]);
+    const category = categoryColumn === -1 ? '' : text(fields[categoryColumn]);
+    return toQuestion(i + 1, text(fields[questionColumn]), options, options.indexOf(answer), category);
+  });
+  return { questions };
+};
+
+/**
+ * Read a host's question pack from a .json or .csv file. Throws an Error
+ * saying what is wrong with the file if it can't be used
+ */
+export const parseQuestionPack = (source: string, fileName: string): QuizPack => {
+  const { name, questions } = fileName.toLowerCase().endsWith('.csv') ? parseCSVPack(source) : parseJSONPack(source);
+  if (questions.length === 0) throw new Error('The pack has no questions');
+  if (questions.length > QUIZ_PACK_MAX_QUESTIONS) {
+    throw new Error(`Packs can have at most ${QUIZ_PACK_MAX_QUESTIONS} questions`);
+  }
+  return { name: (name || fileName.replace(/\.(json|csv)$/i, '')).slice(0, NAME_LENGTH), questions };
+};
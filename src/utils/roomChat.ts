@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { invokeEdgeFunction, withTimeout } from '@/utils/gameRooms';
+
+export interface RoomChatMessage {
+  id: string;
+  senderId: string | null;
+  playerName: string;
+  message: string;
+  timestamp: number;
+  isDeleted: boolean;
+}
+
+const CHAT_FUNCTION = 'chat';
+const MUTED_PLAYERS_KEY = 'mindgames-muted-players';
+const HISTORY_LIMIT = 100;
+
+const fromRow = (row: Tables<'chat_messages'>): RoomChatMessage => ({
+  id: row.id,
+  senderId: row.sender_id,
+  playerName: row.sender_name || 'Player',
+  message: String((row.content as { text?: unknown } | null)?.text ?? ''),
+  timestamp: new Date(row.created_at).getTime(),
+  isDeleted: !!row.deleted_at,
+});
+
+/** The room's most recent messages, oldest first. Only the room's players and watchers can read them */
+export const fetchChatHistory = async (roomId: string): Promise<RoomChatMessage[]> => {
+  const { data, error } = await withTimeout(
+    supabase
+      .from('chat_messages')
+      .select('*')
+      .eq('room_id', roomId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT)
+  );
+  if (error) throw error;
+  return data.map(fromRow).reverse();
+};
+
+/** Call `onMessage` for every new message in the room and again when the host removes one */
+export const subscribeToChat = (roomId: string, onMessage: (message: RoomChatMessage) => void) => {
+  const handle = ({ new: row }: { new: Tables<'chat_messages'> }) => onMessage(fromRow(row));
+  const channel = supabase
+    .channel(`chat-${roomId}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'chat_messages', filter: `room_id=eq.${roomId}` }, handle)
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'chat_messages', filter: `room_id=eq.${roomId}` }, handle)
+    .subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/** Let a spectator read and post in the room's chat; does nothing for the room's players */
+export const watchRoomChat = (roomId: string) =>
+  invokeEdgeFunction<{ watching: boolean }>(CHAT_FUNCTION, { op: 'watch', roomId });
+
+/** Post a message; the server masks profanity and turns away players sending too fast */
+export const sendChatMessage = async (roomId: string, message: string, playerName: string) => {
+  const { message: saved } = await invokeEdgeFunction<{ message: Tables<'chat_messages'> }>(CHAT_FUNCTION, {
+    op: 'send',
+    roomId,
+    message,
+    playerName,
+  });
+  return fromRow(saved);
+};
+
+/** Host only: remove a message for everyone in the room */
+export const deleteChatMessage = (messageId: string) =>
+  invokeEdgeFunction(CHAT_FUNCTION, { op: 'delete', messageId });
+
+export const reportChatMessage = (messageId: string, reason?: string) =>
+  invokeEdgeFunction(CHAT_FUNCTION, { op: 'report', messageId, reason });
+
+export const getMutedPlayers = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(MUTED_PLAYERS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/** Mute or unmute a player on this device; their messages are hidden in every room */
+export const setPlayerMuted = (senderId: string, muted: boolean) => {
+  const others = getMutedPlayers().filter(id => id !== senderId);
+  const next = muted ? [...others, senderId] : others;
+  localStorage.setItem(MUTED_PLAYERS_KEY, JSON.stringify(next));
+  return next;
+};
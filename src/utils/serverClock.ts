@@ -0,0 +1,46 @@
+import { supabase } from '@/integrations/supabase/client';
+import { withTimeout } from '@/utils/gameRooms';
+
+const CLOCK_SAMPLES = 3;
+
+// How far the server's clock is ahead of ours, in milliseconds
+let clockOffset = 0;
+let syncing: Promise<number> | null = null;
+
+/**
+ * Estimate the offset between this device's clock and the server's. Takes the
+ * sample with the shortest round trip, assuming the reply was stamped halfway
+ * through it. Runs once per page load; later calls share the first result.
+ */
+export const syncServerClock = (): Promise<number> => {
+  if (!syncing) {
+    syncing = (async () => {
+      let bestRoundTrip = Infinity;
+      for (let i = 0; i < CLOCK_SAMPLES; i++) {
+        const sentAt = Date.now();
+        const { data, error } = await withTimeout(supabase.rpc('server_time'));
+        const receivedAt = Date.now();
+        if (error) throw error;
+
+        const roundTrip = receivedAt - sentAt;
+        if (roundTrip < bestRoundTrip) {
+          bestRoundTrip = roundTrip;
+          clockOffset = new Date(data).getTime() + roundTrip / 2 - receivedAt;
+        }
+      }
+      return clockOffset;
+    })().catch(error => {
+      console.error('Failed to sync with the server clock:', error);
+      // Try again next time; until then our own clock is the best guess
+      syncing = null;
+      return clockOffset;
+    });
+  }
+  return syncing;
+};
+
+/** The current time on the server's clock, for comparing against turn deadlines */
+export const serverNow = () => Date.now() + clockOffset;
+
+/** How long other players wait past a deadline before reporting the player on turn as timed out */
+export const DEADLINE_GRACE = 1500;
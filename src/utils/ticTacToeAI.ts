@@ -0,0 +1,128 @@
+import { bestMoves, rateMove, type AnalysedMove, type ScoredMove } from '@/utils/moveAnalysis';
+
+type Mark = 'X' | 'O';
+type Cell = Mark | null;
+
+const WIN_SCORE = 1_000_000;
+// Bigger grids are scored this many moves ahead for hints and analysis
+const HINT_DEPTH = 4;
+const ANALYSIS_DEPTH = 3;
+// Open-line scores this far below the best still count as a good move
+const ANALYSIS_TOLERANCE = 50;
+
+const other = (mark: Mark): Mark => (mark === 'X' ? 'O' : 'X');
+
+const winnerOf = (board: Cell[], lines: number[][]): Cell => {
+  for (const line of lines) {
+    const first = board[line[0]];
+    if (first && line.every(i => board[i] === first)) return first;
+  }
+  return null;
+};
+
+// Lines only one side can still complete are worth more the fuller they are
+const evaluate = (board: Cell[], lines: number[][], me: Mark) => {
+  let score = 0;
+  for (const line of lines) {
+    let mine = 0;
+    let theirs = 0;
+    for (const i of line) {
+      if (board[i] === me) mine++;
+      else if (board[i]) theirs++;
+    }
+    if (mine && !theirs) score += 10 ** mine;
+    else if (theirs && !mine) score -= 10 ** theirs;
+  }
+  return score;
+};
+
+// Centre cells take part in the most lines, so trying them first prunes more
+const orderedMoves = (board: Cell[], size: number) => {
+  const centre = (size - 1) / 2;
+  return board
+    .map((cell, i) => (cell ? -1 : i))
+    .filter(i => i !== -1)
+    .sort((a, b) => {
+      const distance = (i: number) => Math.abs(Math.floor(i / size) - centre) + Math.abs((i % size) - centre);
+      return distance(a) - distance(b);
+    });
+};
+
+const search = (
+  board: Cell[],
+  lines: number[][],
+  size: number,
+  me: Mark,
+  turn: Mark,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number
+): number => {
+  const winner = winnerOf(board, lines);
+  // Sooner wins and later losses score better
+  if (winner) return winner === me ? WIN_SCORE - ply : ply - WIN_SCORE;
+  const moves = orderedMoves(board, size);
+  if (moves.length === 0) return 0;
+  if (depth === 0) return evaluate(board, lines, me);
+
+  const maximising = turn === me;
+  let best = maximising ? -Infinity : Infinity;
+  for (const move of moves) {
+    board[move] = turn;
+    const score = search(board, lines, size, me, other(turn), depth - 1, alpha, beta, ply + 1);
+    board[move] = null;
+    if (maximising) {
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+    } else {
+      best = Math.min(best, score);
+      beta = Math.min(beta, score);
+    }
+    if (beta <= alpha) break;
+  }
+  return best;
+};
+
+// Every empty cell with its score for `me`; 3×3 is always searched to the end
+const scoreMoves = (board: Cell[], lines: number[][], me: Mark, depth: number): ScoredMove[] => {
+  const size = Math.round(Math.sqrt(board.length));
+  const moves = orderedMoves(board, size);
+  const fullDepth = size === 3 ? moves.length : depth;
+  const work = [...board];
+  return moves.map(move => {
+    work[move] = me;
+    const score = search(work, lines, size, me, other(me), fullDepth - 1, -Infinity, Infinity, 1);
+    work[move] = null;
+    return { move, score };
+  });
+};
+
+/**
+ * The move a hint points at. 3×3 is searched to the end with minimax and
+ * alpha-beta pruning; bigger grids look a few moves ahead and score the
+ * position by the open lines each side holds
+ */
+export const findBestMove = (board: Cell[], lines: number[][], me: Mark): number =>
+  bestMoves(scoreMoves(board, lines, me, HINT_DEPTH))[0];
+
+/** Replay a finished game and rate every move against the best one in its position */
+export const analyseTicTacToeGame = (
+  size: number,
+  lines: number[][],
+  moves: { player: Mark; index: number }[]
+): AnalysedMove<Mark>[] => {
+  const board: Cell[] = Array(size * size).fill(null);
+  return moves.map(({ player, index }) => {
+    const scored = scoreMoves(board, lines, player, ANALYSIS_DEPTH);
+    const best = bestMoves(scored);
+    const played = scored.find(s => s.move === index)?.score ?? -WIN_SCORE;
+    board[index] = player;
+    return {
+      player,
+      move: index,
+      best: best.includes(index) ? index : best[0],
+      rating: rateMove(played, Math.max(...scored.map(s => s.score)), WIN_SCORE, ANALYSIS_TOLERANCE),
+    };
+  });
+};
@@ -0,0 +1,178 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { invokeEdgeFunction, withTimeout } from '@/utils/gameRooms';
+
+export interface Tournament {
+  id: string;
+  name: string;
+  gameType: string;
+  startDate: number;
+  endDate: number;
+  status: 'upcoming' | 'active' | 'ended';
+  participants: number;
+  maxParticipants: number;
+  prize: string;
+  tier: 'bronze' | 'silver' | 'gold' | 'platinum';
+}
+
+export interface TournamentEntry {
+  id: string;
+  tournamentId: string;
+  userId: string;
+  playerName: string;
+  score: number;
+  rank: number;
+  gamesPlayed: number;
+  wins: number;
+  joinedAt: number;
+}
+
+const TOURNAMENT_FUNCTION = 'tournament';
+// The tournament this device entered, so finished matches are only reported while it runs
+const REGISTRATION_KEY = 'mindgames-tournament-registration';
+// Players save a match's final state themselves, so the server may not see it straight away
+const REPORT_ATTEMPTS = 3;
+const REPORT_RETRY_DELAY = 2000;
+
+interface TournamentRegistration {
+  tournamentId: string;
+  gameType: string;
+  endDate: number;
+}
+
+const fromTournamentRow = (row: Tables<'tournaments'>, participants: number): Tournament => {
+  const startDate = new Date(row.start_date).getTime();
+  const endDate = new Date(row.end_date).getTime();
+  const now = Date.now();
+  return {
+    id: row.id,
+    name: row.name,
+    gameType: row.game_type,
+    startDate,
+    endDate,
+    status: now < startDate ? 'upcoming' : now >= endDate ? 'ended' : 'active',
+    participants,
+    maxParticipants: row.max_participants,
+    prize: row.prize,
+    tier: row.tier as Tournament['tier'],
+  };
+};
+
+const fromEntryRow = (row: Tables<'tournament_entries'>, rank: number): TournamentEntry => ({
+  id: row.id,
+  tournamentId: row.tournament_id,
+  userId: row.user_id,
+  playerName: row.player_name,
+  score: row.score,
+  rank,
+  gamesPlayed: row.games_played,
+  wins: row.wins,
+  joinedAt: new Date(row.joined_at).getTime(),
+});
+
+/** This week's tournament; the server creates it on first request */
+export const fetchCurrentTournament = async (): Promise<Tournament> => {
+  const { data, error } = await withTimeout(supabase.rpc('current_tournament'));
+  if (error) throw error;
+  const { count, error: countError } = await withTimeout(
+    supabase.from('tournament_entries').select('id', { count: 'exact', head: true }).eq('tournament_id', data.id)
+  );
+  if (countError) throw countError;
+  return fromTournamentRow(data as Tables<'tournaments'>, count ?? 0);
+};
+
+/** Every entry, best first */
+export const fetchStandings = async (tournamentId: string): Promise<TournamentEntry[]> => {
+  const { data, error } = await withTimeout(
+    supabase.from('tournament_entries')
+      .select('*')
+      .eq('tournament_id', tournamentId)
+      .order('score', { ascending: false })
+      .order('wins', { ascending: false })
+  );
+  if (error) throw error;
+  return data.map((row, index) => fromEntryRow(row, index + 1));
+};
+
+/** Call `onChange` whenever an entry in the tournament is added or scored */
+export const subscribeToStandings = (tournamentId: string, onChange: () => void) => {
+  const channel = supabase
+    .channel(`tournament-${tournamentId}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'tournament_entries',
+      filter: `tournament_id=eq.${tournamentId}`,
+    }, onChange)
+    .subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/** Remember the tournament this device's player is in, so matches played here are reported */
+export const rememberRegistration = (tournament: Tournament) => {
+  const registration: TournamentRegistration = {
+    tournamentId: tournament.id,
+    gameType: tournament.gameType,
+    endDate: tournament.endDate,
+  };
+  localStorage.setItem(REGISTRATION_KEY, JSON.stringify(registration));
+};
+
+/** Enter a tournament. Entering again returns the existing entry */
+export const registerForTournament = async (tournament: Tournament, playerName: string): Promise<TournamentEntry> => {
+  const { entry } = await invokeEdgeFunction<{ entry: Tables<'tournament_entries'> }>(TOURNAMENT_FUNCTION, {
+    op: 'register',
+    tournamentId: tournament.id,
+    playerName,
+  });
+  rememberRegistration(tournament);
+  return fromEntryRow(entry, 0);
+};
+
+const getRegistration = (): TournamentRegistration | null => {
+  const saved = localStorage.getItem(REGISTRATION_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    return null;
+  }
+};
+
+const requestMatchReport = async (roomId: string) => {
+  for (let attempt = 1; attempt <= REPORT_ATTEMPTS; attempt++) {
+    const { finished } = await invokeEdgeFunction<{ recorded: boolean; finished?: boolean }>(TOURNAMENT_FUNCTION, {
+      op: 'report',
+      roomId,
+    });
+    if (finished !== false) return;
+    await new Promise(resolve => setTimeout(resolve, REPORT_RETRY_DELAY));
+  }
+};
+
+/**
+ * Ask the server to score the match that just finished in this room, if it
+ * counts towards the tournament this device entered. The server reads the
+ * result from the room itself. Best effort: a failure is only logged
+ */
+export const reportTournamentMatch = (roomId: string, gameType: string) => {
+  const registration = getRegistration();
+  if (!registration || registration.gameType !== gameType || Date.now() >= registration.endDate) return;
+  requestMatchReport(roomId).catch(error => console.error('Failed to report tournament match:', error));
+};
+
+/** Prize badges won in finished tournaments by this device's auth user */
+export const fetchWonPrizes = async (): Promise<string[]> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return [];
+  const { data, error } = await withTimeout(
+    supabase.from('tournament_entries')
+      .select('tournaments(prize)')
+      .eq('user_id', session.user.id)
+      .lte('final_rank', 3)
+  );
+  if (error) throw error;
+  return data.map(row => row.tournaments?.prize).filter(Boolean);
+};
@@ -0,0 +1,142 @@
+// Word Chain rules shared by every player's client: which words can follow,
+// and what they score. The game-action edge function applies the same rules
+// (see rules.ts), so a word one client accepts is never rejected by another
+
+export type WordChainTheme = 'animals' | 'countries' | 'foods';
+
+export interface WordChainRules {
+  /** How many letters from the end of the last word the next word starts with */
+  link: 1 | 2;
+  /** Only words from this category count; null allows any word in the dictionary */
+  theme: WordChainTheme | null;
+}
+
+export interface WordChainDictionary {
+  words: Set<string>;
+  themes: Record<WordChainTheme, Set<string>>;
+}
+
+export interface WordScore {
+  letters: number;
+  rareLetters: number;
+  longWord: number;
+  total: number;
+}
+
+export const DEFAULT_WORD_CHAIN_RULES: WordChainRules = { link: 1, theme: null };
+
+export const WORD_CHAIN_THEMES: { id: WordChainTheme; label: string }[] = [
+  { id: 'animals', label: 'Animals' },
+  { id: 'countries', label: 'Countries' },
+  { id: 'foods', label: 'Foods' },
+];
+
+// Extra points per letter, on top of the point every letter scores
+const RARE_LETTER_BONUS: Record<string, number> = { Q: 5, Z: 5, X: 4, J: 4, K: 2, V: 2, W: 1, Y: 1, F: 1 };
+// Longest first; a word gets the first bonus it is long enough for
+const LONG_WORD_BONUS = [
+  { length: 10, bonus: 8 },
+  { length: 7, bonus: 4 },
+];
+
+// Their endings start plenty of words, whether chaining on one letter or two
+const STARTING_WORDS = ['TABLE', 'GARDEN', 'WINTER', 'ORANGE', 'CASTLE', 'SILVER', 'TOMATO', 'CAMERA', 'BANANA', 'MONSTER'];
+
+const PREFIX_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Undo the front coding described in wordList.ts
+const decodeWords = (encoded: string): Set<string> => {
+  const words = new Set<string>();
+  let word = '';
+  for (const [, shared, rest] of encoded.matchAll(/([0-9A-Z])([a-z]*)/g)) {
+    word = word.slice(0, PREFIX_DIGITS.indexOf(shared)) + rest;
+    words.add(word.toUpperCase());
+  }
+  return words;
+};
+
+let dictionaryRequest: Promise<WordChainDictionary> | null = null;
+
+/** The word lists are a separate chunk, downloaded the first time a game needs them */
+export const loadWordChainDictionary = (): Promise<WordChainDictionary> => {
+  dictionaryRequest ??= import('@/utils/wordList')
+    .then(({ DICTIONARY, THEME_WORDS }) => ({
+      words: decodeWords(DICTIONARY),
+      themes: {
+        animals: decodeWords(THEME_WORDS.animals),
+        countries: decodeWords(THEME_WORDS.countries),
+        foods: decodeWords(THEME_WORDS.foods),
+      },
+    }))
+    .catch(error => {
+      // Let the next game try the download again
+      dictionaryRequest = null;
+      throw error;
+    });
+  return dictionaryRequest;
+};
+
+/** Upper-case letters only, so "new zealand" is played as NEWZEALAND */
+export const normalizeWord = (input: string) => input.toUpperCase().replace(/[^A-Z]/g, '');
+
+/** The letters the next word has to start with */
+export const requiredStart = (lastWord: string, rules: WordChainRules) =>
+  lastWord ? lastWord.slice(-rules.link) : '';
+
+// Regular plurals of dictionary words count too; theme words must match exactly
+const inDictionary = (word: string, words: Set<string>) =>
+  words.has(word)
+  || (word.endsWith('S') && words.has(word.slice(0, -1)))
+  || (word.endsWith('ES') && words.has(word.slice(0, -2)))
+  || (word.endsWith('IES') && words.has(`${word.slice(0, -3)}Y`));
+
+/** Why `word` can't follow the words played so far, or null if it can */
+export const checkWordChainWord = (
+  word: string,
+  played: { words: string[]; lastWord: string },
+  rules: WordChainRules,
+  dictionary: WordChainDictionary
+): string | null => {
+  const start = requiredStart(played.lastWord, rules);
+  if (!/^[A-Z]{2,}$/.test(word)) return 'Words must be at least 2 letters';
+  if (start && !word.startsWith(start)) return `Word must start with "${start}"`;
+  if (played.words.includes(word)) return 'This word was already played';
+  if (rules.theme) {
+    if (!dictionary.themes[rules.theme].has(word)) return `"${word}" isn't on the ${rules.theme} list`;
+  } else if (!inDictionary(word, dictionary.words)) {
+    return `"${word}" isn't in the dictionary`;
+  }
+  return null;
+};
+
+export const scoreWordChainWord = (word: string): WordScore => {
+  const letters = word.length;
+  const rareLetters = word.split('').reduce((sum, letter) => sum + (RARE_LETTER_BONUS[letter] ?? 0), 0);
+  const longWord = LONG_WORD_BONUS.find(({ length }) => letters >= length)?.bonus ?? 0;
+  return { letters, rareLetters, longWord, total: letters + rareLetters + longWord };
+};
+
+/** Every listed word that could be played next, for the bots */
+export const playableWords = (
+  played: { words: string[]; lastWord: string },
+  rules: WordChainRules,
+  dictionary: WordChainDictionary
+): string[] => {
+  const start = requiredStart(played.lastWord, rules);
+  const pool = rules.theme ? dictionary.themes[rules.theme] : dictionary.words;
+  return Array.from(pool).filter(word => word.startsWith(start) && !played.words.includes(word));
+};
+
+/**
+ * The word a new game starts from. Themed games start from a word in the
+ * theme that at least one other theme word can follow
+ */
+export const pickStartingWord = (rules: WordChainRules, dictionary: WordChainDictionary): string => {
+  const pick = (words: string[]) => words[Math.floor(Math.random() * words.length)];
+  if (!rules.theme) return pick(STARTING_WORDS);
+  const themeWords = Array.from(dictionary.themes[rules.theme]);
+  const linked = themeWords.filter(word =>
+    themeWords.some(next => next !== word && next.startsWith(requiredStart(word, rules)))
+  );
+  return pick(linked.length ? linked : themeWords);
+};
@@ -0,0 +1,293 @@
+// Word lists for Word Chain, front-coded to keep the download small: lower-case
+// words in sorted order, each written as how many letters it shares with the
+// word before it (0-9, then A-Z for 10-35) followed by the letters that differ.
+// Decoded by loadWordChainDictionary in wordChain.ts. The game-action function
+// checks moves against a copy in supabase/functions/game-action/wordList.ts;
+// keep the two identical.
+
+export const DICTIONARY = [
+  '0aardvark1bandon2bey3ot2domen3uct2ide3lity2le2oard3lish3rt3und4t3ve2road3upt2sence5t3olute8ly4rb',
+  '3tract3urd2undant3se2yss1cademic6y2cent4pt6ance4ss6ory3ident3laim3ompany6lish4rd6ing7on4unt7ant3',
+  'umulate4rate4se2e2he3ieve2id4ic2knowledge2orn3ustic2quaint4ire2re3obat4nym4ss2t3ion4vate5e5ity3o',
+  'r3ress3ual6ly2ute1damant3pt5able2d3ict6ed4tion3ress2equate2hesive2jacent3ective3ust2minister4ral',
+  '5e4ssion4t2obe3lescent3pt5ion3rable4e2rift2ult2vance5tage3ent6ure4rb5sary5tise3ice4se3ocate1eria',
+  'l3obic4space1ffair3ect6ion3irm3luent3ord2loat2raid2ter5math5noon1gain5st2e3ncy4da4t2gravate4essi',
+  've2ile3ng3tate2ony2ree5able5ment3iculture1head1id2m2r3bag4orne3craft3field3line3plane4ort3ship3t',
+  'ight2sle1larm5ing2batross3um2chemy3ohol4ve2der2ert5ness2falfa2gae3ebra2ias3bi3en3gnment3ke3ve2l3',
+  'ergy4viate4y3iance4gator3ocate4w5ance4y3ure3y2manac3ighty3ond4st2oft3ne4g5side3ud2paca3ha5bet3in',
+  'e2ready2so2tar3er5nate3hough3itude3ogether2uminum2ways1m2ateur3ze5ment4ing2bassador3er3iguous4ti',
+  'on3ulance4sh2end3thyst2iable3d2monia2nesia2ong3unt2phibian3le4ify2use1n2aconda3gram3log4ysis6t3t',
+  'omy2cestor6ry3hor5vy3ient2d2ecdote3mone2gel5ic4r3le5r3ry3uish4lar2imal5te6ion3se2kle5t2nex3ivers',
+  'ary3ounce4y3ual2onymous3rak3ther2swer2t3eater4lope4nna3hem4ill4ology3icipate4dote4que3ler2vil2xi',
+  'ety4ous2y3body3one3thing3way4here1part5ment2e3x2hid2ology2paratus5el6nt3eal5r4ndix4tite3laud6se4',
+  'e4iance5cant4y3oint3reciate5ntice4oach5ve2ricot3on2titude1quarium1rbitrary2cade3h4aeology4er4ite',
+  'ct5ve4way3tic2dent3uous2e3a3na2gue4ment2id3se4tocrat3thmetic2m3ada5illo3chair3ful3istice3or3y2om',
+  'a3und2range3est3ival5e3ogant4w2senal2t3ery3ichoke5le4fact4san5t6ic3work1s2cend5t2h3ore2ide2k3ed2',
+  'leep2paragus3ect4n3halt3ire2sault3emble7y4rtive4ss4t3ign4st3ortment3ume4re2thma3onish4und3ronaut',
+  '6omy2ylum1t2hlete6ic2las2mosphere2om2rium2tach5k4in3empt4nd6ant5tion7ve3ic4re4tude3orney3ract7iv',
+  'e1uction2dible4ence4o4t5or2gment2nt2rora2thentic4or6ity3o4graph4nomy4psy3umn2xiliary1vail5able3l',
+  'anche2enge4ue3rage4sion2iary4tor3d2ocado3id1wake5n3rd4e3y2esome2ful2kward2ning1xe2is2le1zure0bab',
+  'ble3oon3y2chelor3k4bone4fire4lash4pack4stage4ward4yard3on3teria2d3ge5r3minton2ffle2g3el3gage3uet',
+  'te2il3t2ke4r5y2lance7d3cony3d3l4ad4et4oon4room3m2mboo2nana3d4age3g3ish5ter3jo3k4rupt3ner3quet2pt',
+  'ism2r3ber3e4foot3gain3itone3k3ley3n4acle3on3racks6uda4el4icade5er3tender2se4ment3hful3ic4l4n3ket',
+  '3s2t3ch3h4robe6om4tub3on3talion4er6y4le2y2zaar1e2ach5ball4on3d3gle3k4er3m3n3r4able4d3st3t3utiful',
+  '7y5y3ver2cause3ome2d3room3time2e3f3hive3n3swax3t4le2fore6hand2g3gar3in5ner6ing2have5ior3ind3old2',
+  'ige3ng2lated3fry3ief5ve3l4ow4y3ong6ing4ved4w3t2nch5mark3d3eath4fit4volent2quest2reft4t3ry2seech3',
+  'ide3t4ow2tray6al3ter3ween2verage2wilder4tch2yond1iannual2cker3ycle2d2focal2g2ke3ini2lingual3l4bo',
+  'ard4ion2n3ary3d3ocular2ography3logy2rch3d3th5day2scuit3hop3on3tro2t3e3ter2zarre1lack5berry6ird5s',
+  'mith3de3me5less3nd4k5et3st3tant3ze5r2each6ers4k3mish3nd3ss2imp3nd4k3ss5ful4ter3zzard2ock5ade5bus',
+  'ter3gger3nd3od4m5ing3ssom3use3w2ue4berry4print3ff3nder4t3r4ry3sh1oar4d5walk3st5ful3t2bcat2dy4gua',
+  'rd2gus2il3sterous2ld3t2mb4ard2nd3e3fire3net3us2ok4case4mark4shelf4worm3merang3st3t4h4leg2rder3e4',
+  'dom3ough3row2som3s4y2tany3h4ersome3tle4om2ulder4evard3nce4tiful5y3quet3tique2w3l4ing2x3er2y1race',
+  '5let4ken6t3id4n3ke3mble3nch4d5y3ss3vado4e5ry2ead4k5able5fast4th6less3eze3w2iar3be3ck3de4ge4le3ef',
+  '5case3gade4ht6ness3lliance8t3m3ne4g4k3sk5et3ttle2oad5cast3ccoli4hure3ken3nze3och4k4m3ther7hood3u',
+  'ght3wn5ie4se2uise3nch4ette3sh3tal1ubble2ccaneer3ket4le2d3dy3get4ie2ffalo4er5t2g3le2ild5ing4t2lb3',
+  'k3l4dog6zer4et6in2mblebee3p2nch3dle3galow3k3ny2oy2rden3eau3ger4lar3ial3lap3n3rito4ow3st3y2s3h3in',
+  'ess3tle3y2t3cher3ler3ter6cup6fly6scotch4on2y2zz4ard1y2pass0cab3bage3in3le3oose2ctus2det2fe4teria',
+  '2ge2ke2lamity3cium4ulate8or3endar3f3iber4co3l4igraphy4ous3m3orie2maraderie3e4l5lia4ra3ouflage3p4',
+  'aign4us2n3al4ry3cel3did6ate4le4or4y3e3ister3nery4ibal4on4y3oe4py3taloupe4een3vas3yon2p3able4city',
+  '3e3ital3sule3tain4ion5vate6e4ure3ybara2r3amel4van3bon3d4igan3e4free5ul4less4ss4taker3go3ibou4cat',
+  'ure3nival3ol4usel3penter5t3riage4ot4y3t4on5on4ridge3ve2scade3e3h4ew4ier3ino3ket3serole5tte3taway',
+  '4le3ual6ty2t3alog5yst4pult3ch3egory4rer5pillar3fish3hedral3tle2uldron4iflower3se3tion2valry3e4rn',
+  '3iar4ty1edar2iling2lebrate6ity4ry4stial3l4ar4o2ment2nsor4us3taur4er4imeter5pede4ury2ramic3eal4mo',
+  'ny3tain4ificate6y1hain4r3lice4k3mber4eleon4pagne5ion3nce4delier4ge4nel3os3pel5rone4ter3rcoal4ge4',
+  'iot5table6y4m5ing4t3se4m3tter3uffeur2eap4t3ck5ers5point3ddar3ek4r5ful4se6cake4tah3f3mical5st3ris',
+  'h4ry3ss4t5nut3w2icken5pea3ef3huahua3ld5hood5ren4i4l3mney4panzee3n4chilla3p4munk4s3sel3valry4e2lo',
+  'rine2ocolate3ice4r3ose3p4stick3rus3wder2rome4nic7le2uckle3nk3rch1ider2gar2nder3ema3namon2rcle4ui',
+  't5late5mstance5s2tadel3izen3rus3y2vil5ian1laim3m4p3p3rify5net5ty3sp4s5ic6fy5room3tter3w3y2ean4r3',
+  'mentine3rgy4k3ver2ick3ent6ele3ff3mate5x4b3nic3p2oak3ck5wise3se5t3th5es3ud3ver3wn2ub3e3mp4sy3ster',
+  '3tch1oach3l4ition3st5er3t3x2bbler3ra3web2ckatoo4pit4roach3oa4nut4on2d3e2ffee4in2gwheel2herent2il',
+  '3n4cide2la3d3lapse5r4eague5ct5ge3ony4r4ssal3t3umn2mb4at4ine4ustion3e4dian5y4t3fort7able3ic3mand4',
+  'ent5rce4odity5n4ute3pact5nion6y5re5ss7ion4el5te4ile4lain5ete6x5iment4ose6t5und4rehend5omise4ulso',
+  'ry5ter3rade2nceal5de5ive5ntrate5rn6t4ise4lude4rete3dense4ition4or4uct7or3e3fetti4ide7nt5rm4lict4',
+  'use3gratulate3nect3quer3science6ous4ent5rve4ider5st4ole4tant4ult5me3tact5gious5in4emplate7t5nt5s',
+  't5xt4inue4ract6st5ibute5ol3venient5rsation6t4ince4oy2ok4ie3l3perate3rdinate2pper3y2ral3d4ial4les',
+  's4uroy3e3n4er6stone5t3poral7te4se3rect4idor4upt3sage2smetic4ic4os3t4ly4ume2ttage4on2uch3gar4h3ld',
+  '3ncil4sel4t5er5ry3ple3rage4ier4se4t5eous3scous4in2venant4r5age2w3ard3boy2yote2zy1rab4apple3ck5er',
+  '3dle3ft5sman3nberry4e4ky3sh3te5r3vat3wl3yon3zy2eam4te3dential4ible5t3ek3scent4t3vice3w2icket3me4',
+  'son3sis4p3teria4ic2ochet4odile3issant3p3ss5bow5word3uton3w4bar4d5ed4n2ucial3el5ty3ise3mb5le4pet5',
+  'led3sade4h4t3tch2y3ptic3stal1ube2ckoo3umber2ddle2ff2isine2lminate3prit3tivate4ure2nning2p3board3',
+  'cake2rable4tor3b3few3iosity5us3l3rant4ent4y3tain3ve2shion3tard4om6ary6er2t3e3lass1ycle4one2linde',
+  'r2mbal2press0dad2gger2hlia2ily3nty3ry3sy2lmatian2m3age3p3sel2nce3delion3ger6ous4le2pper2re3ing3k',
+  '3t2sh4board4ing2ta3e2ughter2wn2y2zzle5ing1ead4line3fening3l3r3th2bate3onair3ris3t3ut2cade4y3eive',
+  '4ncy5t4ption3ide4mal4sive3k3laration6e4ine3orate4y3rease2dicate3uce5tion2ep3r2feat4nd3iant4cit4n',
+  'e5ite3orm3rost3y2grade4ee2ity2lay3egate3i4berate4cate5ious4ght4nquent4rious4ver3ta3uxe2mand3olis',
+  'h4nstrate2nial4m3ominator3se3tist3y2part6ure3end6able3ict3lete4oy3osit4t3ress4ive3th3uty2rive2sc',
+  'end7ant6t4ribe3ert5ve3ign4rable3k3olate3pair4erate3sert3tination6y4roy2tach4il3ect6ive4r5mine4st',
+  '3our2vastate3elop3iate4ce4ous3ote2w1iabetes3gnose4onal4ram3l4ect4ogue3meter4ond3ry2ce3tate4ionar',
+  'y2d2esel3t2ffer6ent4icult4use2g3est3it3nified5ty2lemma3igent3ute2mension3inish3ple2ner3ghy4o3ner',
+  '3osaur2p3loma7t3per2rect6ion6ory3t2sabled4gree4ppear4ster3card4ipline4o5unt5ver4reet4us6s3ease3g',
+  'race4uise3h3k3mal5y4iss3obey4rder3patch4erse4lay4ute3rupt3solve3tance6t4inct4ract5ess5ict4urb2tc',
+  'h3to2van3e4r5se3ide4ne2zziness4y1o2cile3k3tor4rine3ument2dge2es2g3wood2ing2ll4ar4y3phin2main3e3i',
+  'nant5o2nate5ion3e3key2odle3r4bell4step4way2rmant4itory2se2uble3gh5nut2ve2wn4fall4pour4town2zen1r',
+  'aft3gon6fly3in3ma3stic3w4bridge4er2eadful4m4ry3dge3ss2ibble3ft3ll3nk3p3ve3zzle2omedary3p3ught3ws',
+  'y2um4stick2y1ubious2ck4ling2el3t2ffel2gout2mpling2ne3geon2rable3ing2sk3t2ty1warf2ell2indle1ynami',
+  'c6te4sty0each2ger3le2r3ly3muff3n4est4ings3ring3th5ly5quake5worm2se4l3ily3t4ern3y2t1bony1ccentric',
+  '2ho2lair3ipse2ology3nomy2static1damame2ge2ible3t4ion2ucate1el2rie1ffect6ive3icient3ort6less1gg3p',
+  'lant2ret1ider2ght2ther1laborate3stic2bow2der5berry2ection5ric6on3gant3ment3phant3vator2f2igible3',
+  'minate3te2k2m2ope3quent2se2usive1mbark5rass4ssy3er3lem3ody3race2erald4ge6ncy2inent2otion2pathy3e',
+  'ror3hasis3ire3loy3orium4wer3ty2u3late1nable3ct3mel2chant4ilada3ircle3lose3ore4unter5rage2d3anger',
+  '3eavor3ive3less3orse3ure2emy3rgetic5y2force2gage3ine6er3rave2hance2igma2joy2lighten4st2ormous3ug',
+  'h2quire2rage3ich3oll2sure2ter5prise5tain3husiasm3ire4tle3rance4ust4y2umerate2velope3ious4ronment',
+  '3y1pic3demic3sode1qual5ity4tion5or3inox4p5ment4valent1ra3se2mine2ode3sion2rand4tic3or2upt1scalat',
+  'or4pe4role3ort2pecially3resso2say3ence5tial2tablish4te3eem3imate3uary1ternal1ucalyptus1vacuate3l',
+  'uate3porate2en4ing4t5ual3r4green4y5body5day5one5thing2ict3dence6t3l2oke3lve1we1xact5ly3ggerate3m',
+  '4ine4ple2cavate3eed4llent4ption4ss3hange3ite6d5ing3lude5sive3ursion4se2ecute3mpt3rcise2hale4ust7',
+  'ed3ibit2ile3st3t2otic2pand5sion3ect4dition4nse6ive4rience6ment5t6ise3ire3lain4icit4ode5it5re3ort',
+  '4se3ress7ion2quisite2tend5sion4rior5nal3inct3ra5ct5vagant4eme1ye3brow3lash4id0fable3ric3ulous2ca',
+  'de3e3ilitate3t4ion4ory3ulty2de2int3ry3th5ful2lafel3con3l3se5hood2me3iliar5y4ne3ous2n3atic3cy3g3t',
+  'astic6y2r3ewell3m4er2scinate3hion3t4en2t3al3her3igue2ucet3lt2vorite2wn1easible4t3ther4ure2deral2',
+  'e3ble3d3l4ing2line3low2male2nce3nel2rn3ocious3ret4y3tile3vent2stival6e2tch2udal2ver2w1iasco2ber2',
+  'ction7al2ddle3get2eld3ry3sta2g3ht3ure2lament3e3let3m3ter2nal5ly4nce3ch3d3e3ger3ish2re4fly4man4pl',
+  'ace4work3m3st2scal3h4bowl2t3ness2ve2x3ture1jord1labby3g4rant3me4ingo4mable3nnel3p4jack3sh4k3t4te',
+  'ry3vor3wless2ea3e4ce3xible2icker3ght3msy3nt3p4per2oat3ck3or3ur5ish3wer2uent3ffy3id3sh3te2y1oal3m',
+  '2cus2g2il2ld4er3iage3k3low2ndue2od3lish3t4print2r3bid3ce3ecast4ign4see5t3ge5t4ive3k3mal4idable4u',
+  'la3t4ify4night4ress4une3um3ward2ssil3ter2und4tain3r2x3glove1raction3gile4ment4rance3me3ntic3ud2e',
+  'ckle3e4way4zer3ight3nzy3quent3sh2iction3dge3end6ly4s3gate4hten3nge3tter3volous2og3lic3m3nt5ier3s',
+  't5ing3wn3zen2ugal3it3strate1udge2el2lfill3l2n3ctional3damental3nel4y2r3ious3nace4iture3y2se2tile',
+  '3ure2zzy0gable2dget2in2laxy3lant4eon5ry4on5p2mbit3e2nder2p2rage3bage3den3goyle3land4ic3ment3net3',
+  'rison2s3p2te4way3her2udy3ge2ve4l2ze4bo4lle1ecko2latin2m2neral6te5ous4tic3ius3re3tle3uine2ography',
+  '3logy3metry2ranium3bil3m2sture2t2yser1herkin2ost1iant2bbon2ft2gantic3gle2nger6bread4ham2raffe3l2',
+  've4n1lacier3d4iator3morous3nce3re3ss5es2eam2ide3mpse3sten3tter2obe3om5y3rious4y3ssary5y3ve3w2ue3',
+  'ttony1nat2occhi3me2u1o2alie3t2blet4in2ddess2es2ggles2ing2ld4fish3f2ndola3e3g2od4bye3se5berry2phe',
+  'r2rgeous3illa2spel3sip2t2ulash3rd2vern6ment2wn1rab3ce5ful4ious3dual6te3in3mmar3nd5father5mother4',
+  'ite4ola4t3pe5fruit4h3ss5hopper3teful4itude3vel4ity4y2ease4t3edy4n5house4ting3yhound2id4dle3ef3ll',
+  '3mace3t3zzly2ocery3om3tesque3und4p4se3ve3w2umpy3nt1uacamole3rantee4d5ian3va2ess4t2idance4e3ld4t3',
+  'tar2ll4ible2mbo3drop2n2ppy2tter1ym3nasium0habit5at2cksaw2d3dock2ggle2il3r2lf4way3ibut3lmark4way3',
+  'o2m3burger3mer4ock3per3ster2nd4le4some3ger2phazard3pen4y2rbor3d4ship3e3mful4less4ony3ness3p4oon3',
+  'sh3vest2s3ty2t3chet2ughty3nted2ve4n2wk3thorn2ystack2zard3el5nut1e2ad4band4light6ne4quarters3lth6',
+  'y3r4d4t5h5y3ther3vy2dge5hog2edless2fty2ight6en3rloom2licopter3lo3met3p2mlock2n2r3b3d3e3itage3mit',
+  '3o4n3ring2sitate2xagon1i2biscus2ckory2dden3eous6t2gh4way2larious3l2m2nder4sight3ge3t2p3po5potamu',
+  's2re2s3tory2ve1oard2bby2ckey2e2ld3e3iday3low4y2mage3e4work2nest4y5bee5comb3orable2od3f3k2pe4ful4',
+  'less3scotch2rizon3n4et3rible5fic4or3se5shoe2se3pitable7l3t4age4ile2tel2und3r4glass3se5fly2ver2w1',
+  'ub2ge2ll2man5e3ble3id4liate3mingbird4us3or2ndred3gry3t2rdle3ricane4y3t4ful2sband3ky2t1ybrid2ena2',
+  'giene2mn2pnotize3othesis2sterical0ibex2is1ce3berg2icle3ng2on2y1dea4l3ntical6fy6ty2iom2le2ol1f1gl',
+  'oo2nite3orant5e2uana1ll3egal3ness3uminate4sion5trate1mage4inary6e2itate2mature3ediate4nse3igrant',
+  '4nent3ortal3une2pact4la4rtial4tient3erfect3olite4rt6ant4se5sible3ress4ison4oper5ve3ulse6ive1n2ac',
+  'curate3dequate2capable3ense3h3ident3line4ude3ome3rease5dible2decent4pendent4x3icate4fferent4gnan',
+  't4vidual3oor3uce4lge4stry2evitable2famous4nt3ect4rior3inite7y3late4ict4uence3orm6al7tion2genious',
+  '3redient2habit4le3erit3ibit2itial6te2ject3ury2k3well2let2mate2n3er3ocent4vate2put2quiry2sane3ect',
+  '3ide4ght5nia4st3pect4ire3tall5nce6t4ead4inct4ruct6ment3ulate5t2tact3egrity4llect6igent4nd5se5tio',
+  'n4ract5est8ing5ior5nal5pret5rupt5val3imate3o3ricate5gue4oduce4ude3uition2vade4lid5uable3ent4st3i',
+  'sible4te3olve1ris2on4ing4y2rigate4tate1s2land2olate6ion2sue1t2ch2em2inerary2s3elf1vory2y0jackal4',
+  'et4pot4rabbit2de2guar2m3boree2nitor2r3gon2smine2velin2w2y2zz1ealous7y3ns2ep2lly5fish2opardy2ster',
+  '2t3ty2wel1igsaw2ngle2ttery1ob2ckey2g2in2ke2lly2stle2t2urnal5ey2vial2y1ubilant5ee2dge3icial2ggle2',
+  'ice2kebox2mbo3p2ngle3ior4per3k2ry2st2venile0kale2ngaroo2yak1ebab2en3p4sake2lp2nnel2pt2rnel2tchup',
+  '3tle6drum2y3board3hole3note1haki1ick2d3nap4ey2ln3t2mchi3ono2nd4le4ness3gdom4fisher3ship2osk2pper',
+  '2ss2t3chen3e3ten2wi1napsack2ee3w2ife3ght3t2ob3ck3t3w4ledge4n2uckle1oala2okaburra0lab3el3or5ious2',
+  'ce3quer2dder3y4bug2goon2ke2mb3ent3p2nce3dlord4mark4scape5lide3guage3tern2pel3top2rch3ge3k2sagna3',
+  'so3t2tch3er3her3itude3tice2ugh3ndry3rel2va3ender3ish2w3ful3n3suit3yer2yer2zy1eader3f4let3rn3sh4t',
+  '3ther3ve2cture2dge2ek2ft2g3acy4l3end6ary3ible4slate4timate2isure7ly2mming3on5ade3ur2nd3gth3ient3',
+  's3til2opard3tard2ss4on2t3hal5rgic3ter4uce2vel4r1iability3r2beral5ty3rary2cense3hen2fe4less5ong3t',
+  '2ght2ke4ly2lac3y2mb4er3e4rick3it5less3ousine2ne4age4n4s3ger3k3t2on2pstick2quid2st4en2teral6te3ig',
+  'ate3ter4le2ve4lihood5y2zard1lama1oad3f3n3the2bby3ster2cal3k4et3ust2dge2ft4y2gic5al2llipop2nely3g',
+  '4itude2ok3m3p4hole2se3t2ttery3us2ud3nge2ve2yal5ty2zenge1ucid3ky2dicrous2ggage2llaby2mber6jack3in',
+  'ous2nar3ch2strous2te2xury1ynx2rics0macaroni4w3hine3kerel2d3e2gazine3ic3net4ificent5tude3pie2hoga',
+  'ny2id3l4box3n4tain2jestic6y3or2ke2licious3lard4et2mmal4oth2n3age6able4tee3date6ory4olin4rill3e4u',
+  'ver3go3ipulate3nerism3or3sion3tis3ual3y2ple2rathon3ble3ch3garine4in3igold4na5e3ket3malade4ot3ria',
+  'ge5ed3sh5mallow3velous3zipan2scot3k3s4ive3t4er6piece2tch3erial5nal3h3rix3ter4ress2ximum2y3be3onn',
+  'aise4r2ze1e2adow3ger3n4ingful4s3sure3t4ball2chanic2dal3ia4cine4ocre4tate2erkat3t4ing2lancholy3od',
+  'y4n3t2mber3orable5y2nace3tion3u2rchant4iful4y3ge3it3maid3ry2sh3sage2tal3eor3hod3iculous1icrophon',
+  'e5scope2dday4le3night2ght3rate6ion2le3itant3k4shake3l4ion2mic3osa2nce3d3eral3gle3iature4mal5um3k',
+  '3now3or3strel3t3ute2racle5ulous4ge3ror2schief3erable5y3fortune3o3s3t4ake2tten2x3ed3ture1oat2bile',
+  '2ccasin3ha2del4rate5n4st3ify2ist2le3lusk3ten2m3ent6ous2narch4stery3ey3goose3itor3key3otonous3soo',
+  'n4ter3th3ument2on3se2p2ral5e3e3ning3sel3tal2squito3s3t2th4er3ion4vate3or2und4tain3rn3se4se4tache',
+  '3th2ve3ie1uch2ffin4le2g2lberry3e3tiply5tude2mmy2ndane3icipal2ral3mur2scle3eum3hroom3ic3sel3t4ard',
+  '2tiny3ton3ual2zzle1y2self3terious6y2th0nachos2il3ve2me2pkin2rrate4ow3whal2sty2tion3ure2utical2ve',
+  'l3igate3y1ear4by4ly2cessary6ity3k3tarine2ed4le2gative3lect3otiate2ighbor8hood3ther2on2phew2rve4o',
+  'us2st2t3tle3work2utral2ver2w3s4paper3t2xt1ice3kel2ght5ingale2mble2ne2trogen1o2ble3ody2cturnal2is',
+  'e2mad3inate5ee2nchalant3e3sense2odle3k3n3se2rmal3th2se3talgia4ril2t3able3e4book3hing3ice3orious2',
+  'ugat3rish2vel3ice2w2zzle1uclear2gget2isance2mber3erous2rse5ry2t3meg3rition1ylon0oak2r2sis2tmeal3',
+  's1bedient3y2ject6ive2ligation5e4vious2noxious2oe3ist2scure3ervatory6e3idian3olete3tacle4inate2ta',
+  'in2vious1ccasion3upant5y4r2ean3lot2tagon3et3opus1ddity2or2yssey1f2f3end5sive4r3ice6r5ial3spring2',
+  'ten1gre1h1il2ntment1kapi3y2ra1ld2factory2ive1melet3n2inous3t1n2ce2e2ion2line3y2set2ward2yx1pal3q',
+  'ue2en4er3ra5te2inion2ossum2ponent4rtunity4se3ress2tician4mism7tic4on6al1r2acle3nge5utan2bit2ca3h',
+  'ard4estra4id2deal4r5ly3inary2e3gano2gan5ic6ze2ient3gami4inal7te3ole2nament4te2phan1sprey2trich1t',
+  'her2ter3oman1unce2r2t3come3door3er3fit3law4et3post4ut3rage7ous3side4poken4tanding1val2en3r4alls4',
+  'coat6me4flow4look6rd4ture4whelm1wl2n3er1x2ygen1yster1zone0pacific6er3t2ddle4ock3lock2ge4ant3oda2',
+  'il3nful4staking4t5brush3r2jamas2lace3ette3m3pable3try2mphlet2ncake3da3el3ic3orama3sy3ther4ry2pay',
+  'a3er3rika2rachute4de5ise5ox4graph4keet4llel5yze4mount4noid4site5ol3cel4hment3ent3k4a3ody3rot3sle',
+  'y4nip3t4ial5cipate6ular4ridge4y2ss4enger4ionate5ve3t4a4el4ime4ry4ure2tch3h3ience6t4o3riot4ol3ter',
+  'n2use2ve3ilion2w2yment1ea3ce4h4ock3k3nut3r4l3sant2bble2can3uliar2dal3dler3estrian2erless2g2lican',
+  '2n3alty3cil3dant4ulum3etrate3guin3insula3ny3sion2ony3ple2pper6mint2rceive5ption4h3ennial3fect4um',
+  'e3haps3ilous4meter4scope5h3manent4it3petual3severe4immon5st4on4pective4uade3tain2ssimist2t3al3it',
+  'ion3ty2wter1haraoh2easant3nomenon2ilosophy2oenix3ne3to2rase2ysical6ian1iano2ccolo3k4le3nic3ture2',
+  'e3ce3r2g3eon3ment2ke2lgrim3l4ow3ot2mple2nafore3cushion3e4apple3k3nacle3wheel2oneer3us2pe2ranha2s',
+  'tachio4ol5n2tch5er3iful2xie2zza1lacard4e4id3id4n3n4et4k4t5ation3stic3te5au4ypus3usible3y4ful4gro',
+  'und3za2easant5e3dge3ntiful2iable3ght2uck3g3m4e4met3nge2ywood1ocket2dium2em3t2ignant3nt3sed4onous',
+  '2lar3e4cat3ice4sh4te2mpous2ncho3d4er3y2odle3l2pcorn3lar3py3ulace6r2rch4upine3k3poise3ridge3table',
+  '5l4ion4rait6y2sition3sible4um3t4card2tato3ent6ial3ion3tery2uch3ltry3nd2verty2wder3er1ractical7e3',
+  'irie4se3wn2ecaution4ious5se3dator4icament6t3face4er3judice3liminary3mature4ium3pare3scribe4ent5r',
+  've4s4tige4ume3tty4zel3vail4ent4ious2ice3de3mary4itive4rose3ncipal7le4t3ority3sm4on4tine3vate4ile',
+  'ge3ze2obable4lem3cedure5ss4laim4ure3digy4uce3fession4icient5t4ound3gram5ess3hibit3ject3long3mine',
+  'nt5se4ote4pt3ne3of3pel5rty4hecy4ortion5se3spect6r3tect5st3ud3vide4oke2udent3ne1ublic6ity2dding4l',
+  'e2ffin2ll4ey3p3se2ma3p4ernickel4kin2nch4tual3ish2p3il3pet4y2rchase3ify4ty3ple4ose3se4ue2sh2t2zzl',
+  'e1yramid2thon0quack3ff3gmire3il3ke3lify5ty4m3ndary4tity5um3rrel5y4ter6t5z3sar3y2easy3en3nch3st5i',
+  'on8able3ue2ibble3che4k5ly3et3ll4t3nce4oa3rk3t4e3ver3z2okka3ta5tion4e0rabbit2ccoon3e3k2dar3iant4c',
+  'al4o4sh2ft2gweed2il3n3se4in2ke2lly2m3p4ant5rt2nch4id3dom3ge3som2pid5s2re2spberry2t3e3her3ional3t',
+  'le6snake2ven5ous3ine4oli2w2zor1each4tion3d4y3l4istic4ly4m3son4sure2bel5lion3uild2call3ede4ive4nt',
+  '4ptive3ipe3kless3ognize4mmend4ncile4rd4ver3reation4uit3tangle3ycle2deem3uce2ed3f2ference3ine3lec',
+  't3orm3resh3ugee4se2gain4rd3ion3ret3ular2hearse2ign3ndeer4force2ject2lative4x3ease4vant3iable4c4e',
+  'f4sh3uctant3y2main4rkable3edy4mber3ind3ote4ve2nder3ew3ovate4wned3t2open2pair3eat4l3lace4ica3ort3',
+  'resent4oduce3tile3utation2quire5site2scue3emble4nt3ide4lient4st3olve4urce3pect4ond6se3t4aurant4l',
+  'ess4ore4rain3ult2tain4liate3ire3ort3reat4ieve3urn2union2veal4nge4re3iew4se4ve3olt5ve2ward1hetori',
+  'c2ino5ceros2ubarb2ythm1ib3bon2ce3h2ddle3e3ge3icule2fle2ght3id3orous2nd3g2ot2pple2se3k3otto2tual2',
+  'val3er1oad3st2be3in3ot3ust2ck4et2dent4o2le2mance2of3kie3m3ster3t2pe2se4mary2tate5ion2ugh3nd3te4i',
+  'ne2wboat2yal1ubber3y2dder3e2ffle2g3ged2in2le2mble2n3g3way2ral2thless1ye0sable2ck3red4ifice2d3dle',
+  '3ness2fe3fron2ga3e2id3l4boat2lad4mander5i3mon3on4on3sa3t3ute3vage2me3ple2nctuary3d4al4wich2pling',
+  '3phire2rcastic3dine2sh2tchel3ellite3isfy2uce5r3na3sage2vage4nna3e2w2xophone2y1caffold3le4lop3n3r',
+  'ce4e5crow4f3tter2ene4ic3pter2heme3olar4ol5ner2ience3ssors2one3oter3rch4e4pion3ut2rap3een3ipt3oll',
+  '3ub4tiny2uba3lpture1ea3gull3horse3l3rch3son3t3weed2cluded3ond3ret3tion3urity2e3d3k3m3n2gment3reg',
+  'ate2ldom3ect3f3l2minar2nd3ior3se4ible5tive3tence4iment2parate2quin2rene3geant3ies4ous3pent3vice2',
+  'same3sion2t3tle6ment3up2ven4ral5e1habby3ck3dow3ft3le4low3mrock3pe3re4k4p3wl2e3d3ep4t3lf4l3pherd3',
+  'rbet4iff2ield3ft3ne4gle3p4wreck3rt3ver2ock3e3ot3p4ping3rt3uld6er3ve5l3w2rew5d3imp3ub4g2uffle3t4t',
+  'le2y1ibling2ck4le2de2ege3ve2ght3n4ificant2lent3k3ly3o3ver2milar3ple5ify2nce5re3g2ren3loin2ster2t',
+  '3uate2x2ze1kate2eptical3tch2i3ll5et3n3p3rt2ull3nk2yline3scraper1lab3m2ed4gehammer3ep3igh3nder2ic',
+  'e3de3ght3m3p2ogan3t4h3w2ug4gish3sh1mall3rt2ell2ile2ock3ke3oth1nack3il3ke3p4dragon2eaky2iff2orkel',
+  '3w4flake1o2ap2ccer3iable5l3k2da2fa3t2lar3d4ier3emn3id4tary3ution3ve2me4body4one4thing5imes2ng3ne',
+  't2on2phisticated2rbet3ry3t2ul3nd3p3rce3th1pace4ious3ghetti3re4row4se3tial4ula3wn2eak4r3cial4tacl',
+  'e6tor4ulate3ed3ll3nd2here2ice3der3ke3n4ach4dle3rit2lit2oil3nsor4taneous3on3radic4t3t2ray3ead3ing',
+  '3out3uce2y1quare4sh3eeze3id4rrel1table3dium3ff3g4e4nant3irs3llion3mina4p3nd3rfish4t3te4ion7ary4u',
+  'e3y2eadfast4k4m3el4ple3m3p3reo4ile3w2ick3ll3mulate3ng5ray3rrup2ock3mach3ne3ol3p3re4k4m4y3ve2raig',
+  'ht4nge4tegy4wberry3eam4et4nuous3ike3ong3uggle2ubborn3dent4y3ff3mble4p2yle1ubject3marine4it3side4',
+  'tantial3tle3urb3way2cceed5ss4umb3h2dden6ly2ffer4icient2gar3gest2it4case2ltan2mmary4er2n3dial3flo',
+  'wer3ny3set2per5b5ior5vise3per4le6ment5y4ress3reme2re3face3ge3plus4rise3round3vey2sceptible3hi3pe',
+  'ct5nd3tain1wallow3mp3n3p3rm2ear4ter3et2ift3m3ng3tch2ord5fish1ycamore2mbol3metry3pathy4hony4tom2r',
+  'up2stem0tabby3le2ckle3o3tful2dpole2ffy2g2il2ke4n2lent3k3l2mbourine2ngerine4ible3k3trum2pe4stry3i',
+  'r2rantula3dy3get3t2sk3sel3te2ttoo2vern2xi1each5er4up3m3pot2chnique2ddy3ious2lephone4scope3l2mper',
+  'ament4le4orary2n3acious4nt3dency3nis3t4ative2rm4inate5te3n3race5in4ible5tory2st2xt1han4k3t2e3ir3',
+  'm4e3n3ory3re4mos3se3y2ick3mble3n4g4k3rd4sty3s4tle2orn4ough3se3ught4sand2reaten4e3ifty4lling4ve3o',
+  'ne4ugh4w3ush2umb3nder3s2yme1iara2cket4le2de2ger3ht2lt2mber3e3id2nsel3y2p2red2ssue2tle1o2ad3st2ba',
+  'cco3oggan2day3dler2e2ffee3u2gether2ilet2ken2ld3erant2mato3b3orrow2ne3gue3ight2o3k3l4box3th2p3az3',
+  'ic3ple2rch3ment3nado3pedo3tilla4oise2ss2tal3em2ucan4h3gh3r4ism6t2ward3el4r3n2y1rack4tor3de3ffic3',
+  'gic3in3nquil4sfer6orm5ition5parent3p4eze3sh3vel5rse3y2eacherous4sure4t3e3llis3mendous3nd2ial3be3',
+  'ck3dent3gger3m3p3umph3vial2olley3mbone3phy4ical3uble4t3wel2uck3e3ffle3ly3mpet3nk3st3th2y1uba3e2i',
+  'tion2lip2mble2na3nel2rban4ulent3key3n4ip3quoise3tle2sk2xedo1welve3nty2ice3g3n3st2o1ype3hoon3ical',
+  '2rant0ugly1kulele1lcer2timate1mbrella2pire1nable3nimous3ware2canny3le3over2der5estimate5mine5sta',
+  'nd8te5take3o2earth2fair3old2happy2icorn4ycle3form4y3que3son3t3versal7e2known2lock2ruly2til2usual',
+  '2veil1p2beat2date2grade2hill3old2on2per2roar4ot2set1rban2chin2ge4nt2n1s2age2e3d3ful3less2her2ual',
+  '5ly1tensil2ility2most2opia2ter0vacancy5t4tion3cine3uum2grant3ue2lentine3iant4d3ley3uable4e3ve2n3',
+  'illa4sh4ty2por2riable4ous2se3t2ult1egetable2hement3icle2il2locity3vet2ndor3erable3geance3ison3tu',
+  're3ue2rb3dict3ify3satile4ion3tical3y2ssel3t2teran1iable2brant2cious3tory3una2deo2ew2gilant3orous',
+  '2llage2ndictive3e4gar3tage2ola4et4in2per2rtual5e3us2sa3ible4t5or3ual6ize2tal2vid1ocal4tion2ice3d',
+  '2latile3cano3e3ume4ntary2te2yage1ulnerable3ture0wafer3fle2ge3on2it4er2lk3l4aby4et3nut3rus2nd4er3',
+  't2rdrobe3ehouse3fare3m3rior3thog3y2s3abi3h4cloth3p3te5ful2tch5ful3er5melon2ve2y1e2alth3pon3r4y3s',
+  'el3ther3ver2b2dding3ge2ed3k4end2ird2lcome3l2nt2re2st2t1hale3t4ever2eat3el3n3re2ich3le3p3sper4tle',
+  '3te2o3le5some3m3se2y1ick4ed5r2de3get3th2fe2gwam2ld4ebeest5rness3l4ful4ow2n3d4mill4ow3e3g3k3ner3t',
+  'er2re2sdom3e3h3tful2th4draw4er4out4stand3ness3ty2zard1oeful2lf3verine2man3bat3en2nder6ful4rous2o',
+  'd4pecker3l2rd3e3k4shop3ld3m3ried4y3th5while2uld1rap3th2eath3ck3n3stle3tched2ist3te2ong3te0xenon1',
+  'ylophone0yacht2k2m2rd3n2wn1ear4book4ly4n3st2llow3p2s3terday2t3i1ield1odel2ga3urt2lk2nder2u3ng3r3',
+  'th5ful1ucca2le0zany1eal4ous2bra2nith2phyr2ro2st1igzag2nc2pper2ther1odiac2ne2o1ucchini',
+].join('');
+
+export const THEME_WORDS = {
+  animals: [
+    '0aardvark1lbatross2ligator2paca1naconda2t3eater4lope1pe1rmadillo0baboon2dger2rracuda2t1ear3ver2e',
+    '3tle1ison1oar2bcat1uffalo2ll4dog2tterfly2zzard0camel2nary2pybara2ribou2t3erpillar3fish1entipede1',
+    'hameleon2eetah2icken3huahua3mpanzee3nchilla3pmunk1lam1obra2ckatoo4roach2d2ndor2yote1rab3ne2icket',
+    '2ocodile3w1uckoo0deer1ingo1og2lphin2nkey2ve1ragonfly1uck0eagle2rthworm1el1gret1lephant2k1mu0falc',
+    'on1erret1inch2refly1lamingo2ea2y1ox1rog0gazelle1ecko2rbil1ibbon2raffe1nat2u1oat2ldfish2ose2pher2',
+    'rilla1rasshopper2izzly2ouse1uppy0hamster2re2wk1edgehog2ron3ring1ippo5potamus1ornet3se1ummingbird',
+    '1yena0ibex2is1guana1mpala0jackal4rabbit2guar1ellyfish0kangaroo1ingfisher2wi1oala2okaburra0ladybu',
+    'g1emming3ur2opard1ion2zard1lama1obster2cust1ynx0macaw2gpie2llard2natee3drill3tis2rmot1eerkat1ink',
+    '1ole2ngoose3key2ose2squito2th2use1ule0narwhal1ewt1ightingale0ocelot2topus1kapi1possum1rangutan2c',
+    'a2iole1sprey2trich1tter1wl1x1yster0panda3ther2rrot3tridge1eacock2lican2nguin1heasant1ig3eon2ranh',
+    'a1latypus1olecat2ny2odle2rcupine3poise2ssum1rawn1uffin2ma1ython0quail2okka0rabbit2ccoon2m2t3tles',
+    'nake2ven1eindeer1hino5ceros1obin2oster0salamander3mon2rdine1corpion1eahorse3l1hark2eep2rew3imp1k',
+    'unk1loth2ug1nail3ke1parrow2ider1quid4rrel1tallion3rfish2ingray2ork1wallow3n0tapir2rantula1ermite',
+    '3n1iger1oad2rtoise2ucan1rout1una2rkey3tle0urchin0vicuna2per1ole1ulture0wallaby3rus2rthog2sp1ease',
+    'l1hale1ildebeest1olf3verine2mbat2odpecker2rm1ren0yak0zebra',
+  ].join(''),
+  countries: [
+    '0afghanistan1lbania2geria1ndorra2gola2tiguaandbarbuda1rgentina2menia1ustralia5ia1zerbaijan0baham',
+    'as3rain2ngladesh2rbados1elarus3gium3ize2nin1hutan1olivia2sniaandherzegovina2tswana1razil2unei1ul',
+    'garia2rkinafaso3undi0cambodia3eroon2nada2peverde1entralafricanrepublic1had2ile3na1olombia2moros2',
+    'ngo2starica1roatia1uba1yprus1zechia0denmark1jibouti1ominica8nrepublic0easttimor1cuador1gypt1lsal',
+    'vador1ngland1quatorialguinea1ritrea1stonia2watini1thiopia0fiji2nland1rance0gabon2mbia1eorgia2rma',
+    'ny1hana1reece3nada1uatemala2inea6bissau2yana0haiti1onduras1ungary0iceland1ndia3onesia1ran3q2elan',
+    'd1srael1taly1vorycoast0jamaica2pan1ordan0kazakhstan1enya1iribati1osovo1uwait1yrgyzstan0laos2tvia',
+    '1ebanon2sotho1iberia3ya2echtenstein2thuania1uxembourg0madagascar2lawi4ysia3dives3i3ta2rshallisla',
+    'nds2uritania6ius1exico1icronesia1oldova2naco3golia3tenegro2rocco2zambique1yanmar0namibia2uru1epa',
+    'l2therlands2wzealand1icaragua2ger5ia1orthkorea5macedonia3way0oman0pakistan2lau2nama2puanewguinea',
+    '2raguay1eru1hilippines1oland2rtugal0qatar0romania1ussia1wanda0saintlucia2moa2nmarino2udiarabia1c',
+    'otland1enegal2rbia2ychelles1ierraleone2ngapore1lovakia4enia1olomonislands2malia2uthafrica5korea5',
+    'sudan1pain1rilanka1udan2riname1weden2itzerland1yria0taiwan2jikistan2nzania1hailand1ogo2nga1rinid',
+    'adandtobago1unisia2rkey4menistan2valu0uganda1kraine1nitedarabemirates6kingdom6states1ruguay1zbek',
+    'istan0vanuatu2ticancity1enezuela1ietnam0wales0yemen0zambia1imbabwe',
+  ].join(''),
+  foods: [
+    '0almond1nchovy1pple2ricot1rtichoke1sparagus1vocado0bacon2gel3uette2nana2rley2sil1ean2ef3t1iscuit',
+    '1lackberry2ueberry1read2isket2occoli3wnie1urrito2tter0cabbage2ke2ntaloupe2ramel3rot2shew3serole2',
+    'uliflower2viar1elery2real1heddar3ese6cake3rry3stnut2icken5pea3li3ps3ve2ocolate3wder1innamon1lam1',
+    'oconut2d2ffee2okie2rn2uscous1rab3cker3nberry2oissant3uton1ucumber2pcake2rry2stard0date1ough5nut1',
+    'umpling0edamame1gg3plant1nchilada2dive0falafel1ennel1ig2sh1lapjack1ondue1ries3tter1udge0garlic1i',
+    'nger1nocchi1oulash1ranola3pe5fruit3vy1uacamole3va2mbo0halibut2m3burger2zelnut1erring1oney1ummus0',
+    'icing0jam1elly0kale1ebab2tchup1imchi2wi0lamb2sagna1eek2mon2ntil2ttuce1ime1obster0macaroni3kerel2',
+    'ngo2rgarine3malade3shmallow2yonnaise1eatball2lon1ilk2nt2so1uffin2shroom3sel3tard2tton0nachos1ood',
+    'le2ugat1ut3meg0oatmeal1kra1live1melet1nion1range2egano1yster0pancake2paya3rika2rsley4nip2sta4ry1',
+    'ea3ch3nut3r2can2pper1ickle2e2neapple2stachio2zza1lum1opcorn2rk3ridge2tato1retzel2une1udding2mpki',
+    'n0quiche3noa0radish2isin2spberry2violi1hubarb1ice2sotto0salad4mi3mon3sa2ndwich2rdine2usage1callo',
+    'p2one1hrimp1oup1paghetti2inach1quash1teak3w2rawberry1ushi0taco2ngerine2rt1oast2fu2mato2rtilla1ro',
+    'ut2uffle1una2rkey3nip0vanilla1enison1inegar0waffle2lnut2sabi2termelon0yam1ogurt0zucchini',
+  ].join(''),
+};
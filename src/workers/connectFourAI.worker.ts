@@ -0,0 +1,29 @@
+import type { Difficulty } from '@/contexts/DifficultyContext';
+import type { Board } from '@/utils/connectFour';
+import { analyseConnectFourGame, chooseConnectFourMove, findBestConnectFourMove } from '@/utils/connectFourAI';
+
+type Color = 'red' | 'yellow';
+
+export type ConnectFourAIJob =
+  | { type: 'move'; board: Board; me: Color; difficulty: Difficulty }
+  | { type: 'hint'; board: Board; me: Color }
+  | { type: 'analyse'; moves: { player: Color; col: number }[] };
+
+export type ConnectFourAIRequest = ConnectFourAIJob & { id: number };
+
+export interface ConnectFourAIResponse {
+  id: number;
+  result: unknown;
+}
+
+// Searches can take over a second, so they run here rather than on the UI thread
+self.onmessage = (event: MessageEvent<ConnectFourAIRequest>) => {
+  const request = event.data;
+  const result = request.type === 'move'
+    ? chooseConnectFourMove(request.board, request.me, request.difficulty)
+    : request.type === 'hint'
+      ? findBestConnectFourMove(request.board, request.me)
+      : analyseConnectFourGame(request.moves);
+  const response: ConnectFourAIResponse = { id: request.id, result };
+  self.postMessage(response);
+};
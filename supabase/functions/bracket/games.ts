@@ -0,0 +1,68 @@
+// The head-to-head games brackets can be played in: the state a match room
+// starts from, and how to tell who won it. These mirror createGameState and
+// the reducers in src/components/games. The winner is read from the room's
+// state, so only games whose moves the game-action function checks (GAME_RULES
+// in ../game-action/rules.ts) can be listed here.
+
+type State = Record<string, unknown>;
+
+interface BracketGame {
+  /** The game state a new room starts with, as the game itself would create it */
+  initialState: () => State;
+  /**
+   * The seat that won the match in `state`, or null while it is still being
+   * played. A drawn game is played again in the same room, so it is null too
+   */
+  winnerSeat: (state: State) => number | null;
+}
+
+// Drawn rounds are replayed with new_round; the first decisive round wins the match.
+// The host plays X from seat 0
+const tictactoe: BracketGame = {
+  initialState: () => ({
+    board: Array(9).fill(null),
+    currentPlayer: 'X',
+    winner: null,
+    winningLine: null,
+    isDraw: false,
+    scores: { X: 0, O: 0 },
+    gridSize: 3,
+    turnDeadline: null,
+  }),
+  winnerSeat: state => (state.winner ? (state.winner === 'X' ? 0 : 1) : null),
+};
+
+// Seat 0 plays red
+const connect4: BracketGame = {
+  initialState: () => ({
+    board: Array.from({ length: 6 }, () => Array(7).fill(null)),
+    currentPlayer: 'red',
+    winner: null,
+    isDraw: false,
+    scores: { red: 0, yellow: 0 },
+  }),
+  winnerSeat: state => (state.winner ? (state.winner === 'red' ? 0 : 1) : null),
+};
+
+const rps: BracketGame = {
+  initialState: () => ({
+    commitments: [null, null],
+    choices: [null, null],
+    forfeited: [false, false],
+    scores: [0, 0],
+    round: 1,
+    maxRounds: 5,
+    finished: false,
+  }),
+  winnerSeat: state => {
+    const [first, second] = state.scores as [number, number];
+    if (!state.finished || first === second) return null;
+    return first > second ? 0 : 1;
+  },
+};
+
+export const BRACKET_GAMES: Record<string, BracketGame> = {
+  tictactoe,
+  connect4,
+  rps,
+};
@@ -0,0 +1,342 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { BRACKET_GAMES } from "./games.ts";
+import { bracketSize, planBracket, seedOrder } from "./plan.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface BracketRequest {
+  op: 'create' | 'register' | 'withdraw' | 'start' | 'play' | 'report' | 'award';
+  /** create: the new event */
+  name?: string;
+  gameType?: string;
+  format?: 'single' | 'double';
+  maxPlayers?: number;
+  /** create, register: the name to show in the bracket */
+  playerName?: string;
+  /** register, withdraw, start */
+  eventId?: string;
+  /** play, award */
+  matchId?: string;
+  /** award: the player the organiser moves on, e.g. when the other never turned up */
+  winnerId?: string;
+  /** report: the room whose match just finished */
+  roomId?: string;
+}
+
+const ROOM_CODE_LENGTH = 6;
+const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_ATTEMPTS = 3;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const cleanName = (name: unknown, fallback: string) => String(name || '').trim().slice(0, 30) || fallback;
+
+// Same alphabet as generateRoomCode in src/utils/gameRooms.ts
+const generateRoomCode = () =>
+  Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_CHARS[Math.floor(Math.random() * ROOM_CODE_CHARS.length)]).join('');
+
+// Room bookkeeping is stored next to the game state; see game-action
+const stripRoomMeta = (gameState: Record<string, unknown>) => {
+  const { hostId, hostName, lobby, hostSeat, leftSeats, bots, ...state } = gameState || {};
+  return state;
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request: BracketRequest = await req.json();
+    const { op } = request;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Organisers and players are the auth user making the request, never an id in the body
+    const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) return json({ error: 'Sign in required' }, 401);
+
+    const loadEvent = async (eventId: string | undefined) => {
+      const { data, error } = await supabase.from('bracket_events').select('*').eq('id', eventId).maybeSingle();
+      if (error) throw error;
+      return data;
+    };
+
+    const loadMatch = async (matchId: string | undefined) => {
+      const { data, error } = await supabase.from('bracket_matches').select('*').eq('id', matchId).maybeSingle();
+      if (error) throw error;
+      return data;
+    };
+
+    if (op === 'create') {
+      const { name, gameType, format, maxPlayers, playerName } = request;
+      if (!gameType || !BRACKET_GAMES[gameType]) return json({ error: 'Brackets are not available for this game' }, 400);
+      if (format !== 'single' && format !== 'double') return json({ error: 'Invalid format' }, 400);
+      if (!Number.isInteger(maxPlayers) || maxPlayers < 2 || maxPlayers > 64) return json({ error: 'Events take 2 to 64 players' }, 400);
+
+      const { data: event, error } = await supabase
+        .from('bracket_events')
+        .insert({
+          name: String(name || '').trim().slice(0, 50) || 'Game Night',
+          game_type: gameType,
+          format,
+          max_players: maxPlayers,
+          organiser_id: user.id,
+          organiser_name: cleanName(playerName, 'Organiser'),
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      console.log(`${user.id} created ${format} elimination event ${event.id} for ${gameType}`);
+      return json({ event });
+    }
+
+    if (op === 'register' || op === 'withdraw') {
+      const event = await loadEvent(request.eventId);
+      if (!event) return json({ error: 'Event not found' }, 404);
+      if (event.status !== 'registration') return json({ error: 'Registration for this event has closed' }, 409);
+
+      if (op === 'withdraw') {
+        const { error } = await supabase.from('bracket_players').delete().eq('event_id', event.id).eq('user_id', user.id);
+        if (error) throw error;
+        return json({ withdrawn: true });
+      }
+
+      const { count, error: countError } = await supabase
+        .from('bracket_players')
+        .select('user_id', { count: 'exact', head: true })
+        .eq('event_id', event.id);
+
+      if (countError) throw countError;
+      if ((count ?? 0) >= event.max_players) return json({ error: 'This event is full' }, 409);
+
+      // Registering again just updates the name
+      const { data: player, error } = await supabase
+        .from('bracket_players')
+        .upsert({ event_id: event.id, user_id: user.id, player_name: cleanName(request.playerName, 'Anonymous') })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return json({ player });
+    }
+
+    if (op === 'start') {
+      const event = await loadEvent(request.eventId);
+      if (!event) return json({ error: 'Event not found' }, 404);
+      if (event.organiser_id !== user.id) return json({ error: 'Only the organiser can start the event' }, 403);
+
+      // Claim the event first, so starting it twice at once only builds one bracket
+      const { data: claimed, error: claimError } = await supabase
+        .from('bracket_events')
+        .update({ status: 'running', started_at: new Date().toISOString() })
+        .eq('id', event.id)
+        .eq('status', 'registration')
+        .select('id')
+        .maybeSingle();
+
+      if (claimError) throw claimError;
+      if (!claimed) return json({ error: 'This event has already started' }, 409);
+
+      const { data: players, error: playersError } = await supabase
+        .from('bracket_players')
+        .select('user_id')
+        .eq('event_id', event.id);
+
+      if (playersError) throw playersError;
+      if (players.length < 2) {
+        await supabase.from('bracket_events').update({ status: 'registration', started_at: null }).eq('id', event.id);
+        return json({ error: 'At least two players must register first' }, 409);
+      }
+
+      // Everyone is seeded at random; byes go to the top seeds
+      const seeded = shuffle(players.map(p => p.user_id));
+      for (const [index, userId] of seeded.entries()) {
+        const { error } = await supabase
+          .from('bracket_players')
+          .update({ seed: index + 1 })
+          .eq('event_id', event.id)
+          .eq('user_id', userId);
+        if (error) throw error;
+      }
+
+      const size = bracketSize(seeded.length);
+      const matches = planBracket(event.id, event.format, size);
+      const { error: insertError } = await supabase.from('bracket_matches').insert(matches);
+      if (insertError) throw insertError;
+
+      // Fill the first round; matches against a missing seed are byes and settle themselves
+      const order = seedOrder(size);
+      const firstRound = matches.filter(m => m.bracket === 'winners' && m.round === 1);
+      for (const match of firstRound) {
+        for (const slot of [1, 2]) {
+          const seed = order[match.position * 2 + slot - 1];
+          const { error } = await supabase.rpc('fill_bracket_slot', {
+            _match_id: match.id,
+            _slot: slot,
+            _player: seeded[seed - 1] ?? null,
+          });
+          if (error) throw error;
+        }
+      }
+
+      console.log(`Event ${event.id} started with ${seeded.length} players`);
+      return json({ started: true });
+    }
+
+    if (op === 'play') {
+      const match = await loadMatch(request.matchId);
+      if (!match) return json({ error: 'Match not found' }, 404);
+      if (![match.player1_id, match.player2_id].includes(user.id)) return json({ error: 'You are not playing in this match' }, 403);
+      if (match.completed_at) return json({ error: 'This match is already over' }, 409);
+      if (!match.player1_id || !match.player2_id) return json({ error: 'Your opponent is not decided yet' }, 409);
+
+      if (match.room_id) {
+        const { data: room, error } = await supabase
+          .from('game_rooms')
+          .select('id, room_code, status')
+          .eq('id', match.room_id)
+          .maybeSingle();
+        if (error) throw error;
+        if (room && room.status !== 'ended') return json({ roomId: room.id, roomCode: room.room_code });
+      }
+
+      const event = await loadEvent(match.event_id);
+      if (!BRACKET_GAMES[event.game_type]) return json({ error: 'Brackets are no longer available for this game' }, 400);
+      const { data: host, error: hostError } = await supabase
+        .from('bracket_players')
+        .select('player_name')
+        .eq('event_id', match.event_id)
+        .eq('user_id', match.player1_id)
+        .maybeSingle();
+      if (hostError) throw hostError;
+
+      // Both players are seated up front, so nobody else can take a seat and
+      // both join through the room code like any invite. Player 1 hosts
+      for (let attempt = 1; attempt <= ROOM_CODE_ATTEMPTS; attempt++) {
+        const { data: room, error } = await supabase
+          .from('game_rooms')
+          .insert({
+            room_code: generateRoomCode(),
+            game_type: event.game_type,
+            game_state: {
+              ...BRACKET_GAMES[event.game_type].initialState(),
+              hostId: match.player1_id,
+              hostName: host?.player_name ?? 'Player 1',
+            },
+            host_id: match.player1_id,
+            player_ids: [match.player1_id, match.player2_id],
+            player_count: 2,
+            max_players: 2,
+            status: 'playing',
+          })
+          .select('id, room_code')
+          .single();
+
+        // 23505: the room code is taken, so try another
+        if (error?.code === '23505' && attempt < ROOM_CODE_ATTEMPTS) continue;
+        if (error) throw error;
+
+        // Both players may ask at once; only the first room is kept
+        const link = supabase
+          .from('bracket_matches')
+          .update({ room_id: room.id, room_code: room.room_code })
+          .eq('id', match.id);
+        const { data: linked, error: linkError } = await (match.room_id ? link.eq('room_id', match.room_id) : link.is('room_id', null))
+          .select('id')
+          .maybeSingle();
+        if (linkError) throw linkError;
+        if (!linked) {
+          await supabase.from('game_rooms').delete().eq('id', room.id);
+          const current = await loadMatch(match.id);
+          return json({ roomId: current.room_id, roomCode: current.room_code });
+        }
+
+        console.log(`Opened ${event.game_type} room ${room.room_code} for bracket match ${match.id}`);
+        return json({ roomId: room.id, roomCode: room.room_code });
+      }
+    }
+
+    if (op === 'report') {
+      const { data: match, error: matchError } = await supabase
+        .from('bracket_matches')
+        .select('*')
+        .eq('room_id', request.roomId)
+        .maybeSingle();
+
+      if (matchError) throw matchError;
+      if (!match) return json({ recorded: false });
+      if (match.completed_at) return json({ recorded: false });
+
+      const { data: room, error: roomError } = await supabase
+        .from('game_rooms')
+        .select('*')
+        .eq('id', match.room_id)
+        .maybeSingle();
+
+      if (roomError) throw roomError;
+      if (!room) return json({ recorded: false });
+      if (!(room.player_ids ?? []).includes(user.id)) return json({ error: 'You are not a player in this room' }, 403);
+
+      // The final move may still be being saved, so the game may not look finished yet
+      const event = await loadEvent(match.event_id);
+      if (!BRACKET_GAMES[event.game_type]) return json({ recorded: false });
+      const seat = BRACKET_GAMES[event.game_type].winnerSeat(stripRoomMeta(room.game_state as Record<string, unknown>));
+      if (seat === null) return json({ recorded: false, finished: false });
+
+      const winnerId = room.player_ids[seat];
+      const { data: recorded, error } = await supabase.rpc('finish_bracket_match', { _match_id: match.id, _winner: winnerId });
+      if (error) throw error;
+
+      if (recorded) console.log(`Bracket match ${match.id} won by ${winnerId}`);
+      return json({ recorded, winnerId });
+    }
+
+    if (op === 'award') {
+      const match = await loadMatch(request.matchId);
+      if (!match) return json({ error: 'Match not found' }, 404);
+      const event = await loadEvent(match.event_id);
+      if (event.organiser_id !== user.id) return json({ error: 'Only the organiser can decide a match' }, 403);
+      if (match.completed_at) return json({ error: 'This match is already over' }, 409);
+      if (!request.winnerId || ![match.player1_id, match.player2_id].includes(request.winnerId)) {
+        return json({ error: 'The winner must be one of the players' }, 400);
+      }
+
+      const { data: recorded, error } = await supabase.rpc('finish_bracket_match', {
+        _match_id: match.id,
+        _winner: request.winnerId,
+        _walkover: true,
+      });
+      if (error) throw error;
+      return json({ recorded });
+    }
+
+    return json({ error: `Unknown op: ${op}` }, 400);
+  } catch (error) {
+    console.error('Error handling bracket request:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,94 @@
+// Lay out every match of an elimination bracket before it is played.
+//
+// Matches are numbered by bracket, round and position. Each one records the
+// match and slot (1 or 2) its winner moves on to, and in double elimination
+// where its loser drops to. In the losers' bracket, odd rounds pair up the
+// survivors of the round before and even rounds bring in the players who just
+// lost in the winners' bracket.
+
+export interface PlannedMatch {
+  id: string;
+  event_id: string;
+  bracket: 'winners' | 'losers' | 'final';
+  round: number;
+  position: number;
+  winner_to: string | null;
+  winner_slot: number | null;
+  loser_to: string | null;
+  loser_slot: number | null;
+}
+
+/** Smallest power of two that fits every player */
+export const bracketSize = (players: number) => 2 ** Math.ceil(Math.log2(Math.max(players, 2)));
+
+/**
+ * Seeds in the order they fill the first round, so seed 1 meets the lowest
+ * seed and the top two seeds can only meet in the final, e.g. 1 8 4 5 2 7 3 6
+ */
+export const seedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const count = order.length * 2;
+    order = order.flatMap(seed => [seed, count + 1 - seed]);
+  }
+  return order;
+};
+
+export const planBracket = (eventId: string, format: 'single' | 'double', size: number): PlannedMatch[] => {
+  const rounds = Math.log2(size);
+  const create = (bracket: PlannedMatch['bracket'], round: number, count: number) =>
+    Array.from({ length: count }, (_, position): PlannedMatch => ({
+      id: crypto.randomUUID(),
+      event_id: eventId,
+      bracket,
+      round,
+      position,
+      winner_to: null,
+      winner_slot: null,
+      loser_to: null,
+      loser_slot: null,
+    }));
+  const sendWinner = (from: PlannedMatch, to: PlannedMatch, slot: number) => {
+    from.winner_to = to.id;
+    from.winner_slot = slot;
+  };
+  const sendLoser = (from: PlannedMatch, to: PlannedMatch, slot: number) => {
+    from.loser_to = to.id;
+    from.loser_slot = slot;
+  };
+  // Two matches feed each match of the next round
+  const pairInto = (from: PlannedMatch[], to: PlannedMatch[]) =>
+    from.forEach((match, p) => sendWinner(match, to[Math.floor(p / 2)], (p % 2) + 1));
+
+  const winners = Array.from({ length: rounds }, (_, r) => create('winners', r + 1, size / 2 ** (r + 1)));
+  for (let r = 0; r < rounds - 1; r++) pairInto(winners[r], winners[r + 1]);
+  if (format === 'single') return winners.flat();
+
+  const [final] = create('final', 1, 1);
+  const winnersFinal = winners[rounds - 1][0];
+  sendWinner(winnersFinal, final, 1);
+
+  // Losers' rounds 2j - 1 and 2j both have size / 2^(j + 1) matches
+  const losers: PlannedMatch[][] = [];
+  for (let j = 1; j < rounds; j++) {
+    const count = size / 2 ** (j + 1);
+    losers.push(create('losers', 2 * j - 1, count), create('losers', 2 * j, count));
+  }
+
+  if (losers.length === 0) {
+    // Two players: the loser of the only match goes straight to the final
+    sendLoser(winnersFinal, final, 2);
+  } else {
+    winners[0].forEach((match, p) => sendLoser(match, losers[0][Math.floor(p / 2)], (p % 2) + 1));
+    for (let j = 1; j < rounds; j++) {
+      const odd = losers[2 * j - 2];
+      const even = losers[2 * j - 1];
+      odd.forEach((match, p) => sendWinner(match, even[p], 1));
+      winners[j].forEach((match, p) => sendLoser(match, even[p], 2));
+      if (j < rounds - 1) pairInto(even, losers[2 * j]);
+      else sendWinner(even[0], final, 2);
+    }
+  }
+
+  return [...winners.flat(), ...losers.flat(), final];
+};
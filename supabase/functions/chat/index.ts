@@ -0,0 +1,172 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { maskProfanity } from "./profanity.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ChatRequest {
+  op: 'watch' | 'send' | 'delete' | 'report';
+  /** watch, send: the room to follow or post in */
+  roomId?: string;
+  message?: string;
+  playerName?: string;
+  /** delete, report: the message in question */
+  messageId?: string;
+  reason?: string;
+}
+
+const MAX_MESSAGE_LENGTH = 200;
+// A player may send this many messages per window in one room
+const RATE_LIMIT_COUNT = 5;
+const RATE_LIMIT_WINDOW = 10 * 1000;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { op, roomId, message, playerName, messageId, reason }: ChatRequest = await req.json();
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Messages belong to the auth user making the request, never to an id in the body
+    const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) return json({ error: 'Sign in required' }, 401);
+
+    // Players and the spectators who registered with `watch` share a room's chat
+    const isInRoomChat = async (room: { id: string; player_ids: string[] | null }) => {
+      if ((room.player_ids ?? []).includes(user.id)) return true;
+      const { data, error } = await supabase
+        .from('room_watchers')
+        .select('user_id')
+        .eq('room_id', room.id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (error) throw error;
+      return !!data;
+    };
+
+    if (op === 'watch') {
+      const { data: room, error: roomError } = await supabase
+        .from('game_rooms')
+        .select('id, player_ids')
+        .eq('id', roomId)
+        .maybeSingle();
+
+      if (roomError) throw roomError;
+      if (!room) return json({ error: 'Room not found' }, 404);
+      if ((room.player_ids ?? []).includes(user.id)) return json({ watching: false });
+
+      const { error } = await supabase
+        .from('room_watchers')
+        .upsert({ room_id: room.id, user_id: user.id }, { onConflict: 'room_id,user_id', ignoreDuplicates: true });
+      if (error) throw error;
+      return json({ watching: true });
+    }
+
+    if (op === 'send') {
+      const text = String(message || '').trim().slice(0, MAX_MESSAGE_LENGTH);
+      if (!text) return json({ error: 'Message is empty' }, 400);
+
+      const { data: room, error: roomError } = await supabase
+        .from('game_rooms')
+        .select('id, player_ids')
+        .eq('id', roomId)
+        .maybeSingle();
+
+      if (roomError) throw roomError;
+      if (!room) return json({ error: 'Room not found' }, 404);
+      if (!(await isInRoomChat(room))) return json({ error: 'Only players and spectators of this room can chat' }, 403);
+
+      const { count, error: countError } = await supabase
+        .from('chat_messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('room_id', room.id)
+        .eq('sender_id', user.id)
+        .gte('created_at', new Date(Date.now() - RATE_LIMIT_WINDOW).toISOString());
+
+      if (countError) throw countError;
+      if ((count ?? 0) >= RATE_LIMIT_COUNT) return json({ error: 'You are sending messages too fast' }, 429);
+
+      const { data: saved, error } = await supabase
+        .from('chat_messages')
+        .insert({
+          room_id: room.id,
+          sender: 'player',
+          sender_id: user.id,
+          sender_name: String(playerName || '').trim().slice(0, 30) || 'Player',
+          message_type: 'text',
+          content: { text: maskProfanity(text) },
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return json({ message: saved });
+    }
+
+    if (op === 'delete' || op === 'report') {
+      const { data: chatMessage, error: loadError } = await supabase
+        .from('chat_messages')
+        .select('id, room_id, sender_id, deleted_at')
+        .eq('id', messageId)
+        .maybeSingle();
+
+      if (loadError) throw loadError;
+      if (!chatMessage) return json({ error: 'Message not found' }, 404);
+
+      const { data: room, error: roomError } = await supabase
+        .from('game_rooms')
+        .select('id, host_id, player_ids')
+        .eq('id', chatMessage.room_id)
+        .maybeSingle();
+
+      if (roomError) throw roomError;
+      if (!room || !(await isInRoomChat(room))) return json({ error: 'You are not in this room' }, 403);
+
+      if (op === 'delete') {
+        if (room.host_id !== user.id) return json({ error: 'Only the host can remove messages' }, 403);
+        if (!chatMessage.deleted_at) {
+          const { error } = await supabase
+            .from('chat_messages')
+            .update({ deleted_at: new Date().toISOString() })
+            .eq('id', chatMessage.id);
+          if (error) throw error;
+        }
+        return json({ deleted: true });
+      }
+
+      if (chatMessage.sender_id === user.id) return json({ error: 'You cannot report your own message' }, 400);
+      const { error } = await supabase
+        .from('chat_reports')
+        .upsert(
+          { message_id: chatMessage.id, reporter_id: user.id, reason: reason ? String(reason).slice(0, 200) : null },
+          { onConflict: 'message_id,reporter_id', ignoreDuplicates: true }
+        );
+      if (error) throw error;
+
+      console.log(`Chat message ${chatMessage.id} reported`);
+      return json({ reported: true });
+    }
+
+    return json({ error: `Unknown op: ${op}` }, 400);
+  } catch (error) {
+    console.error('Error handling chat request:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
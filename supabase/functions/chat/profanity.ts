@@ -0,0 +1,28 @@
+// Words masked in room chat. Matching ignores case, letters repeated for
+// emphasis and the usual number-for-letter swaps, and includes the common
+// endings ("-ing", "-er", "-s"), so "Fuuuck" and "sh1tty" are caught too
+const BLOCKED_WORDS = [
+  'arse', 'arsehole', 'ass', 'asshole', 'bastard', 'bitch', 'bollocks', 'bullshit', 'cock', 'crap',
+  'cunt', 'dick', 'dickhead', 'douche', 'fag', 'faggot', 'fuck', 'motherfucker', 'nigga', 'nigger',
+  'piss', 'prick', 'pussy', 'retard', 'shit', 'slut', 'twat', 'wanker', 'whore',
+];
+
+const ENDINGS = ['', 's', 'es', 'er', 'ers', 'ed', 'ing', 'in', 'y', 'ty'];
+
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' };
+
+const normalise = (word: string) => word.toLowerCase().replace(/[013457@$!]/g, c => LOOKALIKES[c]);
+
+const BLOCKED = new Set(BLOCKED_WORDS.flatMap(word => ENDINGS.map(ending => word + ending)));
+
+// Letters held down for emphasis: "fuuuck" is tried as both "fuck" and "fuuck"
+const isBlocked = (word: string) => {
+  const plain = normalise(word);
+  return BLOCKED.has(plain.replace(/(.)\1{2,}/g, '$1')) || BLOCKED.has(plain.replace(/(.)\1{2,}/g, '$1$1'));
+};
+
+/** Replace every blocked word with its first letter and asterisks */
+export const maskProfanity = (text: string) =>
+  text.replace(/[\p{L}\p{N}@$!]*[\p{L}\p{N}]/gu, word =>
+    isBlocked(word) ? word[0] + '*'.repeat(word.length - 1) : word
+  );
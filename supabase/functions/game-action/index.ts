@@ -0,0 +1,333 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { GAME_RULES } from "./rules.ts";
+import { SECRET_HANDLERS } from "./secrets.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type RoomState = Record<string, unknown>;
+
+interface RoomPlayer {
+  seat: number;
+  id: string;
+  name: string;
+}
+
+interface RoomBot {
+  seat: number;
+  name: string;
+}
+
+interface RoomRequest {
+  op: 'join' | 'action' | 'secret' | 'leave' | 'claim_host' | 'add_bot';
+  roomId: string;
+  /** action: the move to validate. secret: the request for the game's secret handler */
+  action?: { type: string; [key: string]: unknown };
+  /** leave: who the departing host hands over to. claim_host: the claiming player. add_bot: the bot's name */
+  player?: RoomPlayer;
+  /** action, secret: the host playing for one of the room's bots */
+  botSeat?: number;
+}
+
+// A lobby host who has not sent a heartbeat for this long can be replaced
+const HOST_CLAIM_AFTER = 60 * 1000;
+const MIN_PLAYERS_TO_CONTINUE = 2;
+// Players answering at the same moment race to update the same secret
+const SECRET_ATTEMPTS = 3;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Room bookkeeping stored next to the game state; never exposed to the rules
+const splitState = (gameState: RoomState) => {
+  const { hostId, hostName, lobby, hostSeat, leftSeats, bots, ...state } = gameState || {};
+  return {
+    meta: {
+      hostId,
+      hostName,
+      lobby,
+      hostSeat: (hostSeat as number) ?? 0,
+      leftSeats: (leftSeats as number[]) ?? [],
+      bots: (bots as RoomBot[]) ?? [],
+    },
+    state,
+  };
+};
+
+const cleanName = (name: unknown, seat: number) => String(name || '').slice(0, 30) || `Player ${seat + 1}`;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { op, roomId, action, player, botSeat }: RoomRequest = await req.json();
+    if (!roomId) {
+      return json({ error: 'roomId is required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Players are identified by their auth user, never by an id in the body
+    const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) return json({ error: 'Sign in required' }, 401);
+    const playerId = user.id;
+
+    const { data: room, error: loadError } = await supabase
+      .from('game_rooms')
+      .select('*')
+      .eq('id', roomId)
+      .maybeSingle();
+
+    if (loadError) throw loadError;
+    if (!room) return json({ error: 'Room not found' }, 404);
+
+    const { meta, state } = splitState(room.game_state as RoomState);
+    const playerIds: string[] = room.player_ids ?? [];
+    const botSeats = meta.bots.map(bot => bot.seat);
+
+    // Bots have no client of their own; the host sends their moves for them
+    const actingSeat = () => {
+      const seat = playerIds.indexOf(playerId);
+      if (botSeat === undefined) return seat;
+      return seat === meta.hostSeat && botSeats.includes(botSeat) ? botSeat : -1;
+    };
+
+    if (op === 'join') {
+      const existingSeat = playerIds.indexOf(playerId);
+      if (existingSeat !== -1) {
+        if (meta.leftSeats.includes(existingSeat)) return json({ error: 'You already left this game' }, 409);
+        return json({ seat: existingSeat, playerCount: room.player_count, status: room.status, state });
+      }
+      if (room.status === 'ended') return json({ error: 'This game has already ended' }, 409);
+      if (playerIds.length >= room.max_players) return json({ error: 'This room is already full' }, 409);
+      if (room.status === 'playing') return json({ error: 'This game has already started' }, 409);
+
+      // Lobby rooms keep waiting until the host starts them, even when full
+      const players = [...playerIds, playerId];
+      const status = !meta.lobby && players.length >= room.max_players ? 'playing' : 'waiting';
+      const { data: updated, error } = await supabase
+        .from('game_rooms')
+        .update({ player_ids: players, player_count: players.length, status })
+        .eq('id', roomId)
+        .eq('updated_at', room.updated_at)
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!updated) return json({ error: 'The room changed, please try again' }, 409);
+
+      console.log(`Player joined ${room.game_type} room ${room.room_code} in seat ${players.length - 1}`);
+      return json({ seat: players.length - 1, playerCount: players.length, status, state });
+    }
+
+    // The host fills an open seat with a bot, which plays from the host's device
+    if (op === 'add_bot') {
+      if (playerIds.indexOf(playerId) !== meta.hostSeat) return json({ error: 'Only the host can add bots' }, 403);
+      if (room.status !== 'waiting') return json({ error: 'This game has already started' }, 409);
+      if (playerIds.length >= room.max_players) return json({ error: 'This room is already full' }, 409);
+
+      const seat = playerIds.length;
+      const bot: RoomBot = { seat, name: cleanName(player?.name, seat) };
+      // Bots still need an id in the seat list; this one belongs to no user
+      const players = [...playerIds, crypto.randomUUID()];
+      const status = !meta.lobby && players.length >= room.max_players ? 'playing' : 'waiting';
+      const { data: updated, error } = await supabase
+        .from('game_rooms')
+        .update({
+          player_ids: players,
+          player_count: players.length,
+          status,
+          game_state: { ...state, ...meta, bots: [...meta.bots, bot] },
+        })
+        .eq('id', roomId)
+        .eq('updated_at', room.updated_at)
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!updated) return json({ error: 'The room changed, please try again' }, 409);
+
+      console.log(`Bot added to ${room.game_type} room ${room.room_code} in seat ${seat}`);
+      return json({ ...bot, playerCount: players.length, status });
+    }
+
+    if (op === 'action') {
+      const rule = GAME_RULES[room.game_type];
+      if (!rule) return json({ error: `${room.game_type} is not validated on the server` }, 400);
+      if (!action?.type) return json({ error: 'Missing action' }, 400);
+
+      const seat = actingSeat();
+      if (seat === -1) return json({ error: 'You are not a player in this room' }, 403);
+      if (room.status === 'ended') return json({ error: 'This game has already ended' }, 409);
+
+      if (meta.leftSeats.includes(seat)) return json({ error: 'You already left this game' }, 409);
+
+      const result = await rule(state, action, seat, meta.hostSeat, meta.leftSeats);
+      if ('error' in result) return json({ error: result.error }, 422);
+
+      // Only write over the state we validated against, so concurrent moves can't both land
+      const { data: updated, error } = await supabase
+        .from('game_rooms')
+        .update({ game_state: { ...result.state, ...meta } })
+        .eq('id', roomId)
+        .eq('updated_at', room.updated_at)
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!updated) return json({ error: 'The room changed, please try again' }, 409);
+
+      return json({ state: result.state });
+    }
+
+    // Answers and words the other players must not see are kept in game_secrets,
+    // which has no client access; the game's handler decides what each seat gets back
+    if (op === 'secret') {
+      const handler = SECRET_HANDLERS[room.game_type];
+      if (!handler) return json({ error: `${room.game_type} has no secrets` }, 400);
+      if (!action?.type) return json({ error: 'Missing request' }, 400);
+
+      const seat = actingSeat();
+      if (seat === -1) return json({ error: 'You are not a player in this room' }, 403);
+      if (room.status === 'ended') return json({ error: 'This game has already ended' }, 409);
+      if (meta.leftSeats.includes(seat)) return json({ error: 'You already left this game' }, 409);
+
+      // Only people have a history; bots and players who left don't count
+      const people = playerIds.filter((_, i) => !botSeats.includes(i) && !meta.leftSeats.includes(i));
+      const questionHistory = {
+        seen: async () => {
+          const { data, error } = await supabase.from('quiz_question_history').select('question').in('user_id', people);
+          if (error) throw error;
+          return new Set((data ?? []).map(row => row.question as string));
+        },
+        record: async (questions: string[]) => {
+          const seenAt = new Date().toISOString();
+          const rows = people.flatMap(userId => questions.map(question => ({ user_id: userId, question, seen_at: seenAt })));
+          const { error } = await supabase.from('quiz_question_history').upsert(rows, { onConflict: 'user_id,question' });
+          if (error) throw error;
+        },
+      };
+
+      for (let attempt = 0; attempt < SECRET_ATTEMPTS; attempt++) {
+        const { data: stored, error: secretError } = await supabase
+          .from('game_secrets')
+          .select('secret, updated_at')
+          .eq('room_id', roomId)
+          .maybeSingle();
+        if (secretError) throw secretError;
+
+        const result = await handler(stored?.secret ?? null, action, {
+          seat,
+          hostSeat: meta.hostSeat,
+          playerIds,
+          leftSeats: meta.leftSeats,
+          isBot: botSeats.includes(seat),
+          questionHistory,
+          state,
+        });
+        if ('error' in result) return json({ error: result.error }, 422);
+        if (!result.secret) return json(result.reply);
+
+        // Same optimistic lock as moves; a lost race re-reads the secret and tries again
+        const { data: saved, error } = stored
+          ? await supabase
+            .from('game_secrets')
+            .update({ secret: result.secret })
+            .eq('room_id', roomId)
+            .eq('updated_at', stored.updated_at)
+            .select('room_id')
+            .maybeSingle()
+          : await supabase
+            .from('game_secrets')
+            .upsert({ room_id: roomId, secret: result.secret }, { onConflict: 'room_id', ignoreDuplicates: true })
+            .select('room_id')
+            .maybeSingle();
+
+        if (error) throw error;
+        if (saved) return json(result.reply);
+      }
+      return json({ error: 'The room changed, please try again' }, 409);
+    }
+
+    // Lobby rooms outlive their players: the seat is marked as left and, if it was
+    // the host's, another player takes over instead of the room being closed
+    if (op === 'leave' || op === 'claim_host') {
+      if (!meta.lobby) return json({ error: 'Only lobby rooms can change players mid-game' }, 400);
+
+      const seat = playerIds.indexOf(playerId);
+      if (seat === -1) return json({ error: 'You are not a player in this room' }, 403);
+      if (meta.leftSeats.includes(seat)) return json({ error: 'You already left this game' }, 409);
+
+      let departed: number;
+      let host: RoomPlayer = { seat: meta.hostSeat, id: String(meta.hostId), name: String(meta.hostName || '') };
+
+      if (op === 'leave') {
+        departed = seat;
+      } else {
+        if (seat === meta.hostSeat) return json({ host, left: null, closed: false });
+        const hostSeenAt = new Date(room.host_seen_at).getTime();
+        if (Date.now() - hostSeenAt < HOST_CLAIM_AFTER) return json({ error: 'The host is still connected' }, 409);
+        departed = meta.hostSeat;
+      }
+
+      const leftSeats = [...meta.leftSeats, departed];
+      const remaining = playerIds.map((_, i) => i).filter(i => !leftSeats.includes(i));
+      // Bots can't run the room, and don't keep it open on their own
+      const people = remaining.filter(i => !botSeats.includes(i));
+
+      if (people.length === 0) {
+        const { error } = await supabase.from('game_rooms').delete().eq('id', roomId);
+        if (error) throw error;
+        return json({ host, left: departed, closed: true });
+      }
+
+      if (departed === meta.hostSeat) {
+        // The leaving host names the earliest player still present; claims come from that player
+        const next = op === 'claim_host' ? { ...player, seat } : player;
+        host = next && people.includes(next.seat)
+          ? { seat: next.seat, id: String(next.id), name: cleanName(next.name, next.seat) }
+          : { seat: people[0], id: playerIds[people[0]], name: `Player ${people[0] + 1}` };
+      }
+
+      // A match can't go on with one player; a lobby keeps waiting for more
+      const closed = room.status === 'playing' && remaining.length < MIN_PLAYERS_TO_CONTINUE;
+      const { data: updated, error } = await supabase
+        .from('game_rooms')
+        .update({
+          host_id: playerIds[host.seat],
+          host_seen_at: new Date().toISOString(),
+          player_count: remaining.length,
+          status: closed ? 'ended' : room.status,
+          game_state: { ...state, ...meta, hostSeat: host.seat, hostId: host.id, hostName: host.name, leftSeats },
+        })
+        .eq('id', roomId)
+        .eq('updated_at', room.updated_at)
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!updated) return json({ error: 'The room changed, please try again' }, 409);
+
+      console.log(`Seat ${departed} left ${room.game_type} room ${room.room_code}; host is seat ${host.seat}`);
+      return json({ host, left: departed, closed });
+    }
+
+    return json({ error: `Unknown op: ${op}` }, 400);
+  } catch (error) {
+    console.error('Error handling game action:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
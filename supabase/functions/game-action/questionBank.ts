@@ -0,0 +1,355 @@
+// Quiz Battle's question bank. It only exists on the server, so players never
+// see an answer before the question closes. Categories and difficulties are
+// listed for the room picker in src/utils/quizPacks.ts; keep the names in step.
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  correct: number;
+  category: string;
+  difficulty?: QuizDifficulty;
+}
+
+type Entry = [difficulty: QuizDifficulty, question: string, options: string[], correct: number];
+
+const inCategory = (category: string, entries: Entry[]): QuizQuestion[] =>
+  entries.map(([difficulty, question, options, correct]) => ({ question, options, correct, category, difficulty }));
+
+export const QUIZ_CATEGORIES = [
+  'Geography', 'Science', 'History', 'Math', 'Art', 'Literature',
+  'Nature', 'Sports', 'Music', 'Movies & TV', 'Food & Drink', 'Technology',
+];
+
+// Players' history is keyed by question text, so rewording a question makes
+// it new to everyone
+export const QUESTION_BANK: QuizQuestion[] = [
+  ...inCategory('Geography', [
+    ['easy', "What is the capital of France?", ["London", "Paris", "Berlin", "Madrid"], 1],
+    ['easy', "What is the largest ocean?", ["Atlantic", "Indian", "Arctic", "Pacific"], 3],
+    ['easy', "Which country has had the largest population since 2023?", ["USA", "India", "China", "Brazil"], 1],
+    ['easy', "What is the longest river in the world?", ["Amazon", "Nile", "Yangtze", "Mississippi"], 1],
+    ['easy', "What is the capital of Japan?", ["Kyoto", "Osaka", "Tokyo", "Seoul"], 2],
+    ['easy', "On which continent is Egypt?", ["Asia", "Africa", "Europe", "South America"], 1],
+    ['easy', "What is the largest continent by area?", ["Africa", "Europe", "Asia", "North America"], 2],
+    ['easy', "Which country is shaped like a boot?", ["Spain", "Greece", "Italy", "Portugal"], 2],
+    ['easy', "What is the tallest mountain above sea level?", ["K2", "Kilimanjaro", "Mount Everest", "Denali"], 2],
+    ['medium', "What is the capital of Australia?", ["Sydney", "Melbourne", "Canberra", "Perth"], 2],
+    ['medium', "What is the capital of Canada?", ["Toronto", "Ottawa", "Vancouver", "Montreal"], 1],
+    ['medium', "What is the largest hot desert in the world?", ["Gobi", "Kalahari", "Sahara", "Arabian"], 2],
+    ['medium', "What is the smallest country in the world?", ["Monaco", "Vatican City", "San Marino", "Liechtenstein"], 1],
+    ['medium', "Which river flows through Baghdad?", ["Euphrates", "Tigris", "Jordan", "Nile"], 1],
+    ['medium', "What is the capital of Brazil?", ["Rio de Janeiro", "São Paulo", "Brasília", "Salvador"], 2],
+    ['medium', "The Strait of Gibraltar separates Spain from which country?", ["Algeria", "Morocco", "Tunisia", "Portugal"], 1],
+    ['medium', "Mount Kilimanjaro is in which country?", ["Kenya", "Tanzania", "Uganda", "Ethiopia"], 1],
+    ['medium', "What is the capital of Turkey?", ["Istanbul", "Ankara", "Izmir", "Antalya"], 1],
+    ['medium', "Which US state is the largest by area?", ["Texas", "California", "Alaska", "Montana"], 2],
+    ['hard', "What is the capital of Kazakhstan?", ["Almaty", "Astana", "Bishkek", "Tashkent"], 1],
+    ['hard', "What is the deepest lake in the world?", ["Lake Superior", "Lake Tanganyika", "Lake Baikal", "Caspian Sea"], 2],
+    ['hard', "What is the capital of Mongolia?", ["Ulaanbaatar", "Bishkek", "Thimphu", "Kathmandu"], 0],
+    ['hard', "Which country has the longest coastline?", ["Russia", "Australia", "Canada", "Indonesia"], 2],
+    ['hard', "Lake Titicaca lies on the border of Peru and which country?", ["Chile", "Bolivia", "Ecuador", "Argentina"], 1],
+    ['hard', "What is the driest non-polar desert in the world?", ["Sahara", "Atacama", "Namib", "Gobi"], 1],
+  ]),
+  ...inCategory('Science', [
+    ['easy', "Which planet is known as the Red Planet?", ["Venus", "Jupiter", "Mars", "Saturn"], 2],
+    ['easy', "Which element has the symbol 'O'?", ["Gold", "Osmium", "Oxygen", "Oganesson"], 2],
+    ['easy', "What gas do plants absorb from the air?", ["Oxygen", "Nitrogen", "Carbon dioxide", "Helium"], 2],
+    ['easy', "At sea level, water boils at how many degrees Celsius?", ["90", "100", "110", "120"], 1],
+    ['easy', "Which planet is closest to the Sun?", ["Venus", "Mercury", "Earth", "Mars"], 1],
+    ['easy', "How many planets are in our solar system?", ["7", "8", "9", "10"], 1],
+    ['easy', "What force keeps us on the ground?", ["Magnetism", "Friction", "Gravity", "Inertia"], 2],
+    ['easy', "What is the largest planet in our solar system?", ["Saturn", "Jupiter", "Neptune", "Uranus"], 1],
+    ['easy', "Which planet has the most famous rings?", ["Jupiter", "Uranus", "Saturn", "Neptune"], 2],
+    ['medium', "What is the chemical symbol for Gold?", ["Go", "Gd", "Au", "Ag"], 2],
+    ['medium', "What is the hardest natural substance?", ["Gold", "Iron", "Diamond", "Quartz"], 2],
+    ['medium', "Which part of a cell holds most of its DNA?", ["Nucleus", "Ribosome", "Membrane", "Cytoplasm"], 0],
+    ['medium', "What is the chemical symbol for sodium?", ["So", "Sd", "Na", "S"], 2],
+    ['medium', "Roughly how fast does light travel?", ["300,000 km/s", "150,000 km/s", "30,000 km/s", "3,000,000 km/s"], 0],
+    ['medium', "Which blood cells fight infection?", ["Red blood cells", "White blood cells", "Platelets", "Plasma"], 1],
+    ['medium', "What is the most abundant gas in Earth's atmosphere?", ["Oxygen", "Carbon dioxide", "Nitrogen", "Argon"], 2],
+    ['medium', "How many bones are in the adult human body?", ["186", "206", "226", "246"], 1],
+    ['medium', "Who formulated the three laws of motion?", ["Albert Einstein", "Isaac Newton", "Galileo Galilei", "Johannes Kepler"], 1],
+    ['medium', "Which particle has a negative charge?", ["Proton", "Neutron", "Electron", "Photon"], 2],
+    ['medium', "What is the pH of pure water at 25 °C?", ["5", "7", "9", "11"], 1],
+    ['medium', "Which organ produces insulin?", ["Liver", "Pancreas", "Kidney", "Spleen"], 1],
+    ['hard', "What is the atomic number of carbon?", ["4", "6", "8", "12"], 1],
+    ['hard', "What is the SI unit of electrical resistance?", ["Volt", "Ampere", "Ohm", "Watt"], 2],
+    ['hard', "Which metal has the highest melting point?", ["Iron", "Tungsten", "Platinum", "Titanium"], 1],
+    ['hard', "What is the most abundant element in the universe?", ["Helium", "Oxygen", "Hydrogen", "Carbon"], 2],
+    ['hard', "What is absolute zero in degrees Celsius?", ["-100 °C", "-273.15 °C", "-459.67 °C", "-200 °C"], 1],
+  ]),
+  ...inCategory('History', [
+    ['easy', "What year did World War II end?", ["1943", "1944", "1945", "1946"], 2],
+    ['easy', "Who was the first President of the United States?", ["Abraham Lincoln", "Thomas Jefferson", "George Washington", "John Adams"], 2],
+    ['easy', "Which ancient civilisation built the pyramids of Giza?", ["Romans", "Egyptians", "Greeks", "Persians"], 1],
+    ['easy', "In which year did people first land on the Moon?", ["1965", "1969", "1972", "1959"], 1],
+    ['easy', "Who was the first person to walk on the Moon?", ["Buzz Aldrin", "Yuri Gagarin", "Neil Armstrong", "John Glenn"], 2],
+    ['easy', "In which year did the Titanic sink?", ["1905", "1912", "1918", "1923"], 1],
+    ['easy', "Napoleon Bonaparte was emperor of which country?", ["Italy", "Spain", "France", "Austria"], 2],
+    ['easy', "Julius Caesar was a leader of which ancient state?", ["Greece", "Rome", "Egypt", "Persia"], 1],
+    ['easy', "Which country gave the Statue of Liberty to the USA?", ["United Kingdom", "France", "Spain", "Italy"], 1],
+    ['easy', "Which queen reigned over the UK for 70 years until 2022?", ["Victoria", "Elizabeth II", "Anne", "Mary"], 1],
+    ['medium', "In which year did World War I begin?", ["1905", "1914", "1918", "1939"], 1],
+    ['medium', "Who was the first woman to win a Nobel Prize?", ["Marie Curie", "Florence Nightingale", "Ada Lovelace", "Rosalind Franklin"], 0],
+    ['medium', "Which ship carried the Pilgrims to America in 1620?", ["Santa Maria", "Mayflower", "Endeavour", "Beagle"], 1],
+    ['medium', "Who was the British Prime Minister for most of World War II?", ["Neville Chamberlain", "Winston Churchill", "Clement Attlee", "Anthony Eden"], 1],
+    ['medium', "In which city was President John F. Kennedy assassinated?", ["Houston", "Dallas", "Washington", "Chicago"], 1],
+    ['medium', "Which civilisation built Machu Picchu?", ["Aztec", "Maya", "Inca", "Olmec"], 2],
+    ['medium', "In which year did the French Revolution begin?", ["1776", "1789", "1815", "1848"], 1],
+    ['medium', "Who led the Soviet Union during World War II?", ["Vladimir Lenin", "Joseph Stalin", "Nikita Khrushchev", "Leon Trotsky"], 1],
+    ['medium', "Which battle in 1066 began the Norman conquest of England?", ["Battle of Hastings", "Battle of Agincourt", "Battle of Bosworth", "Battle of Waterloo"], 0],
+    ['medium', "The Hundred Years' War was fought between England and which country?", ["Spain", "France", "Scotland", "Netherlands"], 1],
+    ['medium', "In which year did the Berlin Wall fall?", ["1987", "1989", "1991", "1993"], 1],
+    ['hard', "Who was the first emperor of a unified China?", ["Kublai Khan", "Qin Shi Huang", "Sun Yat-sen", "Liu Bang"], 1],
+    ['hard', "In which year was Magna Carta sealed?", ["1066", "1215", "1348", "1492"], 1],
+    ['hard', "Who was the first Roman emperor?", ["Julius Caesar", "Augustus", "Nero", "Caligula"], 1],
+    ['hard', "Which ancient wonder stood in Alexandria?", ["The Colossus", "The Lighthouse", "The Hanging Gardens", "The Temple of Artemis"], 1],
+    ['hard', "Who wrote The Communist Manifesto with Karl Marx?", ["Friedrich Engels", "Vladimir Lenin", "Leon Trotsky", "Mao Zedong"], 0],
+  ]),
+  ...inCategory('Math', [
+    ['easy', "What is 15 × 8?", ["110", "120", "125", "130"], 1],
+    ['easy', "How many sides does a hexagon have?", ["5", "6", "7", "8"], 1],
+    ['easy', "What is the square root of 144?", ["10", "11", "12", "13"], 2],
+    ['easy', "What is 256 ÷ 16?", ["14", "15", "16", "17"], 2],
+    ['easy', "What is 7 × 9?", ["56", "63", "72", "81"], 1],
+    ['easy', "How many degrees are in a right angle?", ["45", "90", "180", "360"], 1],
+    ['easy', "What is 100 − 37?", ["53", "63", "67", "73"], 1],
+    ['easy', "What is half of 250?", ["105", "125", "150", "115"], 1],
+    ['easy', "What is 25% of 200?", ["25", "40", "50", "75"], 2],
+    ['easy', "How many sides does an octagon have?", ["6", "7", "8", "10"], 2],
+    ['medium', "What is π to two decimal places?", ["3.12", "3.14", "3.16", "3.41"], 1],
+    ['medium', "What do the angles of a triangle add up to?", ["90°", "180°", "270°", "360°"], 1],
+    ['medium', "What is 12 squared?", ["124", "144", "132", "122"], 1],
+    ['medium', "What is the next prime number after 7?", ["9", "11", "13", "10"], 1],
+    ['medium', "What is 3 cubed?", ["9", "18", "27", "81"], 2],
+    ['medium', "What is 15% of 80?", ["10", "12", "15", "8"], 1],
+    ['medium', "What is the Roman numeral for 50?", ["V", "X", "L", "C"], 2],
+    ['medium', "How many minutes are in 3.5 hours?", ["180", "210", "240", "195"], 1],
+    ['medium', "What is the square root of 225?", ["13", "14", "15", "16"], 2],
+    ['hard', "What is 17 × 23?", ["361", "381", "391", "401"], 2],
+    ['hard', "What do the interior angles of a hexagon add up to?", ["540°", "620°", "720°", "900°"], 2],
+    ['hard', "What is 2 to the power of 10?", ["512", "1000", "1024", "2048"], 2],
+    ['hard', "How many prime numbers are there below 20?", ["6", "7", "8", "9"], 2],
+    ['hard', "What is 5 factorial (5!)?", ["25", "60", "100", "120"], 3],
+    ['hard', "What is 1999 in Roman numerals?", ["MCMXCIX", "MIM", "MCMIC", "MDCCCCLXXXXIX"], 0],
+  ]),
+  ...inCategory('Art', [
+    ['easy', "Who painted the Mona Lisa?", ["Van Gogh", "Picasso", "Da Vinci", "Monet"], 2],
+    ['easy', "Which artist cut off part of his own ear?", ["Claude Monet", "Vincent van Gogh", "Pablo Picasso", "Salvador Dalí"], 1],
+    ['easy', "What colour do you get by mixing blue and yellow?", ["Purple", "Orange", "Green", "Brown"], 2],
+    ['easy', "What are the three primary colours in traditional painting?", ["Red, yellow, blue", "Red, green, blue", "Orange, green, purple", "Black, white, grey"], 0],
+    ['easy', "Who painted The Starry Night?", ["Claude Monet", "Vincent van Gogh", "Paul Cézanne", "Paul Gauguin"], 1],
+    ['easy', "What colour do you get by mixing red and white?", ["Pink", "Purple", "Orange", "Peach"], 0],
+    ['easy', "Frida Kahlo came from which country?", ["Spain", "Mexico", "Argentina", "Colombia"], 1],
+    ['medium', "Which museum is home to the Mona Lisa?", ["The Louvre", "The Prado", "The Uffizi", "The Met"], 0],
+    ['medium', "Who sculpted the statue of David in Florence, finished in 1504?", ["Donatello", "Michelangelo", "Bernini", "Rodin"], 1],
+    ['medium', "Which artist painted melting clocks in The Persistence of Memory?", ["René Magritte", "Salvador Dalí", "Joan Miró", "Max Ernst"], 1],
+    ['medium', "Who painted the ceiling of the Sistine Chapel?", ["Raphael", "Michelangelo", "Leonardo da Vinci", "Botticelli"], 1],
+    ['medium', "Which art movement is Claude Monet associated with?", ["Cubism", "Impressionism", "Surrealism", "Baroque"], 1],
+    ['medium', "Pablo Picasso co-founded which art movement?", ["Cubism", "Fauvism", "Dadaism", "Pop Art"], 0],
+    ['medium', "Who painted The Scream?", ["Edvard Munch", "Gustav Klimt", "Egon Schiele", "Franz Marc"], 0],
+    ['medium', "Andy Warhol is best known for which art movement?", ["Pop Art", "Minimalism", "Expressionism", "Realism"], 0],
+    ['medium', "Who painted Girl with a Pearl Earring?", ["Rembrandt", "Johannes Vermeer", "Peter Paul Rubens", "Jan van Eyck"], 1],
+    ['medium', "Who painted The Birth of Venus?", ["Sandro Botticelli", "Titian", "Raphael", "Caravaggio"], 0],
+    ['medium', "Which painter is famous for his series of Water Lilies?", ["Pierre-Auguste Renoir", "Claude Monet", "Édouard Manet", "Edgar Degas"], 1],
+    ['medium', "Who painted Guernica?", ["Salvador Dalí", "Pablo Picasso", "Joan Miró", "Francisco Goya"], 1],
+    ['hard', "Who painted The Night Watch?", ["Johannes Vermeer", "Rembrandt", "Frans Hals", "Peter Paul Rubens"], 1],
+    ['hard', "Who painted The Kiss, decorated with gold leaf?", ["Gustav Klimt", "Egon Schiele", "Alphonse Mucha", "Edvard Munch"], 0],
+    ['hard', "Which Dutch artist painted Composition with Red, Blue and Yellow?", ["Piet Mondrian", "M. C. Escher", "Willem de Kooning", "Karel Appel"], 0],
+    ['hard', "What is painting on wet plaster called?", ["Tempera", "Fresco", "Gouache", "Impasto"], 1],
+    ['hard', "Who painted American Gothic?", ["Edward Hopper", "Grant Wood", "Norman Rockwell", "Andrew Wyeth"], 1],
+    ['hard', "Who painted The Garden of Earthly Delights?", ["Hieronymus Bosch", "Pieter Bruegel", "Jan van Eyck", "Albrecht Dürer"], 0],
+  ]),
+  ...inCategory('Literature', [
+    ['easy', "Who wrote 'Romeo and Juliet'?", ["Dickens", "Shakespeare", "Austen", "Hemingway"], 1],
+    ['easy', "Who wrote the Harry Potter books?", ["J. R. R. Tolkien", "J. K. Rowling", "C. S. Lewis", "Roald Dahl"], 1],
+    ['easy', "Who wrote Charlie and the Chocolate Factory?", ["Roald Dahl", "Dr. Seuss", "Enid Blyton", "Lewis Carroll"], 0],
+    ['easy', "Which author created Sherlock Holmes?", ["Agatha Christie", "Arthur Conan Doyle", "Edgar Allan Poe", "Charles Dickens"], 1],
+    ['easy', "In which book does a girl fall down a rabbit hole?", ["Peter Pan", "Alice's Adventures in Wonderland", "The Wizard of Oz", "Matilda"], 1],
+    ['easy', "Who wrote The Hobbit?", ["C. S. Lewis", "J. R. R. Tolkien", "George R. R. Martin", "Terry Pratchett"], 1],
+    ['easy', "What kind of animal is Winnie-the-Pooh?", ["Rabbit", "Pig", "Bear", "Tiger"], 2],
+    ['easy', "Who wrote The Cat in the Hat?", ["Dr. Seuss", "Maurice Sendak", "Eric Carle", "Beatrix Potter"], 0],
+    ['easy', "Who wrote A Christmas Carol?", ["Charles Dickens", "Thomas Hardy", "Oscar Wilde", "Lewis Carroll"], 0],
+    ['medium', "Who wrote Pride and Prejudice?", ["Charlotte Brontë", "Jane Austen", "Emily Brontë", "George Eliot"], 1],
+    ['medium', "Who wrote the novel 1984?", ["Aldous Huxley", "George Orwell", "Ray Bradbury", "H. G. Wells"], 1],
+    ['medium', "Who wrote The Great Gatsby?", ["Ernest Hemingway", "F. Scott Fitzgerald", "John Steinbeck", "William Faulkner"], 1],
+    ['medium', "Who captains the ship in Moby-Dick?", ["Captain Hook", "Captain Ahab", "Captain Nemo", "Captain Flint"], 1],
+    ['medium', "Who wrote To Kill a Mockingbird?", ["Harper Lee", "Truman Capote", "Toni Morrison", "Maya Angelou"], 0],
+    ['medium', "Which Shakespeare play has the line \"To be, or not to be\"?", ["Macbeth", "Hamlet", "Othello", "King Lear"], 1],
+    ['medium', "Who wrote Frankenstein?", ["Bram Stoker", "Mary Shelley", "Edgar Allan Poe", "Robert Louis Stevenson"], 1],
+    ['medium', "In The Lord of the Rings, who is Frodo's loyal gardener?", ["Merry", "Pippin", "Samwise Gamgee", "Boromir"], 2],
+    ['medium', "Who wrote War and Peace?", ["Fyodor Dostoevsky", "Leo Tolstoy", "Anton Chekhov", "Ivan Turgenev"], 1],
+    ['medium', "Which poet wrote The Raven?", ["Walt Whitman", "Edgar Allan Poe", "Emily Dickinson", "Robert Frost"], 1],
+    ['hard', "Who wrote One Hundred Years of Solitude?", ["Gabriel García Márquez", "Jorge Luis Borges", "Pablo Neruda", "Isabel Allende"], 0],
+    ['hard', "Who wrote Crime and Punishment?", ["Leo Tolstoy", "Fyodor Dostoevsky", "Nikolai Gogol", "Alexander Pushkin"], 1],
+    ['hard', "In which city is James Joyce's Ulysses set?", ["London", "Dublin", "Paris", "Edinburgh"], 1],
+    ['hard', "Who wrote The Divine Comedy?", ["Petrarch", "Dante Alighieri", "Giovanni Boccaccio", "Virgil"], 1],
+    ['hard', "Which novel begins \"Call me Ishmael\"?", ["Moby-Dick", "Treasure Island", "The Old Man and the Sea", "Robinson Crusoe"], 0],
+    ['hard', "Who wrote Brave New World?", ["George Orwell", "Aldous Huxley", "Ray Bradbury", "Kurt Vonnegut"], 1],
+  ]),
+  ...inCategory('Nature', [
+    ['easy', "Which animal is known as the King of the Jungle?", ["Tiger", "Elephant", "Lion", "Gorilla"], 2],
+    ['easy', "What is the largest mammal?", ["Elephant", "Blue whale", "Giraffe", "Hippo"], 1],
+    ['easy', "What do bees make?", ["Milk", "Honey", "Silk", "Butter"], 1],
+    ['easy', "What is the tallest animal?", ["Elephant", "Giraffe", "Camel", "Ostrich"], 1],
+    ['easy', "How many legs does a spider have?", ["6", "8", "10", "12"], 1],
+    ['easy', "What is a baby kangaroo called?", ["Cub", "Joey", "Kit", "Calf"], 1],
+    ['easy', "Which bird is a symbol of peace?", ["Eagle", "Dove", "Owl", "Swan"], 1],
+    ['easy', "What is the fastest land animal?", ["Lion", "Cheetah", "Pronghorn", "Greyhound"], 1],
+    ['easy', "What do pandas mainly eat?", ["Eucalyptus", "Bamboo", "Fish", "Berries"], 1],
+    ['easy', "How do plants make food from sunlight?", ["Respiration", "Photosynthesis", "Transpiration", "Pollination"], 1],
+    ['medium', "Which bird can fly backwards?", ["Sparrow", "Hummingbird", "Eagle", "Kingfisher"], 1],
+    ['medium', "How many hearts does an octopus have?", ["1", "2", "3", "4"], 2],
+    ['medium', "What is a group of lions called?", ["Pack", "Herd", "Pride", "Flock"], 2],
+    ['medium', "Which of these mammals can truly fly?", ["Flying squirrel", "Bat", "Sugar glider", "Colugo"], 1],
+    ['medium', "What is the largest living bird?", ["Emu", "Ostrich", "Albatross", "Condor"], 1],
+    ['medium', "Which tree produces acorns?", ["Maple", "Oak", "Pine", "Birch"], 1],
+    ['medium', "What is the largest living lizard?", ["Green iguana", "Komodo dragon", "Gila monster", "Frilled lizard"], 1],
+    ['medium', "What is a baby swan called?", ["Duckling", "Cygnet", "Gosling", "Eaglet"], 1],
+    ['medium', "Which of these animals can sleep standing up?", ["Horse", "Cat", "Dog", "Rabbit"], 0],
+    ['hard', "How many chambers does a cow's stomach have?", ["2", "3", "4", "6"], 2],
+    ['hard', "Which land animal has the longest pregnancy?", ["Blue whale", "African elephant", "Giraffe", "Rhinoceros"], 1],
+    ['hard', "On which continent do no ants live?", ["Australia", "Antarctica", "Europe", "South America"], 1],
+    ['hard', "What kind of animal is the Portuguese man o' war?", ["Jellyfish", "Siphonophore", "Squid", "Sea anemone"], 1],
+    ['hard', "Which tree species grows the tallest?", ["Giant sequoia", "Coast redwood", "Douglas fir", "Mountain ash"], 1],
+  ]),
+  ...inCategory('Sports', [
+    ['easy', "How many players does a soccer team have on the field?", ["9", "10", "11", "12"], 2],
+    ['easy', "In which sport would you perform a slam dunk?", ["Volleyball", "Basketball", "Tennis", "Baseball"], 1],
+    ['easy', "How many rings are on the Olympic flag?", ["4", "5", "6", "7"], 1],
+    ['easy', "Which sport is played at Wimbledon?", ["Golf", "Cricket", "Tennis", "Polo"], 2],
+    ['easy', "Which country has won the most FIFA World Cups?", ["Germany", "Italy", "Brazil", "Argentina"], 2],
+    ['easy', "How many points is a touchdown worth in American football?", ["3", "6", "7", "2"], 1],
+    ['easy', "In which sport does \"love\" mean a score of zero?", ["Tennis", "Golf", "Cricket", "Hockey"], 0],
+    ['easy', "How many players from each team are on a basketball court?", ["4", "5", "6", "7"], 1],
+    ['easy', "How many holes are on a standard golf course?", ["9", "12", "18", "24"], 2],
+    ['easy', "Which sport uses a shuttlecock?", ["Squash", "Badminton", "Table tennis", "Lacrosse"], 1],
+    ['medium', "In golf, what is a score of one under par on a hole called?", ["Eagle", "Birdie", "Bogey", "Albatross"], 1],
+    ['medium', "How long is a marathon?", ["26.2 km", "42.2 km", "50 km", "21.1 km"], 1],
+    ['medium', "In what year were the first modern Olympic Games held?", ["1896", "1900", "1912", "1924"], 0],
+    ['medium', "Which country hosted the 2016 Summer Olympics?", ["China", "United Kingdom", "Brazil", "Japan"], 2],
+    ['medium', "In cricket, how many balls are in an over?", ["4", "5", "6", "8"], 2],
+    ['medium', "Which boxer was known as \"The Greatest\"?", ["Mike Tyson", "Muhammad Ali", "Joe Frazier", "George Foreman"], 1],
+    ['medium', "How many players from each team are on a volleyball court?", ["5", "6", "7", "8"], 1],
+    ['medium', "In which country was judo created?", ["China", "Korea", "Japan", "Thailand"], 2],
+    ['medium', "How many Grand Slam tournaments are there in tennis each year?", ["3", "4", "5", "6"], 1],
+    ['medium', "What is the highest score possible with three darts?", ["150", "160", "180", "200"], 2],
+    ['medium', "How long is an Olympic swimming pool?", ["25 m", "50 m", "75 m", "100 m"], 1],
+    ['medium', "In which sport do teams compete for the Stanley Cup?", ["Basketball", "Ice hockey", "Baseball", "American football"], 1],
+    ['hard', "What is the maximum break in snooker?", ["147", "155", "140", "180"], 0],
+    ['hard', "What is the diameter of a basketball hoop, in inches?", ["16", "18", "20", "22"], 1],
+    ['hard', "Which city hosted the 1964 Summer Olympics?", ["Rome", "Tokyo", "Mexico City", "Munich"], 1],
+    ['hard', "Which country won the first FIFA World Cup in 1930?", ["Brazil", "Argentina", "Uruguay", "Italy"], 2],
+  ]),
+  ...inCategory('Music', [
+    ['easy', "How many strings does a standard guitar have?", ["4", "5", "6", "7"], 2],
+    ['easy', "Which of these instruments is played with a bow?", ["Trumpet", "Violin", "Piano", "Drums"], 1],
+    ['easy', "Who is known as the King of Pop?", ["Elvis Presley", "Michael Jackson", "Prince", "Madonna"], 1],
+    ['easy', "Who is known as the King of Rock and Roll?", ["Elvis Presley", "Chuck Berry", "Little Richard", "Buddy Holly"], 0],
+    ['easy', "Which band recorded \"Hey Jude\"?", ["The Rolling Stones", "The Beatles", "Queen", "The Who"], 1],
+    ['easy', "How many musicians play in a quartet?", ["2", "3", "4", "5"], 2],
+    ['easy', "Which of these is a brass instrument?", ["Clarinet", "Trumpet", "Oboe", "Flute"], 1],
+    ['easy', "Freddie Mercury was the lead singer of which band?", ["Queen", "Led Zeppelin", "The Who", "Aerosmith"], 0],
+    ['medium', "Which composer wrote \"Für Elise\"?", ["Mozart", "Beethoven", "Bach", "Chopin"], 1],
+    ['medium', "How many lines are on a musical staff?", ["4", "5", "6", "7"], 1],
+    ['medium', "Which composer kept writing music after going deaf?", ["Beethoven", "Haydn", "Handel", "Vivaldi"], 0],
+    ['medium', "Who composed The Four Seasons?", ["Bach", "Vivaldi", "Handel", "Mozart"], 1],
+    ['medium', "Which country did ABBA come from?", ["Norway", "Denmark", "Sweden", "Finland"], 2],
+    ['medium', "Which singer is known as the Queen of Soul?", ["Whitney Houston", "Aretha Franklin", "Diana Ross", "Tina Turner"], 1],
+    ['medium', "What does \"forte\" mean in music?", ["Slowly", "Softly", "Loudly", "Quickly"], 2],
+    ['medium', "Bob Marley is most associated with which genre?", ["Jazz", "Reggae", "Blues", "Calypso"], 1],
+    ['medium', "What is the Italian term for gradually getting louder?", ["Diminuendo", "Crescendo", "Staccato", "Legato"], 1],
+    ['medium', "Who composed The Nutcracker?", ["Rachmaninoff", "Tchaikovsky", "Stravinsky", "Prokofiev"], 1],
+    ['medium', "How many keys does a standard piano have?", ["76", "85", "88", "92"], 2],
+    ['medium', "What is the highest female singing voice?", ["Alto", "Mezzo-soprano", "Soprano", "Contralto"], 2],
+    ['hard', "How many symphonies did Beethoven complete?", ["5", "7", "9", "11"], 2],
+    ['hard', "Who composed the opera The Magic Flute?", ["Verdi", "Mozart", "Wagner", "Puccini"], 1],
+    ['hard', "Which musician was born Reginald Dwight?", ["Elton John", "David Bowie", "Freddie Mercury", "Sting"], 0],
+    ['hard', "Who composed Boléro?", ["Claude Debussy", "Maurice Ravel", "Erik Satie", "Georges Bizet"], 1],
+    ['hard', "Who composed the Ring cycle of operas?", ["Giuseppe Verdi", "Richard Wagner", "Richard Strauss", "Giacomo Puccini"], 1],
+  ]),
+  ...inCategory('Movies & TV', [
+    ['easy', "What is the name of the cowboy toy in Toy Story?", ["Buzz", "Woody", "Jessie", "Rex"], 1],
+    ['easy', "Which film features a young lion named Simba?", ["Bambi", "The Lion King", "Madagascar", "Tarzan"], 1],
+    ['easy', "Who lives in a pineapple under the sea?", ["Patrick Star", "SpongeBob SquarePants", "Squidward", "Mr. Krabs"], 1],
+    ['easy', "What colour is Shrek?", ["Blue", "Green", "Purple", "Brown"], 1],
+    ['easy', "What is the name of the snowman in Frozen?", ["Sven", "Olaf", "Kristoff", "Hans"], 1],
+    ['easy', "Which school of magic does Harry Potter attend?", ["Durmstrang", "Hogwarts", "Beauxbatons", "Ilvermorny"], 1],
+    ['easy', "Who tells Luke \"I am your father\" in The Empire Strikes Back?", ["Darth Vader", "Obi-Wan Kenobi", "Han Solo", "Yoda"], 0],
+    ['easy', "Which superhero is known as the Man of Steel?", ["Batman", "Superman", "Iron Man", "Captain America"], 1],
+    ['easy', "What is the name of Dorothy's dog in The Wizard of Oz?", ["Toto", "Spot", "Rex", "Benji"], 0],
+    ['easy', "Which actor played Iron Man in the Marvel films?", ["Chris Evans", "Robert Downey Jr.", "Chris Hemsworth", "Mark Ruffalo"], 1],
+    ['medium', "Who directed Jurassic Park?", ["James Cameron", "Steven Spielberg", "George Lucas", "Ridley Scott"], 1],
+    ['medium', "Which TV series follows the Stark and Lannister families?", ["The Witcher", "Game of Thrones", "Vikings", "The Crown"], 1],
+    ['medium', "Who played Jack in Titanic (1997)?", ["Brad Pitt", "Leonardo DiCaprio", "Matt Damon", "Johnny Depp"], 1],
+    ['medium', "In Back to the Future, which car is made into a time machine?", ["Mustang", "DeLorean", "Corvette", "Beetle"], 1],
+    ['medium', "What is the name of the coffee shop in Friends?", ["Central Perk", "Java Joe's", "The Grind", "Monk's"], 0],
+    ['medium', "Who directed Pulp Fiction?", ["Martin Scorsese", "Quentin Tarantino", "The Coen brothers", "David Fincher"], 1],
+    ['medium', "In The Matrix, which colour pill does Neo take?", ["Blue", "Red", "Green", "Yellow"], 1],
+    ['medium', "In which city is Breaking Bad set?", ["Phoenix", "Albuquerque", "El Paso", "Las Vegas"], 1],
+    ['medium', "Who composed the music for Star Wars?", ["Hans Zimmer", "John Williams", "Ennio Morricone", "Howard Shore"], 1],
+    ['hard', "Which film won the first Academy Award for Best Picture?", ["Wings", "Sunrise", "The Jazz Singer", "Metropolis"], 0],
+    ['hard', "Which film has the line \"Here's looking at you, kid\"?", ["Casablanca", "Gone with the Wind", "Citizen Kane", "The Maltese Falcon"], 0],
+    ['hard', "Who directed 2001: A Space Odyssey?", ["Stanley Kubrick", "Alfred Hitchcock", "Orson Welles", "Francis Ford Coppola"], 0],
+    ['hard', "What is the name of the spaceship in Alien (1979)?", ["Sulaco", "Nostromo", "Prometheus", "Covenant"], 1],
+    ['hard', "Which film won Best Picture at the 1995 Academy Awards?", ["Pulp Fiction", "Forrest Gump", "The Shawshank Redemption", "Four Weddings and a Funeral"], 1],
+    ['hard', "In which film is \"Rosebud\" the dying word of its main character?", ["Citizen Kane", "Vertigo", "Casablanca", "Sunset Boulevard"], 0],
+  ]),
+  ...inCategory('Food & Drink', [
+    ['easy', "What is the main ingredient of guacamole?", ["Tomato", "Avocado", "Pea", "Cucumber"], 1],
+    ['easy', "In which country did pizza originate?", ["France", "Italy", "Greece", "Spain"], 1],
+    ['easy', "Sushi comes from which country?", ["China", "Japan", "Korea", "Thailand"], 1],
+    ['easy', "What is tofu made from?", ["Rice", "Soybeans", "Wheat", "Chickpeas"], 1],
+    ['easy', "Which fruit is dried to make raisins?", ["Plums", "Grapes", "Figs", "Dates"], 1],
+    ['easy', "What is the main ingredient of hummus?", ["Lentils", "Chickpeas", "Kidney beans", "Peas"], 1],
+    ['easy', "What kind of food is Brie?", ["Bread", "Cheese", "Sausage", "Pastry"], 1],
+    ['easy', "Which cheese is used on a classic Margherita pizza?", ["Cheddar", "Mozzarella", "Parmesan", "Gouda"], 1],
+    ['easy', "Kimchi is a staple of which cuisine?", ["Japanese", "Korean", "Chinese", "Thai"], 1],
+    ['medium', "Which nut is used to make marzipan?", ["Walnut", "Almond", "Hazelnut", "Cashew"], 1],
+    ['medium', "Which spice gives curry its yellow colour?", ["Paprika", "Turmeric", "Cumin", "Saffron"], 1],
+    ['medium', "What is the most expensive spice by weight?", ["Vanilla", "Saffron", "Cardamom", "Cinnamon"], 1],
+    ['medium', "Paella comes from which country?", ["Mexico", "Italy", "Spain", "Portugal"], 2],
+    ['medium', "Which vegetable gives borscht its colour?", ["Cabbage", "Beetroot", "Carrot", "Potato"], 1],
+    ['medium', "Which grain is sake brewed from?", ["Barley", "Rice", "Wheat", "Corn"], 1],
+    ['medium', "Which Italian phrase describes pasta cooked to be firm to the bite?", ["Al dente", "Al forno", "Al fresco", "Alla carbonara"], 0],
+    ['medium', "Which drink is made by fermenting honey?", ["Cider", "Mead", "Kefir", "Kombucha"], 1],
+    ['medium', "Which country produces the most coffee?", ["Colombia", "Vietnam", "Brazil", "Ethiopia"], 2],
+    ['medium', "Besides yogurt, what is the main ingredient of tzatziki?", ["Cucumber", "Tomato", "Onion", "Pepper"], 0],
+    ['medium', "Which country does pho come from?", ["Thailand", "Vietnam", "Cambodia", "Laos"], 1],
+    ['medium', "Which Scottish dish is made of sheep's offal and oatmeal?", ["Haggis", "Black pudding", "Scotch egg", "Cullen skink"], 0],
+    ['hard', "Which fruit is called the \"king of fruits\" in Southeast Asia?", ["Mango", "Durian", "Jackfruit", "Mangosteen"], 1],
+    ['hard', "What gives Earl Grey tea its flavour?", ["Lemon", "Bergamot", "Jasmine", "Vanilla"], 1],
+    ['hard', "Which of these chilli peppers is the hottest?", ["Jalapeño", "Habanero", "Carolina Reaper", "Poblano"], 2],
+    ['hard', "Goulash is the national dish of which country?", ["Austria", "Hungary", "Poland", "Czechia"], 1],
+    ['hard', "What is the hard outer layer of a wheat grain called?", ["Germ", "Bran", "Endosperm", "Husk"], 1],
+  ]),
+  ...inCategory('Technology', [
+    ['easy', "What does \"www\" stand for in a web address?", ["World Wide Web", "Wide World Web", "Web World Wide", "World Web Wide"], 0],
+    ['easy', "Which company makes the iPhone?", ["Samsung", "Apple", "Google", "Nokia"], 1],
+    ['easy', "Who co-founded Microsoft with Paul Allen?", ["Steve Jobs", "Bill Gates", "Larry Page", "Mark Zuckerberg"], 1],
+    ['easy', "What does \"CPU\" stand for?", ["Central Processing Unit", "Computer Personal Unit", "Central Program Utility", "Core Processing Unit"], 0],
+    ['easy', "Which key do you hold to type a capital letter?", ["Ctrl", "Shift", "Alt", "Tab"], 1],
+    ['easy', "How many bits are in a byte?", ["4", "8", "16", "32"], 1],
+    ['easy', "Which company develops the Android operating system?", ["Apple", "Google", "Microsoft", "Samsung"], 1],
+    ['easy', "Which company makes the PlayStation?", ["Nintendo", "Sony", "Microsoft", "Sega"], 1],
+    ['medium', "What does \"USB\" stand for?", ["Universal Serial Bus", "United System Board", "Universal System Bridge", "Unified Serial Bus"], 0],
+    ['medium', "In which year was the first iPhone released?", ["2005", "2007", "2009", "2010"], 1],
+    ['medium', "What does \"HTML\" stand for?", ["HyperText Markup Language", "High Tech Modern Language", "HyperTransfer Markup Language", "Home Tool Markup Language"], 0],
+    ['medium', "Who invented the World Wide Web?", ["Vint Cerf", "Tim Berners-Lee", "Alan Turing", "Linus Torvalds"], 1],
+    ['medium', "Which programming language shares its name with an Indonesian island?", ["Python", "Java", "Ruby", "Perl"], 1],
+    ['medium', "What does \"RAM\" stand for?", ["Random Access Memory", "Read Access Memory", "Rapid Action Memory", "Run All Memory"], 0],
+    ['medium', "Linus Torvalds created which operating system kernel?", ["Unix", "Linux", "Windows NT", "Darwin"], 1],
+    ['medium', "What does \"GPS\" stand for?", ["Global Positioning System", "General Position Service", "Geographic Pointing System", "Global Path Search"], 0],
+    ['medium', "In which year was Google founded?", ["1996", "1998", "2000", "2004"], 1],
+    ['medium', "Who is often called the first computer programmer?", ["Ada Lovelace", "Grace Hopper", "Alan Turing", "Charles Babbage"], 0],
+    ['medium', "What does the \"S\" in HTTPS stand for?", ["Simple", "Secure", "Server", "Standard"], 1],
+    ['hard', "How many bytes are in a kilobyte, counted in powers of two?", ["1000", "1024", "512", "2048"], 1],
+    ['hard', "What was the first general-purpose electronic computer, completed in 1945?", ["ENIAC", "UNIVAC", "Colossus", "EDSAC"], 0],
+    ['hard', "What does \"SQL\" stand for?", ["Structured Query Language", "Simple Query Language", "Sequential Query Logic", "Standard Question Language"], 0],
+    ['hard', "Which port does HTTPS use by default?", ["21", "80", "443", "8080"], 2],
+    ['hard', "Which company made the 4004, the first commercial microprocessor?", ["IBM", "Intel", "Motorola", "Texas Instruments"], 1],
+    ['hard', "What is the binary number 1010 in decimal?", ["8", "10", "12", "5"], 1],
+  ]),
+];
@@ -0,0 +1,461 @@
+// Server-side copies of the online game reducers. Each rule checks that the
+// action is legal for the player's seat before applying it, and returns an
+// error message instead of a new state when it isn't.
+
+import { DICTIONARY, THEME_WORDS } from "./wordList.ts";
+
+type State = Record<string, unknown>;
+type Action = { type: string; [key: string]: unknown };
+type RuleResult = { state: State } | { error: string };
+
+/**
+ * hostSeat moves when a lobby host leaves; two-player games always have the host in seat 0.
+ * leftSeats are the seats the server has recorded leaving through the leave op
+ */
+export type GameRule = (
+  state: State,
+  action: Action,
+  seat: number,
+  hostSeat: number,
+  leftSeats: number[]
+) => RuleResult | Promise<RuleResult>;
+
+const reject = (error: string): RuleResult => ({ error });
+const accept = (state: State): RuleResult => ({ state });
+
+// Turn deadlines are absolute timestamps on this (the server's) clock, in ms.
+// Clients only know the server time to within a round trip, so a timeout
+// reported slightly early still counts
+const DEADLINE_TOLERANCE = 500;
+const deadlineIn = (ms: number) => Date.now() + ms;
+const deadlinePassed = (deadline: unknown) => typeof deadline === 'number' && Date.now() >= deadline - DEADLINE_TOLERANCE;
+/** Moves are still accepted for the same tolerance after the deadline */
+const tooLate = (deadline: unknown) => typeof deadline === 'number' && Date.now() > deadline + DEADLINE_TOLERANCE;
+
+// ---------- Tic Tac Toe ----------
+
+type Mark = 'X' | 'O' | null;
+
+const TICTACTOE_TURN_TIME = 15 * 1000;
+
+const getWinningLines = (size: number): number[][] => {
+  const lines: number[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(Array.from({ length: size }, (_, j) => i * size + j));
+    lines.push(Array.from({ length: size }, (_, j) => j * size + i));
+  }
+  lines.push(Array.from({ length: size }, (_, i) => i * size + i));
+  lines.push(Array.from({ length: size }, (_, i) => i * size + (size - 1 - i)));
+  return lines;
+};
+
+const tictactoe: GameRule = (state, action, seat) => {
+  const board = state.board as Mark[];
+  const size = state.gridSize as number;
+  const scores = state.scores as { X: number; O: number };
+  const symbol = seat === 0 ? 'X' : 'O';
+  const over = !!state.winner || !!state.isDraw;
+
+  switch (action.type) {
+    case 'move': {
+      const index = action.index as number;
+      if (over) return reject('The round is over');
+      if (state.currentPlayer !== symbol) return reject('Not your turn');
+      if (tooLate(state.turnDeadline)) return reject('Your time is up');
+      if (!Number.isInteger(index) || index < 0 || index >= board.length) return reject('Invalid cell');
+      if (board[index]) return reject('Cell already taken');
+
+      const next = [...board];
+      next[index] = symbol;
+      const line = getWinningLines(size).find(l => l.every(i => next[i] === symbol));
+      if (line) {
+        return accept({
+          ...state,
+          board: next,
+          winner: symbol,
+          winningLine: line,
+          turnDeadline: null,
+          scores: { ...scores, [symbol]: scores[symbol] + 1 },
+        });
+      }
+      if (next.every(cell => cell !== null)) return accept({ ...state, board: next, isDraw: true, turnDeadline: null });
+      return accept({
+        ...state,
+        board: next,
+        currentPlayer: symbol === 'X' ? 'O' : 'X',
+        turnDeadline: deadlineIn(TICTACTOE_TURN_TIME),
+      });
+    }
+    case 'start_clock':
+      if (over) return reject('The round is over');
+      if (state.turnDeadline) return reject('The clock is already running');
+      return accept({ ...state, turnDeadline: deadlineIn(TICTACTOE_TURN_TIME) });
+    case 'timeout': {
+      // Either player can report it, so a backgrounded tab can't stall the game
+      if (over) return reject('The round is over');
+      if (action.player !== state.currentPlayer) return reject('That turn is already over');
+      if (!deadlinePassed(state.turnDeadline)) return reject('Time is not up yet');
+      const opponent = state.currentPlayer === 'X' ? 'O' : 'X';
+      return accept({
+        ...state,
+        winner: opponent,
+        turnDeadline: null,
+        scores: { ...scores, [opponent]: scores[opponent] + 1 },
+      });
+    }
+    case 'new_round':
+      if (seat !== 0) return reject('Only the host can start a new round');
+      if (!over) return reject('The round is still in progress');
+      return accept({
+        ...state,
+        board: Array(size * size).fill(null),
+        currentPlayer: 'X',
+        winner: null,
+        winningLine: null,
+        isDraw: false,
+        turnDeadline: deadlineIn(TICTACTOE_TURN_TIME),
+      });
+    default:
+      return reject(`Unknown action: ${action.type}`);
+  }
+};
+
+// ---------- Connect Four ----------
+
+const C4_ROWS = 6;
+const C4_COLS = 7;
+
+type Disc = 'red' | 'yellow' | null;
+
+const connectsFour = (board: Disc[][], row: number, col: number, disc: Disc): boolean => {
+  const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
+  return directions.some(([dr, dc]) => {
+    let count = 1;
+    for (const sign of [1, -1]) {
+      for (let i = 1; i < 4; i++) {
+        const r = row + dr * i * sign;
+        const c = col + dc * i * sign;
+        if (r < 0 || r >= C4_ROWS || c < 0 || c >= C4_COLS || board[r][c] !== disc) break;
+        count++;
+      }
+    }
+    return count >= 4;
+  });
+};
+
+const connect4: GameRule = (state, action, seat) => {
+  const board = state.board as Disc[][];
+  const scores = state.scores as { red: number; yellow: number };
+  const color = seat === 0 ? 'red' : 'yellow';
+  const over = !!state.winner || !!state.isDraw;
+
+  switch (action.type) {
+    case 'drop': {
+      const col = action.col as number;
+      if (over) return reject('The game is over');
+      if (state.currentPlayer !== color) return reject('Not your turn');
+      if (!Number.isInteger(col) || col < 0 || col >= C4_COLS) return reject('Invalid column');
+
+      let row = -1;
+      for (let r = C4_ROWS - 1; r >= 0; r--) {
+        if (!board[r][col]) {
+          row = r;
+          break;
+        }
+      }
+      if (row === -1) return reject('Column is full');
+
+      const next = board.map(r => [...r]);
+      next[row][col] = color;
+      if (connectsFour(next, row, col, color)) {
+        return accept({ ...state, board: next, winner: color, scores: { ...scores, [color]: scores[color] + 1 } });
+      }
+      if (next.every(r => r.every(cell => cell !== null))) return accept({ ...state, board: next, isDraw: true });
+      return accept({ ...state, board: next, currentPlayer: color === 'red' ? 'yellow' : 'red' });
+    }
+    case 'restart':
+      if (!over) return reject('The game is still in progress');
+      return accept({
+        ...state,
+        board: Array.from({ length: C4_ROWS }, () => Array(C4_COLS).fill(null)),
+        currentPlayer: 'red',
+        winner: null,
+        isDraw: false,
+      });
+    default:
+      return reject(`Unknown action: ${action.type}`);
+  }
+};
+
+// ---------- Rock Paper Scissors ----------
+
+const RPS_WINS_NEEDED = 3;
+const RPS_CHOICES = ['rock', 'paper', 'scissors'];
+const RPS_BEATS: Record<string, string> = { rock: 'scissors', paper: 'rock', scissors: 'paper' };
+
+// Commitments are the hex SHA-256 of `${choice}:${nonce}`, as in src/utils/commitReveal.ts
+const verifyReveal = async (hash: unknown, value: unknown, nonce: unknown): Promise<boolean> => {
+  if (typeof hash !== 'string' || typeof value !== 'string' || typeof nonce !== 'string') return false;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${value}:${nonce}`));
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return hex === hash;
+};
+
+const rps: GameRule = async (state, action, seat) => {
+  const commitments = state.commitments as [string | null, string | null];
+  const choices = state.choices as [string | null, string | null];
+  const forfeited = state.forfeited as [boolean, boolean];
+  const scores = state.scores as [number, number];
+  const settled = (s: number) => !!choices[s] || forfeited[s];
+
+  switch (action.type) {
+    case 'commit': {
+      if (state.finished) return reject('The match is over');
+      if (action.seat !== seat) return reject('You can only choose for yourself');
+      if (typeof action.hash !== 'string' || !/^[0-9a-f]{64}$/.test(action.hash)) return reject('Invalid commitment');
+      if (commitments[seat]) return reject('You already chose this round');
+
+      const next = [...commitments] as [string | null, string | null];
+      next[seat] = action.hash;
+      return accept({ ...state, commitments: next });
+    }
+    case 'reveal': {
+      if (state.finished) return reject('The match is over');
+      if (action.seat !== seat) return reject('You can only reveal your own choice');
+      if (!commitments[0] || !commitments[1]) return reject('Waiting for both players to choose');
+      if (settled(seat)) return reject('You already revealed this round');
+
+      // A reveal that doesn't match the commitment forfeits the round
+      const valid = RPS_CHOICES.includes(action.choice as string)
+        && await verifyReveal(commitments[seat], action.choice, action.nonce);
+      const nextChoices = [...choices] as [string | null, string | null];
+      const nextForfeited = [...forfeited] as [boolean, boolean];
+      if (valid) nextChoices[seat] = action.choice as string;
+      else nextForfeited[seat] = true;
+
+      const next = { ...state, choices: nextChoices, forfeited: nextForfeited };
+      const done = [0, 1].every(s => !!nextChoices[s] || nextForfeited[s]);
+      if (!done) return accept(next);
+
+      // A forfeited seat has no choice, and loses to any choice
+      const beats = (a: number, b: number) => !!nextChoices[a]
+        && (!nextChoices[b] || RPS_BEATS[nextChoices[a] as string] === nextChoices[b]);
+      const nextScores: [number, number] = [
+        scores[0] + (beats(0, 1) ? 1 : 0),
+        scores[1] + (beats(1, 0) ? 1 : 0),
+      ];
+      const finished = (state.round as number) >= (state.maxRounds as number)
+        || nextScores[0] >= RPS_WINS_NEEDED
+        || nextScores[1] >= RPS_WINS_NEEDED;
+      return accept({ ...next, scores: nextScores, finished });
+    }
+    case 'next_round':
+      if (seat !== 0) return reject('Only the host can start the next round');
+      if (state.finished || !settled(0) || !settled(1)) return reject('The round is still in progress');
+      return accept({
+        ...state,
+        round: (state.round as number) + 1,
+        commitments: [null, null],
+        choices: [null, null],
+        forfeited: [false, false],
+      });
+    case 'restart':
+      if (!state.finished) return reject('The match is still in progress');
+      return accept({
+        ...state,
+        commitments: [null, null],
+        choices: [null, null],
+        forfeited: [false, false],
+        scores: [0, 0],
+        round: 1,
+        finished: false,
+      });
+    default:
+      return reject(`Unknown action: ${action.type}`);
+  }
+};
+
+// ---------- Word Chain ----------
+
+const WORDCHAIN_MIN_PLAYERS = 2;
+const WORDCHAIN_TURN_TIME = 15 * 1000;
+
+// Word checks and scoring are the same as src/utils/wordChain.ts, which
+// clients use to check a word before sending it
+
+type WordChainTheme = 'animals' | 'countries' | 'foods';
+type WordChainRules = { link: 1 | 2; theme: WordChainTheme | null };
+
+const RARE_LETTER_BONUS: Record<string, number> = { Q: 5, Z: 5, X: 4, J: 4, K: 2, V: 2, W: 1, Y: 1, F: 1 };
+const LONG_WORD_BONUS = [
+  { length: 10, bonus: 8 },
+  { length: 7, bonus: 4 },
+];
+const PREFIX_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const decodeWords = (encoded: string): Set<string> => {
+  const words = new Set<string>();
+  let word = '';
+  for (const [, shared, rest] of encoded.matchAll(/([0-9A-Z])([a-z]*)/g)) {
+    word = word.slice(0, PREFIX_DIGITS.indexOf(shared)) + rest;
+    words.add(word.toUpperCase());
+  }
+  return words;
+};
+
+const WORDCHAIN_WORDS = decodeWords(DICTIONARY);
+const WORDCHAIN_THEMES: Record<WordChainTheme, Set<string>> = {
+  animals: decodeWords(THEME_WORDS.animals),
+  countries: decodeWords(THEME_WORDS.countries),
+  foods: decodeWords(THEME_WORDS.foods),
+};
+
+/** The room's rules, falling back to the classic game for anything unrecognised */
+const wordChainRules = (state: State): WordChainRules => {
+  const rules = (state.rules ?? {}) as Partial<WordChainRules>;
+  return {
+    link: rules.link === 2 ? 2 : 1,
+    theme: rules.theme && rules.theme in WORDCHAIN_THEMES ? rules.theme : null,
+  };
+};
+
+const inDictionary = (word: string) =>
+  WORDCHAIN_WORDS.has(word)
+  || (word.endsWith('S') && WORDCHAIN_WORDS.has(word.slice(0, -1)))
+  || (word.endsWith('ES') && WORDCHAIN_WORDS.has(word.slice(0, -2)))
+  || (word.endsWith('IES') && WORDCHAIN_WORDS.has(`${word.slice(0, -3)}Y`));
+
+const checkWord = (word: string, words: string[], lastWord: string, rules: WordChainRules): string | null => {
+  const start = lastWord ? lastWord.slice(-rules.link) : '';
+  if (!/^[A-Z]{2,}$/.test(word)) return 'Words must be at least 2 letters';
+  if (start && !word.startsWith(start)) return `Word must start with "${start}"`;
+  if (words.includes(word)) return 'This word was already played';
+  if (rules.theme) {
+    if (!WORDCHAIN_THEMES[rules.theme].has(word)) return `"${word}" isn't on the ${rules.theme} list`;
+  } else if (!inDictionary(word)) {
+    return `"${word}" isn't in the dictionary`;
+  }
+  return null;
+};
+
+const scoreWord = (word: string) =>
+  word.length
+  + word.split('').reduce((sum, letter) => sum + (RARE_LETTER_BONUS[letter] ?? 0), 0)
+  + (LONG_WORD_BONUS.find(({ length }) => word.length >= length)?.bonus ?? 0);
+
+const nextSeat = (seat: number, eliminated: boolean[]): number => {
+  for (let i = 1; i <= eliminated.length; i++) {
+    const next = (seat + i) % eliminated.length;
+    if (!eliminated[next]) return next;
+  }
+  return seat;
+};
+
+/** Knock a seat out; the last player standing wins */
+const eliminate = (state: State, out: number): State => {
+  const players = state.players as string[];
+  const eliminated = [...(state.eliminated as boolean[])];
+  eliminated[out] = true;
+  if (state.status !== 'playing') return { ...state, eliminated };
+
+  const remaining = players.filter((_, i) => !eliminated[i]);
+  if (remaining.length <= 1) {
+    return { ...state, eliminated, status: 'ended', winner: remaining[0] ?? null, turnDeadline: null };
+  }
+  // The next player gets a full turn; anyone else's clock keeps running
+  if (state.currentTurn !== out) return { ...state, eliminated };
+  return { ...state, eliminated, currentTurn: nextSeat(out, eliminated), turnDeadline: deadlineIn(WORDCHAIN_TURN_TIME) };
+};
+
+const wordchain: GameRule = (state, action, seat, hostSeat, leftSeats) => {
+  const words = state.words as string[];
+  const players = state.players as (string | null)[];
+  const scores = state.scores as number[];
+  const eliminated = state.eliminated as boolean[];
+
+  switch (action.type) {
+    case 'player_joined': {
+      if (seat !== hostSeat) return reject('Only the host can seat players');
+      if (state.status !== 'waiting') return reject('The game has already started');
+      const joinedSeat = action.seat as number;
+      if (!Number.isInteger(joinedSeat) || joinedSeat < 1) return reject('Invalid seat');
+      const next = [...players];
+      next[joinedSeat] = String(action.name || '').slice(0, 30);
+      return accept({ ...state, players: next });
+    }
+    case 'start': {
+      if (seat !== hostSeat) return reject('Only the host can start the game');
+      if (state.status !== 'waiting') return reject('The game has already started');
+      const named = Array.from({ length: players.length }, (_, i) => players[i] || `Player ${i + 1}`);
+      // Players who left the lobby keep their seat but never get a turn
+      const out = named.map((_, i) => !!eliminated[i]);
+      if (out.filter(gone => !gone).length < WORDCHAIN_MIN_PLAYERS) return reject('Waiting for more players');
+      return accept({
+        ...state,
+        players: named,
+        scores: named.map(() => 0),
+        eliminated: out,
+        currentTurn: out.indexOf(false),
+        turnDeadline: deadlineIn(WORDCHAIN_TURN_TIME),
+        status: 'playing',
+      });
+    }
+    case 'word': {
+      const word = String(action.word || '').trim().toUpperCase();
+      const lastWord = state.lastWord as string;
+      if (state.status !== 'playing') return reject('The game is not in progress');
+      if (action.seat !== seat || state.currentTurn !== seat) return reject('Not your turn');
+      if (tooLate(state.turnDeadline)) return reject('Your time is up');
+      const invalid = checkWord(word, words, lastWord, wordChainRules(state));
+      if (invalid) return reject(invalid);
+
+      const nextScores = [...scores];
+      nextScores[seat] = (nextScores[seat] || 0) + scoreWord(word);
+      return accept({
+        ...state,
+        words: [...words, word],
+        scores: nextScores,
+        currentTurn: nextSeat(seat, eliminated),
+        turnDeadline: deadlineIn(WORDCHAIN_TURN_TIME),
+        lastWord: word,
+      });
+    }
+    case 'timeout': {
+      // Any player can report it, so a backgrounded tab can't stall the game
+      if (state.status !== 'playing') return reject('The game is not in progress');
+      if (action.seat !== state.currentTurn) return reject('That turn is already over');
+      if (!deadlinePassed(state.turnDeadline)) return reject('Time is not up yet');
+      return accept(eliminate(state, state.currentTurn as number));
+    }
+    case 'player_left': {
+      if (seat !== hostSeat) return reject('Only the host can report a player leaving');
+      const leftSeat = action.seat as number;
+      // Only seats the server saw leave, so the host can't knock out a player who is still here
+      if (!leftSeats.includes(leftSeat)) return reject('That player has not left');
+      if (state.status === 'ended') return reject('The game has already ended');
+      return accept(eliminate(state, leftSeat));
+    }
+    default:
+      return reject(`Unknown action: ${action.type}`);
+  }
+};
+
+// ---------- Game numbers ----------
+
+// Every game that finishes in a room gets the next gameNumber, so a rematch
+// that ends the same way is still a different match to the tournament function
+const numberGames = (rule: GameRule, isOver: (state: State) => boolean): GameRule =>
+  async (state, action, seat, hostSeat, leftSeats) => {
+    const result = await rule(state, action, seat, hostSeat, leftSeats);
+    if ('error' in result || isOver(state) || !isOver(result.state)) return result;
+    return accept({ ...result.state, gameNumber: ((state.gameNumber as number) || 0) + 1 });
+  };
+
+const boardGameOver = (state: State) => !!state.winner || !!state.isDraw;
+
+export const GAME_RULES: Record<string, GameRule> = {
+  tictactoe: numberGames(tictactoe, boardGameOver),
+  connect4: numberGames(connect4, boardGameOver),
+  rps: numberGames(rps, state => !!state.finished),
+  wordchain: numberGames(wordchain, state => state.status === 'ended'),
+};
@@ -0,0 +1,356 @@
+// Answers that must not reach the players' shared game state. They live in the
+// game_secrets table, which only this function can read, and players only get
+// back what they are allowed to see: the question without its answer, the
+// masked word, whether a guess was right.
+
+import { QUESTION_BANK, QUIZ_CATEGORIES, type QuizDifficulty, type QuizQuestion } from "./questionBank.ts";
+
+type Secret = Record<string, unknown>;
+type SecretRequest = { type: string; [key: string]: unknown };
+type SecretResult = { secret?: Secret; reply: Record<string, unknown> } | { error: string };
+
+/** Bank questions the room's players have been dealt in earlier games */
+export interface QuestionHistory {
+  /** Questions any player still in the room has seen, by text */
+  seen: () => Promise<Set<string>>;
+  /** Note that every player still in the room has now seen these */
+  record: (questions: string[]) => Promise<void>;
+}
+
+export interface SecretContext {
+  seat: number;
+  hostSeat: number;
+  playerIds: string[];
+  leftSeats: number[];
+  /** The request is the host's, made for the bot in `seat` */
+  isBot: boolean;
+  /** The room's game state as last saved, without the room's own fields */
+  state: Record<string, unknown>;
+  questionHistory: QuestionHistory;
+}
+
+/** `secret` is null until the first request for the room stores one */
+export type SecretHandler = (
+  secret: Secret | null,
+  request: SecretRequest,
+  ctx: SecretContext
+) => SecretResult | Promise<SecretResult>;
+
+const reject = (error: string): SecretResult => ({ error });
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Commitments are the hex SHA-256 of `${value}:${nonce}`, as in src/utils/commitReveal.ts
+const hashChoice = async (value: string | number, nonce: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${value}:${nonce}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const createNonce = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// ---------- Quiz Battle ----------
+
+const QUIZ_QUESTIONS_PER_GAME = 10;
+const QUIZ_QUESTION_TIME = 10 * 1000;
+// How long players get to open their answers before the question is scored without them
+const QUIZ_REVEAL_TIME = 5 * 1000;
+const QUIZ_POINTS = 10;
+// Same allowance for clock uncertainty as the turn deadlines in rules.ts
+const QUIZ_LATE_TOLERANCE = 500;
+const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Same limits as parseQuestionPack in src/utils/quizPacks.ts, which gives the
+// host the detailed errors; anything past them is refused outright here
+const QUIZ_PACK_MAX_QUESTIONS = 50;
+const QUIZ_PACK_MAX_OPTIONS = 6;
+const QUIZ_PACK_QUESTION_LENGTH = 300;
+const QUIZ_PACK_OPTION_LENGTH = 100;
+const QUIZ_PACK_CATEGORY_LENGTH = 40;
+
+const cleanText = (value: unknown, maxLength: number) =>
+  typeof value === 'string' && value.trim() && value.trim().length <= maxLength ? value.trim() : null;
+
+/** A host's custom pack, or null if any question in it is malformed */
+const cleanPack = (pack: unknown): QuizQuestion[] | null => {
+  if (!Array.isArray(pack) || pack.length === 0 || pack.length > QUIZ_PACK_MAX_QUESTIONS) return null;
+  const questions = pack.map((item): QuizQuestion | null => {
+    const question = cleanText(item?.question, QUIZ_PACK_QUESTION_LENGTH);
+    const options = Array.isArray(item?.options) ? item.options.map((option: unknown) => cleanText(option, QUIZ_PACK_OPTION_LENGTH)) : [];
+    const correct = item?.correct;
+    if (!question || options.length < 2 || options.length > QUIZ_PACK_MAX_OPTIONS || options.includes(null)) return null;
+    if (!Number.isInteger(correct) || correct < 0 || correct >= options.length) return null;
+    return { question, options, correct, category: cleanText(item?.category, QUIZ_PACK_CATEGORY_LENGTH) ?? 'Custom' };
+  });
+  return questions.includes(null) ? null : questions as QuizQuestion[];
+};
+
+/**
+ * Ten bank questions from the chosen categories. Questions at the chosen
+ * difficulty that nobody in the room has seen come first, then ones someone
+ * has, then other difficulties if the categories run short
+ */
+const dealFromBank = async (request: SecretRequest, history: QuestionHistory) => {
+  const categories = Array.isArray(request.categories)
+    ? QUIZ_CATEGORIES.filter(category => (request.categories as unknown[]).includes(category))
+    : [];
+  const difficulty = QUIZ_DIFFICULTIES.find(level => level === request.difficulty) ?? null;
+  const seen = await history.seen();
+  const rank = (question: QuizQuestion) =>
+    (difficulty && question.difficulty !== difficulty ? 2 : 0) + (seen.has(question.question) ? 1 : 0);
+  const dealt = shuffle(QUESTION_BANK.filter(question => !categories.length || categories.includes(question.category)))
+    .sort((a, b) => rank(a) - rank(b))
+    .slice(0, QUIZ_QUESTIONS_PER_GAME);
+  await history.record(dealt.map(question => question.question));
+  return dealt;
+};
+
+/** A scored question: each seat's answer (-1 for none) and the points it earned */
+interface QuizResult {
+  correct: number;
+  answers: number[];
+  points: number[];
+}
+
+// The answer to a question is only handed out once every player still in the
+// game has committed to theirs, or its time is up, so nobody can look it up
+// before answering. Each question's deadline is set here, on the server's clock.
+// Players then open their answers here, where they are checked against the
+// commitments stored above, and the question is scored here too.
+// Bots answer here as well: the host plays for them, and must not learn the
+// answer from their pick before it is released
+const quizbattle: SecretHandler = async (secret, request, { seat, hostSeat, playerIds, leftSeats, isBot, questionHistory }) => {
+  const questions = (secret?.questions as QuizQuestion[]) ?? [];
+  const commitments = (secret?.commitments as Record<string, Record<string, string>>) ?? {};
+  const deadlines = (secret?.deadlines as Record<string, number>) ?? {};
+  const botAnswers = (secret?.botAnswers as Record<string, Record<string, { answer: number; nonce: string }>>) ?? {};
+  // Opened answers, -1 where the reveal didn't match its commitment
+  const reveals = (secret?.reveals as Record<string, Record<string, number>>) ?? {};
+  // When the first answer to each question was opened
+  const revealedAt = (secret?.revealedAt as Record<string, number>) ?? {};
+  const results = (secret?.results as Record<string, QuizResult>) ?? {};
+  const index = request.questionIndex as number;
+  const whyClosed = () => {
+    if (!questions[index]) return 'Unknown question';
+    if (!deadlines[index]) return 'That question is not open yet';
+    if (Date.now() > deadlines[index] + QUIZ_LATE_TOLERANCE) return 'Time is up for this question';
+    if (commitments[index]?.[seat]) return 'You already answered this question';
+    return null;
+  };
+  const isReleased = () => {
+    const timeUp = !!deadlines[index] && Date.now() >= deadlines[index];
+    const waiting = playerIds.some((_, s) => !leftSeats.includes(s) && !commitments[index]?.[s]);
+    return !waiting || timeUp;
+  };
+
+  switch (request.type) {
+    case 'deal': {
+      if (seat !== hostSeat) return reject('Only the host can start the quiz');
+      // A custom pack is played in full, in its own order
+      const pack = request.pack == null ? null : cleanPack(request.pack);
+      if (request.pack != null && !pack) return reject('Invalid question pack');
+      const dealt = pack ?? await dealFromBank(request, questionHistory);
+      const deadline = Date.now() + QUIZ_QUESTION_TIME;
+      return {
+        secret: { questions: dealt, commitments: {}, deadlines: { 0: deadline } },
+        reply: {
+          questions: dealt.map(({ question, options, category, difficulty }) => ({ question, options, category, difficulty })),
+          deadline,
+        },
+      };
+    }
+    case 'open': {
+      if (seat !== hostSeat) return reject('Only the host can move to the next question');
+      if (!questions[index]) return reject('Unknown question');
+      // Opening again returns the same deadline, so a retried request is harmless
+      if (deadlines[index]) return { reply: { deadline: deadlines[index] } };
+      if (!deadlines[index - 1]) return reject('Questions open in order');
+      const deadline = Date.now() + QUIZ_QUESTION_TIME;
+      return { secret: { ...secret, deadlines: { ...deadlines, [index]: deadline } }, reply: { deadline } };
+    }
+    case 'commit': {
+      if (isBot) return reject('Bots answer with bot_answer');
+      const closed = whyClosed();
+      if (closed) return reject(closed);
+      if (typeof request.hash !== 'string') return reject('Invalid commitment');
+      return {
+        secret: { ...secret, commitments: { ...commitments, [index]: { ...commitments[index], [seat]: request.hash } } },
+        reply: {},
+      };
+    }
+    case 'reveal': {
+      if (isBot) return reject('Bots are scored from their answer here');
+      if (!questions[index]) return reject('Unknown question');
+      if (!isReleased()) return reject('Not everyone has answered yet');
+      if (results[index]) return reject('This question has already been scored');
+      const hash = commitments[index]?.[seat];
+      if (!hash) return reject('You did not answer this question');
+      if (reveals[index]?.[seat] !== undefined) return reject('You already opened your answer');
+      const answer = Number(request.answer);
+      const matches = Number.isInteger(answer) && typeof request.nonce === 'string'
+        && await hashChoice(answer, request.nonce) === hash;
+      return {
+        secret: {
+          ...secret,
+          reveals: { ...reveals, [index]: { ...reveals[index], [seat]: matches ? answer : -1 } },
+          revealedAt: { ...revealedAt, [index]: revealedAt[index] ?? Date.now() },
+        },
+        reply: {},
+      };
+    }
+    case 'score': {
+      // Once every answer is open, or the players who haven't opened theirs
+      // have had long enough; they score nothing. A retried request gets the same result
+      if (seat !== hostSeat) return reject('Only the host can score a question');
+      if (!questions[index]) return reject('Unknown question');
+      if (!isReleased()) return reject('Not everyone has answered yet');
+      if (results[index]) return { reply: { ...results[index] } };
+      const unopened = playerIds.some((_, s) =>
+        !leftSeats.includes(s) && commitments[index]?.[s] && !botAnswers[index]?.[s] && reveals[index]?.[s] === undefined
+      );
+      const openedSince = revealedAt[index] ?? deadlines[index];
+      if (unopened && Date.now() < openedSince + QUIZ_REVEAL_TIME) return reject('Not every answer has been opened yet');
+
+      const { correct } = questions[index];
+      const answers = playerIds.map((_, s) => botAnswers[index]?.[s]?.answer ?? reveals[index]?.[s] ?? -1);
+      const result: QuizResult = { correct, answers, points: answers.map(answer => (answer === correct ? QUIZ_POINTS : 0)) };
+      return { secret: { ...secret, results: { ...results, [index]: result } }, reply: { ...result } };
+    }
+    case 'bot_answer': {
+      // Right with the bot's accuracy, otherwise one of the wrong options
+      if (!isBot) return reject('Only bots answer this way');
+      const closed = whyClosed();
+      if (closed) return reject(closed);
+      const accuracy = Math.min(1, Math.max(0, Number(request.accuracy) || 0));
+      const { options, correct } = questions[index];
+      const answer = Math.random() < accuracy ? correct : pick(options.map((_, i) => i).filter(i => i !== correct));
+      const nonce = createNonce();
+      const hash = await hashChoice(answer, nonce);
+      return {
+        secret: {
+          ...secret,
+          commitments: { ...commitments, [index]: { ...commitments[index], [seat]: hash } },
+          botAnswers: { ...botAnswers, [index]: { ...botAnswers[index], [seat]: { answer, nonce } } },
+        },
+        reply: { hash },
+      };
+    }
+    default:
+      return reject(`Unknown request: ${request.type}`);
+  }
+};
+
+// ---------- Drawing ----------
+
+const DRAWING_WORDS = [
+  'cat', 'dog', 'house', 'tree', 'car', 'sun', 'moon', 'star', 'fish', 'bird',
+  'apple', 'banana', 'pizza', 'cake', 'flower', 'rainbow', 'heart', 'cloud',
+  'book', 'phone', 'guitar', 'ball', 'hat', 'shoe', 'glasses', 'chair',
+  'mountain', 'ocean', 'butterfly', 'rocket', 'robot', 'dragon', 'unicorn'
+];
+
+// The host deals each turn's word; only the drawer can read it back
+const drawing: SecretHandler = (secret, request, { seat, hostSeat, playerIds, leftSeats }) => {
+  const round = request.round as number;
+  const current = secret?.round === round ? secret : null;
+
+  switch (request.type) {
+    case 'deal': {
+      const drawerSeat = request.drawerSeat as number;
+      if (seat !== hostSeat) return reject('Only the host can deal words');
+      if (!playerIds[drawerSeat] || leftSeats.includes(drawerSeat)) return reject('That player is not in the game');
+      const word = pick(DRAWING_WORDS.filter(w => w !== secret?.word));
+      return { secret: { round, drawerSeat, word, solved: false }, reply: { wordLength: word.length } };
+    }
+    case 'word':
+      if (!current || current.drawerSeat !== seat) return reject('This is not your word to draw');
+      return { reply: { word: current.word } };
+    case 'guess': {
+      if (!current) return reject('That round is over');
+      if (current.drawerSeat === seat) return reject('The drawer cannot guess');
+      const correct = !current.solved
+        && String(request.text || '').toLowerCase().trim() === String(current.word).toLowerCase();
+      return correct ? { secret: { ...current, solved: true }, reply: { correct } } : { reply: { correct } };
+    }
+    default:
+      return reject(`Unknown request: ${request.type}`);
+  }
+};
+
+// ---------- Hangman ----------
+
+const HANGMAN_MAX_WRONG_GUESSES = 6;
+
+// Bots pick their words here, out of sight of the host who plays for them
+const HANGMAN_BOT_WORDS = [
+  'planet', 'jungle', 'rocket', 'garden', 'castle', 'pirate', 'wizard', 'dragon',
+  'puzzle', 'falcon', 'breeze', 'meadow', 'harbor', 'lantern', 'voyage', 'whisper',
+  'crystal', 'thunder', 'blanket', 'compass', 'penguin', 'volcano', 'mystery', 'galaxy',
+  'zephyr', 'rhythm', 'oxygen', 'quartz', 'jigsaw', 'kayak', 'sphinx', 'buzzard',
+];
+
+// The guest sets the word in odd rounds and the host in even ones
+const hangmanSetter = (round: number) => (round % 2 === 1 ? 1 : 0);
+
+const hangmanView = (word: string, guessed: string[]) => ({
+  displayWord: word.split('').map(char => (guessed.includes(char) ? char : '_')).join(''),
+  wrongGuesses: guessed.filter(letter => !word.includes(letter)).length,
+});
+
+const hangmanFinished = (secret: Secret) => {
+  const { displayWord, wrongGuesses } = hangmanView(String(secret.word), secret.guessed as string[]);
+  return !displayWord.includes('_') || wrongGuesses >= HANGMAN_MAX_WRONG_GUESSES;
+};
+
+// Guesses are checked here rather than on the setter's device, so the setter
+// can't change the word mid-round and a reload doesn't lose it. A word is only
+// set for the round the room is on, and only once the last word is done with
+const hangman: SecretHandler = (secret, request, { seat, isBot, state }) => {
+  const round = request.round as number;
+  const current = secret?.round === round ? secret : null;
+  const setterSeat = hangmanSetter(round);
+
+  switch (request.type) {
+    case 'set_word': {
+      const word = isBot ? pick(HANGMAN_BOT_WORDS) : String(request.word || '').toLowerCase();
+      if (round !== state.round || state.phase !== 'setting') return reject('This is not the round being played');
+      if (seat !== setterSeat) return reject('It is not your turn to set the word');
+      if (!/^[a-z]{3,12}$/.test(word)) return reject('Word must be 3-12 letters');
+      if (secret && !hangmanFinished(secret)) {
+        return reject(current ? 'The word for this round is already set' : 'The last round is not over yet');
+      }
+      return { secret: { round, word, guessed: [] }, reply: { wordLength: word.length } };
+    }
+    case 'guess': {
+      const letter = String(request.letter || '');
+      if (!current) return reject('No word has been set this round');
+      if (seat === setterSeat) return reject('The setter cannot guess');
+      if (!/^[a-z]$/.test(letter)) return reject('Invalid letter');
+
+      if (hangmanFinished(current)) return reject('The round is over');
+
+      const guessed = current.guessed as string[];
+      if (guessed.includes(letter)) return reject('You already guessed that letter');
+
+      const nextGuessed = [...guessed, letter];
+      return { secret: { ...current, guessed: nextGuessed }, reply: hangmanView(String(current.word), nextGuessed) };
+    }
+    default:
+      return reject(`Unknown request: ${request.type}`);
+  }
+};
+
+export const SECRET_HANDLERS: Record<string, SecretHandler> = {
+  quizbattle,
+  drawing,
+  hangman,
+};
@@ -0,0 +1,120 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ScoreRequest {
+  gameType: string;
+  score: number;
+  difficulty?: string | null;
+  playerName?: string;
+  details?: string;
+}
+
+// The highest score each game's own scoring can produce, with room to spare.
+// Anything above it was not earned by playing. Games whose rounds get shorter
+// with difficulty have a limit per difficulty
+const SCORE_LIMITS: Record<string, number | Record<string, number>> = {
+  // 60 seconds at a word every 1.5s: 20 points plus 2 per streak word
+  'word-scramble': 3000,
+  // 10 points per colour in the pattern, summed over rounds up to 30 long
+  'pattern-memory': 5000,
+  // Two answers a second, each 10 points plus 2 per streak, for 40 seconds on
+  // Easy, 30 on Medium and 20 on Hard: 7120, 4140 and 1960 points at most
+  'color-match': { easy: 8000, medium: 5000, hard: 2500 },
+  // 30 seconds; points grow with streak and difficulty
+  'math-challenge': 6000,
+  // 100 points per attempt left out of 7
+  'number-guess': 700,
+  // 30 seconds at 3 hits a second, 10 points per hit
+  'aim-trainer': 1500,
+  // 1000 minus the reaction time; nobody reacts in under 100ms
+  'reaction-time': 900,
+  // Every cell of the 15x15 board eaten at double points
+  'snake-game': 4500,
+  // Words per minute times accuracy
+  'typing-speed': 250,
+  // 1000 minus time and moves; at least 6 moves
+  'memory-match': 940,
+};
+
+// Games with an Easy/Medium/Hard setting get a board per difficulty
+const DIFFICULTY_GAMES = ['word-scramble', 'pattern-memory', 'color-match', 'aim-trainer', 'snake-game', 'typing-speed'];
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+// A round of the quickest game takes a few seconds; faster submissions are scripted
+const MIN_SUBMIT_INTERVAL = 3 * 1000;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { gameType, score, difficulty = null, playerName, details }: ScoreRequest = await req.json();
+
+    const limits = SCORE_LIMITS[gameType];
+    if (limits === undefined) return json({ error: `${gameType} has no global leaderboard` }, 400);
+    if (!Number.isInteger(score) || score < 0) return json({ error: 'Invalid score' }, 400);
+    if (DIFFICULTY_GAMES.includes(gameType) ? !DIFFICULTIES.includes(difficulty ?? '') : difficulty !== null) {
+      return json({ error: 'Invalid difficulty' }, 400);
+    }
+    const limit = typeof limits === 'number' ? limits : limits[difficulty ?? ''];
+    if (score > limit) return json({ error: 'That score is not possible in this game' }, 422);
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Scores belong to the auth user making the request, never to an id in the body
+    const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) return json({ error: 'Sign in required' }, 401);
+
+    const { data: last, error: lastError } = await supabase
+      .from('leaderboard_entries')
+      .select('created_at')
+      .eq('user_id', user.id)
+      .eq('game_type', gameType)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lastError) throw lastError;
+    if (last && Date.now() - new Date(last.created_at).getTime() < MIN_SUBMIT_INTERVAL) {
+      return json({ error: 'Scores are coming in too fast' }, 429);
+    }
+
+    const { data: entry, error } = await supabase
+      .from('leaderboard_entries')
+      .insert({
+        user_id: user.id,
+        player_name: String(playerName || '').trim().slice(0, 30) || 'Anonymous',
+        game_type: gameType,
+        difficulty,
+        score,
+        details: details ? String(details).slice(0, 100) : null,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    console.log(`Recorded ${gameType} score ${score} for ${user.id}`);
+    return json({ id: entry.id });
+  } catch (error) {
+    console.error('Error submitting score:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,156 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { RESULT_READERS, type MatchResult } from "./results.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface TournamentRequest {
+  op: 'register' | 'report';
+  /** register: the tournament to enter */
+  tournamentId?: string;
+  playerName?: string;
+  /** report: the room whose match just finished */
+  roomId?: string;
+}
+
+// Everyone who finishes a match gets something, so playing more always helps
+const MATCH_POINTS: Record<MatchResult, number> = { win: 30, draw: 15, loss: 5 };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Room bookkeeping is stored next to the game state; see game-action
+const stripRoomMeta = (gameState: Record<string, unknown>) => {
+  const { hostId, hostName, lobby, hostSeat, leftSeats, bots, ...state } = gameState || {};
+  return state;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { op, tournamentId, playerName, roomId }: TournamentRequest = await req.json();
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Entries belong to the auth user making the request, never to an id in the body
+    const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) return json({ error: 'Sign in required' }, 401);
+
+    if (op === 'register') {
+      const { data: tournament, error: loadError } = await supabase
+        .from('tournaments')
+        .select('*')
+        .eq('id', tournamentId)
+        .maybeSingle();
+
+      if (loadError) throw loadError;
+      if (!tournament) return json({ error: 'Tournament not found' }, 404);
+      const now = Date.now();
+      if (now < new Date(tournament.start_date).getTime()) return json({ error: 'This tournament has not started yet' }, 409);
+      if (now >= new Date(tournament.end_date).getTime()) return json({ error: 'This tournament has ended' }, 409);
+
+      const { data: existing, error: existingError } = await supabase
+        .from('tournament_entries')
+        .select('*')
+        .eq('tournament_id', tournament.id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existing) return json({ entry: existing });
+
+      const { count, error: countError } = await supabase
+        .from('tournament_entries')
+        .select('id', { count: 'exact', head: true })
+        .eq('tournament_id', tournament.id);
+
+      if (countError) throw countError;
+      if ((count ?? 0) >= tournament.max_participants) return json({ error: 'This tournament is full' }, 409);
+
+      const { data: entry, error } = await supabase
+        .from('tournament_entries')
+        .insert({
+          tournament_id: tournament.id,
+          user_id: user.id,
+          player_name: String(playerName || '').trim().slice(0, 30) || 'Anonymous',
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      console.log(`${user.id} entered tournament ${tournament.name}`);
+      return json({ entry });
+    }
+
+    if (op === 'report') {
+      const { data: room, error: roomError } = await supabase
+        .from('game_rooms')
+        .select('*')
+        .eq('id', roomId)
+        .maybeSingle();
+
+      if (roomError) throw roomError;
+      if (!room) return json({ error: 'Room not found' }, 404);
+
+      const seat = (room.player_ids ?? []).indexOf(user.id);
+      if (seat === -1) return json({ error: 'You are not a player in this room' }, 403);
+
+      const readResult = RESULT_READERS[room.game_type];
+      if (!readResult || room.player_count < 2) return json({ recorded: false });
+      // Games against bots are practice; only matches between people count
+      if (((room.game_state as Record<string, unknown>)?.bots as unknown[] | undefined)?.length) {
+        return json({ recorded: false });
+      }
+
+      const now = new Date().toISOString();
+      const { data: tournament, error: tournamentError } = await supabase
+        .from('tournaments')
+        .select('id')
+        .eq('game_type', room.game_type)
+        .lte('start_date', now)
+        .gt('end_date', now)
+        .maybeSingle();
+
+      if (tournamentError) throw tournamentError;
+      if (!tournament) return json({ recorded: false });
+
+      // The final move may still be being saved, so the game may not look finished yet
+      const outcome = readResult(stripRoomMeta(room.game_state as Record<string, unknown>), seat);
+      if (!outcome) return json({ recorded: false, finished: false });
+
+      const points = MATCH_POINTS[outcome.result];
+      const { data: recorded, error } = await supabase.rpc('record_tournament_match', {
+        _tournament_id: tournament.id,
+        _room_id: room.id,
+        _match_key: outcome.matchKey,
+        _user_id: user.id,
+        _result: outcome.result,
+        _points: points,
+      });
+
+      if (error) throw error;
+      if (recorded) console.log(`Tournament ${outcome.result} for ${user.id} in ${room.game_type} room ${room.room_code}`);
+      return json({ recorded, result: outcome.result, points });
+    }
+
+    return json({ error: `Unknown op: ${op}` }, 400);
+  } catch (error) {
+    console.error('Error handling tournament request:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,58 @@
+// Read a finished match's result for one seat out of the room's saved game
+// state, so players can't report results of their own. Only games whose moves
+// the game-action function checks (GAME_RULES in ../game-action/rules.ts) are
+// read: players save every other game's state themselves. Each game keeps its
+// own state shape; see the reducers in src/components/games.
+
+type State = Record<string, unknown>;
+
+export type MatchResult = 'win' | 'loss' | 'draw';
+
+export interface MatchOutcome {
+  /**
+   * Identifies the match within its room: the gameNumber the game-action
+   * function gives each finished game, so rooms that play again report each match once
+   */
+  matchKey: string;
+  result: MatchResult;
+}
+
+/** `null` while the match in `state` is still being played */
+export type ResultReader = (state: State, seat: number) => MatchOutcome | null;
+
+const gameKey = (state: State) => String(state.gameNumber ?? 0);
+
+// The host plays X from seat 0; each round in the room is its own match
+const tictactoe: ResultReader = (state, seat) => {
+  if (!state.winner && !state.isDraw) return null;
+  const result = state.isDraw ? 'draw' : state.winner === (seat === 0 ? 'X' : 'O') ? 'win' : 'loss';
+  return { matchKey: gameKey(state), result };
+};
+
+const wordchain: ResultReader = (state, seat) => {
+  if (state.status !== 'ended') return null;
+  const players = state.players as string[];
+  const result = !state.winner ? 'draw' : state.winner === players[seat] ? 'win' : 'loss';
+  return { matchKey: gameKey(state), result };
+};
+
+// Seat 0 plays red; like Tic Tac Toe, each round in the room is its own match
+const connect4: ResultReader = (state, seat) => {
+  if (!state.winner && !state.isDraw) return null;
+  const result = state.isDraw ? 'draw' : state.winner === (seat === 0 ? 'red' : 'yellow') ? 'win' : 'loss';
+  return { matchKey: gameKey(state), result };
+};
+
+const rps: ResultReader = (state, seat) => {
+  if (!state.finished) return null;
+  const scores = state.scores as [number, number];
+  const result = scores[0] === scores[1] ? 'draw' : scores[seat] > scores[1 - seat] ? 'win' : 'loss';
+  return { matchKey: gameKey(state), result };
+};
+
+export const RESULT_READERS: Record<string, ResultReader> = {
+  tictactoe,
+  connect4,
+  rps,
+  wordchain,
+};
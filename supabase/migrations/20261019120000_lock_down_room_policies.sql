@@ -0,0 +1,89 @@
+-- Per-room membership for game_rooms and chat_messages.
+--
+-- Players are identified by their Supabase Auth user id (an anonymous sign-in
+-- is enough). The host is recorded on the row and every seated player is in
+-- player_ids; seats are handed out by the game-action edge function, which
+-- runs with the service role.
+
+ALTER TABLE public.game_rooms
+    ADD COLUMN host_id uuid DEFAULT auth.uid(),
+    ADD COLUMN player_ids uuid[] DEFAULT ARRAY[]::uuid[] NOT NULL;
+
+CREATE INDEX idx_game_rooms_player_ids ON public.game_rooms USING gin (player_ids);
+
+
+--
+-- Name: is_room_member(uuid); Type: FUNCTION; Schema: public; Owner: -
+--
+
+CREATE FUNCTION public.is_room_member(_room_id uuid) RETURNS boolean
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.game_rooms
+    WHERE id = _room_id AND auth.uid() = ANY (player_ids)
+  );
+$$;
+
+
+--
+-- Name: protect_room_membership(); Type: FUNCTION; Schema: public; Owner: -
+--
+
+-- Members may update the game, but only the server may change who is in it
+CREATE FUNCTION public.protect_room_membership() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF auth.role() <> 'service_role'
+     AND (NEW.host_id IS DISTINCT FROM OLD.host_id
+          OR NEW.player_ids IS DISTINCT FROM OLD.player_ids
+          OR NEW.player_count IS DISTINCT FROM OLD.player_count) THEN
+    RAISE EXCEPTION 'Room membership can only be changed by the server';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_game_rooms_membership BEFORE UPDATE ON public.game_rooms FOR EACH ROW EXECUTE FUNCTION public.protect_room_membership();
+
+
+--
+-- game_rooms policies
+--
+
+DROP POLICY "Anyone can create game rooms" ON public.game_rooms;
+DROP POLICY "Anyone can update game rooms" ON public.game_rooms;
+DROP POLICY "Anyone can delete game rooms" ON public.game_rooms;
+
+-- Room codes are looked up before joining, so rooms stay readable
+CREATE POLICY "Players can create their own rooms" ON public.game_rooms FOR INSERT TO authenticated
+    WITH CHECK (host_id = auth.uid() AND player_ids = ARRAY[auth.uid()] AND player_count = 1);
+
+CREATE POLICY "Members can update their room" ON public.game_rooms FOR UPDATE TO authenticated
+    USING (auth.uid() = ANY (player_ids))
+    WITH CHECK (auth.uid() = ANY (player_ids));
+
+CREATE POLICY "Hosts can delete their room" ON public.game_rooms FOR DELETE TO authenticated
+    USING (host_id = auth.uid());
+
+
+--
+-- chat_messages policies
+--
+
+DROP POLICY "Anyone can insert chat messages" ON public.chat_messages;
+DROP POLICY "Anyone can read chat messages" ON public.chat_messages;
+DROP POLICY "Anyone can update chat messages" ON public.chat_messages;
+
+CREATE POLICY "Room members can read chat" ON public.chat_messages FOR SELECT TO authenticated
+    USING (public.is_room_member(room_id));
+
+CREATE POLICY "Room members can send chat" ON public.chat_messages FOR INSERT TO authenticated
+    WITH CHECK (public.is_room_member(room_id));
+
+CREATE POLICY "Room members can update chat" ON public.chat_messages FOR UPDATE TO authenticated
+    USING (public.is_room_member(room_id))
+    WITH CHECK (public.is_room_member(room_id));
@@ -0,0 +1,73 @@
+-- Quick-match queue.
+--
+-- A player who finds nobody to play creates an ordinary room and waits in the
+-- queue with it. The next player looking for the same game claims the oldest
+-- matching entry and joins that room by its code, so matched players go
+-- through the same join path (and game-action seat assignment) as invites.
+
+
+--
+-- Name: matchmaking_queue; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.matchmaking_queue (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid DEFAULT auth.uid() NOT NULL,
+    game_type text NOT NULL,
+    room_id uuid NOT NULL,
+    room_code text NOT NULL,
+    skill integer DEFAULT 1 NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.matchmaking_queue
+    ADD CONSTRAINT matchmaking_queue_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.matchmaking_queue
+    ADD CONSTRAINT matchmaking_queue_room_id_fkey FOREIGN KEY (room_id) REFERENCES public.game_rooms(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_matchmaking_queue_game_type ON public.matchmaking_queue USING btree (game_type, created_at);
+
+ALTER TABLE public.matchmaking_queue ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only read through claim_quick_match, never listed directly
+CREATE POLICY "Hosts can queue their own room" ON public.matchmaking_queue FOR INSERT TO authenticated
+    WITH CHECK (
+        user_id = auth.uid()
+        AND EXISTS (SELECT 1 FROM public.game_rooms WHERE id = room_id AND host_id = auth.uid())
+    );
+
+CREATE POLICY "Players can leave the queue" ON public.matchmaking_queue FOR DELETE TO authenticated
+    USING (user_id = auth.uid());
+
+
+--
+-- Name: claim_quick_match(text, integer, integer); Type: FUNCTION; Schema: public; Owner: -
+--
+
+-- Take the oldest waiting opponent for a game, optionally within a skill band.
+-- SKIP LOCKED lets two players searching at once claim different entries.
+CREATE FUNCTION public.claim_quick_match(_game_type text, _skill integer, _skill_band integer DEFAULT NULL) RETURNS text
+    LANGUAGE sql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  DELETE FROM public.matchmaking_queue
+  WHERE id = (
+    SELECT q.id
+    FROM public.matchmaking_queue q
+    JOIN public.game_rooms r ON r.id = q.room_id
+    WHERE q.game_type = _game_type
+      AND q.user_id <> auth.uid()
+      AND r.status = 'waiting'
+      AND r.player_count < r.max_players
+      AND q.created_at > now() - interval '2 minutes'
+      AND (_skill_band IS NULL OR abs(q.skill - _skill) <= _skill_band)
+    ORDER BY q.created_at
+    LIMIT 1
+    FOR UPDATE OF q SKIP LOCKED
+  )
+  RETURNING room_code;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_quick_match(text, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_quick_match(text, integer, integer) TO authenticated;
@@ -0,0 +1,76 @@
+-- Automatic cleanup of abandoned rooms.
+--
+-- Closing the tab never reaches leaveRoom, so rooms used to stay in the
+-- browser forever. Connected players now send a heartbeat every 30 seconds;
+-- a pg_cron job ends matches and drops lobbies nobody has been connected to
+-- for five minutes, and deletes rooms that have not changed in a day.
+
+ALTER TABLE public.game_rooms
+    ADD COLUMN last_seen_at timestamp with time zone DEFAULT now() NOT NULL,
+    ADD COLUMN host_seen_at timestamp with time zone DEFAULT now() NOT NULL;
+
+CREATE INDEX idx_game_rooms_status_last_seen_at ON public.game_rooms USING btree (status, last_seen_at);
+
+-- Heartbeats only touch the *_seen_at columns; they should not count as activity
+DROP TRIGGER update_game_rooms_updated_at ON public.game_rooms;
+
+CREATE TRIGGER update_game_rooms_updated_at BEFORE UPDATE ON public.game_rooms FOR EACH ROW
+    WHEN (NEW.last_seen_at IS NOT DISTINCT FROM OLD.last_seen_at)
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+
+--
+-- Name: room_heartbeat(uuid); Type: FUNCTION; Schema: public; Owner: -
+--
+
+CREATE FUNCTION public.room_heartbeat(_room_id uuid) RETURNS void
+    LANGUAGE sql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  UPDATE public.game_rooms
+  SET last_seen_at = now(),
+      host_seen_at = CASE WHEN host_id = auth.uid() THEN now() ELSE host_seen_at END
+  WHERE id = _room_id
+    AND auth.uid() = ANY (player_ids)
+    AND status <> 'ended';
+$$;
+
+REVOKE ALL ON FUNCTION public.room_heartbeat(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.room_heartbeat(uuid) TO authenticated;
+
+
+--
+-- Name: cleanup_stale_rooms(); Type: FUNCTION; Schema: public; Owner: -
+--
+
+CREATE FUNCTION public.cleanup_stale_rooms() RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  -- Matches everyone has walked away from
+  UPDATE public.game_rooms
+  SET status = 'ended'
+  WHERE status = 'playing' AND last_seen_at < now() - interval '5 minutes';
+
+  -- Lobbies nobody is waiting in any more
+  DELETE FROM public.game_rooms
+  WHERE status = 'waiting' AND last_seen_at < now() - interval '5 minutes';
+
+  -- Finished games, and anything that has not changed in a day
+  DELETE FROM public.game_rooms
+  WHERE (status = 'ended' AND updated_at < now() - interval '1 hour')
+     OR updated_at < now() - interval '24 hours';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cleanup_stale_rooms() FROM PUBLIC, anon, authenticated;
+
+
+--
+-- Scheduled cleanup
+--
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('cleanup-stale-rooms', '*/5 * * * *', 'SELECT public.cleanup_stale_rooms()');
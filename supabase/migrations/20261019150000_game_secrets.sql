@@ -0,0 +1,29 @@
+-- Server-held game secrets.
+--
+-- Quiz answers, drawing words and hangman words used to sit in game_state,
+-- where every player (and spectator) could read them. They now live here,
+-- read and written only by the game-action edge function with the service
+-- role; players get back just the view they are allowed to see.
+
+
+--
+-- Name: game_secrets; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.game_secrets (
+    room_id uuid NOT NULL,
+    secret jsonb DEFAULT '{}'::jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.game_secrets
+    ADD CONSTRAINT game_secrets_pkey PRIMARY KEY (room_id);
+
+ALTER TABLE ONLY public.game_secrets
+    ADD CONSTRAINT game_secrets_room_id_fkey FOREIGN KEY (room_id) REFERENCES public.game_rooms(id) ON DELETE CASCADE;
+
+CREATE TRIGGER update_game_secrets_updated_at BEFORE UPDATE ON public.game_secrets FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- No policies: clients can neither read nor write secrets
+ALTER TABLE public.game_secrets ENABLE ROW LEVEL SECURITY;
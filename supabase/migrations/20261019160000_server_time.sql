@@ -0,0 +1,18 @@
+-- Server clock for turn timers.
+--
+-- Turn deadlines are stored in game_state as absolute server timestamps.
+-- Clients call server_time() to estimate how far their own clock is off, so
+-- every player counts down to the same moment.
+
+
+--
+-- Name: server_time(); Type: FUNCTION; Schema: public; Owner: -
+--
+
+CREATE FUNCTION public.server_time() RETURNS timestamp with time zone
+    LANGUAGE sql STABLE
+    AS $$
+  SELECT now();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.server_time() TO anon, authenticated;
@@ -0,0 +1,51 @@
+-- Cloud profiles for signed-in players.
+--
+-- Profiles used to live only in localStorage under a made-up id, so clearing
+-- the browser lost them and they couldn't follow a player to another device.
+-- Players who sign in with a magic link or OAuth now keep their profile here,
+-- keyed by their auth user. Anonymous sessions (used to join rooms) don't get
+-- one; their profile stays local until they sign in and upload it.
+
+
+--
+-- Name: profiles; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.profiles (
+    id uuid NOT NULL,
+    username text NOT NULL,
+    display_name text DEFAULT ''::text NOT NULL,
+    avatar text DEFAULT ''::text NOT NULL,
+    level integer DEFAULT 1 NOT NULL,
+    xp integer DEFAULT 0 NOT NULL,
+    total_games integer DEFAULT 0 NOT NULL,
+    total_wins integer DEFAULT 0 NOT NULL,
+    badges text[] DEFAULT '{}'::text[] NOT NULL,
+    join_date timestamp with time zone DEFAULT now() NOT NULL,
+    last_active timestamp with time zone DEFAULT now() NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT profiles_display_name_length CHECK (char_length(display_name) <= 20),
+    CONSTRAINT profiles_progress_check CHECK (level >= 1 AND xp >= 0 AND total_games >= 0 AND total_wins >= 0)
+);
+
+ALTER TABLE ONLY public.profiles
+    ADD CONSTRAINT profiles_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.profiles
+    ADD CONSTRAINT profiles_id_fkey FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE TRIGGER update_profiles_updated_at BEFORE UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+-- Anonymous sign-ins are authenticated too, so they are excluded explicitly
+CREATE POLICY "Users can view their own profile" ON public.profiles FOR SELECT TO authenticated
+    USING (id = auth.uid());
+
+CREATE POLICY "Signed-in users can create their profile" ON public.profiles FOR INSERT TO authenticated
+    WITH CHECK (id = auth.uid() AND (auth.jwt() ->> 'is_anonymous')::boolean IS NOT TRUE);
+
+CREATE POLICY "Users can update their own profile" ON public.profiles FOR UPDATE TO authenticated
+    USING (id = auth.uid())
+    WITH CHECK (id = auth.uid() AND (auth.jwt() ->> 'is_anonymous')::boolean IS NOT TRUE);
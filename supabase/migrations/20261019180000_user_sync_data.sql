@@ -0,0 +1,41 @@
+-- Cloud copies of each signed-in player's local progress.
+--
+-- Stats, game history, achievements, currency, challenge streaks and
+-- tournament entries are still written to localStorage first so the app works
+-- offline. While a player is signed in, each localStorage key is mirrored to a
+-- row here and merged with the copy from their other devices.
+
+
+--
+-- Name: user_sync_data; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.user_sync_data (
+    user_id uuid NOT NULL,
+    key text NOT NULL,
+    value jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT user_sync_data_key_length CHECK (char_length(key) <= 64)
+);
+
+ALTER TABLE ONLY public.user_sync_data
+    ADD CONSTRAINT user_sync_data_pkey PRIMARY KEY (user_id, key);
+
+ALTER TABLE ONLY public.user_sync_data
+    ADD CONSTRAINT user_sync_data_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE TRIGGER update_user_sync_data_updated_at BEFORE UPDATE ON public.user_sync_data FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.user_sync_data ENABLE ROW LEVEL SECURITY;
+
+-- Same rule as profiles: anonymous room sessions don't get cloud storage
+CREATE POLICY "Users can view their own synced data" ON public.user_sync_data FOR SELECT TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Signed-in users can add synced data" ON public.user_sync_data FOR INSERT TO authenticated
+    WITH CHECK (user_id = auth.uid() AND (auth.jwt() ->> 'is_anonymous')::boolean IS NOT TRUE);
+
+CREATE POLICY "Users can update their own synced data" ON public.user_sync_data FOR UPDATE TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid() AND (auth.jwt() ->> 'is_anonymous')::boolean IS NOT TRUE);
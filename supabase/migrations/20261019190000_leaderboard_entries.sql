@@ -0,0 +1,85 @@
+-- Global leaderboards.
+--
+-- The Leaderboard dialog used to show only the scores kept in this browser.
+-- Single-player scores are now also sent to the submit-score edge function,
+-- which checks that they are possible for the game and stores them here.
+-- Players can't write this table directly; everyone can read it.
+--
+-- The daily, weekly and all-time views keep each player's best score per game
+-- and difficulty in that period and rank it. Days and weeks are in UTC.
+
+
+--
+-- Name: leaderboard_entries; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.leaderboard_entries (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    player_name text NOT NULL,
+    game_type text NOT NULL,
+    difficulty text,
+    score integer NOT NULL,
+    details text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT leaderboard_entries_difficulty_check CHECK (difficulty IN ('easy', 'medium', 'hard')),
+    CONSTRAINT leaderboard_entries_score_check CHECK (score >= 0)
+);
+
+ALTER TABLE ONLY public.leaderboard_entries
+    ADD CONSTRAINT leaderboard_entries_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.leaderboard_entries
+    ADD CONSTRAINT leaderboard_entries_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_leaderboard_entries_board ON public.leaderboard_entries USING btree (game_type, difficulty, score DESC);
+
+CREATE INDEX idx_leaderboard_entries_user ON public.leaderboard_entries USING btree (user_id, game_type, created_at DESC);
+
+ALTER TABLE public.leaderboard_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view leaderboard entries" ON public.leaderboard_entries FOR SELECT TO anon, authenticated
+    USING (true);
+
+
+--
+-- Name: leaderboard_all_time; Type: VIEW; Schema: public; Owner: -
+--
+
+CREATE VIEW public.leaderboard_all_time WITH (security_invoker = true) AS
+SELECT best.*, rank() OVER (PARTITION BY best.game_type, best.difficulty ORDER BY best.score DESC) AS rank
+FROM (
+    SELECT DISTINCT ON (user_id, game_type, difficulty) id, user_id, player_name, game_type, difficulty, score, details, created_at
+    FROM public.leaderboard_entries
+    ORDER BY user_id, game_type, difficulty, score DESC, created_at
+) best;
+
+
+--
+-- Name: leaderboard_weekly; Type: VIEW; Schema: public; Owner: -
+--
+
+CREATE VIEW public.leaderboard_weekly WITH (security_invoker = true) AS
+SELECT best.*, rank() OVER (PARTITION BY best.game_type, best.difficulty ORDER BY best.score DESC) AS rank
+FROM (
+    SELECT DISTINCT ON (user_id, game_type, difficulty) id, user_id, player_name, game_type, difficulty, score, details, created_at
+    FROM public.leaderboard_entries
+    WHERE created_at >= date_trunc('week', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc'
+    ORDER BY user_id, game_type, difficulty, score DESC, created_at
+) best;
+
+
+--
+-- Name: leaderboard_daily; Type: VIEW; Schema: public; Owner: -
+--
+
+CREATE VIEW public.leaderboard_daily WITH (security_invoker = true) AS
+SELECT best.*, rank() OVER (PARTITION BY best.game_type, best.difficulty ORDER BY best.score DESC) AS rank
+FROM (
+    SELECT DISTINCT ON (user_id, game_type, difficulty) id, user_id, player_name, game_type, difficulty, score, details, created_at
+    FROM public.leaderboard_entries
+    WHERE created_at >= date_trunc('day', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc'
+    ORDER BY user_id, game_type, difficulty, score DESC, created_at
+) best;
+
+GRANT SELECT ON public.leaderboard_all_time, public.leaderboard_weekly, public.leaderboard_daily TO anon, authenticated;
@@ -0,0 +1,233 @@
+-- Weekly tournaments shared by every player.
+--
+-- Tournaments used to be generated in each browser, so the standings only ever
+-- held the local player. There is now one tournament per week (Monday to
+-- Monday, UTC) for a rotating online game. Players register through the
+-- tournament edge function, which also scores their finished matches in that
+-- game from the room's saved state. When a tournament ends, the top three get
+-- its prize badge on their profile.
+
+
+--
+-- Name: tournaments; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.tournaments (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    name text NOT NULL,
+    game_type text NOT NULL,
+    tier text NOT NULL,
+    prize text NOT NULL,
+    start_date timestamp with time zone NOT NULL,
+    end_date timestamp with time zone NOT NULL,
+    max_participants integer DEFAULT 100 NOT NULL,
+    finalized_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT tournaments_tier_check CHECK (tier IN ('bronze', 'silver', 'gold', 'platinum')),
+    CONSTRAINT tournaments_dates_check CHECK (end_date > start_date)
+);
+
+ALTER TABLE ONLY public.tournaments
+    ADD CONSTRAINT tournaments_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.tournaments
+    ADD CONSTRAINT tournaments_start_date_key UNIQUE (start_date);
+
+ALTER TABLE public.tournaments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tournaments" ON public.tournaments FOR SELECT TO anon, authenticated
+    USING (true);
+
+
+--
+-- Name: tournament_entries; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.tournament_entries (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    tournament_id uuid NOT NULL,
+    user_id uuid NOT NULL,
+    player_name text NOT NULL,
+    score integer DEFAULT 0 NOT NULL,
+    games_played integer DEFAULT 0 NOT NULL,
+    wins integer DEFAULT 0 NOT NULL,
+    final_rank integer,
+    joined_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.tournament_entries
+    ADD CONSTRAINT tournament_entries_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.tournament_entries
+    ADD CONSTRAINT tournament_entries_tournament_id_user_id_key UNIQUE (tournament_id, user_id);
+
+ALTER TABLE ONLY public.tournament_entries
+    ADD CONSTRAINT tournament_entries_tournament_id_fkey FOREIGN KEY (tournament_id) REFERENCES public.tournaments(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.tournament_entries
+    ADD CONSTRAINT tournament_entries_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_tournament_entries_standings ON public.tournament_entries USING btree (tournament_id, score DESC);
+
+ALTER TABLE public.tournament_entries ENABLE ROW LEVEL SECURITY;
+
+-- Standings are public; entries are only written by the edge function
+CREATE POLICY "Anyone can view tournament entries" ON public.tournament_entries FOR SELECT TO anon, authenticated
+    USING (true);
+
+-- Live standings
+ALTER TABLE public.tournament_entries REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tournament_entries;
+
+
+--
+-- Name: tournament_matches; Type: TABLE; Schema: public; Owner: -
+--
+
+-- One row per player per scored match, so a match can't be counted twice.
+-- Rooms are deleted after a while, so room_id is not a foreign key
+CREATE TABLE public.tournament_matches (
+    tournament_id uuid NOT NULL,
+    room_id uuid NOT NULL,
+    match_key text NOT NULL,
+    user_id uuid NOT NULL,
+    result text NOT NULL,
+    points integer NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT tournament_matches_result_check CHECK (result IN ('win', 'loss', 'draw'))
+);
+
+ALTER TABLE ONLY public.tournament_matches
+    ADD CONSTRAINT tournament_matches_pkey PRIMARY KEY (tournament_id, room_id, match_key, user_id);
+
+ALTER TABLE ONLY public.tournament_matches
+    ADD CONSTRAINT tournament_matches_tournament_id_fkey FOREIGN KEY (tournament_id) REFERENCES public.tournaments(id) ON DELETE CASCADE;
+
+ALTER TABLE public.tournament_matches ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: record_tournament_match(uuid, uuid, text, uuid, text, integer); Type: FUNCTION; Schema: public; Owner: -
+--
+
+-- Returns false when the player has no entry or the match was already counted
+CREATE FUNCTION public.record_tournament_match(_tournament_id uuid, _room_id uuid, _match_key text, _user_id uuid, _result text, _points integer) RETURNS boolean
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.tournament_entries WHERE tournament_id = _tournament_id AND user_id = _user_id) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.tournament_matches (tournament_id, room_id, match_key, user_id, result, points)
+  VALUES (_tournament_id, _room_id, _match_key, _user_id, _result, _points)
+  ON CONFLICT DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.tournament_entries
+  SET score = score + _points,
+      games_played = games_played + 1,
+      wins = wins + (CASE WHEN _result = 'win' THEN 1 ELSE 0 END)
+  WHERE tournament_id = _tournament_id AND user_id = _user_id;
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_tournament_match(uuid, uuid, text, uuid, text, integer) FROM PUBLIC, anon, authenticated;
+
+
+--
+-- Name: finalize_tournaments(); Type: FUNCTION; Schema: public; Owner: -
+--
+
+-- Rank the ended tournaments and award their prize badges to the top three
+-- players who played at least one match
+CREATE FUNCTION public.finalize_tournaments() RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  t public.tournaments;
+BEGIN
+  FOR t IN
+    SELECT * FROM public.tournaments
+    WHERE end_date <= now() AND finalized_at IS NULL
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.tournament_entries e
+    SET final_rank = ranked.final_rank
+    FROM (
+      SELECT id, rank() OVER (ORDER BY score DESC, wins DESC) AS final_rank
+      FROM public.tournament_entries
+      WHERE tournament_id = t.id AND games_played > 0
+    ) ranked
+    WHERE e.id = ranked.id;
+
+    UPDATE public.profiles p
+    SET badges = array_append(p.badges, t.prize)
+    FROM public.tournament_entries e
+    WHERE e.tournament_id = t.id
+      AND e.final_rank <= 3
+      AND p.id = e.user_id
+      AND NOT (t.prize = ANY (p.badges));
+
+    UPDATE public.tournaments SET finalized_at = now() WHERE id = t.id;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.finalize_tournaments() FROM PUBLIC, anon, authenticated;
+
+
+--
+-- Name: current_tournament(); Type: FUNCTION; Schema: public; Owner: -
+--
+
+-- This week's tournament, created by the first player to ask for it. The game
+-- and tier rotate with the week number
+CREATE FUNCTION public.current_tournament() RETURNS public.tournaments
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  week_start timestamp with time zone := date_trunc('week', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc';
+  week_number integer := floor(extract(epoch FROM week_start) / 604800)::integer;
+  game text := (ARRAY['tictactoe', 'mathbattle', 'drawing', 'wordchain', 'quizbattle'])[week_number % 5 + 1];
+  game_name text := (ARRAY['Tic Tac Toe', 'Math Battle', 'Drawing', 'Word Chain', 'Quiz Battle'])[week_number % 5 + 1];
+  tier text := (ARRAY['bronze', 'silver', 'gold', 'platinum'])[(week_number / 4) % 4 + 1];
+  result public.tournaments;
+BEGIN
+  PERFORM public.finalize_tournaments();
+
+  INSERT INTO public.tournaments (name, game_type, tier, prize, start_date, end_date)
+  VALUES (
+    game_name || ' Championship',
+    game,
+    tier,
+    CASE tier
+      WHEN 'platinum' THEN '🏆 Legendary Badge'
+      WHEN 'gold' THEN '🥇 Gold Badge'
+      WHEN 'silver' THEN '🥈 Silver Badge'
+      ELSE '🥉 Bronze Badge'
+    END,
+    week_start,
+    week_start + interval '7 days'
+  )
+  ON CONFLICT (start_date) DO NOTHING;
+
+  SELECT * INTO result FROM public.tournaments WHERE start_date = week_start;
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_tournament() TO anon, authenticated;
+
+
+--
+-- Scheduled prize awards, for weeks nobody opens the next tournament promptly
+--
+
+SELECT cron.schedule('finalize-tournaments', '5 * * * *', 'SELECT public.finalize_tournaments()');
@@ -0,0 +1,214 @@
+-- Single- and double-elimination bracket events for head-to-head games.
+--
+-- An organiser creates an event and players register for it. When the
+-- organiser starts it, the bracket edge function seeds the players and writes
+-- every match of the bracket up front, each knowing where its winner (and, in
+-- double elimination, its loser) goes next. Match results are read from the
+-- match's game room and recorded with finish_bracket_match, which moves the
+-- players on and settles byes automatically.
+
+
+--
+-- Name: bracket_events; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.bracket_events (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    name text NOT NULL,
+    game_type text NOT NULL,
+    format text DEFAULT 'single' NOT NULL,
+    organiser_id uuid NOT NULL,
+    organiser_name text NOT NULL,
+    max_players integer DEFAULT 16 NOT NULL,
+    status text DEFAULT 'registration' NOT NULL,
+    champion_id uuid,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    started_at timestamp with time zone,
+    finished_at timestamp with time zone,
+    CONSTRAINT bracket_events_game_type_check CHECK (game_type IN ('tictactoe', 'connect4', 'rps', 'hangman')),
+    CONSTRAINT bracket_events_format_check CHECK (format IN ('single', 'double')),
+    CONSTRAINT bracket_events_status_check CHECK (status IN ('registration', 'running', 'finished')),
+    CONSTRAINT bracket_events_max_players_check CHECK (max_players BETWEEN 2 AND 64)
+);
+
+ALTER TABLE ONLY public.bracket_events
+    ADD CONSTRAINT bracket_events_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.bracket_events
+    ADD CONSTRAINT bracket_events_organiser_id_fkey FOREIGN KEY (organiser_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_bracket_events_created_at ON public.bracket_events USING btree (created_at DESC);
+
+ALTER TABLE public.bracket_events ENABLE ROW LEVEL SECURITY;
+
+-- Events, players and matches are public; they are only written by the edge function
+CREATE POLICY "Anyone can view bracket events" ON public.bracket_events FOR SELECT TO anon, authenticated
+    USING (true);
+
+
+--
+-- Name: bracket_players; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.bracket_players (
+    event_id uuid NOT NULL,
+    user_id uuid NOT NULL,
+    player_name text NOT NULL,
+    seed integer,
+    joined_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.bracket_players
+    ADD CONSTRAINT bracket_players_pkey PRIMARY KEY (event_id, user_id);
+
+ALTER TABLE ONLY public.bracket_players
+    ADD CONSTRAINT bracket_players_event_id_fkey FOREIGN KEY (event_id) REFERENCES public.bracket_events(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.bracket_players
+    ADD CONSTRAINT bracket_players_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.bracket_players ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view bracket players" ON public.bracket_players FOR SELECT TO anon, authenticated
+    USING (true);
+
+
+--
+-- Name: bracket_matches; Type: TABLE; Schema: public; Owner: -
+--
+
+-- `slots_filled` counts the two player slots as they are decided. A slot can
+-- be decided as empty (a bye, or a feeding match that had nobody to send), and
+-- a match with fewer than two players is won without being played.
+-- Rooms are ended and deleted by the stale room cleanup, so the edge function
+-- opens a new one whenever players come to play a match whose room is gone
+CREATE TABLE public.bracket_matches (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    event_id uuid NOT NULL,
+    bracket text NOT NULL,
+    round integer NOT NULL,
+    "position" integer NOT NULL,
+    player1_id uuid,
+    player2_id uuid,
+    slots_filled smallint DEFAULT 0 NOT NULL,
+    winner_id uuid,
+    walkover boolean DEFAULT false NOT NULL,
+    winner_to uuid,
+    winner_slot smallint,
+    loser_to uuid,
+    loser_slot smallint,
+    room_id uuid,
+    room_code text,
+    completed_at timestamp with time zone,
+    CONSTRAINT bracket_matches_bracket_check CHECK (bracket IN ('winners', 'losers', 'final')),
+    CONSTRAINT bracket_matches_slots_filled_check CHECK (slots_filled BETWEEN 0 AND 2)
+);
+
+ALTER TABLE ONLY public.bracket_matches
+    ADD CONSTRAINT bracket_matches_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.bracket_matches
+    ADD CONSTRAINT bracket_matches_event_id_bracket_round_position_key UNIQUE (event_id, bracket, round, "position");
+
+ALTER TABLE ONLY public.bracket_matches
+    ADD CONSTRAINT bracket_matches_event_id_fkey FOREIGN KEY (event_id) REFERENCES public.bracket_events(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.bracket_matches
+    ADD CONSTRAINT bracket_matches_winner_to_fkey FOREIGN KEY (winner_to) REFERENCES public.bracket_matches(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.bracket_matches
+    ADD CONSTRAINT bracket_matches_loser_to_fkey FOREIGN KEY (loser_to) REFERENCES public.bracket_matches(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.bracket_matches
+    ADD CONSTRAINT bracket_matches_room_id_fkey FOREIGN KEY (room_id) REFERENCES public.game_rooms(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_bracket_matches_room_id ON public.bracket_matches USING btree (room_id);
+
+ALTER TABLE public.bracket_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view bracket matches" ON public.bracket_matches FOR SELECT TO anon, authenticated
+    USING (true);
+
+-- Live brackets
+ALTER TABLE public.bracket_events REPLICA IDENTITY FULL;
+ALTER TABLE public.bracket_players REPLICA IDENTITY FULL;
+ALTER TABLE public.bracket_matches REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bracket_events, public.bracket_players, public.bracket_matches;
+
+
+--
+-- Name: fill_bracket_slot(uuid, smallint, uuid); Type: FUNCTION; Schema: public; Owner: -
+--
+
+-- Decide one slot of a match; `_player` is null for an empty slot. Once both
+-- slots are decided, a match without two players is settled straight away
+CREATE FUNCTION public.fill_bracket_slot(_match_id uuid, _slot smallint, _player uuid) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  m public.bracket_matches;
+BEGIN
+  UPDATE public.bracket_matches
+  SET player1_id = CASE WHEN _slot = 1 THEN _player ELSE player1_id END,
+      player2_id = CASE WHEN _slot = 2 THEN _player ELSE player2_id END,
+      slots_filled = slots_filled + 1
+  WHERE id = _match_id
+  RETURNING * INTO m;
+
+  IF m.slots_filled = 2 AND (m.player1_id IS NULL OR m.player2_id IS NULL) THEN
+    PERFORM public.finish_bracket_match(m.id, coalesce(m.player1_id, m.player2_id), true);
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.fill_bracket_slot(uuid, smallint, uuid) FROM PUBLIC, anon, authenticated;
+
+
+--
+-- Name: finish_bracket_match(uuid, uuid, boolean); Type: FUNCTION; Schema: public; Owner: -
+--
+
+-- Record a match's winner and move both players on. Returns false when the
+-- match was already decided, so a result reported twice only counts once.
+-- When the losers' bracket champion wins the grand final, both players have
+-- lost once and the final is played again
+CREATE FUNCTION public.finish_bracket_match(_match_id uuid, _winner uuid, _walkover boolean DEFAULT false) RETURNS boolean
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  m public.bracket_matches;
+  loser uuid;
+BEGIN
+  UPDATE public.bracket_matches
+  SET winner_id = _winner, walkover = _walkover, completed_at = now()
+  WHERE id = _match_id
+    AND completed_at IS NULL
+    AND (_winner IS NULL OR _winner IN (player1_id, player2_id))
+  RETURNING * INTO m;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  loser := CASE WHEN _winner = m.player1_id THEN m.player2_id ELSE m.player1_id END;
+
+  IF m.bracket = 'final' AND m.round = 1 AND NOT _walkover AND _winner = m.player2_id THEN
+    INSERT INTO public.bracket_matches (event_id, bracket, round, "position", player1_id, player2_id, slots_filled)
+    VALUES (m.event_id, 'final', 2, 0, m.player1_id, m.player2_id, 2);
+  ELSIF m.winner_to IS NULL THEN
+    UPDATE public.bracket_events
+    SET status = 'finished', champion_id = _winner, finished_at = now()
+    WHERE id = m.event_id;
+  ELSE
+    PERFORM public.fill_bracket_slot(m.winner_to, m.winner_slot, _winner);
+  END IF;
+
+  IF m.loser_to IS NOT NULL THEN
+    PERFORM public.fill_bracket_slot(m.loser_to, m.loser_slot, loser);
+  END IF;
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.finish_bracket_match(uuid, uuid, boolean) FROM PUBLIC, anon, authenticated;
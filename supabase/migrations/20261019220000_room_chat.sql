@@ -0,0 +1,61 @@
+-- Room chat history and moderation.
+--
+-- chat_messages was shaped for a two-seat game (sender player1/player2). It
+-- now holds the chat of any room: a player's message records who sent it, so
+-- history can be loaded on join and attributed after a reload. Messages are
+-- written only by the chat edge function, which filters profanity, limits how
+-- fast a player can send and lets the room host remove messages. Removed
+-- messages are kept with deleted_at set so open chats drop them live.
+-- Players can report a message; reports are kept for review.
+
+
+--
+-- Name: chat_messages; Type: TABLE; Schema: public; Owner: -
+--
+
+UPDATE public.chat_messages SET sender = 'player' WHERE sender IN ('player1', 'player2');
+
+ALTER TABLE public.chat_messages
+    DROP CONSTRAINT chat_messages_sender_check,
+    ADD CONSTRAINT chat_messages_sender_check CHECK (sender IN ('system', 'player')),
+    ADD COLUMN sender_id uuid,
+    ADD COLUMN deleted_at timestamp with time zone;
+
+ALTER TABLE ONLY public.chat_messages
+    ADD CONSTRAINT chat_messages_sender_id_fkey FOREIGN KEY (sender_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_chat_messages_sender ON public.chat_messages USING btree (room_id, sender_id, created_at DESC);
+
+-- Clients only read; every write goes through the chat edge function
+DROP POLICY "Room members can send chat" ON public.chat_messages;
+DROP POLICY "Room members can update chat" ON public.chat_messages;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_messages;
+
+
+--
+-- Name: chat_reports; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.chat_reports (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    message_id uuid NOT NULL,
+    reporter_id uuid NOT NULL,
+    reason text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.chat_reports
+    ADD CONSTRAINT chat_reports_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.chat_reports
+    ADD CONSTRAINT chat_reports_message_id_reporter_id_key UNIQUE (message_id, reporter_id);
+
+ALTER TABLE ONLY public.chat_reports
+    ADD CONSTRAINT chat_reports_message_id_fkey FOREIGN KEY (message_id) REFERENCES public.chat_messages(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.chat_reports
+    ADD CONSTRAINT chat_reports_reporter_id_fkey FOREIGN KEY (reporter_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Only the service role reads reports
+ALTER TABLE public.chat_reports ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,28 @@
+-- Quiz Battle question history.
+--
+-- Quiz Battle dealt 10 of the same 15 questions every game, so regulars knew
+-- them all. Questions now come from a bank of several hundred, and every bank
+-- question a player is dealt is recorded here so later games deal them ones
+-- they haven't seen first. Rows are keyed by the question's text; written and
+-- read only by the game-action edge function. Custom packs imported by a host
+-- aren't recorded.
+
+
+--
+-- Name: quiz_question_history; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.quiz_question_history (
+    user_id uuid NOT NULL,
+    question text NOT NULL,
+    seen_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.quiz_question_history
+    ADD CONSTRAINT quiz_question_history_pkey PRIMARY KEY (user_id, question);
+
+ALTER TABLE ONLY public.quiz_question_history
+    ADD CONSTRAINT quiz_question_history_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- No policies: only the service role reads or writes history
+ALTER TABLE public.quiz_question_history ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,44 @@
+-- Server-only game state for validated games.
+--
+-- Moves in the games listed below are checked by the game-action edge
+-- function, which saves the resulting state with the service role. Room
+-- members could still update game_state directly and skip those checks, so
+-- for these games the column is now read-only to everyone but the server.
+-- The room's game_type is locked for the same reason. Other games keep
+-- saving their state from the clients.
+
+
+--
+-- Name: is_server_validated_game(text); Type: FUNCTION; Schema: public; Owner: -
+--
+
+-- Same game types as GAME_RULES in supabase/functions/game-action/rules.ts
+CREATE FUNCTION public.is_server_validated_game(_game_type text) RETURNS boolean
+    LANGUAGE sql IMMUTABLE
+    AS $$
+  SELECT _game_type IN ('tictactoe', 'connect4', 'rps', 'wordchain');
+$$;
+
+
+--
+-- Name: protect_validated_game_state(); Type: FUNCTION; Schema: public; Owner: -
+--
+
+CREATE FUNCTION public.protect_validated_game_state() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    IF NEW.game_type IS DISTINCT FROM OLD.game_type THEN
+      RAISE EXCEPTION 'A room''s game cannot be changed';
+    END IF;
+    IF public.is_server_validated_game(OLD.game_type) AND NEW.game_state IS DISTINCT FROM OLD.game_state THEN
+      RAISE EXCEPTION 'Moves in % are saved by the server', OLD.game_type;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_game_rooms_validated_state BEFORE UPDATE ON public.game_rooms FOR EACH ROW EXECUTE FUNCTION public.protect_validated_game_state();
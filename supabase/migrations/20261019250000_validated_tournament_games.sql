@@ -0,0 +1,48 @@
+-- Tournaments only for server-checked games.
+--
+-- The tournament edge function scores a match from the room's saved state.
+-- Quiz Battle, Math Battle and Drawing rooms are saved by the players
+-- themselves, so their results could be made up. The weekly game now rotates
+-- between the games whose moves the game-action function checks.
+
+
+--
+-- Name: current_tournament(); Type: FUNCTION; Schema: public; Owner: -
+--
+
+-- This week's tournament, created by the first player to ask for it. The game
+-- and tier rotate with the week number
+CREATE OR REPLACE FUNCTION public.current_tournament() RETURNS public.tournaments
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  week_start timestamp with time zone := date_trunc('week', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc';
+  week_number integer := floor(extract(epoch FROM week_start) / 604800)::integer;
+  game text := (ARRAY['tictactoe', 'connect4', 'rps', 'wordchain'])[week_number % 4 + 1];
+  game_name text := (ARRAY['Tic Tac Toe', 'Connect Four', 'Rock Paper Scissors', 'Word Chain'])[week_number % 4 + 1];
+  tier text := (ARRAY['bronze', 'silver', 'gold', 'platinum'])[(week_number / 4) % 4 + 1];
+  result public.tournaments;
+BEGIN
+  PERFORM public.finalize_tournaments();
+
+  INSERT INTO public.tournaments (name, game_type, tier, prize, start_date, end_date)
+  VALUES (
+    game_name || ' Championship',
+    game,
+    tier,
+    CASE tier
+      WHEN 'platinum' THEN '🏆 Legendary Badge'
+      WHEN 'gold' THEN '🥇 Gold Badge'
+      WHEN 'silver' THEN '🥈 Silver Badge'
+      ELSE '🥉 Bronze Badge'
+    END,
+    week_start,
+    week_start + interval '7 days'
+  )
+  ON CONFLICT (start_date) DO NOTHING;
+
+  SELECT * INTO result FROM public.tournaments WHERE start_date = week_start;
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Spectators in room chat.
+--
+-- Room chat could only be read and sent by the room's players, so spectators
+-- lost the chat they had before it was saved. A spectator now registers as a
+-- watcher of the room through the chat edge function, and watchers can read
+-- and send chat like players. Only the host can still remove messages.
+
+
+--
+-- Name: room_watchers; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.room_watchers (
+    room_id uuid NOT NULL,
+    user_id uuid NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.room_watchers
+    ADD CONSTRAINT room_watchers_pkey PRIMARY KEY (room_id, user_id);
+
+ALTER TABLE ONLY public.room_watchers
+    ADD CONSTRAINT room_watchers_room_id_fkey FOREIGN KEY (room_id) REFERENCES public.game_rooms(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.room_watchers
+    ADD CONSTRAINT room_watchers_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Only the chat edge function adds watchers
+ALTER TABLE public.room_watchers ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: is_room_watcher(uuid); Type: FUNCTION; Schema: public; Owner: -
+--
+
+CREATE FUNCTION public.is_room_watcher(_room_id uuid) RETURNS boolean
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.room_watchers
+    WHERE room_id = _room_id AND user_id = auth.uid()
+  );
+$$;
+
+
+--
+-- chat_messages policies
+--
+
+DROP POLICY "Room members can read chat" ON public.chat_messages;
+
+CREATE POLICY "Room members and watchers can read chat" ON public.chat_messages FOR SELECT TO authenticated
+    USING (public.is_room_member(room_id) OR public.is_room_watcher(room_id));